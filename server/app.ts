@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express from 'express';
+import { authenticate, requirePermission } from './auth';
+import type { DB } from './db';
+import type { PiiVault } from './pii';
+import type { RationaleChecker } from './rationaleChecks';
+import { errorHandler } from './http';
+import { attachmentsRouter } from './routes/attachments';
+import { auditRouter } from './routes/audit';
+import { authRouter } from './routes/auth';
+import { batchRouter } from './routes/batch';
+import { candidatesRouter } from './routes/candidates';
+import { draftsRouter } from './routes/drafts';
+import { importerRouter } from './routes/importer';
+import { notificationsRouter } from './routes/notifications';
+import { programsRouter } from './routes/programs';
+import { rationaleChecksRouter } from './routes/rationaleChecks';
+import { rulesRouter } from './routes/rules';
+import { usersRouter } from './routes/users';
+import { purgeStaleUploads } from './store/attachments';
+import { ensureAuditLog } from './store/auditLog';
+import { sealStoredAadhaar } from './store/candidates';
+import { ensureRulesVersion } from './store/rules';
+
+export function createApp(db: DB, vault: PiiVault, auditKey: Buffer, checker: RationaleChecker | null) {
+  ensureRulesVersion(db);
+  sealStoredAadhaar(db, vault);
+  ensureAuditLog(db, auditKey);
+  purgeStaleUploads(db);
+  const app = express();
+
+  app.use(express.json({ limit: '5mb' }));
+
+  app.use('/api/auth', authRouter(db));
+  app.use('/api', authenticate(db));
+  app.use('/api/candidates/batch', requirePermission('submitEntries'), batchRouter(db, vault, checker));
+  app.use('/api/candidates', candidatesRouter(db, vault, checker));
+  app.use('/api/attachments', attachmentsRouter(db, vault));
+  app.use('/api/rationale-checks', requirePermission('submitEntries'), rationaleChecksRouter(db, checker));
+  app.use('/api/drafts', requirePermission('submitEntries'), draftsRouter(db, vault));
+  app.use('/api/rules', rulesRouter(db));
+  app.use('/api/programs', programsRouter(db));
+  app.use('/api/import', requirePermission('importLegacyData'), importerRouter(db, vault));
+  app.use('/api/users', requirePermission('manageUsers'), usersRouter(db));
+  app.use('/api/audit', requirePermission('verifyAuditLog'), auditRouter(db));
+  app.use('/api/notifications', requirePermission('viewNotifications'), notificationsRouter(db));
+
+  app.use('/api', (req, res) => {
+    res.status(404).json({ error: `No route for ${req.method} ${req.originalUrl}.` });
+  });
+  app.use(errorHandler);
+
+  return app;
+}
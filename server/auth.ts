@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { DB } from './db';
+import { HttpError } from './http';
+import { findSessionUser } from './store/users';
+import { can, type Permission } from '../src/lib/permissions';
+import type { User } from '../src/lib/types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      sessionToken?: string;
+    }
+  }
+}
+
+export function bearerToken(req: Request): string | undefined {
+  const match = req.headers.authorization?.match(/^Bearer (.+)$/);
+  return match?.[1];
+}
+
+/** Rejects requests without a live session and attaches the signed-in user to `req.user`. */
+export function authenticate(db: DB): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = bearerToken(req);
+    const user = token ? findSessionUser(db, token) : undefined;
+    if (!token || !user) throw new HttpError(401, 'Sign in to continue.');
+    req.user = user;
+    req.sessionToken = token;
+    next();
+  };
+}
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!can(req.user?.role, permission)) {
+      throw new HttpError(403, 'Your role does not allow this action.');
+    }
+    next();
+  };
+}
+
+/** The signed-in user; only valid behind `authenticate`. */
+export function currentUser(req: Request): User {
+  if (!req.user) throw new HttpError(401, 'Sign in to continue.');
+  return req.user;
+}
@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export type DB = Database.Database;
+
+/**
+ * Schema changes, applied in order. `PRAGMA user_version` records how many
+ * have run, so append new entries and never edit one that has shipped.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE candidates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    legacy_id INTEGER UNIQUE,
+    full_name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    phone TEXT NOT NULL,
+    dob TEXT NOT NULL DEFAULT '',
+    qualification TEXT NOT NULL DEFAULT '',
+    grad_year TEXT NOT NULL DEFAULT '',
+    score TEXT NOT NULL DEFAULT '',
+    screening_score TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT '',
+    aadhaar TEXT NOT NULL DEFAULT '',
+    is_cgpa INTEGER NOT NULL DEFAULT 0,
+    offer_sent INTEGER NOT NULL DEFAULT 0,
+    flagged INTEGER NOT NULL DEFAULT 0,
+    exception_count INTEGER NOT NULL DEFAULT 0,
+    submitted_at TEXT NOT NULL
+  );
+
+  CREATE TABLE exceptions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    candidate_id INTEGER NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    field TEXT NOT NULL,
+    rationale TEXT NOT NULL
+  );
+  CREATE INDEX exceptions_candidate ON exceptions(candidate_id);
+
+  CREATE TABLE rule_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    config TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE rule_versions ADD COLUMN author TEXT NOT NULL DEFAULT 'unknown';
+  ALTER TABLE rule_versions ADD COLUMN note TEXT NOT NULL DEFAULT '';
+  ALTER TABLE candidates ADD COLUMN rules_version INTEGER REFERENCES rule_versions(id);
+
+  CREATE TRIGGER rule_versions_no_update BEFORE UPDATE ON rule_versions
+  BEGIN SELECT RAISE(ABORT, 'rule versions are immutable'); END;
+  CREATE TRIGGER rule_versions_no_delete BEFORE DELETE ON rule_versions
+  BEGIN SELECT RAISE(ABORT, 'rule versions are immutable'); END;
+  `,
+  `
+  ALTER TABLE candidates ADD COLUMN review_status TEXT;
+  UPDATE candidates SET review_status = 'Pending Review' WHERE flagged = 1;
+
+  ALTER TABLE exceptions ADD COLUMN decision TEXT;
+  ALTER TABLE exceptions ADD COLUMN decision_comment TEXT;
+  ALTER TABLE exceptions ADD COLUMN decided_by TEXT;
+  ALTER TABLE exceptions ADD COLUMN decided_at TEXT;
+
+  CREATE TABLE review_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    candidate_id INTEGER NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    reviewer TEXT NOT NULL,
+    comment TEXT NOT NULL DEFAULT '',
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX review_events_candidate ON review_events(candidate_id);
+  `,
+  `
+  CREATE TABLE users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    display_name TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('counsellor', 'manager', 'admin')),
+    password_hash TEXT NOT NULL,
+    active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+
+  ALTER TABLE candidates ADD COLUMN submitted_by INTEGER REFERENCES users(id);
+  CREATE INDEX candidates_submitted_by ON candidates(submitted_by);
+  `,
+  `
+  ALTER TABLE candidates ADD COLUMN aadhaar_hash TEXT;
+  ALTER TABLE candidates ADD COLUMN aadhaar_cipher TEXT;
+  CREATE INDEX candidates_aadhaar_hash ON candidates(aadhaar_hash);
+  `,
+  `
+  ALTER TABLE candidates ADD COLUMN extra_fields TEXT NOT NULL DEFAULT '{}';
+  `,
+  `
+  CREATE TABLE candidate_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    candidate_id INTEGER NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    field TEXT NOT NULL,
+    old_value TEXT NOT NULL,
+    new_value TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    changed_by TEXT NOT NULL,
+    changed_at TEXT NOT NULL
+  );
+  CREATE INDEX candidate_changes_candidate ON candidate_changes(candidate_id);
+
+  CREATE TRIGGER candidate_changes_no_update BEFORE UPDATE ON candidate_changes
+  BEGIN SELECT RAISE(ABORT, 'change history is immutable'); END;
+  `,
+  `
+  CREATE TABLE audit_events (
+    id INTEGER PRIMARY KEY,
+    type TEXT NOT NULL,
+    candidate_id INTEGER,
+    actor TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    prev_hash TEXT NOT NULL,
+    hash TEXT NOT NULL
+  );
+  CREATE INDEX audit_events_candidate ON audit_events(candidate_id);
+
+  CREATE TRIGGER audit_events_no_update BEFORE UPDATE ON audit_events
+  BEGIN SELECT RAISE(ABORT, 'audit events are immutable'); END;
+  CREATE TRIGGER audit_events_no_delete BEFORE DELETE ON audit_events
+  BEGIN SELECT RAISE(ABORT, 'audit events are immutable'); END;
+  `,
+  `
+  CREATE TABLE drafts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    form_cipher TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX drafts_user ON drafts(user_id);
+  `,
+  `
+  CREATE TABLE attachments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    candidate_id INTEGER REFERENCES candidates(id) ON DELETE CASCADE,
+    field TEXT,
+    file_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    sha256 TEXT NOT NULL,
+    content BLOB NOT NULL,
+    uploaded_by INTEGER NOT NULL REFERENCES users(id),
+    uploaded_at TEXT NOT NULL
+  );
+  CREATE INDEX attachments_candidate ON attachments(candidate_id);
+
+  CREATE TRIGGER attachments_no_rewrite BEFORE UPDATE OF field, file_name, content_type, size, sha256, content ON attachments
+  BEGIN SELECT RAISE(ABORT, 'attachments cannot be changed once uploaded'); END;
+  `,
+  `
+  CREATE TABLE offer_letters (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    candidate_id INTEGER NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    program TEXT NOT NULL,
+    start_date TEXT NOT NULL,
+    accept_by TEXT NOT NULL,
+    rules_version INTEGER NOT NULL REFERENCES rule_versions(id),
+    sha256 TEXT NOT NULL,
+    content BLOB NOT NULL,
+    issued_by INTEGER NOT NULL REFERENCES users(id),
+    issued_at TEXT NOT NULL
+  );
+  CREATE INDEX offer_letters_candidate ON offer_letters(candidate_id);
+
+  CREATE TRIGGER offer_letters_no_update BEFORE UPDATE ON offer_letters
+  BEGIN SELECT RAISE(ABORT, 'offer letters cannot be changed once issued'); END;
+  `,
+  `
+  ALTER TABLE users ADD COLUMN email TEXT;
+
+  CREATE TABLE notifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    candidate_id INTEGER REFERENCES candidates(id) ON DELETE CASCADE,
+    offer_letter_id INTEGER REFERENCES offer_letters(id) ON DELETE CASCADE,
+    recipient TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TEXT,
+    created_at TEXT NOT NULL,
+    sent_at TEXT
+  );
+  CREATE INDEX notifications_due ON notifications(status, next_attempt_at);
+  `,
+  `
+  CREATE TABLE programs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    opens_on TEXT NOT NULL,
+    closes_on TEXT NOT NULL,
+    reference_date TEXT NOT NULL,
+    seats INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  ALTER TABLE rule_versions ADD COLUMN program_id INTEGER REFERENCES programs(id);
+  CREATE INDEX rule_versions_program ON rule_versions(program_id);
+  ALTER TABLE candidates ADD COLUMN program_id INTEGER REFERENCES programs(id);
+  CREATE INDEX candidates_program ON candidates(program_id);
+  `,
+  `
+  ALTER TABLE exceptions ADD COLUMN quality_score INTEGER;
+  ALTER TABLE exceptions ADD COLUMN quality_critique TEXT;
+  ALTER TABLE exceptions ADD COLUMN quality_checker TEXT;
+  ALTER TABLE exceptions ADD COLUMN quality_checked_at TEXT;
+  `
+];
+
+function migrate(db: DB) {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(current).forEach((sql, i) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${current + i + 1}`);
+    })();
+  });
+}
+
+export function openDatabase(file: string): DB {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DB } from './db';
+import type { PiiVault } from './pii';
+import { findByFieldValue } from './store/candidates';
+import { duplicateCheckedFields, type DuplicateHints, type DuplicateMatches } from '../src/lib/duplicates';
+import type { RulesConfig } from '../src/lib/types';
+
+/**
+ * Looks up existing entries for each value whose field the rules ask to check.
+ * Fields without a match are left out. `viewerId` is passed through to mark
+ * which matches the viewer may open.
+ */
+export function findDuplicates(
+  db: DB,
+  vault: PiiVault,
+  values: Record<string, string>,
+  rules: RulesConfig,
+  viewerId?: number
+): DuplicateMatches {
+  const matches: DuplicateMatches = {};
+  duplicateCheckedFields(rules).forEach(field => {
+    const value = values[field]?.trim();
+    if (!value) return;
+    const found = findByFieldValue(db, vault, field, value, viewerId);
+    if (found.length > 0) matches[field] = found;
+  });
+  return matches;
+}
+
+/**
+ * The matches as the viewer may see them: entries they cannot open are
+ * reduced to one note per field that the value is on file, without the
+ * name, status or submitter, so the lookup does not reveal other entries.
+ */
+export function visibleDuplicates(matches: DuplicateMatches): DuplicateHints {
+  const hints: DuplicateHints = {};
+  Object.entries(matches).forEach(([field, found]) => {
+    const openable = found.filter(match => match.canOpen);
+    hints[field] = openable.length < found.length ? [...openable, { field, exists: true }] : openable;
+  });
+  return hints;
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { evaluateExpression, ExpressionError, expressionProblem, parseExpression, type ExpressionScope } from '../src/lib/expression';
+
+const scope: ExpressionScope = {
+  values: { score: '72.5', gradYear: '2018', dob: '1995-06-01', qualification: 'MCA', status: 'Cleared', isCgpa: false },
+  age: () => 30
+};
+
+const evaluate = (source: string) => evaluateExpression(parseExpression(source), scope);
+
+function parseError(source: string): ExpressionError {
+  try {
+    parseExpression(source);
+  } catch (err) {
+    if (err instanceof ExpressionError) return err;
+    throw err;
+  }
+  assert.fail(`"${source}" parsed`);
+}
+
+test('multiplication binds tighter than addition, and parentheses override it', () => {
+  assert.equal(evaluate('2 + 3 * 4'), 14);
+  assert.equal(evaluate('(2 + 3) * 4'), 20);
+  assert.equal(evaluate('10 - 4 - 3'), 3);
+  assert.equal(evaluate('12 / 2 / 3'), 2);
+  assert.equal(evaluate('-2 * -3'), 6);
+});
+
+test('arithmetic binds tighter than comparison, and comparison tighter than logic', () => {
+  assert.equal(evaluate('gradYear - year(dob) >= 20 + 3'), true);
+  assert.equal(evaluate('1 < 2 and 3 < 2 or 2 == 2'), true);
+  assert.equal(evaluate('false and false or true'), true);
+  assert.equal(evaluate('false and (false or true)'), false);
+});
+
+test('not binds tighter than and, but looser than comparison', () => {
+  assert.equal(evaluate('not 1 > 2 and true'), true);
+  assert.equal(evaluate('not (true and false)'), true);
+  assert.equal(evaluate('not not true'), true);
+});
+
+test('symbolic operators mean the same as their words', () => {
+  assert.equal(evaluate('!(1 = 2) && (1 ≠ 1 || 2 ≥ 2)'), true);
+  assert.equal(evaluate('3 ≤ 2'), false);
+});
+
+test('field values compare as numbers when both sides look like numbers', () => {
+  assert.equal(evaluate('score == 72.50'), true);
+  assert.equal(evaluate('score > 70'), true);
+  assert.equal(evaluate("status == 'Cleared'"), true);
+  assert.equal(evaluate('missing == ""'), true);
+});
+
+test('in and not in test membership of lists and text', () => {
+  assert.equal(evaluate("qualification in ['M.Tech', 'MCA']"), true);
+  assert.equal(evaluate("qualification not in ['M.Tech', 'MCA']"), false);
+  assert.equal(evaluate("'C' in qualification"), true);
+  assert.equal(evaluate('2018 in [2017, gradYear]'), true);
+});
+
+test('functions read dates and text', () => {
+  assert.equal(evaluate('year(dob)'), 1995);
+  assert.equal(evaluate('age(dob) == 30'), true);
+  assert.equal(evaluate('len(qualification)'), 3);
+  assert.equal(evaluate("lower(qualification) == 'mca'"), true);
+});
+
+test('syntax errors say where they are', () => {
+  assert.equal(parseError('score >=').message, 'The expression ends too early.');
+  assert.equal(parseError('score >=').position, 8);
+  assert.equal(parseError('(score > 1').message, 'Expected ")" at the end.');
+  assert.equal(parseError('score > 1)').message, 'Unexpected ")".');
+  assert.equal(parseError("status == 'Cleared").message, 'Unterminated string.');
+  assert.equal(parseError('score # 2').position, 6);
+  assert.equal(parseError('[1, 2').message, 'Expected "]" at the end.');
+});
+
+test('functions must exist and get the right number of arguments', () => {
+  assert.equal(parseError('sqrt(score)').message, 'Unknown function "sqrt".');
+  assert.equal(parseError('year(dob, 2)').message, 'year() takes 1 argument.');
+  assert.equal(parseError('len()').message, 'len() takes 1 argument.');
+});
+
+test('expression problems name the character and unknown fields', () => {
+  assert.equal(expressionProblem('score >= 60', ['score']), '');
+  assert.equal(expressionProblem('   ', ['score']), 'Enter an expression.');
+  assert.equal(expressionProblem('score >', ['score']), 'At character 8: The expression ends too early.');
+  assert.equal(expressionProblem('scor > 1 and grade < 2', ['score']), 'Unknown fields: scor, grade.');
+});
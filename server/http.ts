@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+
+/** An error that maps directly onto an HTTP response. `details` is merged into the JSON body. */
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/** Whether a parsed JSON value is an object, as request bodies and the objects inside them have to be. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function parseId(raw: string): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, `Invalid id "${raw}".`);
+  return id;
+}
+
+export function errorHandler(err: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) return next(err);
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message, ...err.details });
+    return;
+  }
+  // Body parsers reject oversized or malformed bodies with a client status of their own.
+  const parserError = err as { status?: unknown; expose?: unknown; message?: string };
+  if (typeof parserError.status === 'number' && parserError.status < 500 && parserError.expose) {
+    res.status(parserError.status).json({ error: parserError.message });
+    return;
+  }
+  console.error(err);
+  res.status(500).json({ error: 'Internal server error.' });
+}
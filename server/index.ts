@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'dotenv/config';
+import { createApp } from './app';
+import { openDatabase } from './db';
+import { loadMailTransport } from './mail';
+import { startOutbox } from './outbox';
+import { loadRationaleChecker } from './rationaleChecks';
+import { loadAuditKey } from './keys';
+import { createPiiVault, loadPiiKey } from './pii';
+import { chainHead } from './store/auditLog';
+import { ensureAdminUser } from './store/users';
+
+const port = Number(process.env.PORT) || 3001;
+const dbFile = process.env.ADMITGUARD_DB || 'data/admitguard.db';
+const db = openDatabase(dbFile);
+const vault = createPiiVault(loadPiiKey(dbFile));
+const auditKey = loadAuditKey(dbFile);
+const transport = loadMailTransport(dbFile);
+const checker = loadRationaleChecker();
+
+const generatedPassword = ensureAdminUser(db, process.env.ADMITGUARD_ADMIN_PASSWORD);
+if (generatedPassword) {
+  console.log(`Created user "admin" with password ${generatedPassword}; change it after signing in.`);
+}
+
+const app = createApp(db, vault, auditKey, checker);
+// The server's own log keeps a copy of the head outside the database at every start.
+const head = chainHead(db);
+if (head) console.log(`Audit trail head: event ${head.eventCount}, ${head.headHash}`);
+
+app.listen(port, () => {
+  console.log(`AdmitGuard API listening on http://localhost:${port}`);
+  console.log(`Sending notifications via ${transport.description}`);
+  console.log(checker ? `Checking exception rationales with ${checker.description}` : 'Exception rationale checks are off');
+  startOutbox(db, transport);
+});
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A 32-byte server secret from the environment variable `env` (base64), or
+ * else from `fileName` next to the database, which is created on first start.
+ * Keys live outside the database, so a copy of it, or write access to it,
+ * does not give them away.
+ */
+export function loadKey(dbFile: string, env: string, fileName: string): Buffer {
+  const fromEnv = process.env[env];
+  if (fromEnv) {
+    const key = Buffer.from(fromEnv, 'base64');
+    if (key.length !== 32) throw new Error(`${env} must be 32 bytes, base64-encoded.`);
+    return key;
+  }
+  if (dbFile === ':memory:') return crypto.randomBytes(32);
+
+  const keyFile = path.join(path.dirname(dbFile), fileName);
+  if (!fs.existsSync(keyFile)) {
+    fs.writeFileSync(keyFile, crypto.randomBytes(32).toString('base64'), { mode: 0o600 });
+  }
+  const key = Buffer.from(fs.readFileSync(keyFile, 'utf8').trim(), 'base64');
+  if (key.length !== 32) throw new Error(`${keyFile} does not hold a 32-byte base64 key.`);
+  return key;
+}
+
+/**
+ * The key the audit trail's hashes are keyed with, from `ADMITGUARD_AUDIT_KEY`
+ * or `audit.key`. Without it nobody can recompute the chain after rewriting
+ * events; losing it makes every event fail verification.
+ */
+export function loadAuditKey(dbFile: string): Buffer {
+  return loadKey(dbFile, 'ADMITGUARD_AUDIT_KEY', 'audit.key');
+}
@@ -0,0 +1,280 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+
+export interface MailAttachment {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  /** Plain text. */
+  body: string;
+  attachments: MailAttachment[];
+}
+
+/** Hands finished emails on for delivery. `send` resolves once the message is accepted. */
+export interface MailTransport {
+  /** Where mail goes, e.g. "SMTP mail.example.com:587", for the logs. */
+  readonly description: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/** A delivery failure. Permanent ones, like a refused recipient, are not worth retrying. */
+export class MailError extends Error {
+  constructor(message: string, public permanent = false) {
+    super(message);
+  }
+}
+
+const ADDRESS = /^[^\s<>@",;]+@[^\s<>@",;]+$/;
+
+/** The bare address of `Name <address>` or of an address on its own. */
+function addressOf(mailbox: string): string {
+  const address = (/<([^>]*)>/.exec(mailbox)?.[1] ?? mailbox).trim();
+  if (!ADDRESS.test(address)) throw new MailError(`"${mailbox}" is not an email address.`, true);
+  return address;
+}
+
+/** A header value as RFC 2047 words when it is not plain ASCII. */
+function headerText(text: string): string {
+  const flat = text.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(flat) ? flat : `=?UTF-8?B?${Buffer.from(flat, 'utf8').toString('base64')}?=`;
+}
+
+/** Base64 in lines of 76 characters, as MIME wants it. */
+function base64Lines(content: Buffer): string {
+  return (content.toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+/** Headers and content of the text part: 7-bit as written if it is plain ASCII, base64 otherwise. */
+function textPart(body: string): string[] {
+  const text = body.replace(/\r?\n/g, '\r\n');
+  if (/^[\x09\x0a\x0d\x20-\x7e]*$/.test(text) && text.split('\r\n').every(line => line.length <= 998)) {
+    return ['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: 7bit', '', text];
+  }
+  return ['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64', '', base64Lines(Buffer.from(text, 'utf8'))];
+}
+
+/** The message in RFC 5322 form with CRLF line ends, multipart when it has attachments. */
+export function formatMessage(from: string, message: MailMessage): Buffer {
+  const domain = addressOf(from).split('@')[1];
+  const headers = [
+    `From: ${from.replace(/[\r\n]+/g, ' ')}`,
+    `To: ${addressOf(message.to)}`,
+    `Subject: ${headerText(message.subject)}`,
+    `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0'
+  ];
+  if (message.attachments.length === 0) {
+    return Buffer.from([...headers, ...textPart(message.body), ''].join('\r\n'), 'utf8');
+  }
+
+  const boundary = `=_admitguard_${crypto.randomBytes(12).toString('hex')}`;
+  const lines = [...headers, `Content-Type: multipart/mixed; boundary="${boundary}"`, '', `--${boundary}`, ...textPart(message.body)];
+  message.attachments.forEach(attachment => {
+    const name = headerText(attachment.fileName).replace(/"/g, "'");
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${name}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${name}"`,
+      '',
+      base64Lines(attachment.content)
+    );
+  });
+  lines.push(`--${boundary}--`, '');
+  return Buffer.from(lines.join('\r\n'), 'utf8');
+}
+
+/**
+ * Writes each message as a file into a Maildir (`new/`, by way of `tmp/`), so
+ * any mail client can open what would have been sent. For trying AdmitGuard
+ * out and for testing; nothing leaves the machine.
+ */
+export function maildirTransport(dir: string, from: string): MailTransport {
+  let sequence = 0;
+  return {
+    description: `Maildir ${path.resolve(dir)}`,
+    async send(message) {
+      const content = formatMessage(from, message);
+      await Promise.all(['tmp', 'new', 'cur'].map(sub => fs.promises.mkdir(path.join(dir, sub), { recursive: true })));
+      const name = `${Date.now()}.P${process.pid}Q${++sequence}.${os.hostname().replace(/[/:]/g, '_')}`;
+      await fs.promises.writeFile(path.join(dir, 'tmp', name), content);
+      await fs.promises.rename(path.join(dir, 'tmp', name), path.join(dir, 'new', name));
+    }
+  };
+}
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/** Reads SMTP replies off a socket, one `read()` per reply, including multi-line ones. */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(public socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  /** Reads from a new socket, i.e. the TLS one after STARTTLS. */
+  attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new MailError('The mail server stopped responding.')));
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('latin1')));
+    socket.on('error', err => this.fail(err));
+    socket.on('close', () => this.fail(new MailError('The mail server closed the connection.')));
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /** Sends a command and requires one of the expected reply codes. */
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, line.split(' ')[0]);
+  }
+
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new MailError(`${step} was refused: ${reply.code} ${reply.lines.join(' ')}`, reply.code >= 500);
+    }
+    return reply;
+  }
+
+  private receive(text: string) {
+    this.buffer += text;
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.lines.push(line.slice(4));
+      // "250-…" continues a reply, "250 …" ends it.
+      if (line[3] !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply) {
+    if (this.waiting) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(err: Error) {
+    this.failure ??= err;
+    this.waiting?.reject(this.failure);
+    this.waiting = null;
+  }
+}
+
+/** Escapes lines starting with "." so none ends the DATA section early. */
+function dotStuffed(content: Buffer): string {
+  return content.toString('latin1').replace(/(^|\r\n)\./g, '$1..');
+}
+
+/**
+ * Delivers over SMTP to the server in `url`: `smtp://` upgrades with STARTTLS
+ * when the server offers it, `smtps://` connects over TLS from the start.
+ * Credentials in the URL are sent with AUTH PLAIN, and never unencrypted.
+ */
+export function smtpTransport(url: string, from: string): MailTransport {
+  const server = new URL(url);
+  if (server.protocol !== 'smtp:' && server.protocol !== 'smtps:') {
+    throw new Error('ADMITGUARD_SMTP_URL must start with smtp:// or smtps://.');
+  }
+  const secure = server.protocol === 'smtps:';
+  const host = server.hostname;
+  const port = Number(server.port) || (secure ? 465 : 587);
+  const username = decodeURIComponent(server.username);
+  const password = decodeURIComponent(server.password);
+
+  return {
+    description: `SMTP ${host}:${port}`,
+    async send(message) {
+      const content = formatMessage(from, message);
+      const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+      const connection = new SmtpConnection(socket);
+      try {
+        await connection.expect([220], 'Connecting');
+        const hello = await connection.command(`EHLO ${os.hostname()}`, [250]);
+        let encrypted = secure;
+        if (!secure && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+          await connection.command('STARTTLS', [220]);
+          connection.socket.removeAllListeners('data');
+          connection.socket.removeAllListeners('close');
+          connection.attach(tls.connect({ socket: connection.socket, servername: host }));
+          encrypted = true;
+          await connection.command(`EHLO ${os.hostname()}`, [250]);
+        }
+        if (username) {
+          if (!encrypted) throw new MailError(`${host} does not offer STARTTLS, so the credentials were not sent.`);
+          const token = Buffer.from(`\0${username}\0${password}`, 'utf8').toString('base64');
+          await connection.command(`AUTH PLAIN ${token}`, [235]);
+        }
+        await connection.command(`MAIL FROM:<${addressOf(from)}>`, [250]);
+        await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+        await connection.command('DATA', [354]);
+        connection.socket.write(`${dotStuffed(content)}\r\n.\r\n`, 'latin1');
+        await connection.expect([250], 'The message');
+        connection.socket.write('QUIT\r\n');
+      } finally {
+        connection.socket.end();
+      }
+    }
+  };
+}
+
+/**
+ * The transport `ADMITGUARD_MAIL_TRANSPORT` picks: `smtp`, which needs
+ * `ADMITGUARD_SMTP_URL`, or `maildir` (the default), which writes to
+ * `ADMITGUARD_MAILDIR` or else `maildir/` next to the database. Mail is from
+ * `ADMITGUARD_MAIL_FROM`.
+ */
+export function loadMailTransport(dbFile: string): MailTransport {
+  const from = process.env.ADMITGUARD_MAIL_FROM || 'AdmitGuard <admitguard@localhost>';
+  addressOf(from);
+  const kind = process.env.ADMITGUARD_MAIL_TRANSPORT || 'maildir';
+  if (kind === 'smtp') {
+    const url = process.env.ADMITGUARD_SMTP_URL;
+    if (!url) throw new Error('ADMITGUARD_SMTP_URL is required when ADMITGUARD_MAIL_TRANSPORT is smtp.');
+    return smtpTransport(url, from);
+  }
+  if (kind === 'maildir') {
+    const dir = process.env.ADMITGUARD_MAILDIR || path.join(dbFile === ':memory:' ? 'data' : path.dirname(dbFile), 'maildir');
+    return maildirTransport(dir, from);
+  }
+  throw new Error('ADMITGUARD_MAIL_TRANSPORT must be smtp or maildir.');
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DB } from './db';
+import { MailError, type MailTransport } from './mail';
+import { dueNotifications, markAttemptFailed, markSent, type DueNotification } from './store/notifications';
+
+/** How often the outbox is checked for due emails. */
+const POLL_INTERVAL_MS = 10_000;
+
+/** Emails sent per check; the rest wait for the next one. */
+const BATCH_SIZE = 20;
+
+/** Wait before each retry: after the first failed attempt, the second, and so on. Once they are used up the email has failed. */
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+
+function toMessage(notification: DueNotification) {
+  return {
+    to: notification.recipient,
+    subject: notification.subject,
+    body: notification.body,
+    attachments: notification.offerLetter
+      ? [{ fileName: 'Offer letter.pdf', contentType: 'application/pdf', content: notification.offerLetter }]
+      : []
+  };
+}
+
+/** Tries every due email once; failures are queued again after a delay until the retries run out. */
+export async function deliverDue(db: DB, transport: MailTransport): Promise<{ sent: number; failed: number }> {
+  let sent = 0;
+  let failed = 0;
+  for (const notification of dueNotifications(db, new Date().toISOString(), BATCH_SIZE)) {
+    try {
+      await transport.send(toMessage(notification));
+      markSent(db, notification.id);
+      sent++;
+    } catch (err) {
+      const delay = err instanceof MailError && err.permanent ? undefined : RETRY_DELAYS_MS[notification.attempts];
+      markAttemptFailed(db, notification.id, (err as Error).message, delay === undefined ? null : new Date(Date.now() + delay).toISOString());
+      failed++;
+    }
+  }
+  return { sent, failed };
+}
+
+/**
+ * Delivers the outbox in the background for as long as the process runs.
+ * Checks never overlap, so a slow mail server cannot send an email twice.
+ */
+export function startOutbox(db: DB, transport: MailTransport): { stop: () => void } {
+  let running = false;
+  const check = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { sent, failed } = await deliverDue(db, transport);
+      if (sent + failed > 0) console.log(`Outbox: ${sent} sent, ${failed} failed via ${transport.description}.`);
+    } catch (err) {
+      console.error('Outbox check failed:', err);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(check, POLL_INTERVAL_MS);
+  timer.unref();
+  check();
+  return { stop: () => clearInterval(timer) };
+}
@@ -0,0 +1,222 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import zlib from 'zlib';
+import type { LetterBlock, LetterRun } from '../src/lib/offerLetter';
+
+/**
+ * A small PDF writer for letters: A4 pages of headings, paragraphs and list
+ * items, wrapped to the page in the standard Helvetica fonts, which every
+ * PDF reader has, so nothing needs to be embedded.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 72;
+const LIST_INDENT = 24;
+const LINE_HEIGHT = 1.4;
+
+const STYLES: Record<LetterBlock['kind'], { size: number; bold: boolean; spaceAfter: number }> = {
+  h1: { size: 20, bold: true, spaceAfter: 14 },
+  h2: { size: 15, bold: true, spaceAfter: 10 },
+  h3: { size: 12.5, bold: true, spaceAfter: 8 },
+  p: { size: 11, bold: false, spaceAfter: 10 },
+  li: { size: 11, bold: false, spaceAfter: 4 }
+};
+
+/** Resource names of the four Helvetica faces, indexed by bold + 2 × italic. */
+const FONTS = [['F1', 'Helvetica'], ['F2', 'Helvetica-Bold'], ['F3', 'Helvetica-Oblique'], ['F4', 'Helvetica-BoldOblique']];
+
+/** Advance widths of ASCII 32–126 in thousandths of the font size, from the Helvetica AFM metrics. */
+const REGULAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+/** Characters outside Latin-1 that WinAnsiEncoding still has, with their code and regular/bold widths. */
+const WIN_ANSI_EXTRAS: Record<string, [number, number, number]> = {
+  '€': [0x80, 556, 556], '…': [0x85, 1000, 1000], '‘': [0x91, 222, 278], '’': [0x92, 222, 278],
+  '“': [0x93, 333, 500], '”': [0x94, 333, 500], '•': [0x95, 350, 350], '–': [0x96, 556, 556], '—': [0x97, 1000, 1000]
+};
+
+/** The WinAnsi code and width of a character; anything the fonts lack prints as "?". */
+function glyph(char: string, bold: boolean): { code: number; width: number } {
+  const point = char.codePointAt(0)!;
+  if (point >= 32 && point <= 126) return { code: point, width: (bold ? BOLD_WIDTHS : REGULAR_WIDTHS)[point - 32] };
+  if (point >= 160 && point <= 255) return { code: point, width: 556 };
+  const extra = WIN_ANSI_EXTRAS[char];
+  if (extra) return { code: extra[0], width: bold ? extra[2] : extra[1] };
+  return { code: 63, width: bold ? 611 : 556 };
+}
+
+function textWidth(text: string, bold: boolean, size: number): number {
+  return [...text].reduce((sum, char) => sum + glyph(char, bold).width, 0) * size / 1000;
+}
+
+/** A PDF hex string of the text in WinAnsiEncoding. */
+function encodeText(text: string): string {
+  return `<${[...text].map(char => glyph(char, false).code.toString(16).padStart(2, '0')).join('')}>`;
+}
+
+interface Segment {
+  text: string;
+  font: string;
+  bold: boolean;
+  width: number;
+}
+
+/** Breaks a block's runs into lines no wider than `maxWidth`. */
+function wrap(runs: LetterRun[], size: number, headingBold: boolean, maxWidth: number): Segment[][] {
+  const lines: Segment[][] = [[]];
+  let lineWidth = 0;
+
+  const place = (text: string, run: LetterRun) => {
+    const bold = headingBold || run.bold;
+    const font = FONTS[(bold ? 1 : 0) + (run.italic ? 2 : 0)][0];
+    const width = textWidth(text, bold, size);
+    const line = lines[lines.length - 1];
+    if (text === ' ') {
+      // Spaces are dropped at line starts and where a line wraps.
+      if (line.length > 0) {
+        line.push({ text, font, bold, width });
+        lineWidth += width;
+      }
+      return;
+    }
+    if (lineWidth + width > maxWidth && line.length > 0) {
+      while (line.length > 0 && line[line.length - 1].text === ' ') line.pop();
+      lines.push([]);
+      lineWidth = 0;
+    }
+    if (width > maxWidth) {
+      // A word longer than a whole line is split wherever it reaches the edge.
+      let part = '';
+      for (const char of text) {
+        if (part && textWidth(part + char, bold, size) > maxWidth) {
+          lines[lines.length - 1].push({ text: part, font, bold, width: textWidth(part, bold, size) });
+          lines.push([]);
+          part = '';
+        }
+        part += char;
+      }
+      lines[lines.length - 1].push({ text: part, font, bold, width: textWidth(part, bold, size) });
+      lineWidth = textWidth(part, bold, size);
+      return;
+    }
+    lines[lines.length - 1].push({ text, font, bold, width });
+    lineWidth += width;
+  };
+
+  runs.forEach(run => {
+    if (run.text === '\n') {
+      lines.push([]);
+      lineWidth = 0;
+      return;
+    }
+    run.text.split(/( )/).filter(Boolean).forEach(token => place(token, run));
+  });
+  return lines;
+}
+
+/** Content streams, one per page, drawing the blocks top to bottom. */
+function layOut(blocks: LetterBlock[]): string[] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPageIfBelow = (height: number) => {
+    if (y - height < MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+  const draw = (x: number, text: string, font: string, size: number) => {
+    pages[pages.length - 1].push(`BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${encodeText(text)} Tj ET`);
+  };
+
+  blocks.forEach(block => {
+    const style = STYLES[block.kind];
+    const lineHeight = style.size * LINE_HEIGHT;
+    const left = MARGIN + (block.kind === 'li' ? LIST_INDENT : 0);
+    const lines = wrap(block.runs, style.size, style.bold, PAGE_WIDTH - MARGIN - left);
+    lines.forEach((line, i) => {
+      newPageIfBelow(lineHeight);
+      y -= style.size;
+      if (i === 0 && block.marker) draw(MARGIN + 6, block.marker, FONTS[0][0], style.size);
+      let x = left;
+      line.forEach(segment => {
+        if (segment.text !== ' ') draw(x, segment.text, segment.font, style.size);
+        x += segment.width;
+      });
+      y -= lineHeight - style.size;
+    });
+    y -= style.spaceAfter;
+  });
+  return pages.map(commands => commands.join('\n'));
+}
+
+/** A PDF text string that survives any characters: UTF-16BE with a byte order mark. */
+function infoString(text: string): string {
+  const utf16 = Buffer.from(`\ufeff${text}`, 'utf16le').swap16();
+  return `<${utf16.toString('hex')}>`;
+}
+
+/** Renders the blocks of a letter as a PDF. `createdAt` is an ISO-8601 time. */
+export function renderPdf(blocks: LetterBlock[], meta: { title: string; createdAt: string }): Buffer {
+  const pages = layOut(blocks);
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length;
+  };
+
+  // Object numbers are fixed up front: catalog, page tree, fonts, info, then a page and its content per page.
+  const pageIds = pages.map((_, i) => 4 + FONTS.length + i * 2);
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  FONTS.forEach(([, name]) => add(`<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`));
+  const date = meta.createdAt.replace(/[-:T]/g, '').slice(0, 14);
+  const infoId = add(`<< /Title ${infoString(meta.title)} /Producer (AdmitGuard) /CreationDate (D:${date}Z) >>`);
+  const fonts = FONTS.map(([key], i) => `/${key} ${3 + i} 0 R`).join(' ');
+  pages.forEach((content, i) => {
+    add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fonts} >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+    const stream = zlib.deflateSync(Buffer.from(content, 'latin1'));
+    add(Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      stream,
+      Buffer.from('\nendstream', 'latin1')
+    ]));
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets = objects.map((body, i) => {
+    const start = offset;
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    chunks.push(chunk);
+    offset += chunk.length;
+    return start;
+  });
+  chunks.push(Buffer.from([
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(start => `${String(start).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    ''
+  ].join('\n'), 'latin1'));
+  return Buffer.concat(chunks);
+}
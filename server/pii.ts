@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import { loadKey } from './keys';
+
+/**
+ * Protects national ID numbers at rest. The database keeps a masked copy for
+ * display, an AES-256-GCM ciphertext for privileged users, and a keyed hash so
+ * duplicates can be found without decrypting anything.
+ */
+export interface PiiVault {
+  encrypt(plain: string): string;
+  decrypt(sealed: string): string;
+  /** Deterministic keyed hash for equality lookups. */
+  fingerprint(plain: string): string;
+}
+
+export function createPiiVault(key: Buffer): PiiVault {
+  const encryptionKey = Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), 'admitguard pii encryption', 32));
+  const hashKey = Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), 'admitguard pii fingerprint', 32));
+
+  return {
+    encrypt(plain) {
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey, iv);
+      const body = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+      return [iv, cipher.getAuthTag(), body].map(part => part.toString('base64')).join('.');
+    },
+    decrypt(sealed) {
+      const [iv, tag, body] = sealed.split('.').map(part => Buffer.from(part, 'base64'));
+      const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(body), decipher.final()]).toString('utf8');
+    },
+    fingerprint(plain) {
+      return crypto.createHmac('sha256', hashKey).update(plain.replace(/\D/g, '')).digest('hex');
+    }
+  };
+}
+
+/**
+ * The 32-byte key from `ADMITGUARD_PII_KEY` (base64), or else from `pii.key`
+ * next to the database, which is created on first start. Losing the key makes
+ * stored Aadhaar numbers unrecoverable and breaks duplicate detection on them.
+ */
+export function loadPiiKey(dbFile: string): Buffer {
+  return loadKey(dbFile, 'ADMITGUARD_PII_KEY', 'pii.key');
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { localChecker, localRationaleCheck } from './rationaleChecks';
+
+const waiver = { label: 'Date of Birth', warning: 'Candidate age is 36. Age must be between 18 and 35' };
+
+const BOILERPLATE = 'Special case: approved by management, please approve as per policy.';
+const SPECIFIC = 'Approved by Dr. Mehta of the admissions committee on 12 March 2026: the candidate is over the age limit '
+  + 'because of two years of army service, documented in the attached discharge letter.';
+
+test('boilerplate scores low and is called out', () => {
+  const { score, critique } = localRationaleCheck({ ...waiver, rationale: BOILERPLATE });
+  assert.ok(score < 30, `scored ${score}`);
+  assert.match(critique, /fits any waiver/);
+});
+
+test('repetition scores low', () => {
+  const { score, critique } = localRationaleCheck({ ...waiver, rationale: 'documents pending documents pending documents pending' });
+  assert.ok(score < 30, `scored ${score}`);
+  assert.match(critique, /repeats itself/);
+});
+
+test('a specific rationale that addresses the warning scores high', () => {
+  const { score, critique } = localRationaleCheck({ ...waiver, rationale: SPECIFIC });
+  assert.ok(score >= 70, `scored ${score}`);
+  assert.equal(critique, 'Specific and on point.');
+});
+
+test('a specific rationale scores well above boilerplate', () => {
+  const specific = localRationaleCheck({ ...waiver, rationale: SPECIFIC }).score;
+  const boilerplate = localRationaleCheck({ ...waiver, rationale: BOILERPLATE }).score;
+  assert.ok(specific - boilerplate >= 40, `${specific} against ${boilerplate}`);
+});
+
+test('a rationale about something else is told it misses the warning', () => {
+  const rationale = 'Approved by Dr. Mehta on 12 March 2026 after reviewing the transcripts and interview notes with the panel.';
+  const { critique } = localRationaleCheck({ ...waiver, rationale });
+  assert.match(critique, /does not address the warning/);
+});
+
+test('the same rationale always gets the same score', async () => {
+  const checker = localChecker();
+  assert.equal(checker.description, 'local');
+  const first = await checker.check({ ...waiver, rationale: SPECIFIC });
+  assert.deepEqual(await checker.check({ ...waiver, rationale: SPECIFIC }), first);
+  assert.deepEqual(localRationaleCheck({ ...waiver, rationale: SPECIFIC }), first);
+});
+
+test('an empty rationale scores nothing', () => {
+  assert.equal(localRationaleCheck({ ...waiver, rationale: '' }).score, 0);
+});
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, Type } from '@google/genai';
+import type { DB } from './db';
+import { recordRationaleCheck, uncheckedRationales } from './store/rationaleChecks';
+import type { RationaleCheck, RulesConfig } from '../src/lib/types';
+
+/** A waiver's rationale, with what it waives. */
+export interface RationaleCheckRequest {
+  /** The waived field's label, or the id of a cross-field rule. */
+  label: string;
+  /** The warning as the form showed it. */
+  warning: string;
+  rationale: string;
+}
+
+/** Scores rationales. `check` rejects when the checker cannot be reached. */
+export interface RationaleChecker {
+  /** Which checker scores, e.g. "gemini-2.5-flash", recorded with each score. */
+  readonly description: string;
+  check(request: RationaleCheckRequest): Promise<Pick<RationaleCheck, 'score' | 'critique'>>;
+}
+
+/** Words too common to show what a rationale or a warning is about. */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'because', 'between', 'but', 'by', 'candidate', 'for', 'from', 'has', 'have',
+  'he', 'her', 'his', 'in', 'is', 'it', 'must', 'not', 'of', 'on', 'or', 'she', 'should', 'than', 'that', 'the', 'their',
+  'they', 'this', 'to', 'was', 'were', 'which', 'who', 'with'
+]);
+
+/** Phrases that fit any waiver and so explain none. */
+const BOILERPLATE = [
+  'special case', 'exceptional case', 'genuine case', 'as discussed', 'as per policy', 'valid reason', 'please approve',
+  'approved by management', 'same as above', 'case by case'
+];
+
+const words = (text: string) => (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(word => !STOP_WORDS.has(word));
+
+/** Figures, dates and names a reviewer could check: numbers, and capitalised words not starting a sentence. */
+function detailCount(text: string): number {
+  const numbers = text.match(/\d+/g)?.length ?? 0;
+  const names = text.split(/[.!?]\s+/).reduce((count, sentence) => {
+    return count + sentence.trim().split(/\s+/).slice(1).filter(word => /^[A-Z][a-z]/.test(word)).length;
+  }, 0);
+  return numbers + names;
+}
+
+/**
+ * Scores a rationale without any service: variety and amount of wording,
+ * checkable details, boilerplate, and whether it mentions what the warning
+ * is about. The same rationale always gets the same score.
+ */
+export function localRationaleCheck({ label, warning, rationale }: RationaleCheckRequest): Pick<RationaleCheck, 'score' | 'critique'> {
+  const used = words(rationale);
+  const distinct = new Set(used);
+  const variety = used.length === 0 ? 0 : distinct.size / used.length;
+  const boilerplate = BOILERPLATE.filter(phrase => rationale.toLowerCase().includes(phrase));
+  const details = detailCount(rationale);
+  // Word stems, so "graduated" answers a warning about the graduation year.
+  const stem = (word: string) => word.slice(0, 5);
+  const topic = new Set(words(`${label} ${warning}`).filter(word => !/^\d+$/.test(word)).map(stem));
+  const onTopic = [...distinct].filter(word => topic.has(stem(word))).length;
+
+  const substance = (Math.min(distinct.size, 15) / 15) * 30 * variety;
+  const evidence = (Math.min(details, 3) / 3) * 20;
+  const relevance = onTopic === 0 ? 0 : 30 + Math.min(onTopic - 1, 2) * 5;
+  const finish = distinct.size >= 8 && variety >= 0.8 && boilerplate.length === 0 ? 10 : 0;
+  const score = Math.round(Math.max(0, Math.min(100, substance + evidence + relevance + finish - boilerplate.length * 10)));
+
+  const problems: string[] = [];
+  if (used.length >= 4 && variety < 0.6) problems.push('It repeats itself; say once, in full, what makes this candidate an exception.');
+  if (boilerplate.length > 0) problems.push(`"${boilerplate[0]}" fits any waiver; give the facts behind it.`);
+  if (distinct.size < 6) problems.push('It is too short to explain the exception.');
+  if (onTopic === 0) problems.push(`It does not address the warning: "${warning || label}"`);
+  if (details === 0) problems.push('Name who approved it and give dates, figures or documents a reviewer can check.');
+  return { score, critique: problems.slice(0, 2).join(' ') || 'Specific and on point.' };
+}
+
+export function localChecker(): RationaleChecker {
+  return {
+    description: 'local',
+    check: async request => localRationaleCheck(request)
+  };
+}
+
+const GEMINI_INSTRUCTIONS = `You review the rationales admissions counsellors write to waive a validation warning for a candidate.
+Score the rationale from 0 to 100 for how specific it is (facts, names, dates and evidence a reviewer could verify, rather than boilerplate or repetition) and for how well it answers the warning it waives.
+Write the critique to the counsellor in at most two short sentences: what is missing, or that it is specific and on point.`;
+
+/** Asks a Gemini model for the score and critique. Rationales are sent to Google. */
+export function geminiChecker(apiKey: string, model: string): RationaleChecker {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    description: model,
+    async check({ label, warning, rationale }) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: `Field: ${label}\nWarning: ${warning}\nRationale: ${rationale}`,
+        config: {
+          systemInstruction: GEMINI_INSTRUCTIONS,
+          temperature: 0,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: { score: { type: Type.INTEGER }, critique: { type: Type.STRING } },
+            required: ['score', 'critique']
+          },
+          httpOptions: { timeout: 15_000 }
+        }
+      });
+      const reply = JSON.parse(response.text ?? '{}');
+      if (typeof reply.score !== 'number' || typeof reply.critique !== 'string') throw new Error(`${model} gave no score.`);
+      return { score: Math.round(Math.max(0, Math.min(100, reply.score))), critique: reply.critique.trim() };
+    }
+  };
+}
+
+/**
+ * The checker `ADMITGUARD_RATIONALE_CHECKER` picks: `local` (the default),
+ * `gemini`, which needs `GEMINI_API_KEY` and uses `ADMITGUARD_GEMINI_MODEL`,
+ * or `off` for none.
+ */
+export function loadRationaleChecker(): RationaleChecker | null {
+  const kind = process.env.ADMITGUARD_RATIONALE_CHECKER || 'local';
+  if (kind === 'off') return null;
+  if (kind === 'local') return localChecker();
+  if (kind === 'gemini') {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new Error('GEMINI_API_KEY is required when ADMITGUARD_RATIONALE_CHECKER is gemini.');
+    return geminiChecker(apiKey, process.env.ADMITGUARD_GEMINI_MODEL || 'gemini-2.5-flash');
+  }
+  throw new Error('ADMITGUARD_RATIONALE_CHECKER must be local, gemini or off.');
+}
+
+/** What a waiver of `field` is about, for the checker. */
+export function waiverLabel(field: string, rules: RulesConfig): string {
+  return rules.form.find(definition => definition.name === field)?.label ?? field;
+}
+
+/**
+ * Scores the entry's rationales that have no score yet, with the warnings the
+ * rules gave. A rationale the checker fails on stays unscored; this never rejects.
+ */
+export async function checkEntryRationales(
+  db: DB,
+  checker: RationaleChecker | null,
+  candidateId: number,
+  rules: RulesConfig,
+  warnings: Record<string, string>
+): Promise<void> {
+  if (!checker) return;
+  await Promise.all(uncheckedRationales(db, candidateId).map(async ({ field, rationale }) => {
+    try {
+      const result = await checker.check({ label: waiverLabel(field, rules), warning: warnings[field] ?? '', rationale });
+      recordRationaleCheck(db, candidateId, field, rationale, { ...result, checker: checker.description, checkedAt: new Date().toISOString() });
+    } catch (err) {
+      console.error(`Could not check the ${field} rationale of entry ${candidateId}:`, err);
+    }
+  }));
+}
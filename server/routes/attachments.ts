@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express, { Router, type Request } from 'express';
+import { currentUser, requirePermission } from '../auth';
+import type { DB } from '../db';
+import type { PiiVault } from '../pii';
+import { HttpError, parseId } from '../http';
+import { getAttachmentContent, getAttachmentRow, storeAttachment, type Upload } from '../store/attachments';
+import { getCandidate } from '../store/candidates';
+import { getActiveRules } from '../store/rules';
+import { visibleTo } from './candidates';
+import { programParam } from './programs';
+import { ATTACHMENT_TYPES, MAX_ATTACHMENT_BYTES, attachmentProblem } from '../../src/lib/attachments';
+
+const MAX_FILE_NAME_LENGTH = 200;
+
+/** The file itself is the request body; its name and the field it supports come in the query string. */
+export const uploadBody = express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES });
+
+/** The content type the file's leading bytes show, whatever the browser claimed. */
+function sniffType(content: Buffer): string {
+  if (content.subarray(0, 5).toString('latin1') === '%PDF-') return 'application/pdf';
+  if (content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (content.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) return 'image/jpeg';
+  if (content.subarray(0, 4).toString('latin1') === 'RIFF' && content.subarray(8, 12).toString('latin1') === 'WEBP') return 'image/webp';
+  return '';
+}
+
+/**
+ * Reads an uploaded file, checking its real type and size. `field` must be a
+ * warning the rules in force for `program` (the default rules when null) let
+ * counsellors waive, or absent for a document about the candidate as a whole.
+ */
+export function readUpload(req: Request, db: DB, program: number | null): Upload {
+  const content = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  if (content.length === 0) throw new HttpError(400, 'The file is empty.');
+  // The body parser already turned away anything over the size limit.
+  const contentType = sniffType(content);
+  const problem = attachmentProblem({ type: contentType, size: content.length });
+  if (problem) throw new HttpError(415, problem);
+
+  const fileName = typeof req.query.name === 'string' ? req.query.name.split(/[\\/]/).pop()!.trim() : '';
+  if (!fileName) throw new HttpError(400, 'Expected the file name as "name".');
+  if (fileName.length > MAX_FILE_NAME_LENGTH) throw new HttpError(400, `File names can be at most ${MAX_FILE_NAME_LENGTH} characters.`);
+
+  const field = typeof req.query.field === 'string' && req.query.field ? req.query.field : null;
+  if (field !== null) {
+    const { rules } = getActiveRules(db, program);
+    const waivable = rules.fields[field]?.type === 'soft' || rules.crossFieldRules.some(rule => rule.id === field && rule.type === 'soft');
+    if (!waivable) throw new HttpError(400, `"${field}" is not a warning that can be waived.`);
+  }
+  return { field, fileName, contentType, content };
+}
+
+/** Documents uploaded from the admission form before its entry exists, and downloads of any document. */
+export function attachmentsRouter(db: DB, vault: PiiVault): Router {
+  const router = Router();
+
+  /** An upload for a form filled in for `?program=`. */
+  router.post('/', requirePermission('submitEntries'), uploadBody, (req, res) => {
+    const program = programParam(db, req.query.program)?.id ?? null;
+    res.status(201).json(storeAttachment(db, readUpload(req, db, program), currentUser(req).id));
+  });
+
+  /** Downloads follow the entry's visibility; an upload not yet submitted is only its uploader's. */
+  router.get('/:id', (req, res) => {
+    const user = currentUser(req);
+    const row = getAttachmentRow(db, parseId(req.params.id));
+    const visible = row && (row.candidate_id === null
+      ? row.uploaded_by === user.id
+      : !!getCandidate(db, row.candidate_id, { submittedBy: visibleTo(user, vault).submittedBy }));
+    if (!row || !visible) throw new HttpError(404, `Attachment ${req.params.id} does not exist.`);
+
+    res.setHeader('Content-Type', ATTACHMENT_TYPES[row.content_type] ? row.content_type : 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(row.file_name)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(getAttachmentContent(db, row.id));
+  });
+
+  return router;
+}
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import type { DB } from '../db';
+import { HttpError } from '../http';
+import { chainHead, listEvents, verifyChain } from '../store/auditLog';
+import type { ChainAnchor } from '../../src/lib/types';
+
+const MAX_EVENTS = 500;
+
+/** The head to verify against, from `?count=&head=`; both or neither. */
+function parseAnchor(count: unknown, head: unknown): ChainAnchor | undefined {
+  if (count === undefined && head === undefined) return undefined;
+  const eventCount = Number(count);
+  if (!Number.isInteger(eventCount) || eventCount <= 0 || typeof head !== 'string' || !/^[0-9a-f]{64}$/.test(head)) {
+    throw new HttpError(400, 'An anchor needs "count", an event number, and "head", that event\'s 64-character hex hash.');
+  }
+  return { eventCount, headHash: head };
+}
+
+/** The hash-chained audit trail. Mounted behind the `verifyAuditLog` permission. */
+export function auditRouter(db: DB): Router {
+  const router = Router();
+
+  router.get('/events', (req, res) => {
+    const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_EVENTS) {
+      throw new HttpError(400, `"limit" must be a whole number from 1 to ${MAX_EVENTS}.`);
+    }
+    res.json(listEvents(db, limit));
+  });
+
+  /** The newest event's number and hash, for auditors to keep outside AdmitGuard. */
+  router.get('/head', (req, res) => {
+    res.json(chainHead(db));
+  });
+
+  /** Checks the whole chain, and with `?count=&head=` that it still reaches that head. */
+  router.get('/verify', (req, res) => {
+    res.json(verifyChain(db, parseAnchor(req.query.count, req.query.head)));
+  });
+
+  return router;
+}
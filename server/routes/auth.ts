@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import type { DB } from '../db';
+import { authenticate, currentUser } from '../auth';
+import { HttpError } from '../http';
+import { authenticateUser, createSession, deleteSession } from '../store/users';
+
+export function authRouter(db: DB): Router {
+  const router = Router();
+
+  router.post('/login', (req, res) => {
+    const username = typeof req.body?.username === 'string' ? req.body.username.trim() : '';
+    const password = typeof req.body?.password === 'string' ? req.body.password : '';
+    const user = authenticateUser(db, username, password);
+    if (!user) throw new HttpError(401, 'Incorrect username or password.');
+    res.json({ token: createSession(db, user.id), user });
+  });
+
+  router.get('/me', authenticate(db), (req, res) => {
+    res.json(currentUser(req));
+  });
+
+  router.post('/logout', authenticate(db), (req, res) => {
+    deleteSession(db, req.sessionToken!);
+    res.status(204).end();
+  });
+
+  return router;
+}
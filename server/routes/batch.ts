@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { currentUser } from '../auth';
+import type { DB } from '../db';
+import { findDuplicates, visibleDuplicates } from '../duplicates';
+import type { PiiVault } from '../pii';
+import { checkEntryRationales, type RationaleChecker } from '../rationaleChecks';
+import { HttpError, isRecord } from '../http';
+import { appendEvent, submissionPayload } from '../store/auditLog';
+import { insertCandidate } from '../store/candidates';
+import { queueReviewRequests } from '../store/notifications';
+import { getActiveRules } from '../store/rules';
+import { acceptedSubmission, checkSubmission } from '../validation';
+import { parseSubmission, visibleTo } from './candidates';
+import { openProgram } from './programs';
+import { duplicateCheckedFields, duplicateErrors } from '../../src/lib/duplicates';
+import { candidateRecord, splitCandidate } from '../../src/lib/formSchema';
+import { programReferenceDate, seatsProblem } from '../../src/lib/programs';
+import type { ValidationResult } from '../../src/lib/validation';
+import type { BatchRowResult, CandidateRecord, CandidateSubmission, RulesConfig } from '../../src/lib/types';
+
+/** Campus drives bring a few hundred candidates; anything far beyond that is a mistake. */
+const MAX_ROWS = 2000;
+
+function parseRows(body: unknown, rules: RulesConfig): CandidateSubmission[] {
+  const rows: unknown = isRecord(body) ? body.rows : undefined;
+  if (!Array.isArray(rows)) throw new HttpError(400, 'Expected "rows" to be an array.');
+  if (rows.length === 0) throw new HttpError(400, 'There are no rows to import.');
+  if (rows.length > MAX_ROWS) throw new HttpError(400, `A batch can hold at most ${MAX_ROWS} rows.`);
+
+  return rows.map((sent: unknown, i) => {
+    const row = isRecord(sent) ? sent : {};
+    // parseSubmission checks each value; the record only has to be an object.
+    const candidate = (isRecord(row.candidate) ? row.candidate : {}) as CandidateRecord;
+    const { fields, extraFields } = splitCandidate(candidate, rules.form);
+    try {
+      return parseSubmission({ ...fields, extraFields, isCgpa: row.isCgpa, offerSent: row.offerSent, exceptions: row.exceptions }, rules.form);
+    } catch (err) {
+      if (err instanceof HttpError) throw new HttpError(err.status, `Row ${i + 1}: ${err.message}`, err.details);
+      throw err;
+    }
+  });
+}
+
+/** How duplicate checks compare values within a batch; Aadhaar numbers ignore spacing. */
+function repeatKey(field: string, value: string): string {
+  return field === 'aadhaar' ? value.replace(/\D/g, '') : value.trim().toLowerCase();
+}
+
+/**
+ * Runs every row through the rules and the duplicate checks, both against
+ * stored entries and against earlier rows of the same batch. Each report comes
+ * with the rules engine's own result, which storing the row needs.
+ */
+function checkRows(
+  db: DB,
+  vault: PiiVault,
+  submissions: CandidateSubmission[],
+  rules: RulesConfig,
+  referenceDate: Date | undefined,
+  viewerId?: number
+): { report: BatchRowResult; result: ValidationResult }[] {
+  const checkedFields = duplicateCheckedFields(rules);
+  const seen = new Map<string, number>();
+
+  return submissions.map((submission, i) => {
+    const result = checkSubmission(submission, rules, {}, referenceDate);
+    const record = candidateRecord(submission);
+    // Rows are checked by counsellors too, who are only told that an entry they cannot open exists.
+    const duplicates = visibleDuplicates(findDuplicates(db, vault, record, rules, viewerId));
+    const errors = { ...result.errors, ...duplicateErrors(duplicates, rules) };
+
+    const repeats: Record<string, number> = {};
+    checkedFields.forEach(field => {
+      const value = record[field]?.trim();
+      if (!value) return;
+      const key = `${field}:${repeatKey(field, value)}`;
+      const earlier = seen.get(key);
+      if (earlier === undefined) {
+        seen.set(key, i + 1);
+        return;
+      }
+      repeats[field] = earlier;
+      if (rules.fields[field]?.duplicateCheck === 'block' && !errors[field]) {
+        errors[field] = 'Repeats an earlier row of this batch; duplicate entries are not allowed.';
+      }
+    });
+
+    const report: BatchRowResult = {
+      errors,
+      warnings: result.warnings,
+      rationaleErrors: result.rationaleErrors,
+      duplicates,
+      repeats,
+      importable: result.isValid && Object.keys(errors).length === 0
+    };
+    return { report, result };
+  });
+}
+
+/**
+ * Bulk entry from spreadsheets into the open program given as `programId`.
+ * `POST /check` reports what the program's rules make of each row without
+ * storing anything; `POST /` stores the rows that pass and reports the rest,
+ * so a batch can be fixed and re-sent in pieces.
+ */
+export function batchRouter(db: DB, vault: PiiVault, checker: RationaleChecker | null): Router {
+  const router = Router();
+
+  router.post('/check', (req, res) => {
+    const program = openProgram(db, req.body?.programId);
+    const active = getActiveRules(db, program.id);
+    const submissions = parseRows(req.body, active.rules);
+    const viewerId = visibleTo(currentUser(req), vault).submittedBy;
+    const checked = checkRows(db, vault, submissions, active.rules, programReferenceDate(program), viewerId);
+    res.json({ rulesVersion: active.version, results: checked.map(({ report }) => report) });
+  });
+
+  router.post('/', (req, res) => {
+    const user = currentUser(req);
+    const program = openProgram(db, req.body?.programId);
+    const active = getActiveRules(db, program.id);
+    const submissions = parseRows(req.body, active.rules);
+    const viewerId = visibleTo(user, vault).submittedBy;
+
+    const results = db.transaction(() => {
+      const checked = checkRows(db, vault, submissions, active.rules, programReferenceDate(program), viewerId);
+      const full = seatsProblem(program, checked.filter(({ report }, i) => report.importable && submissions[i].offerSent).length);
+      if (full) throw new HttpError(409, `${full} Import the offered rows once seats are free, or without the offer.`);
+      return checked.map(({ report, result }, i) => {
+        if (!report.importable) return report;
+        const submission = acceptedSubmission(submissions[i], result);
+        const id = insertCandidate(db, submission, vault, {
+          rulesVersion: active.version,
+          programId: program.id,
+          submittedBy: user.id
+        });
+        appendEvent(db, {
+          type: 'entry.submitted',
+          candidateId: id,
+          actor: user.displayName,
+          payload: { rulesVersion: active.version, program: program.id, batch: true, entry: submissionPayload(submission, vault) }
+        });
+        if (submission.flagged) queueReviewRequests(db, id, submission, active.rules.form, user.displayName);
+        return { ...report, id };
+      });
+    })();
+
+    const imported = results.filter(result => result.id !== undefined);
+    res.json({ rulesVersion: active.version, imported: imported.length, results });
+    // A batch can be large, so its rationales are scored after the response, one entry at a time.
+    imported.reduce(
+      (done, result) => done.then(() => checkEntryRationales(db, checker, result.id!, active.rules, result.warnings)),
+      Promise.resolve()
+    );
+  });
+
+  return router;
+}
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { after, before, test } from 'node:test';
+import { createApp } from '../app';
+import { openDatabase } from '../db';
+import { createPiiVault } from '../pii';
+import { ensureAdminUser } from '../store/users';
+
+const db = openDatabase(':memory:');
+const app = createApp(db, createPiiVault(crypto.randomBytes(32)), crypto.randomBytes(32), null);
+const server = app.listen(0);
+const base = () => `http://localhost:${(server.address() as AddressInfo).port}/api`;
+
+async function call(token: string | null, method: string, path: string, body?: unknown) {
+  const response = await fetch(`${base()}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function login(username: string, password: string): Promise<string> {
+  return (await call(null, 'POST', '/auth/login', { username, password })).body.token;
+}
+
+const candidate = {
+  fullName: 'Secret Person', email: 'secret@example.com', phone: '9876543210', dob: '1995-06-01', qualification: 'B.Tech',
+  gradYear: '2018', score: '80', screeningScore: '75', status: 'Cleared', aadhaar: '234567890124'
+};
+
+let first: string;
+let second: string;
+let programId: number;
+
+before(async () => {
+  ensureAdminUser(db, 'adminpass1');
+  const admin = await login('admin', 'adminpass1');
+  for (const username of ['first', 'second']) {
+    await call(admin, 'POST', '/users', { username, displayName: username, role: 'counsellor', email: `${username}@example.com`, password: 'counsellor1' });
+  }
+  const year = new Date().getUTCFullYear();
+  programId = (await call(admin, 'POST', '/programs', {
+    name: 'MBA', opensOn: `${year - 1}-01-01`, closesOn: `${year + 1}-12-31`, referenceDate: `${year}-07-01`, seats: 10
+  })).body.id;
+  first = await login('first', 'counsellor1');
+  second = await login('second', 'counsellor1');
+  assert.equal((await call(first, 'POST', '/candidates', { ...candidate, programId })).status, 201);
+});
+
+after(() => {
+  server.close();
+});
+
+test("a counsellor submitting another counsellor's Aadhaar only learns it is on file", async () => {
+  const { status, body } = await call(second, 'POST', '/candidates', {
+    ...candidate, fullName: 'Someone Else', email: 'else@example.com', phone: '9123456780', programId
+  });
+  assert.equal(status, 422);
+  assert.deepEqual(body.duplicates, { aadhaar: [{ field: 'aadhaar', exists: true }] });
+  assert.doesNotMatch(JSON.stringify(body), /Secret Person|first/);
+});
+
+test('the duplicate lookup hides entries the counsellor cannot open', async () => {
+  const { body } = await call(second, 'POST', '/candidates/duplicates', { program: programId, values: { aadhaar: candidate.aadhaar } });
+  assert.deepEqual(body, { aadhaar: [{ field: 'aadhaar', exists: true }] });
+});
+
+test('the counsellor who submitted the entry sees it', async () => {
+  const { body } = await call(first, 'POST', '/candidates/duplicates', { program: programId, values: { aadhaar: candidate.aadhaar } });
+  assert.equal(body.aadhaar[0].fullName, 'Secret Person');
+  assert.equal(body.aadhaar[0].canOpen, true);
+});
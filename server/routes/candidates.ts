@@ -0,0 +1,418 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { currentUser, requirePermission } from '../auth';
+import type { DB } from '../db';
+import { findDuplicates, visibleDuplicates } from '../duplicates';
+import type { PiiVault } from '../pii';
+import { HttpError, isRecord, parseId } from '../http';
+import { linkAttachments, pendingUploads, storeAttachment } from '../store/attachments';
+import { appendEvent, submissionPayload } from '../store/auditLog';
+import {
+  CANDIDATE_COLUMNS, deleteAllCandidates, getCandidate, insertCandidate, listCandidates, updateCandidate, type ListOptions
+} from '../store/candidates';
+import { recordChanges } from '../store/changes';
+import { queueOfferEmail, queueReviewRequests } from '../store/notifications';
+import { getOfferLetterPdf, issueOfferLetter } from '../store/offerLetters';
+import { recordReview, type ExceptionVerdict } from '../store/reviews';
+import { getProgram } from '../store/programs';
+import { getActiveRules } from '../store/rules';
+import { renderPdf } from '../pdf';
+import { checkEntryRationales, type RationaleChecker } from '../rationaleChecks';
+import { revalidateSubmission } from '../validation';
+import { readUpload, uploadBody } from './attachments';
+import { openProgram, programParam } from './programs';
+import { attachmentCounts } from '../../src/lib/attachments';
+import { duplicateErrors, type DuplicateMatches } from '../../src/lib/duplicates';
+import { diffSubmissions } from '../../src/lib/entryChanges';
+import { candidateRecord, isCoreField } from '../../src/lib/formSchema';
+import { acceptByDate, fillTemplate, letterBlocks, offerProblem, offerValues } from '../../src/lib/offerLetter';
+import { can } from '../../src/lib/permissions';
+import { maskAadhaar } from '../../src/lib/pii';
+import { programReferenceDate, seatsProblem } from '../../src/lib/programs';
+import type {
+  Attachment, AuditLogEntry, CandidateFields, CandidateSubmission, ExceptionDecision, FieldDefinition, RulesVersion, User
+} from '../../src/lib/types';
+
+const DECISIONS: ExceptionDecision[] = ['Approved', 'Rejected', 'Needs Info'];
+
+const MAX_PROGRAM_LENGTH = 120;
+
+function fieldText(value: unknown, field: string): string {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new HttpError(400, `Field "${field}" must be a string.`);
+  }
+  return String(value).trim();
+}
+
+/**
+ * Coerces a JSON body into a submission, rejecting anything that is not shaped
+ * like one. Of the `extraFields` sent, only those `form` defines are kept.
+ */
+export function parseSubmission(body: unknown, form: FieldDefinition[]): CandidateSubmission {
+  if (!isRecord(body)) throw new HttpError(400, 'Expected a JSON object.');
+  const raw = body;
+
+  const fields = {} as CandidateFields;
+  (Object.keys(CANDIDATE_COLUMNS) as (keyof CandidateFields)[]).forEach(field => {
+    fields[field] = fieldText(raw[field] ?? '', field);
+  });
+
+  const sentExtras = isRecord(raw.extraFields) ? raw.extraFields : {};
+  const extraFields: Record<string, string> = {};
+  form.filter(definition => !isCoreField(definition.name)).forEach(({ name }) => {
+    extraFields[name] = fieldText(sentExtras[name] ?? '', name);
+  });
+
+  const exceptions: Record<string, string> = {};
+  if (isRecord(raw.exceptions)) {
+    Object.entries(raw.exceptions).forEach(([field, rationale]) => {
+      exceptions[field] = typeof rationale === 'string' ? rationale : '';
+    });
+  }
+
+  const attachmentIds = Array.isArray(raw.attachmentIds) ? raw.attachmentIds : [];
+  if (!attachmentIds.every(id => Number.isInteger(id) && (id as number) > 0)) {
+    throw new HttpError(400, '"attachmentIds" must list attachment ids.');
+  }
+
+  return {
+    ...fields,
+    extraFields,
+    ...(attachmentIds.length > 0 ? { attachmentIds: [...new Set(attachmentIds as number[])] } : {}),
+    isCgpa: !!raw.isCgpa,
+    offerSent: !!raw.offerSent,
+    exceptions,
+    // Recomputed by the rules engine on submission; only imports keep these as sent.
+    exceptionCount: Number(raw.exceptionCount) || 0,
+    flagged: !!raw.flagged
+  };
+}
+
+/** Requires a valid decision for every waived field, and a comment for anything but an approval. */
+function parseVerdicts(body: unknown, entry: AuditLogEntry): Record<string, ExceptionVerdict> {
+  const raw = isRecord(body) ? body.decisions : undefined;
+  if (!isRecord(raw)) throw new HttpError(400, 'Expected a "decisions" object keyed by field.');
+
+  const verdicts: Record<string, ExceptionVerdict> = {};
+  const errors: Record<string, string> = {};
+  Object.keys(entry.exceptions).forEach(field => {
+    const sent = isRecord(raw[field]) ? raw[field] : {};
+    const decision = DECISIONS.find(option => option === sent.decision);
+    const comment = typeof sent.comment === 'string' ? sent.comment.trim() : '';
+    if (!decision) {
+      errors[field] = 'Choose approve, reject or needs info.';
+    } else if (decision !== 'Approved' && !comment) {
+      errors[field] = 'A comment is required when rejecting or asking for more information.';
+    } else {
+      verdicts[field] = { decision, comment };
+    }
+  });
+  if (Object.keys(errors).length > 0) throw new HttpError(400, 'Every exception needs a decision.', { errors });
+  return verdicts;
+}
+
+/** The program and start date an offer letter is issued for. */
+function parseOfferDetails(body: unknown): { program: string; startDate: string } {
+  const sent = isRecord(body) ? body : {};
+  const program = typeof sent.program === 'string' ? sent.program.trim() : '';
+  if (!program) throw new HttpError(400, 'The program is required.');
+  if (program.length > MAX_PROGRAM_LENGTH) throw new HttpError(400, `Program names can be at most ${MAX_PROGRAM_LENGTH} characters.`);
+  const startDate = typeof sent.startDate === 'string' ? sent.startDate : '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || Number.isNaN(Date.parse(startDate))) {
+    throw new HttpError(400, 'The start date must be a date (YYYY-MM-DD).');
+  }
+  return { program, startDate };
+}
+
+/** Users who may not see every entry only see their own, and only privileged users see full Aadhaar numbers. */
+export function visibleTo(user: User, vault: PiiVault): ListOptions {
+  return {
+    submittedBy: can(user.role, 'viewAllEntries') ? undefined : user.id,
+    reveal: can(user.role, 'viewFullAadhaar') ? vault : undefined
+  };
+}
+
+/** The documents a submission brings along, which must be the user's own uploads not yet held by an entry. */
+function submittedUploads(db: DB, submission: CandidateSubmission, user: User): Attachment[] {
+  const ids = submission.attachmentIds ?? [];
+  const uploads = pendingUploads(db, ids, user.id);
+  const missing = ids.find(id => !uploads.some(upload => upload.id === id));
+  if (missing !== undefined) throw new HttpError(400, `Attachment ${missing} is no longer available; attach the file again.`);
+  return uploads;
+}
+
+/** What the audit trail records of a document: enough to recognise the file, not the file itself. */
+function attachmentPayload({ id, field, fileName, sha256 }: Attachment) {
+  return { id, field, fileName, sha256 };
+}
+
+/**
+ * The rules an entry is held to: those in force for its program, with the
+ * program's date for the age checks, or the default rules for an entry from
+ * before programs existed.
+ */
+function entryRules(db: DB, entry: AuditLogEntry): { active: RulesVersion; referenceDate?: Date } {
+  const program = entry.programId === null ? undefined : getProgram(db, entry.programId);
+  return { active: getActiveRules(db, entry.programId), referenceDate: programReferenceDate(program) };
+}
+
+/** Duplicate matches other than the entry itself, for checking an edit. */
+function otherEntries(matches: DuplicateMatches, id: number): DuplicateMatches {
+  const others: DuplicateMatches = {};
+  Object.entries(matches).forEach(([field, found]) => {
+    const rest = found.filter(match => match.id !== id);
+    if (rest.length > 0) others[field] = rest;
+  });
+  return others;
+}
+
+export function candidatesRouter(db: DB, vault: PiiVault, checker: RationaleChecker | null): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.json(listCandidates(db, visibleTo(currentUser(req), vault)));
+  });
+
+  /**
+   * Existing entries, in any program, sharing a value in the body, e.g.
+   * `{ program: 2, values: { aadhaar: "…", email: "…" } }`, for fields the
+   * program's rules check. A POST, so the values stay out of URLs and access
+   * logs. Entries the user may not open only show up as being on file.
+   */
+  router.post('/duplicates', (req, res) => {
+    const sent: unknown = req.body?.values;
+    if (!isRecord(sent)) throw new HttpError(400, 'Expected a "values" object keyed by field.');
+    const values: Record<string, string> = {};
+    Object.entries(sent).forEach(([field, value]) => {
+      if (typeof value === 'string') values[field] = value;
+    });
+    const rules = getActiveRules(db, programParam(db, req.body?.program)?.id ?? null).rules;
+    res.json(visibleDuplicates(findDuplicates(db, vault, values, rules, visibleTo(currentUser(req), vault).submittedBy)));
+  });
+
+  router.get('/:id', (req, res) => {
+    const entry = getCandidate(db, parseId(req.params.id), visibleTo(currentUser(req), vault));
+    if (!entry) throw new HttpError(404, `Candidate ${req.params.id} does not exist.`);
+    res.json(entry);
+  });
+
+  /**
+   * Submits an entry to the open program given as `programId`, checked against
+   * that program's rules. Its rationales are scored once it is stored, after
+   * the response, so a slow checker does not hold up the submission.
+   */
+  router.post('/', requirePermission('submitEntries'), (req, res) => {
+    const user = currentUser(req);
+    const program = openProgram(db, req.body?.programId);
+    const active = getActiveRules(db, program.id);
+    const parsed = parseSubmission(req.body, active.rules.form);
+    const uploads = submittedUploads(db, parsed, user);
+    const { submission, result } = revalidateSubmission(parsed, active.rules, attachmentCounts(uploads), programReferenceDate(program));
+    const full = submission.offerSent ? seatsProblem(program) : '';
+    if (full) throw new HttpError(409, full);
+    const id = db.transaction(() => {
+      const duplicates = visibleDuplicates(findDuplicates(db, vault, candidateRecord(submission), active.rules, visibleTo(user, vault).submittedBy));
+      const errors = duplicateErrors(duplicates, active.rules);
+      if (Object.keys(errors).length > 0) {
+        throw new HttpError(422, 'Submission duplicates an existing entry.', { errors, duplicates });
+      }
+      const id = insertCandidate(db, submission, vault, { rulesVersion: active.version, programId: program.id, submittedBy: user.id });
+      linkAttachments(db, uploads.map(upload => upload.id), id);
+      appendEvent(db, {
+        type: 'entry.submitted',
+        candidateId: id,
+        actor: user.displayName,
+        payload: {
+          rulesVersion: active.version,
+          program: program.id,
+          entry: submissionPayload(submission, vault),
+          attachments: uploads.map(attachmentPayload)
+        }
+      });
+      if (submission.flagged) queueReviewRequests(db, id, submission, active.rules.form, user.displayName);
+      return id;
+    })();
+    res.status(201).json(getCandidate(db, id, visibleTo(user, vault)));
+    checkEntryRationales(db, checker, id, active.rules, result.warnings);
+  });
+
+  /**
+   * Replaces an entry's values with an edited submission, re-validated against
+   * the rules in force for its program, even once the program has closed.
+   * Every changed value is recorded with the reason given, and changed
+   * rationales are scored again after the response.
+   * Users who were only sent the masked Aadhaar number send it back unchanged.
+   * Documents uploaded alongside are added to the entry's own.
+   */
+  router.patch('/:id', requirePermission('editEntries'), (req, res) => {
+    const user = currentUser(req);
+    const visibility = visibleTo(user, vault);
+    const entry = getCandidate(db, parseId(req.params.id), { submittedBy: visibility.submittedBy, reveal: vault });
+    if (!entry) throw new HttpError(404, `Candidate ${req.params.id} does not exist.`);
+
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason) throw new HttpError(400, 'A reason is required to edit an entry.');
+
+    const { active, referenceDate } = entryRules(db, entry);
+    const parsed = parseSubmission(req.body?.submission, active.rules.form);
+    const edited: CandidateSubmission = {
+      ...parsed,
+      aadhaar: parsed.aadhaar === maskAadhaar(entry.aadhaar) ? entry.aadhaar : parsed.aadhaar,
+      // Values of fields the form has since dropped stay with the entry.
+      extraFields: { ...entry.extraFields, ...parsed.extraFields }
+    };
+    const uploads = submittedUploads(db, edited, user);
+    if (entry.offerLetters.length > 0 && !edited.offerSent) {
+      throw new HttpError(400, 'An offer letter was issued for this entry, so the offer stays marked as sent.');
+    }
+    const { submission, result } = revalidateSubmission(edited, active.rules, attachmentCounts([...entry.attachments, ...uploads]), referenceDate);
+    const intake = entry.programId === null ? undefined : getProgram(db, entry.programId);
+    const full = intake && submission.offerSent && !entry.offerSent ? seatsProblem(intake) : '';
+    if (full) throw new HttpError(409, full);
+    const changes = diffSubmissions(entry, submission);
+    if (changes.length === 0 && uploads.length === 0) throw new HttpError(400, 'Nothing was changed.');
+
+    db.transaction(() => {
+      const duplicates = visibleDuplicates(otherEntries(findDuplicates(db, vault, candidateRecord(submission), active.rules, visibility.submittedBy), entry.id));
+      const errors = duplicateErrors(duplicates, active.rules);
+      if (Object.keys(errors).length > 0) {
+        throw new HttpError(422, 'The edit duplicates an existing entry.', { errors, duplicates });
+      }
+      updateCandidate(db, entry.id, submission, vault, active.version);
+      recordChanges(db, entry.id, changes, reason, user.displayName);
+      linkAttachments(db, uploads.map(upload => upload.id), entry.id);
+      appendEvent(db, {
+        type: 'entry.edited',
+        candidateId: entry.id,
+        actor: user.displayName,
+        payload: {
+          rulesVersion: active.version,
+          reason,
+          changes,
+          entry: submissionPayload(submission, vault),
+          attachments: uploads.map(attachmentPayload)
+        }
+      });
+      // Only an entry joining the review queue for the first time; one already in it has been asked about.
+      if (submission.flagged && entry.reviewStatus === null) {
+        queueReviewRequests(db, entry.id, submission, active.rules.form, user.displayName);
+      }
+    })();
+    res.json(getCandidate(db, entry.id, visibility));
+    checkEntryRationales(db, checker, entry.id, active.rules, result.warnings);
+  });
+
+  /**
+   * Adds a supporting document to a submitted entry, e.g. one a reviewer asked
+   * for. The body is the file; see `readUpload` for the query string.
+   */
+  router.post('/:id/attachments', requirePermission('editEntries'), uploadBody, (req, res) => {
+    const user = currentUser(req);
+    const visibility = visibleTo(user, vault);
+    const entry = getCandidate(db, parseId(req.params.id), visibility);
+    if (!entry) throw new HttpError(404, `Candidate ${req.params.id} does not exist.`);
+
+    const upload = readUpload(req, db, entry.programId);
+    db.transaction(() => {
+      const attachment = storeAttachment(db, upload, user.id, entry.id);
+      appendEvent(db, {
+        type: 'attachment.added',
+        candidateId: entry.id,
+        actor: user.displayName,
+        payload: { attachment: attachmentPayload(attachment) }
+      });
+    })();
+    res.status(201).json(getCandidate(db, entry.id, visibility));
+  });
+
+  /**
+   * Generates an offer letter from the template in force for the entry's
+   * program and stores the PDF with the entry, marking the offer as sent and
+   * emailing it to the candidate. Only for candidates whose status the
+   * offer-sent rule allows, and while the program has a seat left for a first
+   * offer; a later letter supersedes earlier ones.
+   */
+  router.post('/:id/offer-letters', requirePermission('issueOfferLetters'), (req, res) => {
+    const user = currentUser(req);
+    const visibility = visibleTo(user, vault);
+    const entry = getCandidate(db, parseId(req.params.id), visibility);
+    if (!entry) throw new HttpError(404, `Candidate ${req.params.id} does not exist.`);
+
+    const { active } = entryRules(db, entry);
+    const problem = offerProblem(entry, active.rules);
+    if (problem) throw new HttpError(409, problem);
+    const intake = entry.programId === null ? undefined : getProgram(db, entry.programId);
+    const full = intake && !entry.offerSent ? seatsProblem(intake) : '';
+    if (full) throw new HttpError(409, full);
+
+    const { program, startDate } = parseOfferDetails(req.body);
+    const issuedAt = new Date().toISOString();
+    if (startDate < issuedAt.slice(0, 10)) throw new HttpError(400, 'The start date cannot be before the letter is issued.');
+    const acceptBy = acceptByDate(issuedAt, active.rules.offerLetter.acceptanceDays);
+    const html = fillTemplate(active.rules.offerLetter.template, offerValues(entry, active.rules.form, { program, startDate, acceptBy, issuedAt }));
+    const pdf = renderPdf(letterBlocks(html), { title: `Offer of admission: ${entry.fullName}`, createdAt: issuedAt });
+
+    db.transaction(() => {
+      const letter = issueOfferLetter(db, entry.id, { program, startDate, acceptBy, rulesVersion: active.version, issuedAt, pdf }, user.id);
+      if (!entry.offerSent) {
+        recordChanges(db, entry.id, [{ field: 'offerSent', oldValue: 'No', newValue: 'Yes' }], `Offer letter issued for ${program}`, user.displayName);
+      }
+      appendEvent(db, {
+        type: 'offer.issued',
+        candidateId: entry.id,
+        actor: user.displayName,
+        payload: { letter: { id: letter.id, program, startDate, acceptBy, rulesVersion: active.version, sha256: letter.sha256 } }
+      });
+      queueOfferEmail(db, entry.id, entry, letter);
+    })();
+    res.status(201).json(getCandidate(db, entry.id, visibility));
+  });
+
+  router.get('/:id/offer-letters/:letterId', (req, res) => {
+    const entry = getCandidate(db, parseId(req.params.id), visibleTo(currentUser(req), vault));
+    const pdf = entry && getOfferLetterPdf(db, entry.id, parseId(req.params.letterId));
+    if (!entry || !pdf) throw new HttpError(404, `Offer letter ${req.params.letterId} does not exist.`);
+    const fileName = `Offer letter - ${entry.fullName}.pdf`;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+    res.send(pdf);
+  });
+
+  router.post('/:id/review', requirePermission('reviewEntries'), (req, res) => {
+    const entry = getCandidate(db, parseId(req.params.id));
+    if (!entry) throw new HttpError(404, `Candidate ${req.params.id} does not exist.`);
+    if (Object.keys(entry.exceptions).length === 0) throw new HttpError(400, 'This entry has no exceptions to review.');
+    if (entry.reviewStatus === 'Approved' || entry.reviewStatus === 'Rejected') {
+      throw new HttpError(409, `This entry was already ${entry.reviewStatus.toLowerCase()}.`);
+    }
+
+    const reviewer = currentUser(req).displayName;
+    const comment = typeof req.body?.comment === 'string' ? req.body.comment.trim() : '';
+    const verdicts = parseVerdicts(req.body, entry);
+
+    db.transaction(() => {
+      const toStatus = recordReview(db, entry.id, entry.reviewStatus, verdicts, reviewer, comment);
+      appendEvent(db, {
+        type: 'entry.reviewed',
+        candidateId: entry.id,
+        actor: reviewer,
+        payload: { fromStatus: entry.reviewStatus, toStatus, verdicts, comment }
+      });
+    })();
+    res.json(getCandidate(db, entry.id, visibleTo(currentUser(req), vault)));
+  });
+
+  router.delete('/', requirePermission('purgeEntries'), (req, res) => {
+    db.transaction(() => {
+      const purged = deleteAllCandidates(db);
+      appendEvent(db, { type: 'entries.purged', actor: currentUser(req).displayName, payload: { purged } });
+    })();
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { currentUser } from '../auth';
+import type { DB } from '../db';
+import type { PiiVault } from '../pii';
+import { HttpError, parseId } from '../http';
+import { pendingUploads } from '../store/attachments';
+import { countDrafts, createDraft, deleteDraft, listDrafts, updateDraft } from '../store/drafts';
+import type { DraftForm } from '../../src/lib/types';
+
+const MAX_DRAFTS = 50;
+
+function stringMap(value: unknown, label: string): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new HttpError(400, `Expected "${label}" to be an object.`);
+  return Object.entries(value).reduce((map, [key, text]) => {
+    if (typeof text !== 'string') throw new HttpError(400, `"${label}.${key}" must be a string.`);
+    map[key] = text;
+    return map;
+  }, {} as Record<string, string>);
+}
+
+function uploadIds(value: unknown): number[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new HttpError(400, 'Expected "attachments" to be a list.');
+  return value.map(attachment => attachment?.id).filter((id): id is number => Number.isInteger(id));
+}
+
+/**
+ * Coerces a JSON body into a draft. Values are kept exactly as typed, since a
+ * draft is by definition unfinished; only the shape is checked. Of the
+ * attachments sent, only the ids of the user's pending uploads are trusted.
+ */
+function parseDraftForm(db: DB, body: unknown, userId: number): DraftForm {
+  const form = (body as { form?: unknown } | undefined)?.form as Record<string, unknown> | undefined;
+  if (!form || typeof form !== 'object') throw new HttpError(400, 'Expected a "form" object.');
+  const toggles = form.exceptions;
+  if (!toggles || typeof toggles !== 'object' || Array.isArray(toggles)) throw new HttpError(400, 'Expected "exceptions" to be an object.');
+  return {
+    // A draft may be for a program that has since closed; that only matters once it is submitted.
+    programId: Number.isInteger(form.programId) ? form.programId as number : null,
+    candidate: stringMap(form.candidate, 'candidate') as DraftForm['candidate'],
+    isCgpa: form.isCgpa === true,
+    offerSent: form.offerSent === true,
+    exceptions: Object.entries(toggles).reduce((map, [key, on]) => {
+      map[key] = on === true;
+      return map;
+    }, {} as Record<string, boolean>),
+    rationales: stringMap(form.rationales, 'rationales'),
+    attachments: pendingUploads(db, uploadIds(form.attachments), userId)
+  };
+}
+
+/** The signed-in user's unfinished admission forms. Mounted behind the `submitEntries` permission. */
+export function draftsRouter(db: DB, vault: PiiVault): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.json(listDrafts(db, vault, currentUser(req).id));
+  });
+
+  router.post('/', (req, res) => {
+    const user = currentUser(req);
+    const form = parseDraftForm(db, req.body, user.id);
+    if (countDrafts(db, user.id) >= MAX_DRAFTS) {
+      throw new HttpError(409, `You already have ${MAX_DRAFTS} drafts; submit or discard some first.`);
+    }
+    res.status(201).json(createDraft(db, vault, user.id, form));
+  });
+
+  router.put('/:id', (req, res) => {
+    const user = currentUser(req);
+    const draft = updateDraft(db, vault, parseId(req.params.id), user.id, parseDraftForm(db, req.body, user.id));
+    if (!draft) throw new HttpError(404, `Draft ${req.params.id} does not exist.`);
+    res.json(draft);
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!deleteDraft(db, parseId(req.params.id), currentUser(req).id)) {
+      throw new HttpError(404, `Draft ${req.params.id} does not exist.`);
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
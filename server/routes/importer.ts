@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { currentUser } from '../auth';
+import type { DB } from '../db';
+import type { PiiVault } from '../pii';
+import { HttpError, isRecord } from '../http';
+import { appendEvent, submissionPayload } from '../store/auditLog';
+import { hasLegacyCandidate, insertCandidate } from '../store/candidates';
+import { createRulesVersion, getActiveRules, rulesPayload } from '../store/rules';
+import { parseSubmission } from './candidates';
+import { isRulesConfig, reviveRules, rulesConfigProblems, serializeRules } from '../../src/lib/rules';
+import type { RulesConfig } from '../../src/lib/types';
+
+/**
+ * Legacy entries used `Date.now()` as their id and a locale-formatted
+ * timestamp; prefer the id since it is unambiguous.
+ */
+function legacySubmittedAt(entry: Record<string, unknown>): string {
+  const fromId = new Date(Number(entry.id));
+  if (!isNaN(fromId.getTime())) return fromId.toISOString();
+  const fromTimestamp = new Date(String(entry.timestamp));
+  if (!isNaN(fromTimestamp.getTime())) return fromTimestamp.toISOString();
+  return new Date().toISOString();
+}
+
+/** The rules a browser kept, or null if it sent none. */
+function parseImportedRules(rules: unknown): RulesConfig | null {
+  if (rules === null) return null;
+  // Browsers kept only the field rules before the config grew an exception policy.
+  const config = isRecord(rules) && !('fields' in rules) ? { fields: rules } : rules;
+  if (!isRulesConfig(config)) {
+    const problems = rulesConfigProblems(config);
+    throw new HttpError(400, problems.join(' '), { problems });
+  }
+  return reviveRules(config);
+}
+
+/**
+ * One-time import of what browsers kept in localStorage before the backend
+ * existed. Safe to repeat: entries already imported are skipped, and rules
+ * only become a new version when they differ from the active one.
+ */
+export function importerRouter(db: DB, vault: PiiVault): Router {
+  const router = Router();
+
+  router.post('/', (req, res) => {
+    if (!isRecord(req.body)) throw new HttpError(400, 'Expected a JSON object.');
+    const { logs = [], rules = null } = req.body;
+    if (!Array.isArray(logs) || !logs.every(isRecord)) throw new HttpError(400, 'Expected "logs" to be an array of entries.');
+    const importedRules = parseImportedRules(rules);
+
+    const actor = currentUser(req).displayName;
+    const result = db.transaction(() => {
+      const { form } = getActiveRules(db).rules;
+      let imported = 0;
+      let skipped = 0;
+      logs.forEach(entry => {
+        const legacyId = Number(entry.id);
+        if (!Number.isFinite(legacyId) || hasLegacyCandidate(db, legacyId)) {
+          skipped++;
+          return;
+        }
+        const submission = parseSubmission(entry, form);
+        const id = insertCandidate(db, submission, vault, { legacyId, submittedAt: legacySubmittedAt(entry) });
+        appendEvent(db, { type: 'entry.submitted', candidateId: id, actor, payload: { legacyId, entry: submissionPayload(submission, vault) } });
+        imported++;
+      });
+
+      let rulesImported = false;
+      if (importedRules) {
+        const active = getActiveRules(db).rules;
+        if (JSON.stringify(serializeRules(importedRules)) !== JSON.stringify(serializeRules(active))) {
+          const version = createRulesVersion(db, null, importedRules, 'import', 'Imported from browser local storage');
+          appendEvent(db, { type: 'rules.changed', actor, payload: rulesPayload(version) });
+          rulesImported = true;
+        }
+      }
+      return { imported, skipped, rulesImported };
+    })();
+
+    res.json(result);
+  });
+
+  return router;
+}
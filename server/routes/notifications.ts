@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import type { DB } from '../db';
+import { HttpError, parseId } from '../http';
+import { getNotification, listNotifications, retryNotification } from '../store/notifications';
+import { NOTIFICATION_STATUSES } from '../../src/lib/notifications';
+import type { NotificationStatus } from '../../src/lib/types';
+
+/** The email outbox and its delivery status. Mounted behind the `viewNotifications` permission. */
+export function notificationsRouter(db: DB): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    const status = req.query.status;
+    if (status !== undefined && !NOTIFICATION_STATUSES.includes(status as NotificationStatus)) {
+      throw new HttpError(400, `"status" must be one of ${NOTIFICATION_STATUSES.join(', ')}.`);
+    }
+    res.json(listNotifications(db, status as NotificationStatus | undefined));
+  });
+
+  /** Sends a failed email again, with a fresh set of retries. */
+  router.post('/:id/retry', (req, res) => {
+    const id = parseId(req.params.id);
+    const notification = getNotification(db, id);
+    if (!notification) throw new HttpError(404, `Notification ${req.params.id} does not exist.`);
+    if (!retryNotification(db, id)) throw new HttpError(409, `Only failed emails can be retried; this one is ${notification.status}.`);
+    res.json(getNotification(db, id));
+  });
+
+  return router;
+}
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { currentUser, requirePermission } from '../auth';
+import type { DB } from '../db';
+import { HttpError, isRecord, parseId } from '../http';
+import { appendEvent } from '../store/auditLog';
+import { createProgram, findProgramByName, getProgram, listPrograms, updateProgram } from '../store/programs';
+import { createRulesVersion, getActiveRules, rulesPayload } from '../store/rules';
+import { programClosedReason, programProblems, today, type ProgramSettings } from '../../src/lib/programs';
+import type { Program } from '../../src/lib/types';
+
+function parseSettings(body: unknown): ProgramSettings {
+  const sent = isRecord(body) ? body : {};
+  const text = (key: string) => {
+    const value = sent[key];
+    return typeof value === 'string' ? value.trim() : '';
+  };
+  const settings: ProgramSettings = {
+    name: text('name'),
+    opensOn: text('opensOn'),
+    closesOn: text('closesOn'),
+    referenceDate: text('referenceDate'),
+    seats: Number(sent.seats)
+  };
+  const problems = programProblems(settings);
+  if (problems.length > 0) throw new HttpError(400, problems.join(' '), { problems });
+  return settings;
+}
+
+/**
+ * The program a request names, e.g. as `?program=`, or null for the default
+ * rules when it names none. Throws a 404 for a program that does not exist.
+ */
+export function programParam(db: DB, value: unknown): Program | null {
+  if (value === undefined || value === null || value === '') return null;
+  const program = getProgram(db, parseId(String(value)));
+  if (!program) throw new HttpError(404, `Program ${value} does not exist.`);
+  return program;
+}
+
+/** The program a new entry is submitted to, which has to be taking applications today. */
+export function openProgram(db: DB, value: unknown): Program {
+  const program = programParam(db, value);
+  if (!program) throw new HttpError(400, 'Choose the program the candidate is applying to.');
+  const closed = programClosedReason(program, today());
+  if (closed) throw new HttpError(409, closed);
+  return program;
+}
+
+/**
+ * Intake programs. Everyone can list them, since the admission form starts by
+ * picking one; creating and changing them goes with editing the rules.
+ */
+export function programsRouter(db: DB): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.json(listPrograms(db));
+  });
+
+  /** Starts a program with a copy of the rules of `copyFrom`, another program, or else of the default rules. */
+  router.post('/', requirePermission('editRules'), (req, res) => {
+    const settings = parseSettings(req.body);
+    if (findProgramByName(db, settings.name)) throw new HttpError(409, `There already is a program called "${settings.name}".`);
+    const source = programParam(db, req.body?.copyFrom);
+    const author = currentUser(req).displayName;
+    const program = db.transaction(() => {
+      const program = createProgram(db, settings);
+      const version = createRulesVersion(db, program.id, getActiveRules(db, source?.id ?? null).rules, author,
+        `Started from the ${source ? `rules of ${source.name}` : 'default rules'}`);
+      appendEvent(db, { type: 'program.created', actor: author, payload: { program: { id: program.id, ...settings } } });
+      appendEvent(db, { type: 'rules.changed', actor: author, payload: rulesPayload(version) });
+      return program;
+    })();
+    res.status(201).json(program);
+  });
+
+  router.patch('/:id', requirePermission('editRules'), (req, res) => {
+    const existing = getProgram(db, parseId(req.params.id));
+    if (!existing) throw new HttpError(404, `Program ${req.params.id} does not exist.`);
+    const settings = parseSettings(req.body);
+    const clash = findProgramByName(db, settings.name);
+    if (clash && clash.id !== existing.id) throw new HttpError(409, `There already is a program called "${settings.name}".`);
+    const author = currentUser(req).displayName;
+    const program = db.transaction(() => {
+      const program = updateProgram(db, existing.id, settings);
+      appendEvent(db, { type: 'program.changed', actor: author, payload: { program: { id: program.id, ...settings } } });
+      return program;
+    })();
+    res.json(program);
+  });
+
+  return router;
+}
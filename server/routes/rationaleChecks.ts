@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import type { DB } from '../db';
+import { HttpError } from '../http';
+import { waiverLabel, type RationaleChecker } from '../rationaleChecks';
+import { getActiveRules } from '../store/rules';
+import { programParam } from './programs';
+
+/** Longer than any rationale worth writing; keeps what is sent to the checker bounded. */
+const MAX_RATIONALE_LENGTH = 4000;
+
+/**
+ * Scores a rationale while it is being written, without storing anything:
+ * `{ field, warning, rationale, program }` in, the score and critique out, or
+ * null when rationale checks are off. Submitted rationales are scored again
+ * and the score kept with the exception.
+ */
+export function rationaleChecksRouter(db: DB, checker: RationaleChecker | null): Router {
+  const router = Router();
+
+  router.post('/', (req, res, next) => {
+    const text = (key: string) => typeof req.body?.[key] === 'string' ? req.body[key].trim() : '';
+    const field = text('field');
+    const rationale = text('rationale');
+    if (!field || !rationale) throw new HttpError(400, 'Send the waived field and its rationale.');
+    if (rationale.length > MAX_RATIONALE_LENGTH) throw new HttpError(400, `A rationale can be at most ${MAX_RATIONALE_LENGTH} characters.`);
+    if (!checker) {
+      res.json(null);
+      return;
+    }
+    const rules = getActiveRules(db, programParam(db, req.body?.program)?.id ?? null).rules;
+    checker.check({ label: waiverLabel(field, rules), warning: text('warning'), rationale })
+      .then(result => res.json({ ...result, checker: checker.description, checkedAt: new Date().toISOString() }))
+      .catch(err => next(new HttpError(502, `The rationale could not be checked: ${(err as Error).message}`)));
+  });
+
+  return router;
+}
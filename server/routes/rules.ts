@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router, type Request } from 'express';
+import { currentUser, requirePermission } from '../auth';
+import type { DB } from '../db';
+import { HttpError, isRecord, parseId } from '../http';
+import { appendEvent } from '../store/auditLog';
+import { createRulesVersion, getActiveRules, getRulesVersion, listRulesVersions, rulesPayload } from '../store/rules';
+import { programParam } from './programs';
+import { validateFormSchema } from '../../src/lib/formSchema';
+import { offerLetterProblems } from '../../src/lib/offerLetter';
+import { recommendationProblems } from '../../src/lib/recommendation';
+import { crossFieldRuleProblems } from '../../src/lib/validation';
+import { INITIAL_RULES_CONFIG, isRulesConfig, reviveRules, rulesConfigProblems, serializeRules } from '../../src/lib/rules';
+import type { RulesConfig, RulesVersion } from '../../src/lib/types';
+
+function toJson(version: RulesVersion) {
+  return { ...version, rules: serializeRules(version.rules) };
+}
+
+/** Stores a new version of a program's (or the default) rules together with the audit event recording it. */
+function changeRules(db: DB, program: number | null, rules: RulesConfig, author: string, note: string): RulesVersion {
+  return db.transaction(() => {
+    const version = createRulesVersion(db, program, rules, author, note);
+    appendEvent(db, { type: 'rules.changed', actor: author, payload: rulesPayload(version) });
+    return version;
+  })();
+}
+
+function optionalText(body: unknown, key: string): string {
+  const value = isRecord(body) ? body[key] : undefined;
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function requireText(body: unknown, key: string, label: string): string {
+  const value = optionalText(body, key);
+  if (!value) throw new HttpError(400, `${label} is required to change the rules.`);
+  return value;
+}
+
+/**
+ * Each program's rules, and the default rules new programs start from. Every
+ * route takes the program as `?program=` (or `program` in the body); without
+ * one it works on the default rules.
+ */
+export function rulesRouter(db: DB): Router {
+  const router = Router();
+
+  /** The program's id, or null for the default rules. */
+  const programOf = (req: Request): number | null => programParam(db, req.query.program ?? req.body?.program)?.id ?? null;
+
+  router.get('/', (req, res) => {
+    res.json(toJson(getActiveRules(db, programOf(req))));
+  });
+
+  router.get('/versions', requirePermission('viewRules'), (req, res) => {
+    res.json(listRulesVersions(db, programOf(req)).map(toJson));
+  });
+
+  router.put('/', requirePermission('editRules'), (req, res) => {
+    const rules = isRecord(req.body) ? req.body.rules : undefined;
+    if (!isRecord(rules)) throw new HttpError(400, 'Expected a "rules" object.');
+    const author = currentUser(req).displayName;
+    const note = requireText(req.body, 'note', 'A change note');
+    if (!isRulesConfig(rules)) {
+      const problems = rulesConfigProblems(rules);
+      throw new HttpError(400, problems.join(' '), { problems });
+    }
+    const revived = reviveRules(rules);
+    const problems = [
+      ...validateFormSchema(revived.form),
+      ...crossFieldRuleProblems(revived),
+      ...recommendationProblems(revived),
+      ...offerLetterProblems(revived)
+    ];
+    if (problems.length > 0) throw new HttpError(400, problems.join(' '), { problems });
+    res.status(201).json(toJson(changeRules(db, programOf(req), revived, author, note)));
+  });
+
+  router.post('/reset', requirePermission('editRules'), (req, res) => {
+    const author = currentUser(req).displayName;
+    const note = requireText(req.body, 'note', 'A change note');
+    res.status(201).json(toJson(changeRules(db, programOf(req), INITIAL_RULES_CONFIG, author, note)));
+  });
+
+  router.post('/versions/:version/rollback', requirePermission('editRules'), (req, res) => {
+    const target = getRulesVersion(db, parseId(req.params.version));
+    if (!target) throw new HttpError(404, `Rules version ${req.params.version} does not exist.`);
+    const author = currentUser(req).displayName;
+    const reason = optionalText(req.body, 'note');
+    const note = `Rolled back to version ${target.version}${reason ? `: ${reason}` : ''}`;
+    // A version is rolled back within the rules it belongs to.
+    res.status(201).json(toJson(changeRules(db, target.program, target.rules, author, note)));
+  });
+
+  return router;
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import type { DB } from '../db';
+import { currentUser } from '../auth';
+import { HttpError, isRecord, parseId } from '../http';
+import { createUser, findUserByUsername, getUser, listUsers, updateUser, type UserChanges } from '../store/users';
+import { ROLES } from '../../src/lib/permissions';
+import type { Role } from '../../src/lib/types';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function parseRole(value: unknown): Role {
+  if (!ROLES.includes(value as Role)) throw new HttpError(400, `Role must be one of ${ROLES.join(', ')}.`);
+  return value as Role;
+}
+
+function parsePassword(value: unknown): string {
+  if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+  return value;
+}
+
+function parseText(value: unknown, label: string): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) throw new HttpError(400, `${label} is required.`);
+  return text;
+}
+
+/** An email address, or null to clear it. */
+function parseEmail(value: unknown): string | null {
+  if (value !== undefined && value !== null && typeof value !== 'string') throw new HttpError(400, 'An email address must be text.');
+  const email = typeof value === 'string' ? value.trim() : '';
+  if (!email) return null;
+  if (!/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(email)) throw new HttpError(400, `"${email}" is not an email address.`);
+  return email;
+}
+
+/** Local accounts. Mounted behind the `manageUsers` permission. */
+export function usersRouter(db: DB): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.json(listUsers(db));
+  });
+
+  router.post('/', (req, res) => {
+    const body = isRecord(req.body) ? req.body : {};
+    const username = parseText(body.username, 'A username');
+    if (findUserByUsername(db, username)) throw new HttpError(409, `The username "${username}" is taken.`);
+    const user = createUser(db, {
+      username,
+      displayName: parseText(body.displayName, 'A display name'),
+      role: parseRole(body.role),
+      email: parseEmail(body.email)
+    }, parsePassword(body.password));
+    res.status(201).json(user);
+  });
+
+  router.patch('/:id', (req, res) => {
+    const id = parseId(req.params.id);
+    if (!getUser(db, id)) throw new HttpError(404, `User ${req.params.id} does not exist.`);
+
+    const body = isRecord(req.body) ? req.body : {};
+    const changes: UserChanges = {};
+    if (body.displayName !== undefined) changes.displayName = parseText(body.displayName, 'A display name');
+    if (body.role !== undefined) changes.role = parseRole(body.role);
+    if (body.email !== undefined) changes.email = parseEmail(body.email);
+    if (body.active !== undefined) {
+      if (typeof body.active !== 'boolean') throw new HttpError(400, '"active" must be true or false.');
+      changes.active = body.active;
+    }
+    if (body.password !== undefined) changes.password = parsePassword(body.password);
+
+    // Keep at least the acting admin able to manage accounts.
+    if (id === currentUser(req).id && ((changes.role && changes.role !== 'admin') || changes.active === false)) {
+      throw new HttpError(400, 'You cannot remove your own admin access.');
+    }
+
+    res.json(db.transaction(() => updateUser(db, id, changes))());
+  });
+
+  return router;
+}
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import type { DB } from '../db';
+import type { Attachment } from '../../src/lib/types';
+
+export interface AttachmentRow {
+  id: number;
+  candidate_id: number | null;
+  field: string | null;
+  file_name: string;
+  content_type: string;
+  size: number;
+  sha256: string;
+  uploaded_by: number;
+  uploaded_at: string;
+  /** Display name joined from `users`. */
+  uploaded_by_name: string;
+}
+
+/** A file as received, before it is stored. */
+export interface Upload {
+  field: string | null;
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/** Uploads nobody submitted are removed after this long; drafts older than that lose their documents. */
+const STALE_UPLOAD_DAYS = 30;
+
+/** Every column but the content, which is only read to download a file. */
+export const SELECT_ATTACHMENTS = `
+  SELECT attachments.id, attachments.candidate_id, attachments.field, attachments.file_name, attachments.content_type,
+    attachments.size, attachments.sha256, attachments.uploaded_by, attachments.uploaded_at, users.display_name AS uploaded_by_name
+  FROM attachments JOIN users ON users.id = attachments.uploaded_by
+`;
+
+export function toAttachment(row: AttachmentRow): Attachment {
+  return {
+    id: row.id,
+    field: row.field,
+    fileName: row.file_name,
+    contentType: row.content_type,
+    size: row.size,
+    sha256: row.sha256,
+    uploadedBy: row.uploaded_by_name,
+    uploadedAt: row.uploaded_at
+  };
+}
+
+/** Stores a file, linked to an entry or, without `candidateId`, waiting for the form it was uploaded from. */
+export function storeAttachment(db: DB, upload: Upload, uploadedBy: number, candidateId: number | null = null): Attachment {
+  const result = db.prepare(`
+    INSERT INTO attachments (candidate_id, field, file_name, content_type, size, sha256, content, uploaded_by, uploaded_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    candidateId,
+    upload.field,
+    upload.fileName,
+    upload.contentType,
+    upload.content.length,
+    crypto.createHash('sha256').update(upload.content).digest('hex'),
+    upload.content,
+    uploadedBy,
+    new Date().toISOString()
+  );
+  return toAttachment(getAttachmentRow(db, Number(result.lastInsertRowid))!);
+}
+
+export function getAttachmentRow(db: DB, id: number): AttachmentRow | undefined {
+  return db.prepare(`${SELECT_ATTACHMENTS} WHERE attachments.id = ?`).get(id) as AttachmentRow | undefined;
+}
+
+export function getAttachmentContent(db: DB, id: number): Buffer {
+  return (db.prepare('SELECT content FROM attachments WHERE id = ?').get(id) as { content: Buffer }).content;
+}
+
+/** Of `ids`, the uploads `userId` made that no entry holds yet. */
+export function pendingUploads(db: DB, ids: number[], userId: number): Attachment[] {
+  if (ids.length === 0) return [];
+  const rows = db.prepare(`
+    ${SELECT_ATTACHMENTS}
+    WHERE attachments.id IN (${ids.map(() => '?').join(', ')}) AND attachments.candidate_id IS NULL AND attachments.uploaded_by = ?
+  `).all(...ids, userId) as AttachmentRow[];
+  return rows.map(toAttachment);
+}
+
+/** Hands pending uploads over to the entry they were uploaded for. Callers check them with `pendingUploads` first. */
+export function linkAttachments(db: DB, ids: number[], candidateId: number) {
+  const link = db.prepare('UPDATE attachments SET candidate_id = ? WHERE id = ? AND candidate_id IS NULL');
+  ids.forEach(id => link.run(candidateId, id));
+}
+
+/** Removes uploads that were never submitted, once they are old enough that no form is still waiting for them. */
+export function purgeStaleUploads(db: DB) {
+  const cutoff = new Date(Date.now() - STALE_UPLOAD_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  db.prepare('DELETE FROM attachments WHERE candidate_id IS NULL AND uploaded_at < ?').run(cutoff);
+}
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import type { DB } from '../db';
+import type { PiiVault } from '../pii';
+import { maskAadhaar } from '../../src/lib/pii';
+import type { AuditEvent, AuditEventType, CandidateSubmission, ChainAnchor, ChainProblem, ChainVerification } from '../../src/lib/types';
+
+interface AuditEventRow {
+  id: number;
+  type: AuditEventType;
+  candidate_id: number | null;
+  actor: string;
+  payload: string;
+  created_at: string;
+  prev_hash: string;
+  hash: string;
+}
+
+/** What the first event links back to. */
+const GENESIS_HASH = '0'.repeat(64);
+
+/** The key each database's chain is signed with, set by `ensureAuditLog`. */
+const chainKeys = new WeakMap<DB, Buffer>();
+
+function eventContent(row: Omit<AuditEventRow, 'hash'>): string {
+  return JSON.stringify([row.id, row.type, row.candidate_id, row.actor, row.created_at, row.payload, row.prev_hash]);
+}
+
+/**
+ * HMAC-SHA-256 over everything an event records, as stored, keyed with the
+ * server's audit key. Someone who can write to the database but does not hold
+ * the key cannot rewrite events and recompute the hashes after them.
+ */
+function eventHash(db: DB, row: Omit<AuditEventRow, 'hash'>): string {
+  const key = chainKeys.get(db);
+  if (!key) throw new Error('The audit trail has no key yet; call ensureAuditLog first.');
+  return crypto.createHmac('sha256', key).update(eventContent(row)).digest('hex');
+}
+
+/** The plain SHA-256 the chain used before it was keyed. */
+function unkeyedHash(row: Omit<AuditEventRow, 'hash'>): string {
+  return crypto.createHash('sha256').update(eventContent(row)).digest('hex');
+}
+
+function toAuditEvent(row: AuditEventRow): AuditEvent {
+  return {
+    id: row.id,
+    type: row.type,
+    candidateId: row.candidate_id,
+    actor: row.actor,
+    payload: JSON.parse(row.payload),
+    createdAt: row.created_at,
+    prevHash: row.prev_hash,
+    hash: row.hash
+  };
+}
+
+/**
+ * Links a new event onto the end of the chain. Call it in the same
+ * transaction as the change it records, so neither exists without the other.
+ */
+export function appendEvent(
+  db: DB,
+  event: { type: AuditEventType; candidateId?: number | null; actor: string; payload: Record<string, unknown> }
+): AuditEvent {
+  return db.transaction(() => {
+    const last = db.prepare('SELECT id, hash FROM audit_events ORDER BY id DESC LIMIT 1').get() as { id: number; hash: string } | undefined;
+    const row = {
+      id: (last?.id ?? 0) + 1,
+      type: event.type,
+      candidate_id: event.candidateId ?? null,
+      actor: event.actor,
+      payload: JSON.stringify(event.payload),
+      created_at: new Date().toISOString(),
+      prev_hash: last?.hash ?? GENESIS_HASH
+    };
+    const hash = eventHash(db, row);
+    db.prepare(`
+      INSERT INTO audit_events (id, type, candidate_id, actor, payload, created_at, prev_hash, hash)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(row.id, row.type, row.candidate_id, row.actor, row.payload, row.created_at, row.prev_hash, hash);
+    return toAuditEvent({ ...row, hash });
+  })();
+}
+
+/**
+ * An entry's values as an event records them: the Aadhaar number masked, with
+ * its keyed fingerprint so a changed number still changes the hash.
+ */
+export function submissionPayload(submission: CandidateSubmission, vault: PiiVault): Record<string, unknown> {
+  const aadhaar = String(submission.aadhaar ?? '');
+  return {
+    ...submission,
+    aadhaar: maskAadhaar(aadhaar),
+    aadhaarFingerprint: aadhaar ? vault.fingerprint(aadhaar) : null
+  };
+}
+
+/**
+ * Signs every event of a chain written before it was keyed, provided the
+ * chain still holds as plain SHA-256. Only a chain with no keyed event is
+ * considered, so this runs once per database; a chain that does not hold is
+ * left as it is, for verification to report.
+ */
+function keyUnkeyedChain(db: DB) {
+  const rows = db.prepare('SELECT * FROM audit_events ORDER BY id').all() as AuditEventRow[];
+  const head = rows[rows.length - 1];
+  if (!head) return;
+  const { hash, ...content } = head;
+  if (eventHash(db, content) === hash) return;
+
+  const holds = rows.every((row, i) => {
+    const { hash, ...content } = row;
+    return row.id === i + 1 && row.prev_hash === (i === 0 ? GENESIS_HASH : rows[i - 1].hash) && unkeyedHash(content) === hash;
+  });
+  if (!holds) {
+    console.error('The newest audit event matches neither the audit key nor the unkeyed hashes of old, so the trail was not signed. Check ADMITGUARD_AUDIT_KEY or audit.key.');
+    return;
+  }
+
+  // The only rewrite the table ever sees: the triggers come back in the same transaction.
+  db.transaction(() => {
+    db.exec('DROP TRIGGER audit_events_no_update');
+    const rewrite = db.prepare('UPDATE audit_events SET prev_hash = ?, hash = ? WHERE id = ?');
+    let previous = GENESIS_HASH;
+    rows.forEach(row => {
+      const signed = eventHash(db, { ...row, prev_hash: previous });
+      rewrite.run(previous, signed, row.id);
+      previous = signed;
+    });
+    db.exec(`
+      CREATE TRIGGER audit_events_no_update BEFORE UPDATE ON audit_events
+      BEGIN SELECT RAISE(ABORT, 'audit events are immutable'); END;
+    `);
+    appendEvent(db, { type: 'log.keyed', actor: 'system', payload: { signedEvents: rows.length, unkeyedHeadHash: head.hash } });
+  })();
+}
+
+/**
+ * Keys the chain with `key`, signing a chain from before keys once, and opens
+ * it on a database that has none yet, recording what it already held:
+ * entries stored before the log existed are covered from here on only.
+ */
+export function ensureAuditLog(db: DB, key: Buffer) {
+  chainKeys.set(db, key);
+  keyUnkeyedChain(db);
+  if (db.prepare('SELECT 1 FROM audit_events LIMIT 1').get()) return;
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM candidates').get() as { count: number };
+  const rules = db.prepare('SELECT MAX(id) AS version FROM rule_versions').get() as { version: number | null };
+  appendEvent(db, { type: 'log.started', actor: 'system', payload: { existingEntries: count, rulesVersion: rules.version } });
+}
+
+/** The newest `limit` events, newest first. */
+export function listEvents(db: DB, limit = 100): AuditEvent[] {
+  const rows = db.prepare('SELECT * FROM audit_events ORDER BY id DESC LIMIT ?').all(limit) as AuditEventRow[];
+  return rows.map(toAuditEvent);
+}
+
+/** The newest event's number and hash, to note down outside AdmitGuard; null for an empty chain. */
+export function chainHead(db: DB): ChainAnchor | null {
+  const head = db.prepare('SELECT id, hash FROM audit_events ORDER BY id DESC LIMIT 1').get() as { id: number; hash: string } | undefined;
+  return head ? { eventCount: head.id, headHash: head.hash } : null;
+}
+
+/**
+ * Walks the chain from the first event and reports every event whose content
+ * no longer matches its hash, whose link does not match the event before it,
+ * or that is missing from the numbering. Given an `anchor`, a head noted down
+ * earlier, it also reports a chain that no longer reaches that event or
+ * carries another hash there, which is how events cut from the end show up.
+ */
+export function verifyChain(db: DB, anchor?: ChainAnchor): ChainVerification {
+  const problems: ChainProblem[] = [];
+  let previous: AuditEventRow | undefined;
+  let eventCount = 0;
+
+  for (const row of db.prepare('SELECT * FROM audit_events ORDER BY id').iterate() as IterableIterator<AuditEventRow>) {
+    eventCount++;
+    const expectedId = (previous?.id ?? 0) + 1;
+    if (row.id !== expectedId) {
+      problems.push({
+        eventId: row.id,
+        kind: 'missing',
+        message: row.id - expectedId === 1
+          ? `Event ${expectedId} is missing.`
+          : `Events ${expectedId} to ${row.id - 1} are missing.`
+      });
+    }
+    const { hash, ...content } = row;
+    if (eventHash(db, content) !== hash) {
+      problems.push({ eventId: row.id, kind: 'altered', message: `Event ${row.id} does not match its hash; its content was changed.` });
+    }
+    const expectedLink = previous?.hash ?? GENESIS_HASH;
+    if (row.prev_hash !== expectedLink) {
+      problems.push({
+        eventId: row.id,
+        kind: 'broken-link',
+        message: previous
+          ? `Event ${row.id} does not link to event ${previous.id}.`
+          : `Event ${row.id} is the first event but does not start the chain.`
+      });
+    }
+    if (anchor && row.id === anchor.eventCount && row.hash !== anchor.headHash) {
+      problems.push({ eventId: row.id, kind: 'altered', message: `Event ${row.id} does not carry the anchored hash; the chain was rewritten up to there.` });
+    }
+    previous = row;
+  }
+
+  if (anchor && (previous?.id ?? 0) < anchor.eventCount) {
+    problems.push({
+      eventId: anchor.eventCount,
+      kind: 'truncated',
+      message: `The chain ends at event ${previous?.id ?? 0}, but event ${anchor.eventCount} was anchored; the events after it were removed.`
+    });
+  }
+
+  return {
+    intact: problems.length === 0,
+    eventCount,
+    headHash: previous?.hash ?? null,
+    anchor: anchor ?? null,
+    problems,
+    verifiedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DB } from '../db';
+import type { PiiVault } from '../pii';
+import { SELECT_ATTACHMENTS, toAttachment, type AttachmentRow } from './attachments';
+import { SELECT_OFFER_LETTERS, toOfferLetter, type OfferLetterRow } from './offerLetters';
+import { isCoreField } from '../../src/lib/formSchema';
+import { maskAadhaar } from '../../src/lib/pii';
+import type {
+  AuditLogEntry, CandidateFields, CandidateSubmission, DuplicateMatch, ExceptionDecision, ExceptionReview, FieldChange,
+  RationaleCheck, ReviewEvent, ReviewStatus
+} from '../../src/lib/types';
+
+/** Form field → `candidates` column. */
+export const CANDIDATE_COLUMNS: Record<keyof CandidateFields, string> = {
+  fullName: 'full_name',
+  email: 'email',
+  phone: 'phone',
+  dob: 'dob',
+  qualification: 'qualification',
+  gradYear: 'grad_year',
+  score: 'score',
+  screeningScore: 'screening_score',
+  status: 'status',
+  aadhaar: 'aadhaar'
+};
+
+const FIELDS = Object.keys(CANDIDATE_COLUMNS) as (keyof CandidateFields)[];
+
+interface CandidateRow {
+  id: number;
+  is_cgpa: number;
+  offer_sent: number;
+  flagged: number;
+  exception_count: number;
+  submitted_at: string;
+  rules_version: number | null;
+  program_id: number | null;
+  review_status: ReviewStatus | null;
+  submitted_by: number | null;
+  /** Keyed hash of the Aadhaar digits; the `aadhaar` column itself only holds the masked number. */
+  aadhaar_hash: string | null;
+  aadhaar_cipher: string | null;
+  /** JSON object holding the values of fields added to the form in Rules Config. */
+  extra_fields: string;
+  /** Display name joined from `users`. */
+  submitted_by_name: string | null;
+  /** Joined from `programs`. */
+  program_name: string | null;
+  [column: string]: string | number | null;
+}
+
+interface ExceptionRow {
+  candidate_id: number;
+  field: string;
+  rationale: string;
+  decision: ExceptionDecision | null;
+  decision_comment: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  quality_score: number | null;
+  quality_critique: string | null;
+  quality_checker: string | null;
+  quality_checked_at: string | null;
+}
+
+interface ReviewEventRow {
+  candidate_id: number;
+  from_status: ReviewStatus | null;
+  to_status: ReviewStatus;
+  reviewer: string;
+  comment: string;
+  created_at: string;
+}
+
+interface ChangeRow {
+  candidate_id: number;
+  field: string;
+  old_value: string;
+  new_value: string;
+  reason: string;
+  changed_by: string;
+  changed_at: string;
+}
+
+function toLogEntry(
+  row: CandidateRow,
+  exceptions: ExceptionRow[],
+  events: ReviewEventRow[],
+  changes: ChangeRow[],
+  attachments: AttachmentRow[],
+  letters: OfferLetterRow[],
+  reveal?: PiiVault
+): AuditLogEntry {
+  const fields = {} as CandidateFields;
+  FIELDS.forEach(field => {
+    fields[field] = String(row[CANDIDATE_COLUMNS[field]] ?? '');
+  });
+  if (reveal && row.aadhaar_cipher) fields.aadhaar = reveal.decrypt(row.aadhaar_cipher);
+  return {
+    ...fields,
+    extraFields: JSON.parse(row.extra_fields || '{}'),
+    id: row.id,
+    isCgpa: !!row.is_cgpa,
+    offerSent: !!row.offer_sent,
+    flagged: !!row.flagged,
+    exceptionCount: row.exception_count,
+    exceptions: exceptions.reduce((obj, e) => {
+      obj[e.field] = e.rationale;
+      return obj;
+    }, {} as Record<string, string>),
+    timestamp: row.submitted_at,
+    rulesVersion: row.rules_version,
+    programId: row.program_id,
+    program: row.program_name,
+    reviewStatus: row.review_status,
+    exceptionReviews: exceptions.reduce((obj, e) => {
+      if (e.decision) {
+        obj[e.field] = { decision: e.decision, comment: e.decision_comment || '', reviewer: e.decided_by || '', decidedAt: e.decided_at || '' };
+      }
+      return obj;
+    }, {} as Record<string, ExceptionReview>),
+    rationaleChecks: exceptions.reduce((obj, e) => {
+      if (e.quality_score !== null) {
+        obj[e.field] = { score: e.quality_score, critique: e.quality_critique || '', checker: e.quality_checker || '', checkedAt: e.quality_checked_at || '' };
+      }
+      return obj;
+    }, {} as Record<string, RationaleCheck>),
+    reviewHistory: events.map((e): ReviewEvent => ({
+      fromStatus: e.from_status,
+      toStatus: e.to_status,
+      reviewer: e.reviewer,
+      comment: e.comment,
+      createdAt: e.created_at
+    })),
+    submittedBy: row.submitted_by_name,
+    changeHistory: changes.map((c): FieldChange => ({
+      field: c.field,
+      oldValue: c.old_value,
+      newValue: c.new_value,
+      reason: c.reason,
+      changedBy: c.changed_by,
+      changedAt: c.changed_at
+    })),
+    attachments: attachments.map(toAttachment),
+    offerSentAt: letters[0]?.issued_at ?? null,
+    offerLetters: letters.map(toOfferLetter)
+  };
+}
+
+function groupByCandidate<T extends { candidate_id: number }>(rows: T[]): Map<number, T[]> {
+  const grouped = new Map<number, T[]>();
+  rows.forEach(row => {
+    grouped.set(row.candidate_id, [...(grouped.get(row.candidate_id) || []), row]);
+  });
+  return grouped;
+}
+
+const SELECT_CANDIDATES = `
+  SELECT candidates.*, users.display_name AS submitted_by_name, programs.name AS program_name
+  FROM candidates
+    LEFT JOIN users ON users.id = candidates.submitted_by
+    LEFT JOIN programs ON programs.id = candidates.program_id
+`;
+
+export interface ListOptions {
+  /** Only entries submitted by this user. */
+  submittedBy?: number;
+  /** Decrypts full Aadhaar numbers; without it entries carry the masked number. */
+  reveal?: PiiVault;
+}
+
+/** All candidates, newest first. */
+export function listCandidates(db: DB, options: ListOptions = {}): AuditLogEntry[] {
+  const rows = (options.submittedBy === undefined
+    ? db.prepare(`${SELECT_CANDIDATES} ORDER BY submitted_at DESC, candidates.id DESC`).all()
+    : db.prepare(`${SELECT_CANDIDATES} WHERE candidates.submitted_by = ? ORDER BY submitted_at DESC, candidates.id DESC`).all(options.submittedBy)
+  ) as CandidateRow[];
+  const exceptions = groupByCandidate(db.prepare('SELECT * FROM exceptions ORDER BY id').all() as ExceptionRow[]);
+  const events = groupByCandidate(db.prepare('SELECT * FROM review_events ORDER BY id').all() as ReviewEventRow[]);
+  const changes = groupByCandidate(db.prepare('SELECT * FROM candidate_changes ORDER BY id').all() as ChangeRow[]);
+  const attachments = groupByCandidate(db.prepare(`${SELECT_ATTACHMENTS} WHERE attachments.candidate_id IS NOT NULL ORDER BY attachments.id`)
+    .all() as (AttachmentRow & { candidate_id: number })[]);
+  const letters = groupByCandidate(db.prepare(`${SELECT_OFFER_LETTERS} ORDER BY offer_letters.id DESC`).all() as OfferLetterRow[]);
+  return rows.map(row => toLogEntry(
+    row, exceptions.get(row.id) || [], events.get(row.id) || [], changes.get(row.id) || [], attachments.get(row.id) || [],
+    letters.get(row.id) || [], options.reveal
+  ));
+}
+
+export function getCandidate(db: DB, id: number, options: ListOptions = {}): AuditLogEntry | undefined {
+  const row = db.prepare(`${SELECT_CANDIDATES} WHERE candidates.id = ?`).get(id) as CandidateRow | undefined;
+  if (row && options.submittedBy !== undefined && row.submitted_by !== options.submittedBy) return undefined;
+  if (!row) return undefined;
+  const exceptions = db.prepare('SELECT * FROM exceptions WHERE candidate_id = ? ORDER BY id').all(id) as ExceptionRow[];
+  const events = db.prepare('SELECT * FROM review_events WHERE candidate_id = ? ORDER BY id').all(id) as ReviewEventRow[];
+  const changes = db.prepare('SELECT * FROM candidate_changes WHERE candidate_id = ? ORDER BY id').all(id) as ChangeRow[];
+  const attachments = db.prepare(`${SELECT_ATTACHMENTS} WHERE attachments.candidate_id = ? ORDER BY attachments.id`).all(id) as AttachmentRow[];
+  const letters = db.prepare(`${SELECT_OFFER_LETTERS} WHERE offer_letters.candidate_id = ? ORDER BY offer_letters.id DESC`).all(id) as OfferLetterRow[];
+  return toLogEntry(row, exceptions, events, changes, attachments, letters, options.reveal);
+}
+
+export interface InsertOptions {
+  submittedAt?: string;
+  /** Rules version the submission was validated against. */
+  rulesVersion?: number;
+  /** Intake program the candidate applied to. */
+  programId?: number;
+  /** Id the entry had in a browser's localStorage before the backend existed. */
+  legacyId?: number;
+  /** User who submitted the entry. */
+  submittedBy?: number;
+}
+
+/**
+ * Stores a submission and its exceptions, sealing the Aadhaar number with
+ * `vault`. Not transactional on its own; callers wrap batches.
+ */
+export function insertCandidate(db: DB, submission: CandidateSubmission, vault: PiiVault, options: InsertOptions = {}): number {
+  const columns = FIELDS.map(field => CANDIDATE_COLUMNS[field]);
+  const aadhaar = String(submission.aadhaar ?? '');
+  const result = db.prepare(`
+    INSERT INTO candidates (${columns.join(', ')}, extra_fields, aadhaar_hash, aadhaar_cipher, legacy_id, rules_version, program_id, is_cgpa, offer_sent, flagged, exception_count, review_status, submitted_by, submitted_at)
+    VALUES (${columns.map(() => '?').join(', ')}, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    ...FIELDS.map(field => field === 'aadhaar' ? maskAadhaar(aadhaar) : String(submission[field] ?? '')),
+    JSON.stringify(submission.extraFields || {}),
+    aadhaar ? vault.fingerprint(aadhaar) : null,
+    aadhaar ? vault.encrypt(aadhaar) : null,
+    options.legacyId ?? null,
+    options.rulesVersion ?? null,
+    options.programId ?? null,
+    submission.isCgpa ? 1 : 0,
+    submission.offerSent ? 1 : 0,
+    submission.flagged ? 1 : 0,
+    submission.exceptionCount,
+    submission.flagged ? 'Pending Review' : null,
+    options.submittedBy ?? null,
+    options.submittedAt || new Date().toISOString()
+  );
+
+  const id = Number(result.lastInsertRowid);
+  const insertException = db.prepare('INSERT INTO exceptions (candidate_id, field, rationale) VALUES (?, ?, ?)');
+  Object.entries(submission.exceptions || {}).forEach(([field, rationale]) => {
+    insertException.run(id, field, rationale);
+  });
+  return id;
+}
+
+/**
+ * Overwrites a stored entry with an edited submission and the rules version it
+ * was re-validated against. Waivers whose rationale is unchanged keep their
+ * review decision; changed or new ones start undecided. An entry that now
+ * needs review and was never queued joins the queue. Callers wrap it in a
+ * transaction and record what changed.
+ */
+export function updateCandidate(db: DB, id: number, submission: CandidateSubmission, vault: PiiVault, rulesVersion: number) {
+  const columns = FIELDS.map(field => CANDIDATE_COLUMNS[field]);
+  const aadhaar = String(submission.aadhaar ?? '');
+  db.prepare(`
+    UPDATE candidates SET ${columns.map(column => `${column} = ?`).join(', ')}, extra_fields = ?, aadhaar_hash = ?, aadhaar_cipher = ?,
+      rules_version = ?, is_cgpa = ?, offer_sent = ?, flagged = ?, exception_count = ?,
+      review_status = CASE WHEN ? = 1 AND review_status IS NULL THEN 'Pending Review' ELSE review_status END
+    WHERE id = ?
+  `).run(
+    ...FIELDS.map(field => field === 'aadhaar' ? maskAadhaar(aadhaar) : String(submission[field] ?? '')),
+    JSON.stringify(submission.extraFields || {}),
+    aadhaar ? vault.fingerprint(aadhaar) : null,
+    aadhaar ? vault.encrypt(aadhaar) : null,
+    rulesVersion,
+    submission.isCgpa ? 1 : 0,
+    submission.offerSent ? 1 : 0,
+    submission.flagged ? 1 : 0,
+    submission.exceptionCount,
+    submission.flagged ? 1 : 0,
+    id
+  );
+
+  const stored = db.prepare('SELECT field, rationale FROM exceptions WHERE candidate_id = ?').all(id) as { field: string; rationale: string }[];
+  const remove = db.prepare('DELETE FROM exceptions WHERE candidate_id = ? AND field = ?');
+  stored.forEach(({ field, rationale }) => {
+    if (submission.exceptions[field] !== rationale) remove.run(id, field);
+  });
+  const insert = db.prepare('INSERT INTO exceptions (candidate_id, field, rationale) VALUES (?, ?, ?)');
+  Object.entries(submission.exceptions).forEach(([field, rationale]) => {
+    if (!stored.some(e => e.field === field && e.rationale === rationale)) insert.run(id, field, rationale);
+  });
+}
+
+/**
+ * Up to `limit` entries, newest first, whose `field` matches `value` ignoring
+ * case and surrounding whitespace (Aadhaar numbers are compared by their
+ * fingerprint). Fields added in Rules Config are looked up in `extra_fields`.
+ * With `viewerId`, only that user's own entries are marked as openable.
+ */
+export function findByFieldValue(
+  db: DB,
+  vault: PiiVault,
+  field: string,
+  value: string,
+  viewerId?: number,
+  limit = 5
+): DuplicateMatch[] {
+  const [condition, params] = field === 'aadhaar'
+    ? ['candidates.aadhaar_hash = ?', [vault.fingerprint(value)]]
+    : isCoreField(field)
+      ? [`lower(trim(candidates.${CANDIDATE_COLUMNS[field]})) = lower(trim(?))`, [value]]
+      : [`lower(trim(json_extract(candidates.extra_fields, ?))) = lower(trim(?))`, [`$.${field}`, value]];
+  const rows = db.prepare(`
+    ${SELECT_CANDIDATES}
+    WHERE ${condition}
+    ORDER BY submitted_at DESC, candidates.id DESC LIMIT ?
+  `).all(...params, limit) as CandidateRow[];
+  return rows.map(row => ({
+    id: row.id,
+    fullName: String(row.full_name),
+    status: String(row.status),
+    reviewStatus: row.review_status,
+    timestamp: row.submitted_at,
+    submittedBy: row.submitted_by_name,
+    canOpen: viewerId === undefined || row.submitted_by === viewerId
+  }));
+}
+
+/**
+ * Seals Aadhaar numbers stored in plain text before masking existed. Runs on
+ * every start and only touches rows that have not been sealed yet.
+ */
+export function sealStoredAadhaar(db: DB, vault: PiiVault) {
+  const rows = db.prepare(`SELECT id, aadhaar FROM candidates WHERE aadhaar_cipher IS NULL AND aadhaar != ''`)
+    .all() as { id: number; aadhaar: string }[];
+  if (rows.length === 0) return;
+  const seal = db.prepare('UPDATE candidates SET aadhaar = ?, aadhaar_hash = ?, aadhaar_cipher = ? WHERE id = ?');
+  db.transaction(() => {
+    rows.forEach(row => {
+      seal.run(maskAadhaar(row.aadhaar), vault.fingerprint(row.aadhaar), vault.encrypt(row.aadhaar), row.id);
+    });
+  })();
+}
+
+export function hasLegacyCandidate(db: DB, legacyId: number): boolean {
+  return !!db.prepare('SELECT 1 FROM candidates WHERE legacy_id = ?').get(legacyId);
+}
+
+/** Removes every entry with its exceptions and history, returning how many there were. */
+export function deleteAllCandidates(db: DB): number {
+  return db.prepare('DELETE FROM candidates').run().changes;
+}
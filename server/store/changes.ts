@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DB } from '../db';
+import type { FieldChange } from '../../src/lib/types';
+
+/** Appends one edit's changed values to an entry's history. Callers wrap it in a transaction with the update. */
+export function recordChanges(
+  db: DB,
+  candidateId: number,
+  changes: Pick<FieldChange, 'field' | 'oldValue' | 'newValue'>[],
+  reason: string,
+  changedBy: string
+) {
+  const now = new Date().toISOString();
+  const insert = db.prepare(`
+    INSERT INTO candidate_changes (candidate_id, field, old_value, new_value, reason, changed_by, changed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  changes.forEach(change => {
+    insert.run(candidateId, change.field, change.oldValue, change.newValue, reason, changedBy, now);
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DB } from '../db';
+import type { PiiVault } from '../pii';
+import type { Draft, DraftForm } from '../../src/lib/types';
+
+interface DraftRow {
+  id: number;
+  user_id: number;
+  form_cipher: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Drafts hold whatever was typed, Aadhaar numbers included, so they are stored encrypted whole. */
+function toDraft(row: DraftRow, vault: PiiVault): Draft {
+  return {
+    id: row.id,
+    form: JSON.parse(vault.decrypt(row.form_cipher)),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/** A user's drafts, most recently saved first. */
+export function listDrafts(db: DB, vault: PiiVault, userId: number): Draft[] {
+  const rows = db.prepare('SELECT * FROM drafts WHERE user_id = ? ORDER BY updated_at DESC, id DESC').all(userId) as DraftRow[];
+  return rows.map(row => toDraft(row, vault));
+}
+
+export function countDrafts(db: DB, userId: number): number {
+  return (db.prepare('SELECT COUNT(*) AS count FROM drafts WHERE user_id = ?').get(userId) as { count: number }).count;
+}
+
+/** One of the user's drafts; other users' drafts read as missing. */
+export function getDraft(db: DB, vault: PiiVault, id: number, userId: number): Draft | undefined {
+  const row = db.prepare('SELECT * FROM drafts WHERE id = ? AND user_id = ?').get(id, userId) as DraftRow | undefined;
+  return row && toDraft(row, vault);
+}
+
+export function createDraft(db: DB, vault: PiiVault, userId: number, form: DraftForm): Draft {
+  const now = new Date().toISOString();
+  const result = db.prepare('INSERT INTO drafts (user_id, form_cipher, created_at, updated_at) VALUES (?, ?, ?, ?)')
+    .run(userId, vault.encrypt(JSON.stringify(form)), now, now);
+  return getDraft(db, vault, Number(result.lastInsertRowid), userId)!;
+}
+
+/** Replaces the draft's form; resolves to undefined when the user has no such draft. */
+export function updateDraft(db: DB, vault: PiiVault, id: number, userId: number, form: DraftForm): Draft | undefined {
+  const result = db.prepare('UPDATE drafts SET form_cipher = ?, updated_at = ? WHERE id = ? AND user_id = ?')
+    .run(vault.encrypt(JSON.stringify(form)), new Date().toISOString(), id, userId);
+  return result.changes > 0 ? getDraft(db, vault, id, userId) : undefined;
+}
+
+export function deleteDraft(db: DB, id: number, userId: number): boolean {
+  return db.prepare('DELETE FROM drafts WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DB } from '../db';
+import { usersToNotify } from './users';
+import { offerEmail, reviewRequestEmail } from '../../src/lib/notifications';
+import { PERMISSIONS } from '../../src/lib/permissions';
+import type { CandidateSubmission, FieldDefinition, NotificationKind, NotificationStatus, OfferLetter, OutboxMessage } from '../../src/lib/types';
+
+interface NotificationRow {
+  id: number;
+  kind: NotificationKind;
+  candidate_id: number | null;
+  offer_letter_id: number | null;
+  recipient: string;
+  subject: string;
+  body: string;
+  status: NotificationStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+/** A queued email with what the transport needs to send it. */
+export interface DueNotification {
+  id: number;
+  recipient: string;
+  subject: string;
+  body: string;
+  attempts: number;
+  /** The PDF to attach, for offer emails. */
+  offerLetter: Buffer | null;
+}
+
+function toOutboxMessage(row: NotificationRow): OutboxMessage {
+  return {
+    id: row.id,
+    kind: row.kind,
+    candidateId: row.candidate_id,
+    recipient: row.recipient,
+    subject: row.subject,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at,
+    createdAt: row.created_at,
+    sentAt: row.sent_at
+  };
+}
+
+/** Where emails point people to, from `ADMITGUARD_APP_URL`; emails carry no link without it. */
+function appUrl(): string {
+  return (process.env.ADMITGUARD_APP_URL || '').replace(/\/+$/, '');
+}
+
+/**
+ * Adds an email to the outbox, due at once. Not transactional on its own:
+ * callers queue it in the transaction that makes the change it reports, so
+ * it goes out exactly when the change is stored.
+ */
+export function queueNotification(
+  db: DB,
+  notification: { kind: NotificationKind; candidateId: number; offerLetterId?: number; recipient: string; subject: string; body: string }
+) {
+  const now = new Date().toISOString();
+  db.prepare(`
+    INSERT INTO notifications (kind, candidate_id, offer_letter_id, recipient, subject, body, next_attempt_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    notification.kind,
+    notification.candidateId,
+    notification.offerLetterId ?? null,
+    notification.recipient,
+    notification.subject,
+    notification.body,
+    now,
+    now
+  );
+}
+
+/** Asks everyone who reviews entries, and has an email address, to review a flagged entry. Returns how many were asked. */
+export function queueReviewRequests(db: DB, candidateId: number, entry: CandidateSubmission, form: FieldDefinition[], submittedBy: string): number {
+  const reviewers = usersToNotify(db, PERMISSIONS.reviewEntries);
+  reviewers.forEach(reviewer => {
+    const email = reviewRequestEmail(entry, form, { reviewer: reviewer.displayName, submittedBy, link: appUrl() });
+    queueNotification(db, { kind: 'review.requested', candidateId, recipient: reviewer.email!, ...email });
+  });
+  return reviewers.length;
+}
+
+/** Sends the candidate their offer letter; false when the entry has no email address to send it to. */
+export function queueOfferEmail(db: DB, candidateId: number, entry: CandidateSubmission, letter: OfferLetter): boolean {
+  const recipient = entry.email.trim();
+  if (!recipient) return false;
+  queueNotification(db, { kind: 'offer.sent', candidateId, offerLetterId: letter.id, recipient, ...offerEmail(entry, letter) });
+  return true;
+}
+
+/** Newest first, optionally only those with one status. */
+export function listNotifications(db: DB, status?: NotificationStatus, limit = 200): OutboxMessage[] {
+  const rows = status
+    ? db.prepare('SELECT * FROM notifications WHERE status = ? ORDER BY id DESC LIMIT ?').all(status, limit)
+    : db.prepare('SELECT * FROM notifications ORDER BY id DESC LIMIT ?').all(limit);
+  return (rows as NotificationRow[]).map(toOutboxMessage);
+}
+
+/** Queued emails whose next attempt is due, oldest first. */
+export function dueNotifications(db: DB, now: string, limit: number): DueNotification[] {
+  const rows = db.prepare(`
+    SELECT notifications.*, offer_letters.content AS offer_letter FROM notifications
+    LEFT JOIN offer_letters ON offer_letters.id = notifications.offer_letter_id
+    WHERE notifications.status = 'queued' AND notifications.next_attempt_at <= ?
+    ORDER BY notifications.id LIMIT ?
+  `).all(now, limit) as (NotificationRow & { offer_letter: Buffer | null })[];
+  return rows.map(row => ({
+    id: row.id,
+    recipient: row.recipient,
+    subject: row.subject,
+    body: row.body,
+    attempts: row.attempts,
+    offerLetter: row.offer_letter
+  }));
+}
+
+export function markSent(db: DB, id: number) {
+  db.prepare(`
+    UPDATE notifications SET status = 'sent', attempts = attempts + 1, last_error = NULL, next_attempt_at = NULL, sent_at = ? WHERE id = ?
+  `).run(new Date().toISOString(), id);
+}
+
+/** Records a failed attempt; without a `retryAt` the email is given up on. */
+export function markAttemptFailed(db: DB, id: number, error: string, retryAt: string | null) {
+  db.prepare(`
+    UPDATE notifications SET status = ?, attempts = attempts + 1, last_error = ?, next_attempt_at = ? WHERE id = ?
+  `).run(retryAt ? 'queued' : 'failed', error, retryAt, id);
+}
+
+/** Queues a failed email again with a fresh set of retries. False if it is not a failed one. */
+export function retryNotification(db: DB, id: number): boolean {
+  return db.prepare(`
+    UPDATE notifications SET status = 'queued', attempts = 0, next_attempt_at = ? WHERE id = ? AND status = 'failed'
+  `).run(new Date().toISOString(), id).changes > 0;
+}
+
+export function getNotification(db: DB, id: number): OutboxMessage | undefined {
+  const row = db.prepare('SELECT * FROM notifications WHERE id = ?').get(id) as NotificationRow | undefined;
+  return row && toOutboxMessage(row);
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import type { DB } from '../db';
+import type { OfferLetter } from '../../src/lib/types';
+
+export interface OfferLetterRow {
+  id: number;
+  candidate_id: number;
+  program: string;
+  start_date: string;
+  accept_by: string;
+  rules_version: number;
+  sha256: string;
+  issued_by: number;
+  issued_at: string;
+  /** Display name joined from `users`. */
+  issued_by_name: string;
+}
+
+/** Every column but the PDF, which is only read to download it. */
+export const SELECT_OFFER_LETTERS = `
+  SELECT offer_letters.id, offer_letters.candidate_id, offer_letters.program, offer_letters.start_date, offer_letters.accept_by,
+    offer_letters.rules_version, offer_letters.sha256, offer_letters.issued_by, offer_letters.issued_at, users.display_name AS issued_by_name
+  FROM offer_letters JOIN users ON users.id = offer_letters.issued_by
+`;
+
+export function toOfferLetter(row: OfferLetterRow): OfferLetter {
+  return {
+    id: row.id,
+    program: row.program,
+    startDate: row.start_date,
+    acceptBy: row.accept_by,
+    rulesVersion: row.rules_version,
+    sha256: row.sha256,
+    issuedBy: row.issued_by_name,
+    issuedAt: row.issued_at
+  };
+}
+
+/**
+ * Stores a generated letter and marks the offer as sent. Not transactional on
+ * its own; callers record the change in the same transaction.
+ */
+export function issueOfferLetter(
+  db: DB,
+  candidateId: number,
+  letter: { program: string; startDate: string; acceptBy: string; rulesVersion: number; issuedAt: string; pdf: Buffer },
+  issuedBy: number
+): OfferLetter {
+  const result = db.prepare(`
+    INSERT INTO offer_letters (candidate_id, program, start_date, accept_by, rules_version, sha256, content, issued_by, issued_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    candidateId,
+    letter.program,
+    letter.startDate,
+    letter.acceptBy,
+    letter.rulesVersion,
+    crypto.createHash('sha256').update(letter.pdf).digest('hex'),
+    letter.pdf,
+    issuedBy,
+    letter.issuedAt
+  );
+  db.prepare('UPDATE candidates SET offer_sent = 1 WHERE id = ?').run(candidateId);
+  const row = db.prepare(`${SELECT_OFFER_LETTERS} WHERE offer_letters.id = ?`).get(Number(result.lastInsertRowid)) as OfferLetterRow;
+  return toOfferLetter(row);
+}
+
+/** The PDF of one of an entry's letters. */
+export function getOfferLetterPdf(db: DB, candidateId: number, id: number): Buffer | undefined {
+  const row = db.prepare('SELECT content FROM offer_letters WHERE id = ? AND candidate_id = ?').get(id, candidateId) as { content: Buffer } | undefined;
+  return row?.content;
+}
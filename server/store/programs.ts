@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DB } from '../db';
+import type { ProgramSettings } from '../../src/lib/programs';
+import type { Program } from '../../src/lib/types';
+
+interface ProgramRow {
+  id: number;
+  name: string;
+  opens_on: string;
+  closes_on: string;
+  reference_date: string;
+  seats: number;
+  created_at: string;
+  /** Entries in the program with the offer sent, counted by the query. */
+  seats_taken: number;
+}
+
+const SELECT_PROGRAMS = `
+  SELECT programs.*,
+    (SELECT COUNT(*) FROM candidates WHERE candidates.program_id = programs.id AND candidates.offer_sent = 1) AS seats_taken
+  FROM programs
+`;
+
+function toProgram(row: ProgramRow): Program {
+  return {
+    id: row.id,
+    name: row.name,
+    opensOn: row.opens_on,
+    closesOn: row.closes_on,
+    referenceDate: row.reference_date,
+    seats: row.seats,
+    seatsTaken: row.seats_taken,
+    createdAt: row.created_at
+  };
+}
+
+/** Every program, the ones opening last first. */
+export function listPrograms(db: DB): Program[] {
+  const rows = db.prepare(`${SELECT_PROGRAMS} ORDER BY opens_on DESC, name`).all() as ProgramRow[];
+  return rows.map(toProgram);
+}
+
+export function getProgram(db: DB, id: number): Program | undefined {
+  const row = db.prepare(`${SELECT_PROGRAMS} WHERE programs.id = ?`).get(id) as ProgramRow | undefined;
+  return row && toProgram(row);
+}
+
+export function findProgramByName(db: DB, name: string): Program | undefined {
+  const row = db.prepare(`${SELECT_PROGRAMS} WHERE programs.name = ?`).get(name) as ProgramRow | undefined;
+  return row && toProgram(row);
+}
+
+/** Stores a program without rules; callers add its first rules version in the same transaction. */
+export function createProgram(db: DB, settings: ProgramSettings): Program {
+  const result = db.prepare(`
+    INSERT INTO programs (name, opens_on, closes_on, reference_date, seats, created_at) VALUES (?, ?, ?, ?, ?, ?)
+  `).run(settings.name, settings.opensOn, settings.closesOn, settings.referenceDate, settings.seats, new Date().toISOString());
+  return getProgram(db, Number(result.lastInsertRowid))!;
+}
+
+export function updateProgram(db: DB, id: number, settings: ProgramSettings): Program {
+  db.prepare('UPDATE programs SET name = ?, opens_on = ?, closes_on = ?, reference_date = ?, seats = ? WHERE id = ?')
+    .run(settings.name, settings.opensOn, settings.closesOn, settings.referenceDate, settings.seats, id);
+  return getProgram(db, id)!;
+}
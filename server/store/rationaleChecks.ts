@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DB } from '../db';
+import type { RationaleCheck } from '../../src/lib/types';
+
+/** The entry's waivers whose rationale has no quality score yet. */
+export function uncheckedRationales(db: DB, candidateId: number): { field: string; rationale: string }[] {
+  return db.prepare('SELECT field, rationale FROM exceptions WHERE candidate_id = ? AND quality_score IS NULL ORDER BY id')
+    .all(candidateId) as { field: string; rationale: string }[];
+}
+
+/** Stores the score of a rationale, unless it was edited while it was being checked. */
+export function recordRationaleCheck(db: DB, candidateId: number, field: string, rationale: string, check: RationaleCheck): void {
+  db.prepare(`
+    UPDATE exceptions SET quality_score = ?, quality_critique = ?, quality_checker = ?, quality_checked_at = ?
+    WHERE candidate_id = ? AND field = ? AND rationale = ?
+  `).run(check.score, check.critique, check.checker, check.checkedAt, candidateId, field, rationale);
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DB } from '../db';
+import type { ExceptionDecision, ReviewStatus } from '../../src/lib/types';
+
+export interface ExceptionVerdict {
+  decision: ExceptionDecision;
+  comment: string;
+}
+
+/**
+ * The entry-level outcome of a review: one rejected waiver rejects the entry,
+ * otherwise any open question sends it back for more information.
+ */
+export function reviewOutcome(verdicts: ExceptionVerdict[]): ReviewStatus {
+  if (verdicts.some(v => v.decision === 'Rejected')) return 'Rejected';
+  if (verdicts.some(v => v.decision === 'Needs Info')) return 'Needs Info';
+  return 'Approved';
+}
+
+/** Stores per-exception decisions and the resulting status transition. Callers wrap it in a transaction. */
+export function recordReview(
+  db: DB,
+  candidateId: number,
+  fromStatus: ReviewStatus | null,
+  verdicts: Record<string, ExceptionVerdict>,
+  reviewer: string,
+  comment: string
+): ReviewStatus {
+  const now = new Date().toISOString();
+  const toStatus = reviewOutcome(Object.values(verdicts));
+
+  const decide = db.prepare(`
+    UPDATE exceptions SET decision = ?, decision_comment = ?, decided_by = ?, decided_at = ?
+    WHERE candidate_id = ? AND field = ?
+  `);
+  Object.entries(verdicts).forEach(([field, verdict]) => {
+    decide.run(verdict.decision, verdict.comment, reviewer, now, candidateId, field);
+  });
+
+  db.prepare('UPDATE candidates SET review_status = ? WHERE id = ?').run(toStatus, candidateId);
+  db.prepare(`
+    INSERT INTO review_events (candidate_id, from_status, to_status, reviewer, comment, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(candidateId, fromStatus, toStatus, reviewer, comment, now);
+
+  return toStatus;
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DB } from '../db';
+import { INITIAL_RULES_CONFIG, reviveRules, serializeRules } from '../../src/lib/rules';
+import type { RulesConfig, RulesVersion } from '../../src/lib/types';
+
+interface RuleVersionRow {
+  id: number;
+  program_id: number | null;
+  config: string;
+  author: string;
+  note: string;
+  created_at: string;
+}
+
+function toRulesVersion(row: RuleVersionRow): RulesVersion {
+  return {
+    version: row.id,
+    program: row.program_id,
+    rules: reviveRules(JSON.parse(row.config)),
+    author: row.author,
+    note: row.note,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Appends a new version to a program's rules, or to the default rules when
+ * `program` is null. Versions are never updated or deleted (the schema
+ * enforces this), so every change, reset and rollback is its own entry.
+ */
+export function createRulesVersion(db: DB, program: number | null, rules: RulesConfig, author: string, note: string): RulesVersion {
+  const result = db.prepare('INSERT INTO rule_versions (program_id, config, author, note, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(program, JSON.stringify(serializeRules(rules)), author, note, new Date().toISOString());
+  return getRulesVersion(db, Number(result.lastInsertRowid))!;
+}
+
+/** A new version as its audit event records it. */
+export function rulesPayload(version: RulesVersion): Record<string, unknown> {
+  return { version: version.version, program: version.program, note: version.note, rules: serializeRules(version.rules) };
+}
+
+/** Seeds version 1 of the default rules with the factory defaults on a fresh database. */
+export function ensureRulesVersion(db: DB) {
+  if (!db.prepare('SELECT 1 FROM rule_versions WHERE program_id IS NULL LIMIT 1').get()) {
+    createRulesVersion(db, null, INITIAL_RULES_CONFIG, 'system', 'Factory defaults');
+  }
+}
+
+/** The rules in force for a program, or the default rules when `program` is null. */
+export function getActiveRules(db: DB, program: number | null = null): RulesVersion {
+  const row = db.prepare('SELECT * FROM rule_versions WHERE program_id IS ? ORDER BY id DESC LIMIT 1').get(program) as RuleVersionRow | undefined;
+  if (!row) throw new Error(program === null ? 'No rules version exists; call ensureRulesVersion first.' : `Program ${program} has no rules.`);
+  return toRulesVersion(row);
+}
+
+export function getRulesVersion(db: DB, version: number): RulesVersion | undefined {
+  const row = db.prepare('SELECT * FROM rule_versions WHERE id = ?').get(version) as RuleVersionRow | undefined;
+  return row && toRulesVersion(row);
+}
+
+/** Every version of a program's rules, or of the default rules, newest first. */
+export function listRulesVersions(db: DB, program: number | null = null): RulesVersion[] {
+  const rows = db.prepare('SELECT * FROM rule_versions WHERE program_id IS ? ORDER BY id DESC').all(program) as RuleVersionRow[];
+  return rows.map(toRulesVersion);
+}
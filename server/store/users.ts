@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import type { DB } from '../db';
+import type { Role, User } from '../../src/lib/types';
+
+/** How long a sign-in lasts before the user has to sign in again. */
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+interface UserRow {
+  id: number;
+  username: string;
+  display_name: string;
+  role: Role;
+  email: string | null;
+  password_hash: string;
+  active: number;
+  created_at: string;
+}
+
+function toUser(row: UserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role,
+    email: row.email,
+    active: !!row.active
+  };
+}
+
+/** `scrypt$<salt>$<key>`, both hex. */
+function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const key = crypto.scryptSync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, key] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'hex');
+  const actual = crypto.scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function listUsers(db: DB): User[] {
+  return (db.prepare('SELECT * FROM users ORDER BY username').all() as UserRow[]).map(toUser);
+}
+
+export function getUser(db: DB, id: number): User | undefined {
+  const row = db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+  return row && toUser(row);
+}
+
+export function findUserByUsername(db: DB, username: string): User | undefined {
+  const row = db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined;
+  return row && toUser(row);
+}
+
+export function createUser(db: DB, user: Omit<User, 'id' | 'active'>, password: string): User {
+  const result = db.prepare(`
+    INSERT INTO users (username, display_name, role, email, password_hash, created_at) VALUES (?, ?, ?, ?, ?, ?)
+  `).run(user.username, user.displayName, user.role, user.email, hashPassword(password), new Date().toISOString());
+  return getUser(db, Number(result.lastInsertRowid))!;
+}
+
+export interface UserChanges {
+  displayName?: string;
+  role?: Role;
+  email?: string | null;
+  active?: boolean;
+  password?: string;
+}
+
+/** Applies the given changes. Deactivating a user or changing their password signs them out everywhere. */
+export function updateUser(db: DB, id: number, changes: UserChanges): User | undefined {
+  if (changes.displayName !== undefined) {
+    db.prepare('UPDATE users SET display_name = ? WHERE id = ?').run(changes.displayName, id);
+  }
+  if (changes.role !== undefined) {
+    db.prepare('UPDATE users SET role = ? WHERE id = ?').run(changes.role, id);
+  }
+  if (changes.email !== undefined) {
+    db.prepare('UPDATE users SET email = ? WHERE id = ?').run(changes.email, id);
+  }
+  if (changes.active !== undefined) {
+    db.prepare('UPDATE users SET active = ? WHERE id = ?').run(changes.active ? 1 : 0, id);
+  }
+  if (changes.password !== undefined) {
+    db.prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(hashPassword(changes.password), id);
+  }
+  if (changes.active === false || changes.password !== undefined) {
+    db.prepare('DELETE FROM sessions WHERE user_id = ?').run(id);
+  }
+  return getUser(db, id);
+}
+
+/** Active users in one of the roles who have an email address to notify. */
+export function usersToNotify(db: DB, roles: Role[]): User[] {
+  const rows = db.prepare(`
+    SELECT * FROM users WHERE active = 1 AND email IS NOT NULL AND role IN (${roles.map(() => '?').join(', ')}) ORDER BY username
+  `).all(...roles) as UserRow[];
+  return rows.map(toUser);
+}
+
+/** The active user with these credentials, if any. */
+export function authenticateUser(db: DB, username: string, password: string): User | undefined {
+  const row = db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined;
+  if (!row || !row.active || !verifyPassword(password, row.password_hash)) return undefined;
+  return toUser(row);
+}
+
+/** Starts a session and returns its bearer token. Only a hash of the token is stored. */
+export function createSession(db: DB, userId: number): string {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+  db.prepare('DELETE FROM sessions WHERE expires_at < ?').run(new Date(now).toISOString());
+  db.prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+    .run(hashToken(token), userId, new Date(now).toISOString(), new Date(now + SESSION_TTL_MS).toISOString());
+  return token;
+}
+
+/** The active user a live session token belongs to. */
+export function findSessionUser(db: DB, token: string): User | undefined {
+  const row = db.prepare(`
+    SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.token_hash = ? AND sessions.expires_at > ? AND users.active = 1
+  `).get(hashToken(token), new Date().toISOString()) as UserRow | undefined;
+  return row && toUser(row);
+}
+
+export function deleteSession(db: DB, token: string) {
+  db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token));
+}
+
+/**
+ * Creates the first admin on a fresh database so someone can sign in and add
+ * the other accounts. Returns the password when one had to be generated.
+ */
+export function ensureAdminUser(db: DB, password?: string): string | undefined {
+  if (db.prepare('SELECT 1 FROM users LIMIT 1').get()) return undefined;
+  const initialPassword = password || crypto.randomBytes(9).toString('base64url');
+  createUser(db, { username: 'admin', displayName: 'Administrator', role: 'admin', email: null }, initialPassword);
+  return password ? undefined : initialPassword;
+}
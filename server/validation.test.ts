@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { INITIAL_RULES_CONFIG } from '../src/lib/rules';
+import type { CandidateRecord, CrossFieldRule, RulesConfig } from '../src/lib/types';
+import { validateCandidate, type ValidationInput } from '../src/lib/validation';
+
+// Valid on every built-in rule, at the default reference date of 2026-02-26.
+const CANDIDATE: CandidateRecord = {
+  fullName: 'Asha Rao', email: 'asha@example.com', phone: '9876543210', dob: '1995-06-01', qualification: 'B.Tech',
+  gradYear: '2018', score: '80', screeningScore: '75', status: 'Cleared', aadhaar: '234567890124'
+};
+
+const RATIONALE = 'Approved by the dean as a special case after reviewing the transcripts.';
+
+function validate(changes: Partial<CandidateRecord>, input: Partial<ValidationInput> = {}, rules: RulesConfig = INITIAL_RULES_CONFIG) {
+  return validateCandidate({ candidate: { ...CANDIDATE, ...changes }, isCgpa: false, offerSent: false, ...input }, rules);
+}
+
+const withCrossFieldRules = (...crossFieldRules: CrossFieldRule[]): RulesConfig => ({ ...INITIAL_RULES_CONFIG, crossFieldRules });
+
+test('a candidate meeting every rule is valid', () => {
+  const result = validate({});
+  assert.deepEqual(result.errors, {});
+  assert.deepEqual(result.warnings, {});
+  assert.equal(result.isValid, true);
+});
+
+test('the age range includes both ends', () => {
+  assert.equal(validate({ dob: '2008-02-26' }).warnings.dob, undefined);
+  assert.equal(validate({ dob: '2008-02-27' }).warnings.dob, 'Candidate age is 17. Age must be between 18 and 35');
+  assert.equal(validate({ dob: '1990-02-27' }).warnings.dob, undefined);
+  assert.match(validate({ dob: '1990-02-26' }).warnings.dob, /^Candidate age is 36\./);
+});
+
+test('age is counted at the reference date', () => {
+  assert.equal(validate({ dob: '2008-02-27' }, { referenceDate: new Date('2026-03-01') }).warnings.dob, undefined);
+});
+
+test('the graduation year range includes both ends', () => {
+  for (const gradYear of ['2015', '2025']) assert.equal(validate({ gradYear }).warnings.gradYear, undefined, gradYear);
+  for (const gradYear of ['2014', '2026']) assert.ok(validate({ gradYear }).warnings.gradYear, gradYear);
+});
+
+test('percentages and CGPAs are held to their own thresholds', () => {
+  assert.equal(validate({ score: '60' }).warnings.score, undefined);
+  assert.equal(validate({ score: '59.9' }).warnings.score, 'Percentage is below the recommended 60% threshold.');
+  assert.equal(validate({ score: '6' }, { isCgpa: true }).warnings.score, undefined);
+  assert.equal(validate({ score: '5.9' }, { isCgpa: true }).warnings.score, 'CGPA is below the recommended 6 threshold.');
+});
+
+test('a screening score below the minimum warns', () => {
+  assert.equal(validate({ screeningScore: '40' }).warnings.screeningScore, undefined);
+  assert.ok(validate({ screeningScore: '39' }).warnings.screeningScore);
+});
+
+test('patterns must match', () => {
+  assert.equal(validate({ phone: '5876543210' }).errors.phone, 'Phone must be 10 digits starting with 6, 7, 8, or 9.');
+  assert.equal(validate({ phone: '98765432101' }).errors.phone, 'Phone must be 10 digits starting with 6, 7, 8, or 9.');
+  assert.ok(validate({ fullName: 'Asha Rao 2' }).errors.fullName);
+  assert.ok(validate({ aadhaar: '134567890124' }).errors.aadhaar);
+});
+
+test('patterns stored as text are compiled, flags included', () => {
+  const rules: RulesConfig = {
+    ...INITIAL_RULES_CONFIG,
+    fields: { ...INITIAL_RULES_CONFIG.fields, qualification: { type: 'strict', pattern: '/^b\\./i', errorMessage: 'Bachelors only.' } }
+  };
+  assert.equal(validate({ qualification: 'B.Tech' }, {}, rules).errors.qualification, undefined);
+  assert.equal(validate({ qualification: 'MCA' }, {}, rules).errors.qualification, 'Bachelors only.');
+});
+
+test('an empty required field gets the required message rather than the pattern one', () => {
+  const result = validate({ phone: '' });
+  assert.equal(result.errors.phone, 'Phone number is required.');
+  assert.equal(result.isValid, false);
+});
+
+test('an Aadhaar number with a wrong check digit fails the checksum', () => {
+  assert.equal(validate({ aadhaar: '234567890123' }).errors.aadhaar, 'This is not a valid Aadhaar number; check it for typos.');
+});
+
+test('forbidden values and offer dependencies are strict errors', () => {
+  assert.equal(validate({ status: 'Rejected' }).errors.status, 'Rejected candidates cannot be enrolled.');
+  assert.equal(validate({ status: 'Waitlisted' }, { offerSent: true }).errors.offerSent, undefined);
+  assert.ok(validate({ status: 'Pending' }, { offerSent: true }).errors.offerSent);
+});
+
+test('a failing strict cross-field rule is an error keyed by its id', () => {
+  const rules = withCrossFieldRules({ id: 'gradAge', type: 'strict', expression: 'gradYear - year(dob) >= 20', errorMessage: 'Too young to graduate.' });
+  assert.equal(validate({}, {}, rules).errors.gradAge, undefined);
+  assert.equal(validate({ dob: '2000-01-01' }, {}, rules).errors.gradAge, 'Too young to graduate.');
+});
+
+test('a failing soft cross-field rule is a warning that can be waived', () => {
+  const rules = withCrossFieldRules({ id: 'gradAge', type: 'soft', expression: 'gradYear - year(dob) >= 20', errorMessage: 'Graduated young.' });
+  const result = validate({ dob: '2000-01-01' }, { exceptions: { gradAge: true, dob: true }, rationales: { gradAge: RATIONALE, dob: RATIONALE } }, rules);
+  assert.equal(result.warnings.gradAge, 'Graduated young.');
+  assert.deepEqual(result.rationaleErrors, {});
+  assert.equal(result.isValid, true);
+});
+
+test('a cross-field rule is skipped when its condition does not hold or a field it reads is empty', () => {
+  const rules = withCrossFieldRules({
+    id: 'mastersScore', type: 'strict', expression: 'score >= 70', when: "qualification in ['M.Tech', 'MCA']", errorMessage: 'Masters need 70%.'
+  });
+  assert.equal(validate({ score: '65' }, {}, rules).errors.mastersScore, undefined);
+  assert.equal(validate({ score: '65', qualification: 'MCA' }, {}, rules).errors.mastersScore, 'Masters need 70%.');
+  assert.equal(validate({ score: '', qualification: 'MCA' }, {}, rules).errors.mastersScore, undefined);
+});
+
+test('a cross-field rule that does not parse blocks the entry', () => {
+  const rules = withCrossFieldRules({ id: 'broken', type: 'soft', expression: 'score >=', errorMessage: 'Never shown.' });
+  const result = validate({}, {}, rules);
+  assert.match(result.errors.broken, /^The rule "broken" cannot be evaluated: /);
+  assert.equal(result.isValid, false);
+});
+
+test('a waiver needs an acceptable rationale to count', () => {
+  const waived = validate({ gradYear: '2014' }, { exceptions: { gradYear: true }, rationales: { gradYear: RATIONALE } });
+  assert.equal(waived.activeExceptionCount, 1);
+  assert.equal(waived.isValid, true);
+
+  const short = validate({ gradYear: '2014' }, { exceptions: { gradYear: true }, rationales: { gradYear: 'Approved by dean.' } });
+  assert.equal(short.rationaleErrors.gradYear, 'Rationale must be at least 30 characters.');
+  assert.equal(short.activeExceptionCount, 0);
+  assert.equal(short.isValid, false);
+
+  const unwaived = validate({ gradYear: '2014' });
+  assert.equal(unwaived.isValid, false);
+});
+
+test('warnings that may not be waived stay unresolved', () => {
+  const rules: RulesConfig = {
+    ...INITIAL_RULES_CONFIG,
+    fields: { ...INITIAL_RULES_CONFIG.fields, gradYear: { type: 'soft', range: [2015, 2025], errorMessage: 'Out of range.', exceptionAllowed: false } }
+  };
+  const result = validate({ gradYear: '2014' }, { exceptions: { gradYear: true }, rationales: { gradYear: RATIONALE } }, rules);
+  assert.equal(result.rationaleErrors.gradYear, 'This warning cannot be waived.');
+  assert.equal(result.isValid, false);
+});
+
+test('waiving as many exceptions as the review threshold flags the entry', () => {
+  const exceptions = { dob: true, gradYear: true, score: true };
+  const rationales = { dob: RATIONALE, gradYear: RATIONALE, score: RATIONALE };
+  const result = validate({ dob: '1985-01-01', gradYear: '2014', score: '50' }, { exceptions, rationales });
+  assert.equal(result.activeExceptionCount, 3);
+  assert.equal(result.isFlagged, true);
+  assert.equal(result.isValid, true);
+});
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HttpError } from './http';
+import { candidateRecord } from '../src/lib/formSchema';
+import { validateCandidate, type ValidationResult } from '../src/lib/validation';
+import type { CandidateSubmission, RulesConfig } from '../src/lib/types';
+
+/**
+ * Runs the rules engine on a submission as sent, treating every rationale it
+ * carries as a waiver. `attachments` counts the documents held per field;
+ * `referenceDate` is the program's, for the age checks.
+ */
+export function checkSubmission(
+  submission: CandidateSubmission,
+  rules: RulesConfig,
+  attachments: Record<string, number> = {},
+  referenceDate?: Date
+): ValidationResult {
+  const { isCgpa, offerSent, exceptions: waived } = submission;
+  return validateCandidate({
+    candidate: candidateRecord(submission),
+    isCgpa,
+    offerSent,
+    exceptions: Object.keys(waived).reduce((obj, field) => {
+      obj[field] = true;
+      return obj;
+    }, {} as Record<string, boolean>),
+    rationales: waived,
+    attachments,
+    referenceDate
+  }, rules);
+}
+
+/** The submission as stored once `result` allowed it, with the exception count, flag and waived fields recomputed. */
+export function acceptedSubmission(submission: CandidateSubmission, result: ValidationResult): CandidateSubmission {
+  // Only warnings that actually fired can be waived; drop stray exceptions.
+  const exceptions: Record<string, string> = {};
+  Object.keys(result.warnings).forEach(field => {
+    exceptions[field] = submission.exceptions[field];
+  });
+  return {
+    ...submission,
+    exceptions,
+    exceptionCount: result.activeExceptionCount,
+    flagged: result.isFlagged
+  };
+}
+
+/**
+ * Re-runs the rules engine on a submission instead of trusting what the
+ * browser decided. Throws a 422 carrying per-field `errors`, `rationaleErrors`
+ * and unwaived `warnings` (the same shapes the form keeps in state) when the
+ * submission would not have been allowed. Otherwise returns the submission with
+ * the exception count, flag and waived fields recomputed from the result.
+ */
+export function revalidateSubmission(
+  submission: CandidateSubmission,
+  rules: RulesConfig,
+  attachments: Record<string, number> = {},
+  referenceDate?: Date
+): {
+  submission: CandidateSubmission;
+  result: ValidationResult;
+} {
+  const result = checkSubmission(submission, rules, attachments, referenceDate);
+
+  const unwaived: Record<string, string> = {};
+  Object.entries(result.warnings).forEach(([field, message]) => {
+    if (!submission.exceptions[field]) unwaived[field] = message;
+  });
+
+  if (!result.isValid) {
+    throw new HttpError(422, 'Submission does not satisfy the rules in force.', {
+      errors: result.errors,
+      rationaleErrors: result.rationaleErrors,
+      warnings: unwaived
+    });
+  }
+
+  return { submission: acceptedSubmission(submission, result), result };
+}
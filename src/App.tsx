@@ -6,120 +6,79 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
-  User, Mail, Phone, Calendar, GraduationCap, CalendarDays, Percent, 
-  ClipboardCheck, ShieldCheck, Send, CheckCircle2, XCircle, Clock, 
+  GraduationCap, ClipboardCheck, ShieldCheck, Send, CheckCircle2, XCircle, 
   AlertCircle, AlertTriangle, CheckCircle, History, Trash2, Eye, 
   FileText, Info, Settings, Check, Search, Filter, Download, 
   ChevronLeft, ChevronRight, ArrowRight, LayoutDashboard, UserCheck, 
-  UserMinus, UserX, ShieldAlert, MoreVertical, ExternalLink, RefreshCw 
+  UserMinus, UserX, ShieldAlert, MoreVertical, ExternalLink, RefreshCw, LogOut, Users, Plus, FileSpreadsheet, Link2, Paperclip, Mail,
+  ArrowUp, ArrowDown, ArrowUpDown, SlidersHorizontal, Sparkles, ChartColumn
 } from 'lucide-react';
-
-type RuleConfig = any;
-type RulesConfig = Record<string, any>;
-
-const INITIAL_RULES_CONFIG: RulesConfig = {
-  fullName: {
-    type: "strict",
-    required: true,
-    minLength: 2,
-    pattern: /^[a-zA-Z\s]+$/,
-    errorMessage: "Name must be at least 2 characters and contain no numbers.",
-    requiredMessage: "Full Name is required."
-  },
-  email: {
-    type: "strict",
-    required: true,
-    pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
-    errorMessage: "Please enter a valid email address.",
-    requiredMessage: "Email is required."
-  },
-  phone: {
-    type: "strict",
-    required: true,
-    pattern: /^[6-9]\d{9}$/,
-    errorMessage: "Phone must be 10 digits starting with 6, 7, 8, or 9.",
-    requiredMessage: "Phone number is required."
-  },
-  dob: {
-    type: "soft",
-    ageRange: [18, 35],
-    errorMessage: "Age must be between 18 and 35",
-    exceptionAllowed: true
-  },
-  qualification: {
-    type: "strict",
-    required: true,
-    errorMessage: "Please select a qualification."
-  },
-  gradYear: {
-    type: "soft",
-    range: [2015, 2025],
-    errorMessage: "Graduation year is outside the standard range (2015-2025).",
-    exceptionAllowed: true
-  },
-  score: {
-    type: "soft",
-    thresholds: {
-      percentage: 60,
-      cgpa: 6.0
-    },
-    errorMessage: "Score is below the recommended threshold.",
-    exceptionAllowed: true
-  },
-  screeningScore: {
-    type: "soft",
-    min: 40,
-    errorMessage: "Screening score is below the passing mark of 40.",
-    exceptionAllowed: true
-  },
-  status: {
-    type: "strict",
-    required: true,
-    forbidden: "Rejected",
-    errorMessage: "Interview status is required.",
-    forbiddenMessage: "Rejected candidates cannot be enrolled."
-  },
-  aadhaar: {
-    type: "strict",
-    required: true,
-    pattern: /^\d{12}$/,
-    errorMessage: "Aadhaar must be exactly 12 digits.",
-    requiredMessage: "Aadhaar number is required."
-  },
-  offerSent: {
-    type: "strict",
-    dependency: {
-      field: "status",
-      validValues: ["Cleared", "Waitlisted"]
-    },
-    errorMessage: "Offer letter can only be sent to Cleared or Waitlisted candidates."
-  }
-};
+import { INITIAL_RULES_CONFIG, parsePattern, patternProblem } from './lib/rules';
+import { expressionFieldNames, isWaivable, rationaleMinLength, validateCandidate } from './lib/validation';
+import { expressionProblem } from './lib/expression';
+import { calculateImpact, type ImpactReport } from './lib/impact';
+import { duplicateErrors, duplicateLookup, isDuplicateHints, isHiddenDuplicate, type DuplicateHints } from './lib/duplicates';
+import * as api from './lib/api';
+import { can } from './lib/permissions';
+import { maskAadhaar } from './lib/pii';
+import { draftSubmission, draftTitle, emptyDraft, isBlankDraft, resumedDraft } from './lib/drafts';
+import { attachmentCounts } from './lib/attachments';
+import { programClosedReason, programProblems, programReferenceDate, today, type ProgramSettings } from './lib/programs';
+import { offerLetterProblems, offerPlaceholders } from './lib/offerLetter';
+import { exceptionRates } from './lib/analytics';
+import {
+  DEFAULT_LOG_SORT, EMPTY_LOG_FILTERS, activeFilterCount, initialDirection, matchesFilters, parseLogQuery, sortLogs,
+  type LogFilters, type LogSort, type LogSortKey
+} from './lib/logQuery';
+import { RECOMMENDATION_TONES, RECOMMENDATION_VARIABLES, recommend, recommendationFieldNames, recommendationProblems } from './lib/recommendation';
+import {
+  FORM_SECTIONS, INPUT_TYPES, candidateRecord, emptyCandidate, fieldNameFromLabel, fieldNameProblem, fieldValue, isCoreField
+} from './lib/formSchema';
+import RulesHistory from './components/RulesHistory';
+import ReviewQueue, { reviewStatusClass } from './components/ReviewQueue';
+import LoginScreen from './components/LoginScreen';
+import UserAdmin from './components/UserAdmin';
+import BulkImport from './components/BulkImport';
+import ExportDialog from './components/ExportDialog';
+import EntryEditor from './components/EntryEditor';
+import ChangeHistory from './components/ChangeHistory';
+import AuditTrail from './components/AuditTrail';
+import DraftsPanel, { type DraftSaveState } from './components/DraftsPanel';
+import AttachmentList from './components/AttachmentList';
+import OfferLetterPanel from './components/OfferLetterPanel';
+import RecommendationCard from './components/RecommendationCard';
+import RationaleQuality, { RationaleScore } from './components/RationaleQuality';
+import Analytics from './components/Analytics';
+import LogFilterPanel from './components/LogFilterPanel';
+import NotificationOutbox from './components/NotificationOutbox';
+import FormField, { FIELD_ICONS, fieldIcon, type FieldStatus } from './components/FormField';
+import type {
+  Attachment, AuditLogEntry, CandidateRecord, CrossFieldRule, Draft, DraftForm, ExceptionPolicy, DuplicateCheck, ChecksumType, FieldDefinition, FieldInputType,
+  FormSection, OfferLetterSettings, Program, RecommendationTier, RecommendationTone, ReviewEvent, RuleConfig, RulesConfig, RulesVersion, SoftRule, User
+} from './lib/types';
+
+/** How long typing has to pause before the form is saved as a draft. */
+const DRAFT_AUTOSAVE_DELAY = 1500;
+
+const emptyProgramSettings = (): ProgramSettings => ({ name: '', opensOn: today(), closesOn: today(), referenceDate: today(), seats: 60 });
 
 export default function App() {
-  const [rules, setRules] = useState<any>(() => {
-    const saved = localStorage.getItem('admitguard_rules');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        // Revive regex patterns
-        Object.keys(parsed).forEach(key => {
-          if (parsed[key].pattern && typeof parsed[key].pattern === 'string') {
-            const match = parsed[key].pattern.match(/^\/(.*)\/([a-z]*)$/);
-            if (match) {
-              parsed[key].pattern = new RegExp(match[1], match[2]);
-            }
-          }
-        });
-        return parsed;
-      } catch (e) {
-        return INITIAL_RULES_CONFIG;
-      }
-    }
-    return INITIAL_RULES_CONFIG;
-  });
-  const [pendingRules, setPendingRules] = useState<any>(rules);
-  const [impact, setImpact] = useState<{ flagged: number; errors: number } | null>(null);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [programs, setPrograms] = useState<Program[]>([]);
+  // The program the form is filled in for and whose rules are loaded; null for the default rules.
+  const [programId, setProgramId] = useState<number | null>(null);
+  const [programDraft, setProgramDraft] = useState<ProgramSettings & { copyFrom: number | null }>({ ...emptyProgramSettings(), copyFrom: null });
+  const [programSettings, setProgramSettings] = useState<ProgramSettings | null>(null);
+  const [rules, setRules] = useState<RulesConfig>(INITIAL_RULES_CONFIG);
+  const [pendingRules, setPendingRules] = useState<RulesConfig>(rules);
+  // Regex patterns as typed that do not compile, by field; the rule keeps its last valid pattern meanwhile.
+  const [patternDrafts, setPatternDrafts] = useState<Record<string, string>>({});
+  const [rulesVersion, setRulesVersion] = useState<number | null>(null);
+  const [rulesHistory, setRulesHistory] = useState<RulesVersion[]>([]);
+  const [changeNote, setChangeNote] = useState('');
+  const [impact, setImpact] = useState<ImpactReport | null>(null);
+  const [newField, setNewField] = useState<{ label: string; input: FieldInputType; section: FormSection }>({ label: '', input: 'text', section: 'personal' });
   const [toasts, setToasts] = useState<{ id: string; message: string; type: 'success' | 'error' }[]>([]);
 
   const addToast = (message: string, type: 'success' | 'error' = 'success') => {
@@ -130,24 +89,15 @@ export default function App() {
     }, 3000);
   };
 
-  const [formData, setFormData] = useState({
-    fullName: '',
-    email: '',
-    phone: '',
-    dob: '',
-    qualification: '',
-    gradYear: '',
-    score: '',
-    screeningScore: '',
-    status: '',
-    aadhaar: ''
-  });
+  const [formData, setFormData] = useState<CandidateRecord>(emptyCandidate(INITIAL_RULES_CONFIG.form));
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [warnings, setWarnings] = useState<Record<string, string>>({});
   const [exceptions, setExceptions] = useState<Record<string, boolean>>({});
   const [rationales, setRationales] = useState<Record<string, string>>({});
   const [rationaleErrors, setRationaleErrors] = useState<Record<string, string>>({});
+  // Documents uploaded with this form, linked to the entry once it is submitted.
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   
   const [isCgpa, setIsCgpa] = useState(false);
   const [offerSent, setOfferSent] = useState(false);
@@ -155,26 +105,244 @@ export default function App() {
   const [isValid, setIsValid] = useState(false);
   const [activeExceptionCount, setActiveExceptionCount] = useState(0);
   const [isFlagged, setIsFlagged] = useState(false);
+  // The values last looked up for duplicates (as JSON), and what the server found for them.
+  const [duplicateQuery, setDuplicateQuery] = useState('{}');
+  const [duplicates, setDuplicates] = useState<{ query: string; matches: DuplicateHints }>({ query: '{}', matches: {} });
+
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [draftId, setDraftId] = useState<number | null>(null);
+  // The form as last saved (or opened), as JSON, to tell whether it changed since.
+  const [savedDraft, setSavedDraft] = useState(() => JSON.stringify(emptyDraft(INITIAL_RULES_CONFIG.form)));
+  const [draftSaveState, setDraftSaveState] = useState<DraftSaveState>('idle');
+  const currentDraft: DraftForm = { programId, candidate: formData, isCgpa, offerSent, exceptions, rationales, attachments };
+  const draftJson = JSON.stringify(currentDraft);
+  const draftDirty = draftJson !== savedDraft && (draftId !== null || !isBlankDraft(currentDraft));
   
-  const [activeTab, setActiveTab] = useState<'form' | 'logs' | 'rules'>('form');
-  const [logs, setLogs] = useState<any[]>([]);
+  const [activeTab, setActiveTab] = useState<'form' | 'import' | 'logs' | 'analytics' | 'review' | 'audit' | 'notifications' | 'rules' | 'users'>('form');
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
   const [viewingLog, setViewingLog] = useState<any | null>(null);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const [editingLog, setEditingLog] = useState(false);
+  const [showFullAadhaar, setShowFullAadhaar] = useState(false);
+  // The rules of the program of the entry in the drawer, when it is not the program chosen above.
+  const [entryRules, setEntryRules] = useState<{ id: number; rules: RulesConfig } | null>(null);
+
+  const program = programs.find(p => p.id === programId);
+  const referenceDate = programReferenceDate(program);
+  const programClosed = program ? programClosedReason(program, today()) : 'Choose the program the candidate is applying to.';
+  // The rules of the entry in the drawer's program; the loaded rules stand in until they arrive.
+  const viewingRules = viewingLog && entryRules?.id === viewingLog.id ? entryRules.rules : rules;
+  const viewingReferenceDate = programReferenceDate(programs.find(p => p.id === viewingLog?.programId));
 
   // Search & Filter State
   const [searchQuery, setSearchQuery] = useState('');
+  const [showExport, setShowExport] = useState(false);
   const [statusFilter, setStatusFilter] = useState('All');
   const [flagFilter, setFlagFilter] = useState('All');
+  // 'All', or a program id (empty for entries from before programs) as a string.
+  const [programFilter, setProgramFilter] = useState('All');
+  const [logFilters, setLogFilters] = useState<LogFilters>(EMPTY_LOG_FILTERS);
+  const [showLogFilters, setShowLogFilters] = useState(false);
+  const [logSort, setLogSort] = useState<LogSort>(DEFAULT_LOG_SORT);
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 8;
 
   useEffect(() => {
-    const savedLogs = localStorage.getItem("admitguard_logs");
-    if (savedLogs) {
-      setLogs(JSON.parse(savedLogs));
-    }
+    api.fetchCurrentUser()
+      .then(setCurrentUser)
+      .catch(err => addToast(`Could not reach the AdmitGuard server: ${(err as Error).message}`, 'error'))
+      .finally(() => setAuthChecked(true));
   }, []);
 
+  useEffect(() => {
+    if (!currentUser) return;
+    const load = async () => {
+      try {
+        // Legacy data is imported by an admin signing in on the browser that holds it.
+        if (can(currentUser.role, 'importLegacyData')) {
+          const imported = await api.importLegacyData();
+          if (imported && imported.imported > 0) {
+            addToast(`Imported ${imported.imported} entries from this browser's local storage.`);
+          }
+        }
+        const [savedPrograms, savedLogs, savedDrafts] = await Promise.all([
+          api.fetchPrograms(),
+          api.fetchLogs(),
+          can(currentUser.role, 'submitEntries') ? api.fetchDrafts() : Promise.resolve([])
+        ]);
+        setPrograms(savedPrograms);
+        // Start on a program taking applications, if there is one.
+        const open = savedPrograms.find(p => !programClosedReason(p, today()));
+        setProgramId(open ? open.id : null);
+        setLogs(savedLogs);
+        setDrafts(savedDrafts);
+      } catch (err) {
+        addToast(`Could not reach the AdmitGuard server: ${(err as Error).message}`, 'error');
+      }
+    };
+    load();
+  }, [currentUser?.id]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    let current = true;
+    Promise.all([
+      api.fetchRules(programId),
+      can(currentUser.role, 'viewRules') ? api.fetchRulesHistory(programId) : Promise.resolve([])
+    ])
+      .then(([active, history]) => {
+        if (!current) return;
+        setRules(active.rules);
+        setPendingRules(active.rules);
+        setPatternDrafts({});
+        setRulesVersion(active.version);
+        setRulesHistory(history);
+        setImpact(null);
+      })
+      .catch(err => addToast(`Could not load the rules: ${(err as Error).message}`, 'error'));
+    return () => {
+      current = false;
+    };
+  }, [currentUser?.id, programId]);
+
+  /** Switches the form and the rules editor to another program, or to the default rules. */
+  const selectProgram = (id: number | null) => {
+    if (JSON.stringify(pendingRules) !== JSON.stringify(rules)
+      && !window.confirm('Switching programs discards the rule changes you have not saved. Continue?')) return;
+    setProgramId(id);
+    setProgramSettings(null);
+    setChangeNote('');
+  };
+
+  const replaceProgram = (saved: Program) => {
+    setPrograms(prev => [saved, ...prev.filter(p => p.id !== saved.id)].sort((a, b) => b.opensOn.localeCompare(a.opensOn) || a.name.localeCompare(b.name)));
+  };
+
+  const createProgram = async () => {
+    const { copyFrom, ...settings } = programDraft;
+    try {
+      const created = await api.createProgram(settings, copyFrom);
+      replaceProgram(created);
+      setProgramDraft({ ...emptyProgramSettings(), copyFrom: null });
+      selectProgram(created.id);
+      addToast(`${created.name} created.`);
+    } catch (err) {
+      addToast(`Could not create the program: ${(err as Error).message}`, 'error');
+    }
+  };
+
+  const saveProgramSettings = async () => {
+    if (!program || !programSettings) return;
+    try {
+      const saved = await api.updateProgram(program.id, programSettings);
+      replaceProgram(saved);
+      setProgramSettings(null);
+      addToast(`${saved.name} saved.`);
+    } catch (err) {
+      addToast(`Could not save the program: ${(err as Error).message}`, 'error');
+    }
+  };
+
+  const signOut = async () => {
+    if (draftDirty && !(await persistDraft())) {
+      if (!window.confirm('The form could not be saved as a draft. Sign out and lose the changes?')) return;
+    }
+    try {
+      await api.logout();
+    } catch (err) {
+      // The session is dropped locally either way.
+    }
+    setCurrentUser(null);
+    setLogs([]);
+    setDrafts([]);
+    openDraft(emptyDraft(rules.form), null);
+    setActiveTab('form');
+  };
+
+  /** Saves the form as a draft, a new one unless it was opened from one. */
+  const persistDraft = async (): Promise<boolean> => {
+    const form = currentDraft;
+    setDraftSaveState('saving');
+    try {
+      const saved = await api.saveDraft(form, draftId);
+      setDraftId(saved.id);
+      setSavedDraft(JSON.stringify(form));
+      setDrafts(prev => [saved, ...prev.filter(draft => draft.id !== saved.id)]);
+      setDraftSaveState('saved');
+      return true;
+    } catch (err) {
+      // Discarded elsewhere: the next save starts a new draft.
+      if (err instanceof api.ApiError && err.status === 404) setDraftId(null);
+      setDraftSaveState('failed');
+      return false;
+    }
+  };
+
+  const openDraft = (form: DraftForm, id: number | null) => {
+    // Drafts saved before programs existed stay with the program in the form.
+    const { programId: draftProgram, ...rest } = form;
+    const opened = { programId: draftProgram ?? programId, ...rest };
+    if (opened.programId !== programId) setProgramId(opened.programId);
+    setFormData(form.candidate);
+    setIsCgpa(form.isCgpa);
+    setOfferSent(form.offerSent);
+    setExceptions(form.exceptions);
+    setRationales(form.rationales);
+    setAttachments(form.attachments ?? []);
+    setDraftId(id);
+    setSavedDraft(JSON.stringify(opened));
+    setDraftSaveState(id === null ? 'idle' : 'saved');
+  };
+
+  /** Leaves the form for another draft or a blank one, keeping what was typed as a draft. */
+  const switchDraft = async (form: DraftForm, id: number | null) => {
+    if (draftDirty && !(await persistDraft())) {
+      addToast('The form could not be saved as a draft; try again before switching.', 'error');
+      return;
+    }
+    openDraft(form, id);
+  };
+
+  const discardDraft = async (draft: Draft) => {
+    if (!window.confirm(`Discard the draft for ${draftTitle(draft.form)}? This cannot be undone.`)) return;
+    try {
+      await api.deleteDraft(draft.id);
+    } catch (err) {
+      addToast(`Could not discard the draft: ${(err as Error).message}`, 'error');
+      return;
+    }
+    setDrafts(prev => prev.filter(d => d.id !== draft.id));
+    if (draft.id === draftId) openDraft(emptyDraft(rules.form), null);
+  };
+
+  /** Drops a draft that became an entry; a leftover draft is harmless, so failures are ignored. */
+  const dropSubmittedDraft = (id: number) => {
+    setDrafts(prev => prev.filter(draft => draft.id !== id));
+    api.deleteDraft(id).catch(() => {});
+  };
+
+  const submitDraft = async (draft: Draft) => {
+    const draftProgram = draft.id === draftId ? programId : draft.form.programId ?? programId;
+    if (draftProgram === null) {
+      addToast('Open the draft and choose the program the candidate is applying to.', 'error');
+      return;
+    }
+    try {
+      // A draft for another program is checked against that program's rules.
+      const draftRules = draftProgram === programId ? rules : (await api.fetchRules(draftProgram)).rules;
+      const form = draft.id === draftId ? currentDraft : resumedDraft(draft.form, draftRules.form);
+      const { submission } = draftSubmission(form, draftRules, programReferenceDate(programs.find(p => p.id === draftProgram)));
+      const saved = await api.submitCandidate(submission, draftProgram);
+      setLogs(prev => [saved, ...prev]);
+      addToast(`${saved.fullName} submitted${saved.flagged ? '; flagged for manager review' : ''}.`);
+    } catch (err) {
+      addToast(`Submission failed: ${(err as Error).message} Open the draft to correct it.`, 'error');
+      return;
+    }
+    dropSubmittedDraft(draft.id);
+    if (draft.id === draftId) openDraft(emptyDraft(rules.form), null);
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { id, value } = e.target;
     setFormData(prev => ({ ...prev, [id]: value }));
@@ -188,78 +356,101 @@ export default function App() {
     setRationales(prev => ({ ...prev, [field]: value }));
   };
 
+  const attachToForm = async (file: File, field: string | null) => {
+    const uploaded = await api.uploadAttachment(file, field, programId);
+    setAttachments(prev => [...prev, uploaded]);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isValid || isSubmitting) return;
+    if (!isValid || isSubmitting || programClosed || programId === null) return;
 
     setIsSubmitting(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    const submissionData = {
-      ...formData,
-      offerSent,
-      exceptions: Object.keys(exceptions).filter(k => exceptions[k]).reduce((obj, key) => {
-        obj[key] = rationales[key];
-        return obj;
-      }, {} as Record<string, string>),
-      flagged: isFlagged,
-      exceptionCount: activeExceptionCount,
-      isCgpa,
-      timestamp: new Date().toLocaleString(),
-      id: Date.now()
-    };
 
-    const existingLogs = JSON.parse(localStorage.getItem("admitguard_logs") || "[]");
-    const updatedLogs = [submissionData, ...existingLogs];
-    localStorage.setItem("admitguard_logs", JSON.stringify(updatedLogs));
-    setLogs(updatedLogs);
+    try {
+      const saved = await api.submitCandidate(draftSubmission(currentDraft, rules, referenceDate).submission, programId);
+      setLogs(prev => [saved, ...prev]);
+      addToast(saved.flagged ? `${saved.fullName} submitted and flagged; managers are asked by email to review it.` : `${saved.fullName} submitted.`);
+    } catch (err) {
+      if (err instanceof api.ApiError && err.status === 422) {
+        // The server re-ran the rules and disagreed; show its verdict on the fields.
+        const { duplicates } = err.body;
+        if (isDuplicateHints(duplicates)) setDuplicates({ query: duplicateQuery, matches: duplicates });
+        setErrors(prev => ({ ...prev, ...err.fieldMessages('errors') }));
+        setWarnings(prev => ({ ...prev, ...err.fieldMessages('warnings') }));
+        setRationaleErrors(prev => ({ ...prev, ...err.fieldMessages('rationaleErrors') }));
+        setIsValid(false);
+      }
+      addToast(`Submission failed: ${(err as Error).message}`, 'error');
+      return;
+    } finally {
+      setIsSubmitting(false);
+    }
 
-    setIsSubmitting(false);
-    alert(`Form submitted successfully! ${isFlagged ? 'Entry has been flagged for manager review.' : ''}`);
-    
     // Reset form
-    setFormData({
-      fullName: '',
-      email: '',
-      phone: '',
-      dob: '',
-      qualification: '',
-      gradYear: '',
-      score: '',
-      screeningScore: '',
-      status: '',
-      aadhaar: ''
-    });
-    setExceptions({});
-    setRationales({});
-    setOfferSent(false);
+    if (draftId !== null) dropSubmittedDraft(draftId);
+    openDraft(emptyDraft(rules.form), null);
   };
 
-  const clearLogs = () => {
+  const clearLogs = async () => {
     if (window.confirm("Are you sure you want to clear all audit logs? This action cannot be undone.")) {
-      localStorage.removeItem("admitguard_logs");
-      setLogs([]);
+      try {
+        await api.clearAllLogs();
+        setLogs([]);
+      } catch (err) {
+        addToast(`Could not clear logs: ${(err as Error).message}`, 'error');
+      }
+    }
+  };
+
+  const importedBatch = async (count: number) => {
+    addToast(count > 0 ? `Imported ${count} ${count === 1 ? 'entry' : 'entries'}.` : 'No rows passed the rules; nothing was imported.', count > 0 ? 'success' : 'error');
+    if (count === 0) return;
+    try {
+      const [savedLogs, savedPrograms] = await Promise.all([api.fetchLogs(), api.fetchPrograms()]);
+      setLogs(savedLogs);
+      setPrograms(savedPrograms);
+    } catch (err) {
+      addToast(`Could not refresh the audit log: ${(err as Error).message}`, 'error');
+    }
+  };
+
+  const submitReview = async (id: number, review: api.ReviewSubmission): Promise<boolean> => {
+    try {
+      const updated = await api.submitReview(id, review);
+      setLogs(prev => prev.map(log => log.id === id ? updated : log));
+      if (viewingLog?.id === id) setViewingLog(updated);
+      addToast(`${updated.fullName}: ${updated.reviewStatus}`);
+      return true;
+    } catch (err) {
+      const fieldErrors = err instanceof api.ApiError ? err.fieldMessages('errors') : {};
+      const detail = Object.entries(fieldErrors).map(([field, msg]) => `${field}: ${msg}`).join(' ');
+      addToast(`Review not saved: ${(err as Error).message} ${detail}`.trim(), 'error');
+      return false;
     }
   };
 
-  const validateRationale = (text: string) => {
-    const keywords = ["approved by", "special case", "documentation pending", "waiver granted"];
-    const hasKeyword = keywords.some(keyword => text.toLowerCase().includes(keyword));
-    const isLongEnough = text.length >= 30;
+  const savedEdit = (updated: AuditLogEntry) => {
+    setLogs(prev => prev.map(log => log.id === updated.id ? updated : log));
+    setViewingLog(updated);
+    setEditingLog(false);
+    addToast(`${updated.fullName}: changes saved`);
+  };
 
-    if (!isLongEnough) return "Rationale must be at least 30 characters.";
-    if (!hasKeyword) return "Rationale must include a valid keyword (e.g., 'approved by', 'special case').";
-    return "";
+  const issuedOffer = (updated: AuditLogEntry) => {
+    setLogs(prev => prev.map(log => log.id === updated.id ? updated : log));
+    setViewingLog(updated);
+    addToast(`Offer letter issued to ${updated.fullName}`);
+    // The offer may have taken a seat; the counts are only informative, so failures are ignored.
+    api.fetchPrograms().then(setPrograms).catch(() => {});
   };
 
-  const getRecommendation = (data: any) => {
-    if (data.flagged) return { label: 'Reject', color: 'text-red-600', bg: 'bg-red-50', icon: <UserX size={16} /> };
-    if (data.status === 'Rejected') return { label: 'Reject', color: 'text-red-600', bg: 'bg-red-50', icon: <UserX size={16} /> };
-    if (data.exceptionCount > 0) return { label: 'Review / Waitlist', color: 'text-amber-600', bg: 'bg-amber-50', icon: <UserMinus size={16} /> };
-    if (data.screeningScore >= 70 && data.score >= 70) return { label: 'Fast-track Approve', color: 'text-emerald-600', bg: 'bg-emerald-50', icon: <UserCheck size={16} /> };
-    return { label: 'Standard Approve', color: 'text-brand-600', bg: 'bg-brand-50', icon: <CheckCircle size={16} /> };
+  /** Adds a document to a submitted entry; AttachmentList reports failures. */
+  const attachToEntry = async (id: number, file: File, field: string | null) => {
+    const updated = await api.addEntryAttachment(id, file, field);
+    setLogs(prev => prev.map(log => log.id === id ? updated : log));
+    setViewingLog(updated);
+    addToast(`${file.name} attached to ${updated.fullName}`);
   };
 
   const getKPIs = () => {
@@ -272,276 +463,401 @@ export default function App() {
     };
   };
 
-  const exportToCSV = () => {
-    const filteredLogs = getFilteredLogs();
-    if (filteredLogs.length === 0) return;
-
-    const headers = ["Name", "Email", "Phone", "Qualification", "Grad Year", "Score", "Screening Score", "Status", "Flagged", "Exceptions", "Timestamp"];
-    const rows = filteredLogs.map(log => [
-      log.fullName,
-      log.email,
-      log.phone,
-      log.qualification,
-      log.gradYear,
-      log.score,
-      log.screeningScore,
-      log.status,
-      log.flagged ? 'Yes' : 'No',
-      log.exceptionCount,
-      log.timestamp
-    ]);
-
-    const csvContent = [headers, ...rows].map(e => e.join(",")).join("\n");
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", `admitguard_audit_log_${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
+  // The search box takes plain words as well as terms like `status:Waitlisted exceptions>1 qual:MCA`.
+  const logQuery = parseLogQuery(searchQuery, rules.form);
 
   const getFilteredLogs = () => {
-    return logs.filter(log => {
-      const matchesSearch = 
-        log.fullName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        log.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        log.phone.includes(searchQuery);
-      
+    return sortLogs(logs.filter(log => {
       const matchesStatus = statusFilter === 'All' || log.status === statusFilter;
       const matchesFlag = flagFilter === 'All' || (flagFilter === 'Flagged' ? log.flagged : !log.flagged);
+      const matchesProgram = programFilter === 'All' || String(log.programId ?? '') === programFilter;
 
-      return matchesSearch && matchesStatus && matchesFlag;
-    });
+      return logQuery.test(log) && matchesStatus && matchesFlag && matchesProgram && matchesFilters(log, logFilters);
+    }), logSort);
   };
 
-  const calculateImpact = () => {
-    if (logs.length === 0) {
-      addToast("No logs available to calculate impact.", "error");
-      return;
-    }
+  // A narrower search can leave the current page past the last one.
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchQuery, statusFilter, flagFilter, programFilter, logFilters, logSort]);
 
-    let flaggedCount = 0;
-    let errorCount = 0;
-
-    logs.forEach(log => {
-      let exceptions = 0;
-      let hasError = false;
-
-      Object.entries(pendingRules as Record<string, any>).forEach(([field, config]) => {
-        const value = log[field as keyof typeof log];
-        
-        // Simplified validation for impact preview
-        if (config.type === 'strict') {
-          if (config.required && !value) hasError = true;
-          if (config.pattern && value && !new RegExp(config.pattern).test(String(value))) hasError = true;
-          if (config.forbidden && value === config.forbidden) hasError = true;
-        } else if (config.type === 'soft') {
-          let isWarning = false;
-          if (config.min !== undefined && Number(value) < config.min) isWarning = true;
-          if (config.max !== undefined && Number(value) > config.max) isWarning = true;
-          if (config.range && (Number(value) < config.range[0] || Number(value) > config.range[1])) isWarning = true;
-          if (config.ageRange) {
-            const age = new Date().getFullYear() - new Date(String(value)).getFullYear();
-            if (age < config.ageRange[0] || age > config.ageRange[1]) isWarning = true;
-          }
-          if (config.thresholds) {
-            const threshold = log.isCgpa ? config.thresholds.cgpa : config.thresholds.percentage;
-            if (Number(value) < threshold) isWarning = true;
-          }
+  const sortBy = (key: LogSortKey) => {
+    setLogSort(prev => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: initialDirection(key) });
+  };
 
-          if (isWarning) exceptions++;
-        }
-      });
+  const renderSortHeader = (label: string, key: LogSortKey, align = '') => {
+    const active = logSort.key === key;
+    const Icon = !active ? ArrowUpDown : logSort.direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <th className={`px-6 py-4 text-[10px] font-bold uppercase tracking-widest ${align}`} aria-sort={active ? (logSort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}>
+        <button
+          type="button"
+          onClick={() => sortBy(key)}
+          className={`inline-flex items-center gap-1 uppercase tracking-widest transition-colors ${active ? 'text-brand-600' : 'text-slate-400 hover:text-slate-600'}`}
+        >
+          {label}
+          <Icon size={10} />
+        </button>
+      </th>
+    );
+  };
 
-      if (hasError) errorCount++;
-      if (exceptions > 2) flaggedCount++;
-    });
+  const previewImpact = () => {
+    // The default rules check the entries made before programs existed.
+    const affected = logs.filter(log => log.programId === programId);
+    if (affected.length === 0) {
+      addToast("No logs available to calculate impact.", "error");
+      return;
+    }
 
-    setImpact({ flagged: flaggedCount, errors: errorCount });
+    setImpact(calculateImpact(affected, rules, pendingRules, referenceDate));
     addToast("Impact preview calculated successfully.");
   };
 
-  const saveRules = () => {
-    setRules(pendingRules);
-    // Save to localStorage
-    const toSave = JSON.parse(JSON.stringify(pendingRules, (key, value) => 
-      value instanceof RegExp ? value.toString() : value
-    ));
-    localStorage.setItem('admitguard_rules', JSON.stringify(toSave));
+  const applyRulesVersion = async (active: RulesVersion) => {
+    setRules(active.rules);
+    setPendingRules(active.rules);
+    setPatternDrafts({});
+    setRulesVersion(active.version);
     setImpact(null);
-    addToast("Rules configuration saved successfully.");
+    setChangeNote('');
+    setRulesHistory(await api.fetchRulesHistory(programId));
+  };
+
+  const saveRules = async () => {
+    if (!changeNote.trim()) {
+      addToast("Enter a change note before saving.", "error");
+      return;
+    }
+    // Drafts of fields since removed, or no longer strict, have no pattern to fix.
+    if (Object.keys(patternDrafts).some(field => pendingRules.fields[field]?.type === 'strict')) {
+      addToast("Fix the invalid regex patterns before saving.", "error");
+      return;
+    }
+    try {
+      const active = await api.saveRules(pendingRules, changeNote, programId);
+      await applyRulesVersion(active);
+      addToast(`Rules saved as version ${active.version}.`);
+    } catch (err) {
+      addToast(`Could not save rules: ${(err as Error).message}`, 'error');
+    }
   };
 
   const resetRules = () => {
     setPendingRules(rules);
+    setPatternDrafts({});
     setImpact(null);
     addToast("Changes discarded.");
   };
 
-  const factoryReset = () => {
-    setPendingRules(INITIAL_RULES_CONFIG);
-    setRules(INITIAL_RULES_CONFIG);
-    localStorage.removeItem('admitguard_rules');
-    setImpact(null);
-    addToast("Reset to factory defaults.");
+  const factoryReset = async () => {
+    try {
+      const active = await api.resetRules(changeNote.trim() || "Reset to factory defaults", programId);
+      await applyRulesVersion(active);
+      addToast(`Reset to factory defaults as version ${active.version}.`);
+    } catch (err) {
+      addToast(`Could not reset rules: ${(err as Error).message}`, 'error');
+    }
+  };
+
+  const rollbackRules = async (version: number) => {
+    if (!window.confirm(`Publish a copy of rules version ${version} as the active configuration?`)) return;
+    try {
+      const active = await api.rollbackRules(version, changeNote);
+      await applyRulesVersion(active);
+      addToast(`Rolled back to version ${version} (now version ${active.version}).`);
+    } catch (err) {
+      addToast(`Could not roll back rules: ${(err as Error).message}`, 'error');
+    }
   };
 
-  const updateRule = (field: string, key: string, value: any) => {
+  const updateRule = (field: string, key: string, value: unknown) => {
     setPendingRules(prev => ({
       ...prev,
-      [field]: {
-        ...prev[field],
-        [key]: value
+      fields: {
+        ...prev.fields,
+        [field]: {
+          ...prev.fields[field],
+          [key]: value
+        } as RuleConfig
       }
     }));
     setImpact(null); // Reset impact when rules change
   };
 
-  const handleOpenDrawer = (log: any) => {
-    setViewingLog(log);
-    setIsDrawerOpen(true);
+  const updatePattern = (field: string, source: string) => {
+    if (source && patternProblem(source)) {
+      setPatternDrafts(prev => ({ ...prev, [field]: source }));
+      return;
+    }
+    setPatternDrafts(prev => {
+      const { [field]: fixed, ...others } = prev;
+      return others;
+    });
+    updateRule(field, 'pattern', source ? parsePattern(source) : undefined);
   };
 
-  useEffect(() => {
-    const newErrors: Record<string, string> = {};
-    const newWarnings: Record<string, string> = {};
-    const newRationaleErrors: Record<string, string> = {};
-
-    // Apply rules from rules state
-    Object.entries(rules as Record<string, any>).forEach(([field, config]) => {
-      const value = formData[field as keyof typeof formData];
-
-      if (config.type === 'strict') {
-        // 1. Required check
-        if (config.required && !value && field !== 'offerSent') {
-          newErrors[field] = config.requiredMessage || config.errorMessage;
-        } 
-        
-        // 2. Min length check
-        if (!newErrors[field] && config.minLength && value && String(value).length < config.minLength) {
-          newErrors[field] = config.errorMessage;
-        }
+  const updatePolicy = (key: keyof ExceptionPolicy, value: unknown) => {
+    setPendingRules(prev => ({
+      ...prev,
+      exceptionPolicy: {
+        ...prev.exceptionPolicy,
+        [key]: value
+      }
+    }));
+    setImpact(null);
+  };
 
-        // 3. Pattern check
-        if (!newErrors[field] && config.pattern && value) {
-          const pattern = config.pattern instanceof RegExp ? config.pattern : new RegExp(config.pattern.replace(/^\/|\/$/g, ''));
-          if (!pattern.test(String(value))) {
-            newErrors[field] = config.errorMessage;
-          }
-        }
+  const updateOfferLetter = (key: keyof OfferLetterSettings, value: unknown) => {
+    setPendingRules(prev => ({ ...prev, offerLetter: { ...prev.offerLetter, [key]: value } }));
+  };
 
-        // 4. Forbidden check
-        if (!newErrors[field] && config.forbidden && value === config.forbidden) {
-          newErrors[field] = config.forbiddenMessage;
-        }
+  const fieldLabel = (field: string) =>
+    pendingRules.form.find(definition => definition.name === field)?.label || field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
 
-        // 5. Dependency check
-        if (!newErrors[field] && config.dependency) {
-          const depValue = formData[config.dependency.field as keyof typeof formData];
-          if (field === 'offerSent') {
-            if (offerSent && !config.dependency.validValues.includes(depValue)) {
-              newErrors[field] = config.errorMessage;
-            }
-          } else if (value && !config.dependency.validValues.includes(depValue)) {
-            newErrors[field] = config.errorMessage;
-          }
-        }
-      } else if (config.type === 'soft') {
-        if (field === 'dob' && value) {
-          const birthDate = new Date(value);
-          const today = new Date("2026-02-26");
-          let age = today.getFullYear() - birthDate.getFullYear();
-          const m = today.getMonth() - birthDate.getMonth();
-          if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
-            age--;
-          }
-          if (age < config.ageRange[0] || age > config.ageRange[1]) {
-            newWarnings[field] = `Candidate age is ${age}. ${config.errorMessage}`;
-          }
-        } else if (field === 'gradYear' && value) {
-          const year = parseInt(value);
-          if (year < config.range[0] || year > config.range[1]) {
-            newWarnings[field] = config.errorMessage;
-          }
-        } else if (field === 'score' && value) {
-          const score = parseFloat(value);
-          if (isCgpa) {
-            if (score < config.thresholds.cgpa) newWarnings[field] = `CGPA is below the recommended ${config.thresholds.cgpa} threshold.`;
-          } else {
-            if (score < config.thresholds.percentage) newWarnings[field] = `Percentage is below the recommended ${config.thresholds.percentage}% threshold.`;
-          }
-        } else if (field === 'screeningScore' && value) {
-          const score = parseInt(value);
-          if (score < config.min) {
-            newWarnings[field] = config.errorMessage;
-          }
-        }
-      }
-    });
+  const updateFormField = (name: string, changes: Partial<FieldDefinition>) => {
+    setPendingRules(prev => ({
+      ...prev,
+      form: prev.form.map(definition => definition.name === name ? { ...definition, ...changes } : definition)
+    }));
+    setImpact(null);
+  };
 
-    // --- RATIONALE VALIDATION ---
-    let count = 0;
-    Object.keys(newWarnings).forEach(field => {
-      if (exceptions[field]) {
-        const rationaleError = validateRationale(rationales[field] || "");
-        if (rationaleError) {
-          newRationaleErrors[field] = rationaleError;
-        } else if (rationales[field]) {
-          count++;
-        }
-      }
+  const addFormField = () => {
+    const label = newField.label.trim();
+    const name = fieldNameFromLabel(label);
+    const problem = label ? fieldNameProblem(name, pendingRules.form.map(definition => definition.name)) : 'Enter a label for the new field.';
+    if (problem) {
+      addToast(problem, 'error');
+      return;
+    }
+    const definition: FieldDefinition = {
+      name,
+      label,
+      input: newField.input,
+      section: newField.section,
+      icon: newField.input === 'number' ? 'Hash' : 'FileText',
+      ...(newField.input === 'select' ? { options: [] } : {})
+    };
+    setPendingRules(prev => ({ ...prev, form: [...prev.form, definition] }));
+    setNewField({ label: '', input: 'text', section: newField.section });
+    setImpact(null);
+  };
+
+  const removeFormField = (name: string) => {
+    setPendingRules(prev => {
+      const { [name]: removed, ...fields } = prev.fields;
+      return { ...prev, fields, form: prev.form.filter(definition => definition.name !== name) };
     });
+    setImpact(null);
+  };
 
-    setErrors(newErrors);
-    setWarnings(newWarnings);
-    setRationaleErrors(newRationaleErrors);
-    setActiveExceptionCount(count);
-    setIsFlagged(count > 2);
-    
-    // --- FINAL VALIDITY CHECK ---
-    const hasStrictErrors = Object.keys(newErrors).length > 0;
-    
-    // Dynamically check if all required fields are filled
-    const allRequiredFilled = Object.entries(rules as Record<string, any>).every(([field, config]) => {
-      if (config.type === 'strict' && config.required && field !== 'offerSent') {
-        return !!formData[field as keyof typeof formData];
-      }
-      return true;
+  const attachRule = (field: string, type: RuleConfig['type']) => {
+    const label = fieldLabel(field);
+    const rule: RuleConfig = type === 'strict'
+      ? { type, required: true, requiredMessage: `${label} is required.`, errorMessage: `${label} is not valid.` }
+      : { type, exceptionAllowed: true, errorMessage: `${label} is outside the expected range.` };
+    setPendingRules(prev => ({ ...prev, fields: { ...prev.fields, [field]: rule } }));
+    setImpact(null);
+  };
+
+  const detachRule = (field: string) => {
+    setPendingRules(prev => {
+      const { [field]: removed, ...fields } = prev.fields;
+      return { ...prev, fields };
     });
-    
-    // Check if all active warnings have valid exceptions
-    const unresolvedWarnings = Object.keys(newWarnings).some(field => {
-      return !exceptions[field] || !!newRationaleErrors[field];
+    setImpact(null);
+  };
+
+  const updateCrossRule = (index: number, changes: Partial<CrossFieldRule>) => {
+    setPendingRules(prev => ({
+      ...prev,
+      crossFieldRules: prev.crossFieldRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule)
+    }));
+    setImpact(null);
+  };
+
+  const addCrossRule = () => {
+    const taken = new Set([...pendingRules.crossFieldRules.map(rule => rule.id), ...Object.keys(pendingRules.fields)]);
+    let n = 1;
+    while (taken.has(`check${n}`)) n++;
+    setPendingRules(prev => ({
+      ...prev,
+      crossFieldRules: [...prev.crossFieldRules, { id: `check${n}`, type: 'soft', expression: '', errorMessage: '', exceptionAllowed: true }]
+    }));
+    setImpact(null);
+  };
+
+  const removeCrossRule = (index: number) => {
+    setPendingRules(prev => ({ ...prev, crossFieldRules: prev.crossFieldRules.filter((_, i) => i !== index) }));
+    setImpact(null);
+  };
+
+  const updateTier = (index: number, changes: Partial<RecommendationTier>) => {
+    setPendingRules(prev => ({
+      ...prev,
+      recommendations: prev.recommendations.map((tier, i) => i === index ? { ...tier, ...changes } : tier)
+    }));
+  };
+
+  const addTier = () => {
+    const taken = new Set(pendingRules.recommendations.map(tier => tier.id));
+    let n = 1;
+    while (taken.has(`tier${n}`)) n++;
+    // New tiers go before a catch-all last tier, which has to stay last.
+    const last = pendingRules.recommendations.length - 1;
+    const at = last >= 0 && !pendingRules.recommendations[last].condition.trim() ? last : last + 1;
+    const tier: RecommendationTier = { id: `tier${n}`, label: '', condition: '', reason: '', tone: 'neutral' };
+    setPendingRules(prev => ({ ...prev, recommendations: [...prev.recommendations.slice(0, at), tier, ...prev.recommendations.slice(at)] }));
+  };
+
+  const moveTier = (index: number, offset: -1 | 1) => {
+    setPendingRules(prev => {
+      const recommendations = [...prev.recommendations];
+      [recommendations[index], recommendations[index + offset]] = [recommendations[index + offset], recommendations[index]];
+      return { ...prev, recommendations };
     });
+  };
+
+  const removeTier = (index: number) => {
+    setPendingRules(prev => ({ ...prev, recommendations: prev.recommendations.filter((_, i) => i !== index) }));
+  };
+
+  const renderProgramFields = (settings: ProgramSettings, update: (key: keyof ProgramSettings, value: string | number) => void) => (
+    <>
+      {([
+        { key: 'name', label: 'Name', type: 'text' },
+        { key: 'opensOn', label: 'Opens', type: 'date' },
+        { key: 'closesOn', label: 'Closes', type: 'date' },
+        { key: 'referenceDate', label: 'Ages As Of', type: 'date' },
+        { key: 'seats', label: 'Seats', type: 'number' }
+      ] as { key: keyof ProgramSettings; label: string; type: string }[]).map(({ key, label, type }) => (
+        <div key={key} className={key === 'name' ? 'col-span-2 md:col-span-1' : ''}>
+          <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">{label}</label>
+          <input
+            type={type}
+            min={type === 'number' ? 1 : undefined}
+            value={settings[key]}
+            onChange={(e) => update(key, type === 'number' ? Number(e.target.value) : e.target.value)}
+            className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+          />
+        </div>
+      ))}
+    </>
+  );
+
+  const handleOpenDrawer = (log: any) => {
+    setViewingLog(log);
+    setEntryRules(null);
+    if (log.programId !== programId) {
+      api.fetchRules(log.programId)
+        .then(active => setEntryRules({ id: log.id, rules: active.rules }))
+        .catch(err => addToast(`Could not load the rules of ${log.program ?? 'the entry'}: ${(err as Error).message}`, 'error'));
+    }
+    // Rationales are scored after the entry is saved; pick up scores that have arrived since.
+    if (Object.keys(log.exceptions).some(field => !log.rationaleChecks[field])) {
+      api.fetchCandidate(log.id)
+        .then(fresh => {
+          setLogs(prev => prev.map(entry => entry.id === fresh.id ? fresh : entry));
+          setViewingLog((current: AuditLogEntry | null) => current?.id === fresh.id ? fresh : current);
+        })
+        .catch(() => {
+          // The scores are advisory; the drawer works without them.
+        });
+    }
+    setShowFullAadhaar(false);
+    setEditingLog(false);
+    setIsDrawerOpen(true);
+  };
+
+  const openEntry = async (id: number) => {
+    const known = logs.find(log => log.id === id);
+    if (known) return handleOpenDrawer(known);
+    try {
+      handleOpenDrawer(await api.fetchCandidate(id));
+    } catch (err) {
+      addToast(`Could not open entry: ${(err as Error).message}`, 'error');
+    }
+  };
+
+  useEffect(() => {
+    const result = validateCandidate({
+      candidate: formData,
+      isCgpa,
+      offerSent,
+      exceptions,
+      rationales,
+      attachments: attachmentCounts(attachments),
+      referenceDate
+    }, rules);
+
+    // Matches only count while they answer the values currently in the form.
+    const query = JSON.stringify(duplicateLookup(formData, rules, result.errors));
+    const blocking = duplicates.query === query ? duplicateErrors(duplicates.matches, rules) : {};
+
+    setErrors({ ...result.errors, ...blocking });
+    setWarnings(result.warnings);
+    setRationaleErrors(result.rationaleErrors);
+    setActiveExceptionCount(result.activeExceptionCount);
+    setIsFlagged(result.isFlagged);
+    setIsValid(result.isValid && Object.keys(blocking).length === 0);
+    setDuplicateQuery(query);
+  }, [formData, offerSent, exceptions, rationales, attachments, isCgpa, rules, duplicates, program?.referenceDate]);
+
+  useEffect(() => {
+    if (!draftDirty || draftSaveState === 'saving') return;
+    if (draftSaveState !== 'unsaved') setDraftSaveState('unsaved');
+    const timer = setTimeout(persistDraft, DRAFT_AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [draftJson, savedDraft]);
 
-    setIsValid(!hasStrictErrors && allRequiredFilled && !unresolvedWarnings);
-  }, [formData, offerSent, exceptions, rationales, isCgpa, rules]);
+  useEffect(() => {
+    if (!draftDirty && draftSaveState !== 'saving') return;
+    const warn = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [draftDirty, draftSaveState]);
+
+  useEffect(() => {
+    if (duplicateQuery === '{}') {
+      setDuplicates({ query: duplicateQuery, matches: {} });
+      return;
+    }
+    const timer = setTimeout(() => {
+      api.findDuplicates(JSON.parse(duplicateQuery), programId)
+        .then(matches => setDuplicates({ query: duplicateQuery, matches }))
+        .catch(() => {
+          // Duplicate hints are best-effort; the server checks again on submit.
+        });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [duplicateQuery, programId]);
 
-  const getFieldStatus = (field: string) => {
+  const getFieldStatus = (field: string): FieldStatus => {
     if (errors[field]) return 'error';
     if (warnings[field]) {
       if (exceptions[field] && !rationaleErrors[field]) return 'valid';
       return 'warning';
     }
     // For fields that are filled and have no errors/warnings
-    if (formData[field as keyof typeof formData]) return 'valid';
+    if (formData[field]) return 'valid';
     return 'idle';
   };
 
-  const getBorderClass = (status: string) => {
-    switch (status) {
-      case 'error': return 'border-red-300 focus:ring-red-500/20 focus:border-red-500';
-      case 'warning': return 'border-amber-300 focus:ring-amber-500/20 focus:border-amber-500';
-      case 'valid': return 'border-emerald-300 focus:ring-emerald-500/20 focus:border-emerald-500';
-      default: return 'border-slate-200 focus:ring-brand-500/20 focus:border-brand-500';
-    }
-  };
-
   const renderExceptionUI = (field: string) => {
     if (!warnings[field]) return null;
+    if (!isWaivable(field, rules)) {
+      return (
+        <p className="mt-2 text-[10px] text-amber-700 font-bold flex items-center gap-1 px-1">
+          <Info size={10} /> This warning cannot be waived; correct the values instead.
+        </p>
+      );
+    }
 
     return (
       <div className="mt-3 p-4 bg-amber-50/50 rounded-2xl border border-amber-100 space-y-4 shadow-sm">
@@ -561,7 +877,7 @@ export default function App() {
         {exceptions[field] && (
           <div className="space-y-2 animate-in fade-in slide-in-from-top-2 duration-300">
             <textarea
-              placeholder="Provide detailed rationale (min 30 chars)..."
+              placeholder={`Provide detailed rationale (min ${rationaleMinLength(field, rules)} chars)...`}
               value={rationales[field] || ""}
               onChange={(e) => handleRationaleChange(field, e.target.value)}
               className={`w-full p-3 text-xs bg-white border rounded-xl focus:outline-none focus:ring-4 transition-all min-h-[100px] shadow-inner placeholder:text-slate-300 font-medium ${
@@ -575,19 +891,113 @@ export default function App() {
                 <AlertCircle size={10} /> {rationaleErrors[field]}
               </p>
             ) : (
-              <p className="text-[10px] text-emerald-600 font-bold flex items-center gap-1 px-1">
-                <CheckCircle size={10} /> Rationale verified
-              </p>
+              <>
+                <p className="text-[10px] text-emerald-600 font-bold flex items-center gap-1 px-1">
+                  <CheckCircle size={10} /> Rationale verified
+                </p>
+                <RationaleQuality field={field} warning={warnings[field]} rationale={rationales[field] || ''} program={programId} />
+              </>
             )}
+            <AttachmentList
+              attachments={attachments.filter(attachment => attachment.field === field)}
+              onAttach={(file) => attachToForm(file, field)}
+              onRemove={(removed) => setAttachments(prev => prev.filter(attachment => attachment.id !== removed.id))}
+              onError={(message) => addToast(message, 'error')}
+            />
           </div>
         )}
       </div>
     );
   };
 
+  const renderDuplicateNotice = (field: string) => {
+    const matches = duplicates.query === duplicateQuery ? duplicates.matches[field] : undefined;
+    if (!matches || matches.length === 0) return null;
+    const blocking = rules.fields[field]?.duplicateCheck === 'block';
+
+    return (
+      <div className={`mt-1 p-3 rounded-xl border space-y-2 ${blocking ? 'bg-red-50/50 border-red-100' : 'bg-amber-50/50 border-amber-100'}`}>
+        <p className={`text-[10px] font-bold uppercase tracking-wider flex items-center gap-1 ${blocking ? 'text-red-600' : 'text-amber-700'}`}>
+          <AlertTriangle size={12} /> {blocking ? 'Duplicate' : 'Possible duplicate'}: already on {matches.length === 1 ? 'an existing entry' : `${matches.length} existing entries`}
+        </p>
+        {matches.map(match => isHiddenDuplicate(match) ? (
+          <p key="hidden" className="text-xs text-slate-400">On file on an entry you cannot open.</p>
+        ) : (
+          <div key={match.id} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-slate-700 min-w-0 truncate">
+              <span className="font-bold">{match.fullName}</span>
+              <span className="text-slate-400"> · {match.status}{match.reviewStatus ? ` · ${match.reviewStatus}` : ''} · {new Date(match.timestamp).toLocaleDateString()}{match.submittedBy ? ` · ${match.submittedBy}` : ''}</span>
+            </span>
+            {match.canOpen && (
+              <button
+                type="button"
+                onClick={() => openEntry(match.id)}
+                className="shrink-0 flex items-center gap-1 text-[10px] font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider"
+              >
+                <ExternalLink size={12} /> Open
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderFormField = (definition: FieldDefinition) => {
+    const { name } = definition;
+    // The score field doubles as CGPA; the toggle changes its label and thresholds.
+    const isScore = name === 'score';
+    return (
+      <React.Fragment key={name}>
+        <FormField
+          definition={definition}
+          value={formData[name] ?? ''}
+          onChange={handleInputChange}
+          status={getFieldStatus(name)}
+          error={errors[name]}
+          warning={warnings[name]}
+          label={isScore && isCgpa ? 'CGPA' : undefined}
+          placeholder={isScore && isCgpa ? 'e.g. 9.5' : undefined}
+          action={isScore ? (
+            <button
+              type="button"
+              onClick={() => setIsCgpa(!isCgpa)}
+              className="text-[10px] uppercase tracking-wider font-bold text-brand-600 hover:text-brand-700 transition-colors"
+            >
+              Switch to {isCgpa ? definition.label : 'CGPA'}
+            </button>
+          ) : undefined}
+        >
+          {renderExceptionUI(name)}
+          {renderDuplicateNotice(name)}
+        </FormField>
+      </React.Fragment>
+    );
+  };
+
+  if (!authChecked) return null;
+  if (!currentUser) return <LoginScreen onLogin={setCurrentUser} />;
+
+  const canEditRules = can(currentUser.role, 'editRules');
+
   return (
     <div className="min-h-screen bg-[#f8fafc] py-12 px-4 sm:px-6 lg:px-8 font-sans selection:bg-brand-100 selection:text-brand-900">
       <div className="max-w-4xl mx-auto">
+        {/* Signed-in User */}
+        <div className="flex justify-end items-center gap-3 mb-4">
+          <div className="text-right">
+            <p className="text-sm font-bold text-slate-900">{currentUser.displayName}</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{currentUser.role}</p>
+          </div>
+          <button
+            onClick={signOut}
+            title="Sign out"
+            className="p-2 text-slate-500 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 transition-all active:scale-95"
+          >
+            <LogOut size={16} />
+          </button>
+        </div>
+
         {/* Brand Header */}
         <div className="flex flex-col items-center mb-12 text-center">
           <div className="w-16 h-16 bg-brand-600 rounded-2xl flex items-center justify-center shadow-xl shadow-brand-200 mb-4 rotate-3 hover:rotate-0 transition-transform duration-300">
@@ -605,10 +1015,16 @@ export default function App() {
         <div className="flex justify-center mb-10">
           <div className="bg-white/80 backdrop-blur-md p-1.5 rounded-2xl border border-slate-200 shadow-sm flex flex-wrap justify-center gap-1 relative">
             {[
-              { id: 'form', label: 'Admission Form', icon: <ClipboardCheck size={18} /> },
-              { id: 'logs', label: 'Audit Log', icon: <History size={18} /> },
-              { id: 'rules', label: 'Rules Config', icon: <Settings size={18} /> }
-            ].map((tab) => (
+              { id: 'form', label: 'Admission Form', icon: <ClipboardCheck size={18} />, visible: can(currentUser.role, 'submitEntries') },
+              { id: 'import', label: 'Bulk Import', icon: <FileSpreadsheet size={18} />, visible: can(currentUser.role, 'submitEntries') },
+              { id: 'logs', label: 'Audit Log', icon: <History size={18} />, visible: true },
+              { id: 'analytics', label: 'Analytics', icon: <ChartColumn size={18} />, visible: can(currentUser.role, 'viewAnalytics') },
+              { id: 'review', label: 'Review Queue', icon: <UserCheck size={18} />, visible: can(currentUser.role, 'reviewEntries') },
+              { id: 'audit', label: 'Audit Trail', icon: <Link2 size={18} />, visible: can(currentUser.role, 'verifyAuditLog') },
+              { id: 'notifications', label: 'Notifications', icon: <Mail size={18} />, visible: can(currentUser.role, 'viewNotifications') },
+              { id: 'rules', label: 'Rules Config', icon: <Settings size={18} />, visible: can(currentUser.role, 'viewRules') },
+              { id: 'users', label: 'Users', icon: <Users size={18} />, visible: can(currentUser.role, 'manageUsers') }
+            ].filter(tab => tab.visible).map((tab) => (
               <button
                 key={tab.id}
                 onClick={() => setActiveTab(tab.id as any)}
@@ -653,238 +1069,943 @@ export default function App() {
                       <Settings className="text-brand-600" />
                       Validation Rules Configuration
                     </h2>
-                    <p className="text-sm text-slate-500 font-medium">Customize the admission criteria and screening logic.</p>
+                    <p className="text-sm text-slate-500 font-medium">
+                      Customize the admission criteria and screening logic.
+                      {rulesVersion !== null && <span className="ml-1 text-brand-600 font-bold">Active: v{rulesVersion}</span>}
+                    </p>
                   </div>
-                  <div className="flex items-center gap-3 w-full md:w-auto">
-                    <button
-                      onClick={calculateImpact}
-                      className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-brand-600 bg-brand-50 border border-brand-100 rounded-xl hover:bg-brand-100 transition-all active:scale-95"
-                    >
-                      <RefreshCw size={16} />
-                      Preview Impact
-                    </button>
-                    <button
-                      onClick={factoryReset}
-                      className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-rose-600 bg-rose-50 border border-rose-100 rounded-xl hover:bg-rose-100 transition-all active:scale-95"
-                    >
-                      Factory Reset
-                    </button>
-                    <button
-                      onClick={resetRules}
-                      className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-slate-600 bg-slate-100 border border-slate-200 rounded-xl hover:bg-slate-200 transition-all active:scale-95"
-                    >
-                      Reset
-                    </button>
-                    <button
-                      onClick={saveRules}
-                      className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 shadow-lg shadow-brand-200 transition-all active:scale-95"
-                    >
-                      Save Changes
-                    </button>
+                  {canEditRules && (
+                    <div className="flex items-center gap-3 w-full md:w-auto">
+                      <button
+                        onClick={previewImpact}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-brand-600 bg-brand-50 border border-brand-100 rounded-xl hover:bg-brand-100 transition-all active:scale-95"
+                      >
+                        <RefreshCw size={16} />
+                        Preview Impact
+                      </button>
+                      <button
+                        onClick={factoryReset}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-rose-600 bg-rose-50 border border-rose-100 rounded-xl hover:bg-rose-100 transition-all active:scale-95"
+                      >
+                        Factory Reset
+                      </button>
+                      <button
+                        onClick={resetRules}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-slate-600 bg-slate-100 border border-slate-200 rounded-xl hover:bg-slate-200 transition-all active:scale-95"
+                      >
+                        Reset
+                      </button>
+                      <button
+                        onClick={saveRules}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 shadow-lg shadow-brand-200 transition-all active:scale-95"
+                      >
+                        Save Changes
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+                  <div className="flex flex-col md:flex-row md:items-end gap-3">
+                    <div className="flex-1">
+                      <label htmlFor="rulesProgram" className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Rules For</label>
+                      <select
+                        id="rulesProgram"
+                        value={programId ?? ''}
+                        onChange={(e) => selectProgram(e.target.value ? Number(e.target.value) : null)}
+                        className="w-full px-3 py-2 text-sm font-semibold bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                      >
+                        <option value="">Default rules</option>
+                        {programs.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      </select>
+                    </div>
+                    <p className="flex-[2] text-[11px] text-slate-500 font-medium">
+                      {program
+                        ? `Entries in ${program.name} are checked against these rules, with ages as of ${program.referenceDate}. ${program.seatsTaken} of ${program.seats} seats offered.`
+                        : 'New programs start from a copy of the default rules, which also hold the entries made before programs existed.'}
+                    </p>
                   </div>
+                  {canEditRules && program && (
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end pt-4 border-t border-slate-100">
+                      {renderProgramFields(programSettings ?? program, (key, value) =>
+                        setProgramSettings(prev => ({ ...(prev ?? program), [key]: value })))}
+                      <button
+                        type="button"
+                        onClick={saveProgramSettings}
+                        disabled={!programSettings || programProblems(programSettings).length > 0}
+                        title={programSettings ? programProblems(programSettings).join(' ') : undefined}
+                        className="px-4 py-2 text-xs font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 transition-all active:scale-95 disabled:bg-slate-200 disabled:text-slate-400"
+                      >
+                        Save Program
+                      </button>
+                    </div>
+                  )}
+                  {canEditRules && (
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end pt-4 border-t border-slate-100">
+                      {renderProgramFields(programDraft, (key, value) => setProgramDraft(prev => ({ ...prev, [key]: value })))}
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Rules From</label>
+                        <select
+                          value={programDraft.copyFrom ?? ''}
+                          onChange={(e) => setProgramDraft(prev => ({ ...prev, copyFrom: e.target.value ? Number(e.target.value) : null }))}
+                          className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                        >
+                          <option value="">Default rules</option>
+                          {programs.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={createProgram}
+                        disabled={programProblems(programDraft).length > 0}
+                        title={programProblems(programDraft).join(' ')}
+                        className="col-span-2 md:col-span-6 flex items-center justify-center gap-2 px-4 py-2 text-xs font-bold text-brand-600 bg-brand-50 border border-brand-100 rounded-xl hover:bg-brand-100 transition-all active:scale-95 disabled:bg-slate-50 disabled:text-slate-300 disabled:border-slate-100"
+                      >
+                        <Plus size={14} />
+                        New Program
+                      </button>
+                    </div>
+                  )}
                 </div>
 
+                {canEditRules ? (
+                  <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm">
+                    <div>
+                      <label htmlFor="changeNote" className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Change Note (published as {currentUser.displayName})</label>
+                      <input
+                        id="changeNote"
+                        type="text"
+                        value={changeNote}
+                        onChange={(e) => setChangeNote(e.target.value)}
+                        placeholder="Why are these rules changing?"
+                        className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="p-4 bg-slate-50 rounded-2xl border border-slate-200 flex items-center gap-3">
+                    <Info size={18} className="text-slate-400 shrink-0" />
+                    <p className="text-xs text-slate-500 font-medium">The rules are read-only for your role. Ask an admin to change them.</p>
+                  </div>
+                )}
+
                 {impact && (
                   <motion.div
                     initial={{ opacity: 0, y: -10 }}
                     animate={{ opacity: 1, y: 0 }}
-                    className="p-5 bg-indigo-50 border border-indigo-100 rounded-2xl flex flex-col md:flex-row md:items-center justify-between gap-4 shadow-sm"
+                    className="p-5 bg-indigo-50 border border-indigo-100 rounded-2xl shadow-sm"
                   >
-                    <div className="flex items-center gap-3">
-                      <div className="w-10 h-10 rounded-xl bg-indigo-100 flex items-center justify-center text-indigo-600">
-                        <LayoutDashboard size={20} />
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-indigo-100 flex items-center justify-center text-indigo-600">
+                          <LayoutDashboard size={20} />
+                        </div>
+                        <div>
+                          <p className="text-sm font-bold text-indigo-900">Impact Preview Results</p>
+                          <p className="text-xs text-indigo-600 font-medium">Based on {impact.total} existing applications</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-6">
+                        <div className="text-center">
+                          <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-wider">New Flagged</p>
+                          <p className="text-xl font-black text-indigo-700">{impact.flagged}</p>
+                        </div>
+                        <div className="text-center">
+                          <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-wider">Newly Blocked</p>
+                          <p className="text-xl font-black text-indigo-700">{impact.blocked}</p>
+                        </div>
+                        <div className="h-8 w-px bg-indigo-200 hidden md:block" />
+                        <p className="text-xs text-indigo-500 font-medium max-w-[200px] leading-tight">
+                          {impact.blocked > 0 ? `${Math.round((impact.blocked / impact.total) * 100)}% of candidates would no longer pass these rules.` : 'No existing candidate would be blocked by these rules.'}
+                        </p>
+                      </div>
+                    </div>
+
+                    {impact.rules.length > 0 && (
+                      <div className="mt-4 pt-4 border-t border-indigo-100 space-y-3">
+                        <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-wider">Per-Rule Breakdown</p>
+                        {impact.rules.map(rule => (
+                          <div key={rule.field} className="p-3 bg-white/70 rounded-xl border border-indigo-100">
+                            <div className="flex items-center justify-between">
+                              <span className="text-xs font-bold text-indigo-900 capitalize">{rule.field.replace(/([A-Z])/g, ' $1')}</span>
+                              <div className="flex items-center gap-2">
+                                {rule.newlyBlocked.length > 0 && (
+                                  <span className="text-[10px] font-bold px-2 py-0.5 rounded-md bg-red-50 text-red-600 uppercase tracking-wider">{rule.newlyBlocked.length} blocked</span>
+                                )}
+                                {rule.newlyWarned.length > 0 && (
+                                  <span className="text-[10px] font-bold px-2 py-0.5 rounded-md bg-amber-50 text-amber-600 uppercase tracking-wider">{rule.newlyWarned.length} warned</span>
+                                )}
+                              </div>
+                            </div>
+                            <ul className="mt-2 space-y-1">
+                              {[...rule.newlyBlocked.map(c => ({ ...c, kind: 'blocked' })), ...rule.newlyWarned.map(c => ({ ...c, kind: 'warned' }))].map(candidate => (
+                                <li key={`${candidate.kind}-${candidate.id}`} className="text-[11px] text-slate-600 flex items-start gap-2">
+                                  {candidate.kind === 'blocked'
+                                    ? <AlertCircle size={12} className="text-red-500 shrink-0 mt-0.5" />
+                                    : <AlertTriangle size={12} className="text-amber-500 shrink-0 mt-0.5" />}
+                                  <span><span className="font-bold text-slate-900">{candidate.fullName}</span> — {candidate.message}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </motion.div>
+                )}
+
+                <fieldset disabled={!canEditRules} className="space-y-6 min-w-0">
+                  <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm">
+                    <div className="flex items-center gap-3 mb-4">
+                      <div className="w-8 h-8 rounded-lg flex items-center justify-center bg-amber-50 text-amber-600">
+                        <ClipboardCheck size={18} />
                       </div>
                       <div>
-                        <p className="text-sm font-bold text-indigo-900">Impact Preview Results</p>
-                        <p className="text-xs text-indigo-600 font-medium">Based on {logs.length} existing applications</p>
+                        <h4 className="text-sm font-bold text-slate-900">Exception Policy</h4>
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Waiver Rationales &amp; Manager Review</p>
                       </div>
                     </div>
-                    <div className="flex items-center gap-6">
-                      <div className="text-center">
-                        <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-wider">New Flagged</p>
-                        <p className="text-xl font-black text-indigo-700">{impact.flagged}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Min Rationale Length</label>
+                        <input
+                          type="number"
+                          value={pendingRules.exceptionPolicy.minRationaleLength}
+                          onChange={(e) => updatePolicy('minRationaleLength', Number(e.target.value))}
+                          className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                        />
                       </div>
-                      <div className="text-center">
-                        <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-wider">New Errors</p>
-                        <p className="text-xl font-black text-indigo-700">{impact.errors}</p>
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Manager Review At (Exceptions)</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={pendingRules.exceptionPolicy.reviewThreshold}
+                          onChange={(e) => updatePolicy('reviewThreshold', Number(e.target.value))}
+                          className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                        />
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Required Keywords (comma separated, any one)</label>
+                        <input
+                          type="text"
+                          value={pendingRules.exceptionPolicy.keywords.join(', ')}
+                          onChange={(e) => updatePolicy('keywords', e.target.value.split(',').map(k => k.trimStart()))}
+                          className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                        />
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Approver Name Pattern (regex, optional)</label>
+                        <input
+                          type="text"
+                          value={pendingRules.exceptionPolicy.approverPattern}
+                          onChange={(e) => updatePolicy('approverPattern', e.target.value)}
+                          placeholder="e.g. /approved by [A-Z][a-z]+ [A-Z][a-z]+/i"
+                          className="w-full px-3 py-2 text-xs font-mono bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                        />
                       </div>
-                      <div className="h-8 w-px bg-indigo-200 hidden md:block" />
-                      <p className="text-xs text-indigo-500 font-medium max-w-[200px] leading-tight">
-                        {impact.flagged > 0 ? `${Math.round((impact.flagged / logs.length) * 100)}% of candidates would be flagged for review.` : 'No candidates would be flagged with these rules.'}
-                      </p>
                     </div>
-                  </motion.div>
-                )}
+                  </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  {Object.entries(pendingRules as Record<string, any>).map(([field, config]) => (
-                    <div key={field} className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm hover:shadow-md transition-shadow">
-                      <div className="flex items-center justify-between mb-4">
-                        <div className="flex items-center gap-3">
-                          <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${config.type === 'strict' ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-600'}`}>
-                            {config.type === 'strict' ? <ShieldCheck size={18} /> : <AlertTriangle size={18} />}
+                  <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm">
+                    <div className="flex items-center gap-3 mb-4">
+                      <div className="w-8 h-8 rounded-lg flex items-center justify-center bg-brand-50 text-brand-600">
+                        <FileText size={18} />
+                      </div>
+                      <div>
+                        <h4 className="text-sm font-bold text-slate-900">Form Fields</h4>
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Labels, Inputs &amp; Added Fields</p>
+                      </div>
+                    </div>
+                    <div className="space-y-3">
+                      {pendingRules.form.map(definition => (
+                        <div key={definition.name} className="p-4 bg-slate-50/60 rounded-2xl border border-slate-100 space-y-3">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-[10px] font-mono text-slate-400">{definition.name}</span>
+                            {!isCoreField(definition.name) && (
+                              <span className="text-[10px] font-bold px-1.5 py-0.5 rounded-md bg-brand-50 text-brand-600 uppercase tracking-wider">Added</span>
+                            )}
+                            <div className="ml-auto flex items-center gap-3">
+                              {!pendingRules.fields[definition.name] ? (
+                                <>
+                                  <button
+                                    type="button"
+                                    onClick={() => attachRule(definition.name, 'strict')}
+                                    className="flex items-center gap-1 text-[10px] font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider"
+                                  >
+                                    <Plus size={12} /> Strict Rule
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => attachRule(definition.name, 'soft')}
+                                    className="flex items-center gap-1 text-[10px] font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider"
+                                  >
+                                    <Plus size={12} /> Soft Rule
+                                  </button>
+                                </>
+                              ) : !isCoreField(definition.name) && (
+                                <button
+                                  type="button"
+                                  onClick={() => detachRule(definition.name)}
+                                  className="text-[10px] font-bold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+                                >
+                                  Remove Rule
+                                </button>
+                              )}
+                              {!isCoreField(definition.name) && (
+                                <button
+                                  type="button"
+                                  onClick={() => removeFormField(definition.name)}
+                                  title="Remove field"
+                                  className="p-1 text-slate-400 hover:text-red-600 transition-colors"
+                                >
+                                  <Trash2 size={14} />
+                                </button>
+                              )}
+                            </div>
                           </div>
-                          <div>
-                            <h4 className="text-sm font-bold text-slate-900 capitalize">{field.replace(/([A-Z])/g, ' $1')}</h4>
-                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{config.type} Rule</p>
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <div className="col-span-2">
+                              <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Label</label>
+                              <input
+                                type="text"
+                                value={definition.label}
+                                onChange={(e) => updateFormField(definition.name, { label: e.target.value })}
+                                className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                              />
+                            </div>
+                            <div>
+                              <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Section</label>
+                              <select
+                                value={definition.section}
+                                onChange={(e) => updateFormField(definition.name, { section: e.target.value as FormSection })}
+                                className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                              >
+                                {FORM_SECTIONS.map(section => <option key={section.id} value={section.id}>{section.title}</option>)}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Icon</label>
+                              <select
+                                value={definition.icon || 'FileText'}
+                                onChange={(e) => updateFormField(definition.name, { icon: e.target.value })}
+                                className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                              >
+                                {Object.keys(FIELD_ICONS).map(icon => <option key={icon} value={icon}>{icon}</option>)}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Input</label>
+                              <select
+                                value={definition.input}
+                                disabled={isCoreField(definition.name)}
+                                onChange={(e) => updateFormField(definition.name, { input: e.target.value as FieldInputType })}
+                                className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10 disabled:text-slate-400"
+                              >
+                                {INPUT_TYPES.map(input => <option key={input} value={input}>{input}</option>)}
+                              </select>
+                            </div>
+                            <div className="md:col-span-3">
+                              <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Help Text</label>
+                              <input
+                                type="text"
+                                value={definition.helpText || ''}
+                                onChange={(e) => updateFormField(definition.name, { helpText: e.target.value || undefined })}
+                                placeholder="Shown under the field"
+                                className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                              />
+                            </div>
+                            {definition.input === 'select' && (
+                              <div className="col-span-2 md:col-span-4">
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Options (comma separated)</label>
+                                <input
+                                  type="text"
+                                  value={(definition.options || []).join(', ')}
+                                  onChange={(e) => updateFormField(definition.name, { options: e.target.value.split(',').map(option => option.trimStart()) })}
+                                  className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                />
+                              </div>
+                            )}
                           </div>
                         </div>
-                        <select
-                          value={config.type}
-                          onChange={(e) => updateRule(field, 'type', e.target.value)}
-                          className="text-[10px] font-bold bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-brand-500/10"
+                      ))}
+
+                      <div className="p-4 rounded-2xl border border-dashed border-slate-200 grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                        <div className="col-span-2">
+                          <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">New Field Label</label>
+                          <input
+                            type="text"
+                            value={newField.label}
+                            onChange={(e) => setNewField({ ...newField, label: e.target.value })}
+                            placeholder="e.g. Work Experience (years)"
+                            className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                          />
+                        </div>
+                        <div>
+                          <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Input</label>
+                          <select
+                            value={newField.input}
+                            onChange={(e) => setNewField({ ...newField, input: e.target.value as FieldInputType })}
+                            className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                          >
+                            {INPUT_TYPES.map(input => <option key={input} value={input}>{input}</option>)}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Section</label>
+                          <select
+                            value={newField.section}
+                            onChange={(e) => setNewField({ ...newField, section: e.target.value as FormSection })}
+                            className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                          >
+                            {FORM_SECTIONS.map(section => <option key={section.id} value={section.id}>{section.title}</option>)}
+                          </select>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={addFormField}
+                          className="col-span-2 md:col-span-4 flex items-center justify-center gap-2 px-4 py-2 text-xs font-bold text-brand-600 bg-brand-50 border border-brand-100 rounded-xl hover:bg-brand-100 transition-all active:scale-95"
                         >
-                          <option value="strict">Strict</option>
-                          <option value="soft">Soft</option>
-                        </select>
+                          <Plus size={14} /> Add Field
+                        </button>
                       </div>
+                    </div>
+                  </div>
 
-                      <div className="space-y-4">
-                        {config.type === 'soft' && (
-                          <div className="grid grid-cols-2 gap-3">
-                            {config.min !== undefined && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {Object.entries((pendingRules as RulesConfig).fields).map(([field, config]) => (
+                      <div key={field} className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm hover:shadow-md transition-shadow">
+                        <div className="flex items-center justify-between mb-4">
+                          <div className="flex items-center gap-3">
+                            <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${config.type === 'strict' ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-600'}`}>
+                              {config.type === 'strict' ? <ShieldCheck size={18} /> : <AlertTriangle size={18} />}
+                            </div>
+                            <div>
+                              <h4 className="text-sm font-bold text-slate-900">{fieldLabel(field)}</h4>
+                              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{config.type} Rule</p>
+                            </div>
+                          </div>
+                          <select
+                            value={config.type}
+                            onChange={(e) => updateRule(field, 'type', e.target.value)}
+                            className="text-[10px] font-bold bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-brand-500/10"
+                          >
+                            <option value="strict">Strict</option>
+                            <option value="soft">Soft</option>
+                          </select>
+                        </div>
+
+                        <div className="space-y-4">
+                          {config.type === 'soft' && (
+                            <div className="grid grid-cols-2 gap-3">
+                              {!config.range && !config.ageRange && !config.thresholds && (
+                                <>
+                                  <div>
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Min Value</label>
+                                    <input
+                                      type="number"
+                                      value={config.min ?? ''}
+                                      placeholder="No minimum"
+                                      onChange={(e) => updateRule(field, 'min', e.target.value === '' ? undefined : Number(e.target.value))}
+                                      className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Max Value</label>
+                                    <input
+                                      type="number"
+                                      value={config.max ?? ''}
+                                      placeholder="No maximum"
+                                      onChange={(e) => updateRule(field, 'max', e.target.value === '' ? undefined : Number(e.target.value))}
+                                      className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                    />
+                                  </div>
+                                </>
+                              )}
+                              {config.range && (
+                                <>
+                                  <div>
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Start Year</label>
+                                    <input
+                                      type="number"
+                                      value={config.range[0]}
+                                      onChange={(e) => updateRule(field, 'range', [Number(e.target.value), config.range[1]])}
+                                      className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">End Year</label>
+                                    <input
+                                      type="number"
+                                      value={config.range[1]}
+                                      onChange={(e) => updateRule(field, 'range', [config.range[0], Number(e.target.value)])}
+                                      className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                    />
+                                  </div>
+                                </>
+                              )}
+                              {config.ageRange && (
+                                <>
+                                  <div>
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Min Age</label>
+                                    <input
+                                      type="number"
+                                      value={config.ageRange[0]}
+                                      onChange={(e) => updateRule(field, 'ageRange', [Number(e.target.value), config.ageRange[1]])}
+                                      className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Max Age</label>
+                                    <input
+                                      type="number"
+                                      value={config.ageRange[1]}
+                                      onChange={(e) => updateRule(field, 'ageRange', [config.ageRange[0], Number(e.target.value)])}
+                                      className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                    />
+                                  </div>
+                                </>
+                              )}
+                              {config.thresholds && (
+                                <>
+                                  <div>
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Min %</label>
+                                    <input
+                                      type="number"
+                                      value={config.thresholds.percentage}
+                                      onChange={(e) => updateRule(field, 'thresholds', { ...config.thresholds, percentage: Number(e.target.value) })}
+                                      className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Min CGPA</label>
+                                    <input
+                                      type="number"
+                                      step="0.1"
+                                      value={config.thresholds.cgpa}
+                                      onChange={(e) => updateRule(field, 'thresholds', { ...config.thresholds, cgpa: Number(e.target.value) })}
+                                      className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                    />
+                                  </div>
+                                </>
+                              )}
+                              <div className="col-span-2">
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Rationale Min Length</label>
+                                <input
+                                  type="number"
+                                  value={config.rationaleMinLength ?? ''}
+                                  placeholder={`Policy default (${pendingRules.exceptionPolicy.minRationaleLength})`}
+                                  onChange={(e) => updateRule(field, 'rationaleMinLength', e.target.value === '' ? undefined : Number(e.target.value))}
+                                  className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                />
+                              </div>
+                              <label className="col-span-2 flex items-center gap-2 text-xs font-medium text-slate-600">
+                                <input
+                                  type="checkbox"
+                                  checked={!!config.requiresAttachment}
+                                  onChange={(e) => updateRule(field, 'requiresAttachment', e.target.checked || undefined)}
+                                  className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                                />
+                                Waiver requires a supporting document
+                              </label>
+                            </div>
+                          )}
+
+                          {config.type === 'strict' && (
+                            <div className="flex flex-wrap items-center gap-4">
+                              <label className="flex items-center gap-2 cursor-pointer group">
+                                <input
+                                  type="checkbox"
+                                  checked={config.required}
+                                  onChange={(e) => updateRule(field, 'required', e.target.checked)}
+                                  className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                                />
+                                <span className="text-xs font-bold text-slate-600 group-hover:text-slate-900 transition-colors">Required Field</span>
+                              </label>
+                              <label className="flex items-center gap-2 ml-auto">
+                                <span className="text-[10px] font-bold text-slate-400 uppercase">Checksum</span>
+                                <select
+                                  value={config.checksum || ''}
+                                  onChange={(e) => updateRule(field, 'checksum', (e.target.value || undefined) as ChecksumType | undefined)}
+                                  className="text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-brand-500/10"
+                                >
+                                  <option value="">None</option>
+                                  <option value="verhoeff">Verhoeff</option>
+                                </select>
+                              </label>
+                              <label className="flex items-center gap-2">
+                                <span className="text-[10px] font-bold text-slate-400 uppercase">Duplicates</span>
+                                <select
+                                  value={config.duplicateCheck || 'off'}
+                                  onChange={(e) => updateRule(field, 'duplicateCheck', e.target.value as DuplicateCheck)}
+                                  className="text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-brand-500/10"
+                                >
+                                  <option value="off">Allow</option>
+                                  <option value="warn">Warn</option>
+                                  <option value="block">Block</option>
+                                </select>
+                              </label>
+                            </div>
+                          )}
+
+                          {config.type === 'strict' && field !== 'offerSent' && (
+                            <div>
+                              <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Regex Pattern</label>
+                              <input
+                                type="text"
+                                value={patternDrafts[field] ?? config.pattern?.toString() ?? ''}
+                                placeholder="No pattern"
+                                onChange={(e) => updatePattern(field, e.target.value)}
+                                className={`w-full px-3 py-2 text-xs font-mono bg-slate-50 border rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10 ${patternDrafts[field] !== undefined ? 'border-red-300' : 'border-slate-200'}`}
+                              />
+                              {patternDrafts[field] !== undefined && (
+                                <p className="mt-1 text-[10px] text-red-500 font-medium px-1">{patternProblem(patternDrafts[field])}</p>
+                              )}
+                            </div>
+                          )}
+
+                          <div>
+                            <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Error Message</label>
+                            <textarea
+                              value={config.errorMessage}
+                              onChange={(e) => updateRule(field, 'errorMessage', e.target.value)}
+                              className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10 min-h-[60px] resize-none"
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm">
+                    <div className="flex items-center gap-3 mb-4">
+                      <div className="w-8 h-8 rounded-lg flex items-center justify-center bg-brand-50 text-brand-600">
+                        <ClipboardCheck size={18} />
+                      </div>
+                      <div>
+                        <h4 className="text-sm font-bold text-slate-900">Cross-Field Rules</h4>
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Conditions Across Several Fields</p>
+                      </div>
+                    </div>
+                    <p className="text-[11px] text-slate-500 mb-4">
+                      Write a condition the entry must meet, e.g. <code className="font-mono text-brand-700">gradYear - year(dob) &gt;= 20</code> or{' '}
+                      <code className="font-mono text-brand-700">qualification in ["MBA"] and score &gt;= 70</code>. Use field names, numbers,
+                      quoted text, <code className="font-mono">and or not</code>, comparisons, arithmetic and{' '}
+                      <code className="font-mono">year() age() len() lower()</code>. A rule is skipped while any field it reads is empty.
+                    </p>
+                    <div className="space-y-3">
+                      {pendingRules.crossFieldRules.map((rule, index) => {
+                        const knownFields = expressionFieldNames(pendingRules);
+                        const expressionError = rule.expression.trim()
+                          ? expressionProblem(rule.expression, knownFields)
+                          : 'Enter the condition to check.';
+                        const whenError = rule.when?.trim() ? expressionProblem(rule.when, knownFields) : '';
+                        return (
+                          <div key={index} className="p-4 bg-slate-50/60 rounded-2xl border border-slate-100 space-y-3">
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                              <div className="col-span-2">
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Rule Id</label>
+                                <input
+                                  type="text"
+                                  value={rule.id}
+                                  onChange={(e) => updateCrossRule(index, { id: e.target.value.trim() })}
+                                  className="w-full px-3 py-2 text-xs font-mono bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                />
+                              </div>
+                              <div>
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Type</label>
+                                <select
+                                  value={rule.type}
+                                  onChange={(e) => updateCrossRule(index, { type: e.target.value as CrossFieldRule['type'] })}
+                                  className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                >
+                                  <option value="strict">Strict</option>
+                                  <option value="soft">Soft</option>
+                                </select>
+                              </div>
+                              <div className="flex items-end justify-end">
+                                <button
+                                  type="button"
+                                  onClick={() => removeCrossRule(index)}
+                                  title="Remove rule"
+                                  className="p-2 text-slate-400 hover:text-red-600 transition-colors"
+                                >
+                                  <Trash2 size={14} />
+                                </button>
+                              </div>
+                              <div className="col-span-2 md:col-span-4">
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Condition</label>
+                                <input
+                                  type="text"
+                                  value={rule.expression}
+                                  onChange={(e) => updateCrossRule(index, { expression: e.target.value })}
+                                  placeholder="gradYear - year(dob) >= 20"
+                                  className={`w-full px-3 py-2 text-xs font-mono bg-white border rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10 ${expressionError ? 'border-red-300' : 'border-slate-200'}`}
+                                />
+                                {expressionError && <p className="mt-1 text-[10px] text-red-500 font-medium px-1">{expressionError}</p>}
+                              </div>
+                              <div className="col-span-2 md:col-span-4">
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Only When (optional)</label>
+                                <input
+                                  type="text"
+                                  value={rule.when || ''}
+                                  onChange={(e) => updateCrossRule(index, { when: e.target.value || undefined })}
+                                  placeholder="Always applies"
+                                  className={`w-full px-3 py-2 text-xs font-mono bg-white border rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10 ${whenError ? 'border-red-300' : 'border-slate-200'}`}
+                                />
+                                {whenError && <p className="mt-1 text-[10px] text-red-500 font-medium px-1">{whenError}</p>}
+                              </div>
+                              <div className="col-span-2 md:col-span-4">
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Error Message</label>
+                                <textarea
+                                  value={rule.errorMessage}
+                                  onChange={(e) => updateCrossRule(index, { errorMessage: e.target.value })}
+                                  className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10 min-h-[60px] resize-none"
+                                />
+                              </div>
+                              {rule.type === 'soft' && (
+                                <>
+                                  <label className="col-span-2 flex items-center gap-2 text-xs font-medium text-slate-600">
+                                    <input
+                                      type="checkbox"
+                                      checked={rule.exceptionAllowed !== false}
+                                      onChange={(e) => updateCrossRule(index, { exceptionAllowed: e.target.checked })}
+                                      className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                                    />
+                                    Allow exception with rationale
+                                  </label>
+                                  <div className="col-span-2">
+                                    <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Rationale Min Length</label>
+                                    <input
+                                      type="number"
+                                      value={rule.rationaleMinLength ?? ''}
+                                      onChange={(e) => updateCrossRule(index, { rationaleMinLength: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                      placeholder={`Policy default (${pendingRules.exceptionPolicy.minRationaleLength})`}
+                                      className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                    />
+                                  </div>
+                                  <label className="col-span-2 flex items-center gap-2 text-xs font-medium text-slate-600">
+                                    <input
+                                      type="checkbox"
+                                      checked={!!rule.requiresAttachment}
+                                      onChange={(e) => updateCrossRule(index, { requiresAttachment: e.target.checked || undefined })}
+                                      className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                                    />
+                                    Waiver requires a supporting document
+                                  </label>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                      <button
+                        type="button"
+                        onClick={addCrossRule}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 text-xs font-bold text-brand-600 bg-brand-50 border border-brand-100 rounded-xl hover:bg-brand-100 transition-all active:scale-95"
+                      >
+                        <Plus size={14} /> Add Cross-Field Rule
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm">
+                    <div className="flex items-center gap-3 mb-4">
+                      <div className="w-8 h-8 rounded-lg flex items-center justify-center bg-brand-50 text-brand-600">
+                        <Sparkles size={18} />
+                      </div>
+                      <div>
+                        <h4 className="text-sm font-bold text-slate-900">Recommendation Tiers</h4>
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">First Matching Tier Wins</p>
+                      </div>
+                    </div>
+                    <p className="text-[11px] text-slate-500 mb-4">
+                      Conditions use the same syntax as cross-field rules, plus{' '}
+                      {Object.entries(RECOMMENDATION_VARIABLES).map(([name, description], i) => (
+                        <React.Fragment key={name}>
+                          {i > 0 && ', '}
+                          <code className="font-mono text-brand-700" title={description}>{name}</code>
+                        </React.Fragment>
+                      ))}
+                      {' '}and <code className="font-mono text-brand-700">isCgpa</code>. Leave the last tier's condition empty to catch everyone else.
+                    </p>
+                    <div className="space-y-3">
+                      {pendingRules.recommendations.map((tier, index) => {
+                        const conditionError = tier.condition.trim()
+                          ? expressionProblem(tier.condition, recommendationFieldNames(pendingRules))
+                          : '';
+                        return (
+                          <div key={index} className="p-4 bg-slate-50/60 rounded-2xl border border-slate-100 space-y-3">
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                               <div>
-                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Min Value</label>
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Tier Id</label>
+                                <input
+                                  type="text"
+                                  value={tier.id}
+                                  onChange={(e) => updateTier(index, { id: e.target.value.trim() })}
+                                  className="w-full px-3 py-2 text-xs font-mono bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                />
+                              </div>
+                              <div>
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Label</label>
+                                <input
+                                  type="text"
+                                  value={tier.label}
+                                  onChange={(e) => updateTier(index, { label: e.target.value })}
+                                  className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                />
+                              </div>
+                              <div>
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Tone</label>
+                                <select
+                                  value={tier.tone}
+                                  onChange={(e) => updateTier(index, { tone: e.target.value as RecommendationTone })}
+                                  className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                >
+                                  {Object.entries(RECOMMENDATION_TONES).map(([tone, label]) => (
+                                    <option key={tone} value={tone}>{label}</option>
+                                  ))}
+                                </select>
+                              </div>
+                              <div className="flex items-end justify-end">
+                                <button
+                                  type="button"
+                                  onClick={() => moveTier(index, -1)}
+                                  disabled={index === 0}
+                                  title="Check earlier"
+                                  className="p-2 text-slate-400 hover:text-brand-600 transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+                                >
+                                  <ArrowUp size={14} />
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => moveTier(index, 1)}
+                                  disabled={index === pendingRules.recommendations.length - 1}
+                                  title="Check later"
+                                  className="p-2 text-slate-400 hover:text-brand-600 transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+                                >
+                                  <ArrowDown size={14} />
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => removeTier(index)}
+                                  title="Remove tier"
+                                  className="p-2 text-slate-400 hover:text-red-600 transition-colors"
+                                >
+                                  <Trash2 size={14} />
+                                </button>
+                              </div>
+                              <div className="col-span-2 md:col-span-4">
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Condition</label>
                                 <input
-                                  type="number"
-                                  value={config.min}
-                                  onChange={(e) => updateRule(field, 'min', Number(e.target.value))}
-                                  className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                                  type="text"
+                                  value={tier.condition}
+                                  onChange={(e) => updateTier(index, { condition: e.target.value })}
+                                  placeholder="Applies to everyone"
+                                  className={`w-full px-3 py-2 text-xs font-mono bg-white border rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10 ${conditionError ? 'border-red-300' : 'border-slate-200'}`}
                                 />
+                                {conditionError && <p className="mt-1 text-[10px] text-red-500 font-medium px-1">{conditionError}</p>}
                               </div>
-                            )}
-                            {config.max !== undefined && (
-                              <div>
-                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Max Value</label>
-                                <input
-                                  type="number"
-                                  value={config.max}
-                                  onChange={(e) => updateRule(field, 'max', Number(e.target.value))}
-                                  className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                              <div className="col-span-2 md:col-span-4">
+                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Reason</label>
+                                <textarea
+                                  value={tier.reason}
+                                  onChange={(e) => updateTier(index, { reason: e.target.value })}
+                                  className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10 min-h-[60px] resize-none"
                                 />
                               </div>
-                            )}
-                            {config.range && (
-                              <>
-                                <div>
-                                  <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Start Year</label>
-                                  <input
-                                    type="number"
-                                    value={config.range[0]}
-                                    onChange={(e) => updateRule(field, 'range', [Number(e.target.value), config.range[1]])}
-                                    className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
-                                  />
-                                </div>
-                                <div>
-                                  <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">End Year</label>
-                                  <input
-                                    type="number"
-                                    value={config.range[1]}
-                                    onChange={(e) => updateRule(field, 'range', [config.range[0], Number(e.target.value)])}
-                                    className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
-                                  />
-                                </div>
-                              </>
-                            )}
-                            {config.ageRange && (
-                              <>
-                                <div>
-                                  <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Min Age</label>
-                                  <input
-                                    type="number"
-                                    value={config.ageRange[0]}
-                                    onChange={(e) => updateRule(field, 'ageRange', [Number(e.target.value), config.ageRange[1]])}
-                                    className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
-                                  />
-                                </div>
-                                <div>
-                                  <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Max Age</label>
-                                  <input
-                                    type="number"
-                                    value={config.ageRange[1]}
-                                    onChange={(e) => updateRule(field, 'ageRange', [config.ageRange[0], Number(e.target.value)])}
-                                    className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
-                                  />
-                                </div>
-                              </>
-                            )}
-                            {config.thresholds && (
-                              <>
-                                <div>
-                                  <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Min %</label>
-                                  <input
-                                    type="number"
-                                    value={config.thresholds.percentage}
-                                    onChange={(e) => updateRule(field, 'thresholds', { ...config.thresholds, percentage: Number(e.target.value) })}
-                                    className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
-                                  />
-                                </div>
-                                <div>
-                                  <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Min CGPA</label>
-                                  <input
-                                    type="number"
-                                    step="0.1"
-                                    value={config.thresholds.cgpa}
-                                    onChange={(e) => updateRule(field, 'thresholds', { ...config.thresholds, cgpa: Number(e.target.value) })}
-                                    className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
-                                  />
-                                </div>
-                              </>
-                            )}
-                          </div>
-                        )}
-
-                        {config.type === 'strict' && (
-                          <div className="flex items-center gap-4">
-                            <label className="flex items-center gap-2 cursor-pointer group">
-                              <input
-                                type="checkbox"
-                                checked={config.required}
-                                onChange={(e) => updateRule(field, 'required', e.target.checked)}
-                                className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
-                              />
-                              <span className="text-xs font-bold text-slate-600 group-hover:text-slate-900 transition-colors">Required Field</span>
-                            </label>
-                          </div>
-                        )}
-
-                        {config.pattern && (
-                          <div>
-                            <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Regex Pattern</label>
-                            <input
-                              type="text"
-                              value={config.pattern.toString()}
-                              onChange={(e) => {
-                                try {
-                                  // Basic attempt to parse string back to regex
-                                  const match = e.target.value.match(/^\/(.*)\/([a-z]*)$/);
-                                  if (match) {
-                                    updateRule(field, 'pattern', new RegExp(match[1], match[2]));
-                                  } else {
-                                    updateRule(field, 'pattern', new RegExp(e.target.value));
-                                  }
-                                } catch (err) {
-                                  // Ignore invalid regex while typing
-                                }
-                              }}
-                              className="w-full px-3 py-2 text-xs font-mono bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
-                            />
+                            </div>
                           </div>
-                        )}
+                        );
+                      })}
+                      <button
+                        type="button"
+                        onClick={addTier}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 text-xs font-bold text-brand-600 bg-brand-50 border border-brand-100 rounded-xl hover:bg-brand-100 transition-all active:scale-95"
+                      >
+                        <Plus size={14} /> Add Recommendation Tier
+                      </button>
+                      {recommendationProblems(pendingRules).map(problem => (
+                        <p key={problem} className="text-[11px] text-red-500 font-bold flex items-center gap-1"><AlertCircle size={12} /> {problem}</p>
+                      ))}
+                    </div>
+                  </div>
 
-                        <div>
-                          <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Error Message</label>
-                          <textarea
-                            value={config.errorMessage}
-                            onChange={(e) => updateRule(field, 'errorMessage', e.target.value)}
-                            className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10 min-h-[60px] resize-none"
-                          />
-                        </div>
+                  <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm">
+                    <div className="flex items-center gap-3 mb-4">
+                      <div className="w-8 h-8 rounded-lg flex items-center justify-center bg-emerald-50 text-emerald-600">
+                        <Send size={18} />
+                      </div>
+                      <div>
+                        <h4 className="text-sm font-bold text-slate-900">Offer Letter</h4>
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">HTML Template Rendered to PDF</p>
                       </div>
                     </div>
-                  ))}
-                </div>
+                    <div className="space-y-3">
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Template</label>
+                        <textarea
+                          value={pendingRules.offerLetter.template}
+                          onChange={(e) => updateOfferLetter('template', e.target.value)}
+                          className="w-full px-3 py-2 text-xs font-mono bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10 min-h-[200px]"
+                        />
+                        <p className="mt-1 text-[10px] text-slate-400 font-medium">
+                          Headings, paragraphs, lists, line breaks and bold or italic text carry over to the PDF. Placeholders:{' '}
+                          {Object.entries(offerPlaceholders(pendingRules.form)).map(([name, label]) => (
+                            <span key={name} className="font-mono mr-1.5" title={label}>{`{{${name}}}`}</span>
+                          ))}
+                        </p>
+                      </div>
+                      <div className="md:w-1/2">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Days to Accept</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={pendingRules.offerLetter.acceptanceDays}
+                          onChange={(e) => updateOfferLetter('acceptanceDays', Number(e.target.value))}
+                          className="w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+                        />
+                      </div>
+                      {offerLetterProblems(pendingRules).map(problem => (
+                        <p key={problem} className="text-[11px] text-red-500 font-bold flex items-center gap-1"><AlertCircle size={12} /> {problem}</p>
+                      ))}
+                    </div>
+                  </div>
+                </fieldset>
+
+                <RulesHistory versions={rulesHistory} activeVersion={rulesVersion} onRollback={canEditRules ? rollbackRules : undefined} />
               </div>
+            ) : activeTab === 'users' ? (
+              <UserAdmin
+                currentUser={currentUser}
+                onError={(message) => addToast(message, 'error')}
+                onSaved={(message) => addToast(message)}
+              />
+            ) : activeTab === 'audit' ? (
+              <AuditTrail
+                onError={(message) => addToast(message, 'error')}
+                onOpenEntry={openEntry}
+              />
+            ) : activeTab === 'notifications' ? (
+              <NotificationOutbox
+                onError={(message) => addToast(message, 'error')}
+                onOpenEntry={openEntry}
+              />
+            ) : activeTab === 'import' ? (
+              <BulkImport
+                program={program}
+                rules={rules}
+                onError={(message) => addToast(message, 'error')}
+                onImported={importedBatch}
+              />
+            ) : activeTab === 'analytics' ? (
+              <Analytics logs={logs} programs={programs} rules={rules} />
+            ) : activeTab === 'review' ? (
+              <ReviewQueue
+                logs={logs}
+                onSubmitReview={submitReview}
+                onOpenEntry={handleOpenDrawer}
+              />
             ) : activeTab === 'logs' ? (
               <div className="space-y-6">
                 {/* Dashboard Overview */}
@@ -918,9 +2039,10 @@ export default function App() {
                       <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
                       <input
                         type="text"
-                        placeholder="Search name, email, phone..."
+                        placeholder="Search, or e.g. status:Waitlisted qual:MCA"
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
+                        title="Words search name, email and phone. Filters: status, flagged, offer, cgpa, review, qual, program, waived (key:value, comma for any of), grad, score, screening, exceptions (key>n, key<=n, key:a..b) and date (date>=2026-09-01, date:2026-09). Prefix a term with - to exclude it."
                         className="w-full pl-10 pr-4 py-2 text-sm bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-4 focus:ring-brand-500/10 transition-all"
                       />
                     </div>
@@ -945,35 +2067,76 @@ export default function App() {
                         <option value="Flagged">Flagged</option>
                         <option value="Normal">Normal</option>
                       </select>
+                      {programs.length > 0 && (
+                        <select
+                          value={programFilter}
+                          onChange={(e) => setProgramFilter(e.target.value)}
+                          className="text-sm bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-brand-500/10 transition-all"
+                        >
+                          <option value="All">All Programs</option>
+                          {programs.map(p => <option key={p.id} value={String(p.id)}>{p.name}</option>)}
+                          <option value="">Before Programs</option>
+                        </select>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setShowLogFilters(prev => !prev)}
+                        className={`flex items-center gap-2 text-sm font-bold border rounded-xl px-3 py-2 transition-all ${showLogFilters || activeFilterCount(logFilters) > 0 ? 'bg-brand-50 border-brand-200 text-brand-700' : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100'}`}
+                      >
+                        <SlidersHorizontal size={14} />
+                        More Filters{activeFilterCount(logFilters) > 0 && ` (${activeFilterCount(logFilters)})`}
+                      </button>
                     </div>
                   </div>
                   <div className="flex items-center gap-2 w-full md:w-auto">
-                    <button
-                      onClick={exportToCSV}
-                      className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-slate-700 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 transition-all active:scale-95"
-                    >
-                      <Download size={16} />
-                      Export CSV
-                    </button>
-                    <button
-                      onClick={clearLogs}
-                      disabled={logs.length === 0}
-                      className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-red-600 bg-red-50 border border-red-100 rounded-xl hover:bg-red-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed active:scale-95"
-                    >
-                      <Trash2 size={16} />
-                      Clear
-                    </button>
+                    {can(currentUser.role, 'exportEntries') && (
+                      <button
+                        onClick={() => setShowExport(true)}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-slate-700 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 transition-all active:scale-95"
+                      >
+                        <Download size={16} />
+                        Export
+                      </button>
+                    )}
+                    {can(currentUser.role, 'purgeEntries') && (
+                      <button
+                        onClick={clearLogs}
+                        disabled={logs.length === 0}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-red-600 bg-red-50 border border-red-100 rounded-xl hover:bg-red-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed active:scale-95"
+                      >
+                        <Trash2 size={16} />
+                        Clear
+                      </button>
+                    )}
                   </div>
                 </div>
 
+                {logQuery.problems.length > 0 && (
+                  <div className="px-4 py-3 bg-amber-50 border border-amber-200 rounded-2xl text-xs text-amber-800 font-medium space-y-1">
+                    {logQuery.problems.map(problem => <p key={problem} className="flex items-center gap-2"><AlertTriangle size={12} /> {problem}</p>)}
+                  </div>
+                )}
+
+                {showLogFilters && (
+                  <LogFilterPanel
+                    filters={logFilters}
+                    onChange={setLogFilters}
+                    qualifications={[...new Set([
+                      ...(rules.form.find(definition => definition.name === 'qualification')?.options ?? []),
+                      ...logs.map(log => log.qualification).filter(Boolean)
+                    ])]}
+                    waivable={exceptionRates(logs, rules).map(({ key, label }) => ({ key, label }))}
+                  />
+                )}
+
                 {getFilteredLogs().length === 0 ? (
                   <div className="bg-white rounded-3xl border border-slate-200 p-16 text-center space-y-4 shadow-xl shadow-slate-200/60">
                     <div className="w-20 h-20 bg-slate-50 rounded-3xl flex items-center justify-center mx-auto text-slate-300 rotate-12">
                       <History size={40} />
                     </div>
                     <div>
-                      <p className="text-slate-900 font-bold text-lg">No logs available</p>
-                      <p className="text-slate-500 text-sm">Submitted applications will appear here for audit review.</p>
+                      <p className="text-slate-900 font-bold text-lg">{logs.length === 0 ? 'No logs available' : 'No matching entries'}</p>
+                      <p className="text-slate-500 text-sm">{logs.length === 0 ? 'Submitted applications will appear here for audit review.' : 'Change the search or filters to see more entries.'}</p>
                     </div>
                   </div>
                 ) : (
@@ -982,12 +2145,12 @@ export default function App() {
                       <table className="w-full text-left border-collapse">
                         <thead>
                           <tr className="bg-slate-50/50 border-b border-slate-100">
-                            <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Candidate</th>
-                            <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Score</th>
-                            <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Status</th>
-                            <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-center">Flagged</th>
-                            <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-center">Waivers</th>
-                            <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Date</th>
+                            {renderSortHeader('Candidate', 'name')}
+                            {renderSortHeader('Score', 'score')}
+                            {renderSortHeader('Status', 'status')}
+                            {renderSortHeader('Flagged', 'flagged', 'text-center')}
+                            {renderSortHeader('Waivers', 'exceptions', 'text-center')}
+                            {renderSortHeader('Date', 'timestamp')}
                             <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">Action</th>
                           </tr>
                         </thead>
@@ -998,7 +2161,8 @@ export default function App() {
                             <tr key={log.id} className="hover:bg-slate-50/30 transition-colors group">
                               <td className="px-6 py-4">
                                 <div className="font-bold text-slate-900 group-hover:text-brand-600 transition-colors">{log.fullName}</div>
-                                <div className="text-[10px] text-slate-400 font-medium">{log.email}</div>
+                                <div className="text-[10px] text-slate-400 font-medium">{log.email} · {maskAadhaar(log.aadhaar)}</div>
+                                {log.program && <div className="text-[10px] text-brand-600 font-bold">{log.program}</div>}
                               </td>
                               <td className="px-6 py-4">
                                 <div className="text-sm font-bold text-slate-700">{log.score}{log.isCgpa ? '' : '%'}</div>
@@ -1015,8 +2179,8 @@ export default function App() {
                               </td>
                               <td className="px-6 py-4 text-center">
                                 {log.flagged ? (
-                                  <div className="flex justify-center">
-                                    <ShieldAlert size={16} className="text-rose-500" />
+                                  <div className="flex justify-center" title={log.reviewStatus || 'Flagged'}>
+                                    <ShieldAlert size={16} className={log.reviewStatus === 'Approved' ? 'text-emerald-500' : 'text-rose-500'} />
                                   </div>
                                 ) : (
                                   <div className="flex justify-center">
@@ -1030,7 +2194,7 @@ export default function App() {
                                 </span>
                               </td>
                               <td className="px-6 py-4 text-xs text-slate-500 font-medium">
-                                {log.timestamp.split(',')[0]}
+                                {new Date(log.timestamp).toLocaleDateString()}
                               </td>
                               <td className="px-6 py-4 text-right">
                                 <button
@@ -1104,351 +2268,124 @@ export default function App() {
                 <div className="bg-white rounded-3xl shadow-xl shadow-slate-200/60 border border-slate-200 overflow-hidden">
                   <div className="p-8 sm:p-10">
                     <form className="space-y-8" onSubmit={handleSubmit}>
-                  
-                  {/* Personal Information Section */}
-                  <div className="space-y-6">
-                    <div className="flex items-center gap-3 pb-2 border-b border-slate-100">
-                      <div className="w-8 h-8 rounded-lg bg-brand-50 flex items-center justify-center text-brand-600">
-                        <User size={18} />
-                      </div>
-                      <h3 className="text-lg font-bold text-slate-900">Personal Information</h3>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      {/* Full Name */}
-                      <div className="space-y-1.5">
-                        <label htmlFor="fullName" className="text-sm font-semibold text-slate-700 flex items-center justify-between">
-                          <span className="flex items-center gap-2">
-                            Full Name
-                          </span>
-                          {getFieldStatus('fullName') === 'valid' && <CheckCircle size={14} className="text-emerald-500" />}
-                        </label>
-                        <div className="relative group">
-                          <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
-                            <User size={18} />
-                          </div>
-                          <input
-                            type="text"
-                            id="fullName"
-                            value={formData.fullName}
-                            onChange={handleInputChange}
-                            placeholder="John Doe"
-                            className={`w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 placeholder:text-slate-400 input-focus ${getBorderClass(getFieldStatus('fullName'))}`}
-                          />
-                        </div>
-                        <div className="h-4 text-[11px] text-red-500 px-1 font-medium">{errors.fullName}</div>
-                      </div>
-
-                    {/* Email */}
-                    <div className="space-y-1.5">
-                      <label htmlFor="email" className="text-sm font-semibold text-slate-700 flex items-center justify-between">
-                        <span className="flex items-center gap-2">
-                          Email Address
-                        </span>
-                        {getFieldStatus('email') === 'valid' && <CheckCircle size={14} className="text-emerald-500" />}
-                      </label>
-                      <div className="relative group">
-                        <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
-                          <Mail size={18} />
-                        </div>
-                        <input
-                          type="email"
-                          id="email"
-                          value={formData.email}
-                          onChange={handleInputChange}
-                          placeholder="john@example.com"
-                          className={`w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 placeholder:text-slate-400 input-focus ${getBorderClass(getFieldStatus('email'))}`}
-                        />
-                      </div>
-                      <div className="h-4 text-[11px] text-red-500 px-1 font-medium">{errors.email}</div>
-                    </div>
-
-                    {/* Phone */}
-                    <div className="space-y-1.5">
-                      <label htmlFor="phone" className="text-sm font-semibold text-slate-700 flex items-center justify-between">
-                        <span className="flex items-center gap-2">
-                          Phone Number
-                        </span>
-                        {getFieldStatus('phone') === 'valid' && <CheckCircle size={14} className="text-emerald-500" />}
-                      </label>
-                      <div className="relative group">
-                        <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
-                          <Phone size={18} />
-                        </div>
-                        <input
-                          type="text"
-                          id="phone"
-                          value={formData.phone}
-                          onChange={handleInputChange}
-                          placeholder="10-digit number"
-                          maxLength={10}
-                          className={`w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 placeholder:text-slate-400 input-focus ${getBorderClass(getFieldStatus('phone'))}`}
-                        />
-                      </div>
-                      <div className="h-4 text-[11px] text-red-500 px-1 font-medium">{errors.phone}</div>
-                    </div>
-
-                    {/* Date of Birth */}
-                    <div className="space-y-1.5">
-                      <label htmlFor="dob" className="text-sm font-semibold text-slate-700 flex items-center justify-between">
-                        <span className="flex items-center gap-2">
-                          Date of Birth
-                        </span>
-                        {getFieldStatus('dob') === 'valid' && <CheckCircle size={14} className="text-emerald-500" />}
-                      </label>
-                      <div className="relative group">
-                        <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
-                          <Calendar size={18} />
-                        </div>
-                        <input
-                          type="date"
-                          id="dob"
-                          value={formData.dob}
-                          onChange={handleInputChange}
-                          className={`w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 input-focus ${getBorderClass(getFieldStatus('dob'))}`}
-                        />
-                      </div>
-                      <div className="min-h-[1rem]">
-                        {warnings.dob && <p className="text-[11px] text-amber-600 font-medium flex items-center gap-1 px-1"><AlertTriangle size={12} /> {warnings.dob}</p>}
-                      </div>
-                      {renderExceptionUI('dob')}
-                    </div>
+                  <div className={`p-5 rounded-2xl border ${programClosed ? 'bg-amber-50/50 border-amber-200' : 'bg-slate-50 border-slate-200'}`}>
+                    <label htmlFor="program" className="text-xs font-bold text-slate-500 uppercase tracking-wider">Program</label>
+                    <select
+                      id="program"
+                      value={programId ?? ''}
+                      onChange={(e) => selectProgram(e.target.value ? Number(e.target.value) : null)}
+                      className="mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm font-semibold focus:outline-none focus:ring-4 focus:ring-brand-500/10"
+                    >
+                      <option value="">Choose a program…</option>
+                      {programs.map(p => {
+                        const closed = programClosedReason(p, today());
+                        return (
+                          <option key={p.id} value={p.id} disabled={!!closed && p.id !== programId}>
+                            {p.name}{closed ? ' (closed)' : ''}
+                          </option>
+                        );
+                      })}
+                    </select>
+                    {program && (
+                      <p className="mt-2 text-[11px] text-slate-500 font-medium">
+                        Open {program.opensOn} to {program.closesOn} · ages as of {program.referenceDate} · {program.seatsTaken} of {program.seats} seats offered
+                      </p>
+                    )}
+                    {programClosed && (
+                      <p className="mt-2 text-[11px] text-amber-700 font-bold">
+                        {programs.length === 0 ? 'No programs have been set up yet; an admin can add them under Rules Config.' : programClosed}
+                      </p>
+                    )}
                   </div>
-                </div>
-
-                {/* Academic Information Section */}
-                  <div className="space-y-6 pt-4 border-t border-slate-100">
-                    <div className="flex items-center gap-3 pb-2 border-b border-slate-100">
-                      <div className="w-8 h-8 rounded-lg bg-brand-50 flex items-center justify-center text-brand-600">
-                        <GraduationCap size={18} />
-                      </div>
-                      <h3 className="text-lg font-bold text-slate-900">Academic Details</h3>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      {/* Highest Qualification */}
-                      <div className="space-y-1.5">
-                        <label htmlFor="qualification" className="text-sm font-semibold text-slate-700 flex items-center justify-between">
-                          <span className="flex items-center gap-2">
-                            Highest Qualification
-                          </span>
-                          {getFieldStatus('qualification') === 'valid' && <CheckCircle size={14} className="text-emerald-500" />}
-                        </label>
-                        <div className="relative group">
-                          <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
-                            <GraduationCap size={18} />
-                          </div>
-                          <select
-                            id="qualification"
-                            value={formData.qualification}
-                            onChange={handleInputChange}
-                            className={`w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 appearance-none input-focus ${getBorderClass(getFieldStatus('qualification'))}`}
-                          >
-                            <option value="">Select Qualification</option>
-                            <option value="B.Tech">B.Tech</option>
-                            <option value="B.E.">B.E.</option>
-                            <option value="B.Sc">B.Sc</option>
-                            <option value="BCA">BCA</option>
-                            <option value="M.Tech">M.Tech</option>
-                            <option value="M.Sc">M.Sc</option>
-                            <option value="MCA">MCA</option>
-                            <option value="MBA">MBA</option>
-                          </select>
-                          <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
-                          </div>
-                        </div>
-                        <div className="h-4 text-[11px] text-red-500 px-1 font-medium">{errors.qualification}</div>
-                      </div>
 
-                      {/* Graduation Year */}
-                      <div className="space-y-1.5">
-                        <label htmlFor="gradYear" className="text-sm font-semibold text-slate-700 flex items-center justify-between">
-                          <span className="flex items-center gap-2">
-                            Graduation Year
-                          </span>
-                          {getFieldStatus('gradYear') === 'valid' && <CheckCircle size={14} className="text-emerald-500" />}
-                        </label>
-                        <div className="relative group">
-                          <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
-                            <CalendarDays size={18} />
+                  {FORM_SECTIONS.map((section, index) => {
+                    const SectionIcon = fieldIcon(section.icon);
+                    return (
+                      <div key={section.id} className={`space-y-6 ${index > 0 ? 'pt-4 border-t border-slate-100' : ''}`}>
+                        <div className="flex items-center gap-3 pb-2 border-b border-slate-100">
+                          <div className="w-8 h-8 rounded-lg bg-brand-50 flex items-center justify-center text-brand-600">
+                            <SectionIcon size={18} />
                           </div>
-                          <input
-                            type="number"
-                            id="gradYear"
-                            value={formData.gradYear}
-                            onChange={handleInputChange}
-                            placeholder="2015-2025"
-                            className={`w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 placeholder:text-slate-400 input-focus ${getBorderClass(getFieldStatus('gradYear'))}`}
-                          />
+                          <h3 className="text-lg font-bold text-slate-900">{section.title}</h3>
                         </div>
-                        <div className="min-h-[1rem]">
-                          {warnings.gradYear && <p className="text-[11px] text-amber-600 font-medium flex items-center gap-1 px-1"><AlertTriangle size={12} /> {warnings.gradYear}</p>}
-                        </div>
-                        {renderExceptionUI('gradYear')}
-                      </div>
 
-                      {/* Percentage / CGPA Toggle */}
-                      <div className="space-y-1.5">
-                        <div className="flex justify-between items-center">
-                          <label htmlFor="score" className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                            {isCgpa ? 'CGPA' : 'Percentage'}
-                          </label>
-                          <button
-                            type="button"
-                            onClick={() => setIsCgpa(!isCgpa)}
-                            className="text-[10px] uppercase tracking-wider font-bold text-brand-600 hover:text-brand-700 transition-colors"
-                          >
-                            Switch to {isCgpa ? 'Percentage' : 'CGPA'}
-                          </button>
-                        </div>
-                        <div className="relative group">
-                          <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
-                            <Percent size={18} />
-                          </div>
-                          <input
-                            type="number"
-                            id="score"
-                            value={formData.score}
-                            onChange={handleInputChange}
-                            step="0.01"
-                            placeholder={isCgpa ? "e.g. 9.5" : "e.g. 85"}
-                            className={`w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 placeholder:text-slate-400 input-focus ${getBorderClass(getFieldStatus('score'))}`}
-                          />
-                        </div>
-                        <div className="min-h-[1rem]">
-                          {warnings.score && <p className="text-[11px] text-amber-600 font-medium flex items-center gap-1 px-1"><AlertTriangle size={12} /> {warnings.score}</p>}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          {rules.form.filter(definition => definition.section === section.id).map(renderFormField)}
                         </div>
-                        {renderExceptionUI('score')}
-                      </div>
 
-                      {/* Screening Test Score */}
-                      <div className="space-y-1.5">
-                        <label htmlFor="screeningScore" className="text-sm font-semibold text-slate-700 flex items-center justify-between">
-                          <span className="flex items-center gap-2">
-                            Screening Test Score (0-100)
-                          </span>
-                          {getFieldStatus('screeningScore') === 'valid' && <CheckCircle size={14} className="text-emerald-500" />}
-                        </label>
-                        <div className="relative group">
-                          <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
-                            <ClipboardCheck size={18} />
+                        {section.id === 'identity' && (
+                          /* Offer Letter Sent Toggle */
+                          <div className={`mt-6 flex flex-col gap-2 p-5 bg-slate-50 rounded-2xl border transition-all duration-300 ${errors.offerSent ? 'border-red-300 bg-red-50/30 shadow-inner' : 'border-slate-200 hover:border-slate-300'}`}>
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-4">
+                                <div className={`w-12 h-12 rounded-xl flex items-center justify-center transition-all duration-300 ${offerSent ? 'bg-emerald-100 text-emerald-600 shadow-sm' : 'bg-slate-200 text-slate-500'}`}>
+                                  {offerSent ? <CheckCircle2 size={24} /> : <XCircle size={24} />}
+                                </div>
+                                <div>
+                                  <p className="text-sm font-bold text-slate-900">Offer Letter Sent</p>
+                                  <p className="text-xs text-slate-500 font-medium">Has the official offer letter been dispatched?</p>
+                                </div>
+                              </div>
+                              <button
+                                type="button"
+                                onClick={() => setOfferSent(!offerSent)}
+                                className={`relative inline-flex h-7 w-12 items-center rounded-full transition-all focus:outline-none focus:ring-4 focus:ring-brand-500/10 ${offerSent ? 'bg-emerald-500 shadow-lg shadow-emerald-200' : 'bg-slate-300'}`}
+                              >
+                                <span
+                                  className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-sm transition-transform duration-300 ${offerSent ? 'translate-x-6' : 'translate-x-1'}`}
+                                />
+                              </button>
+                            </div>
+                            {errors.offerSent && (
+                              <div className="text-[11px] text-red-500 font-bold flex items-center gap-1.5 mt-2 px-1">
+                                <AlertCircle size={14} />
+                                {errors.offerSent}
+                              </div>
+                            )}
                           </div>
-                          <input
-                            type="number"
-                            id="screeningScore"
-                            value={formData.screeningScore}
-                            onChange={handleInputChange}
-                            min="0"
-                            max="100"
-                            placeholder="Score"
-                            className={`w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 placeholder:text-slate-400 input-focus ${getBorderClass(getFieldStatus('screeningScore'))}`}
-                          />
-                        </div>
-                        <div className="min-h-[1rem]">
-                          {warnings.screeningScore && <p className="text-[11px] text-amber-600 font-medium flex items-center gap-1 px-1"><AlertTriangle size={12} /> {warnings.screeningScore}</p>}
-                        </div>
-                        {renderExceptionUI('screeningScore')}
+                        )}
                       </div>
-                    </div>
-                  </div>
+                    );
+                  })}
 
-                  {/* Status & Identity Section */}
-                  <div className="space-y-6 pt-4 border-t border-slate-100">
+                  {/* Supporting Documents */}
+                  <div className="space-y-4 pt-4 border-t border-slate-100">
                     <div className="flex items-center gap-3 pb-2 border-b border-slate-100">
                       <div className="w-8 h-8 rounded-lg bg-brand-50 flex items-center justify-center text-brand-600">
-                        <ShieldCheck size={18} />
-                      </div>
-                      <h3 className="text-lg font-bold text-slate-900">Identity & Status</h3>
-                    </div>
-
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      {/* Interview Status */}
-                      <div className="space-y-1.5">
-                        <label htmlFor="status" className="text-sm font-semibold text-slate-700 flex items-center justify-between">
-                          <span className="flex items-center gap-2">
-                            Interview Status
-                          </span>
-                          {getFieldStatus('status') === 'valid' && <CheckCircle size={14} className="text-emerald-500" />}
-                        </label>
-                        <div className="relative group">
-                          <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
-                            <Clock size={18} />
-                          </div>
-                          <select
-                            id="status"
-                            value={formData.status}
-                            onChange={handleInputChange}
-                            className={`w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 appearance-none input-focus ${getBorderClass(getFieldStatus('status'))}`}
-                          >
-                            <option value="">Select Status</option>
-                            <option value="Cleared">Cleared</option>
-                            <option value="Waitlisted">Waitlisted</option>
-                            <option value="Rejected">Rejected</option>
-                          </select>
-                          <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
-                          </div>
-                        </div>
-                        <div className="h-4 text-[11px] text-red-500 px-1 font-medium">{errors.status}</div>
-                      </div>
-
-                      {/* Aadhaar Number */}
-                      <div className="space-y-1.5">
-                        <label htmlFor="aadhaar" className="text-sm font-semibold text-slate-700 flex items-center justify-between">
-                          <span className="flex items-center gap-2">
-                            Aadhaar Number
-                          </span>
-                          {getFieldStatus('aadhaar') === 'valid' && <CheckCircle size={14} className="text-emerald-500" />}
-                        </label>
-                        <div className="relative group">
-                          <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
-                            <ShieldCheck size={18} />
-                          </div>
-                          <input
-                            type="text"
-                            id="aadhaar"
-                            value={formData.aadhaar}
-                            onChange={handleInputChange}
-                            placeholder="12-digit number"
-                            maxLength={12}
-                            className={`w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 placeholder:text-slate-400 input-focus ${getBorderClass(getFieldStatus('aadhaar'))}`}
-                          />
-                        </div>
-                        <div className="h-4 text-[11px] text-red-500 px-1 font-medium">{errors.aadhaar}</div>
+                        <Paperclip size={18} />
                       </div>
+                      <h3 className="text-lg font-bold text-slate-900">Supporting Documents</h3>
                     </div>
+                    <AttachmentList
+                      attachments={attachments.filter(attachment => attachment.field === null)}
+                      onAttach={(file) => attachToForm(file, null)}
+                      onRemove={(removed) => setAttachments(prev => prev.filter(attachment => attachment.id !== removed.id))}
+                      onError={(message) => addToast(message, 'error')}
+                      emptyText="Certificates, ID proofs or mark sheets; documents for a waiver are attached with its rationale."
+                    />
+                  </div>
 
-                    {/* Offer Letter Sent Toggle */}
-                    <div className={`mt-6 flex flex-col gap-2 p-5 bg-slate-50 rounded-2xl border transition-all duration-300 ${errors.offerSent ? 'border-red-300 bg-red-50/30 shadow-inner' : 'border-slate-200 hover:border-slate-300'}`}>
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-4">
-                          <div className={`w-12 h-12 rounded-xl flex items-center justify-center transition-all duration-300 ${offerSent ? 'bg-emerald-100 text-emerald-600 shadow-sm' : 'bg-slate-200 text-slate-500'}`}>
-                            {offerSent ? <CheckCircle2 size={24} /> : <XCircle size={24} />}
-                          </div>
-                          <div>
-                            <p className="text-sm font-bold text-slate-900">Offer Letter Sent</p>
-                            <p className="text-xs text-slate-500 font-medium">Has the official offer letter been dispatched?</p>
-                          </div>
+                  {/* Cross-Field Checks */}
+                  {rules.crossFieldRules.some(rule => errors[rule.id] || warnings[rule.id]) && (
+                    <div className="space-y-4 pt-4 border-t border-slate-100">
+                      <div className="flex items-center gap-3 pb-2 border-b border-slate-100">
+                        <div className="w-8 h-8 rounded-lg bg-brand-50 flex items-center justify-center text-brand-600">
+                          <ClipboardCheck size={18} />
                         </div>
-                        <button
-                          type="button"
-                          onClick={() => setOfferSent(!offerSent)}
-                          className={`relative inline-flex h-7 w-12 items-center rounded-full transition-all focus:outline-none focus:ring-4 focus:ring-brand-500/10 ${offerSent ? 'bg-emerald-500 shadow-lg shadow-emerald-200' : 'bg-slate-300'}`}
-                        >
-                          <span
-                            className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-sm transition-transform duration-300 ${offerSent ? 'translate-x-6' : 'translate-x-1'}`}
-                          />
-                        </button>
+                        <h3 className="text-lg font-bold text-slate-900">Cross-Field Checks</h3>
                       </div>
-                      {errors.offerSent && (
-                        <div className="text-[11px] text-red-500 font-bold flex items-center gap-1.5 mt-2 px-1">
-                          <AlertCircle size={14} />
-                          {errors.offerSent}
+                      {rules.crossFieldRules.filter(rule => errors[rule.id] || warnings[rule.id]).map(rule => (
+                        <div key={rule.id}>
+                          {errors[rule.id] ? (
+                            <p className="text-xs text-red-600 font-bold flex items-center gap-1.5 px-1"><AlertCircle size={14} /> {errors[rule.id]}</p>
+                          ) : (
+                            <p className="text-xs text-amber-700 font-bold flex items-center gap-1.5 px-1"><AlertTriangle size={14} /> {warnings[rule.id]}</p>
+                          )}
+                          {renderExceptionUI(rule.id)}
                         </div>
-                      )}
+                      ))}
                     </div>
-                  </div>
+                  )}
 
                   {/* Submit Button Section */}
                   <div className="pt-8 space-y-5">
@@ -1458,7 +2395,7 @@ export default function App() {
                         <div className="w-10 h-10 rounded-xl bg-amber-100 flex items-center justify-center text-amber-600 shrink-0">
                           <AlertTriangle size={20} />
                         </div>
-                        <p className="text-xs font-bold leading-relaxed">Manager Review Required: This candidate has more than 2 exceptions. Entry will be flagged for secondary audit.</p>
+                        <p className="text-xs font-bold leading-relaxed">Manager Review Required: This candidate has {activeExceptionCount} exceptions (review starts at {rules.exceptionPolicy.reviewThreshold}). Entry will be flagged for secondary audit.</p>
                       </div>
                     )}
 
@@ -1471,10 +2408,10 @@ export default function App() {
                     </div>
 
                     <button
-                      disabled={!isValid || isSubmitting}
+                      disabled={!isValid || isSubmitting || !!programClosed}
                       type="submit"
                       className={`w-full flex items-center justify-center gap-3 px-6 py-4 font-bold rounded-2xl transition-all shadow-xl ${
-                        isValid && !isSubmitting
+                        isValid && !isSubmitting && !programClosed
                           ? 'bg-brand-600 text-white shadow-brand-200 hover:bg-brand-700 hover:-translate-y-0.5 active:translate-y-0 active:scale-[0.98]' 
                           : 'bg-slate-200 text-slate-400 cursor-not-allowed shadow-none'
                       }`}
@@ -1507,6 +2444,18 @@ export default function App() {
       {/* Validation Insights Panel */}
       {activeTab === 'form' && (
         <div className="lg:col-span-4 space-y-6">
+              <DraftsPanel
+                drafts={drafts}
+                activeDraftId={draftId}
+                saveState={draftSaveState}
+                rules={rules}
+                programId={programId}
+                programs={programs}
+                onNew={() => switchDraft(emptyDraft(rules.form), null)}
+                onResume={(draft) => switchDraft(resumedDraft(draft.form, rules.form), draft.id)}
+                onDiscard={discardDraft}
+                onSubmit={submitDraft}
+              />
               <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-xl shadow-slate-200/60 sticky top-8">
                 <h3 className="text-lg font-bold text-slate-900 mb-6 flex items-center gap-2">
                   <LayoutDashboard size={20} className="text-brand-600" />
@@ -1569,22 +2518,19 @@ export default function App() {
                   </div>
                 </div>
 
-                <div className="mt-8 p-4 bg-brand-50 rounded-2xl border border-brand-100">
-                  <h4 className="text-[10px] font-bold text-brand-600 uppercase tracking-widest mb-2">Decision Support</h4>
-                  <div className="flex items-start gap-3">
-                    <div className="w-8 h-8 rounded-lg bg-white flex items-center justify-center text-brand-600 shadow-sm shrink-0">
-                      <Info size={16} />
-                    </div>
-                    <div>
-                      <p className="text-xs font-bold text-slate-900 mb-1">Recommendation</p>
-                      <p className="text-[11px] text-slate-600 leading-relaxed">
-                        {Object.keys(errors).length > 0 ? 'Reject application due to critical validation failures.' :
-                         isFlagged ? 'Review required: Candidate flagged for secondary audit due to multiple exceptions.' :
-                         activeExceptionCount > 0 ? 'Waitlist/Review: Candidate meets core criteria but has active waivers.' :
-                         'Fast-track: Candidate meets all standard admission criteria.'}
-                      </p>
-                    </div>
-                  </div>
+                <div className="mt-8 p-4 bg-white rounded-2xl border border-brand-100">
+                  <h4 className="text-[10px] font-bold text-brand-600 uppercase tracking-widest mb-3">Recommendation</h4>
+                  <RecommendationCard
+                    tier={recommend({
+                      candidate: formData,
+                      isCgpa,
+                      offerSent,
+                      exceptionCount: activeExceptionCount,
+                      flagged: isFlagged,
+                      errorCount: Object.keys(errors).length,
+                      referenceDate
+                    }, rules)}
+                  />
                 </div>
               </div>
             </div>
@@ -1620,6 +2566,15 @@ export default function App() {
       </AnimatePresence>
     </div>
 
+    {showExport && (
+      <ExportDialog
+        entries={getFilteredLogs()}
+        form={rules.form}
+        onClose={() => setShowExport(false)}
+        onError={(message) => addToast(message, 'error')}
+      />
+    )}
+
     {/* Detail Modal */}
       {viewingLog && (
         <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-md z-50 flex items-center justify-center p-4 animate-in fade-in duration-300">
@@ -1631,7 +2586,7 @@ export default function App() {
                 </div>
                 <div>
                   <h3 className="text-xl font-bold text-slate-900">Submission Details</h3>
-                  <p className="text-xs text-slate-500 font-medium">Audit ID: {viewingLog.id.slice(0, 8)}</p>
+                  <p className="text-xs text-slate-500 font-medium">Audit ID: {viewingLog.id}</p>
                 </div>
               </div>
               <button 
@@ -1643,117 +2598,236 @@ export default function App() {
             </div>
             
             <div className="p-8 overflow-y-auto space-y-8 custom-scrollbar">
-              {/* Basic Info */}
-              <div className="grid grid-cols-2 gap-x-8 gap-y-6">
-                <div>
-                  <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">Full Name</label>
-                  <p className="text-slate-900 font-bold text-lg">{viewingLog.fullName}</p>
-                </div>
-                <div>
-                  <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">Email Address</label>
-                  <p className="text-slate-900 font-bold">{viewingLog.email}</p>
-                </div>
-                <div>
-                  <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">Phone Number</label>
-                  <p className="text-slate-900 font-bold">{viewingLog.phone}</p>
+              {editingLog ? (
+                <EntryEditor
+                  entry={viewingLog}
+                  rules={viewingRules}
+                  referenceDate={viewingReferenceDate}
+                  onSaved={savedEdit}
+                  onCancel={() => setEditingLog(false)}
+                  onError={(message) => addToast(message, 'error')}
+                />
+              ) : (
+                <>
+                {/* Basic Info */}
+                <div className="grid grid-cols-2 gap-x-8 gap-y-6">
+                  {viewingRules.form.filter(definition => definition.section !== 'academic' && definition.name !== 'status').map(definition => (
+                    <div key={definition.name}>
+                      <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">{definition.label}</label>
+                      {definition.name === 'aadhaar' ? (
+                        <p className="text-slate-900 font-bold font-mono flex items-center gap-2">
+                          {showFullAadhaar ? viewingLog.aadhaar : maskAadhaar(viewingLog.aadhaar)}
+                          {can(currentUser.role, 'viewFullAadhaar') && (
+                            <button
+                              type="button"
+                              onClick={() => setShowFullAadhaar(!showFullAadhaar)}
+                              className="text-[10px] font-sans font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider"
+                            >
+                              {showFullAadhaar ? 'Hide' : 'Show'}
+                            </button>
+                          )}
+                        </p>
+                      ) : (
+                        <p className={`text-slate-900 font-bold ${definition.name === 'fullName' ? 'text-lg' : ''}`}>{fieldValue(viewingLog, definition.name) || '—'}</p>
+                      )}
+                    </div>
+                  ))}
+                  {/* Values of fields the form no longer has */}
+                  {Object.entries(viewingLog.extraFields || {}).filter(([name]) => !viewingRules.form.some(definition => definition.name === name)).map(([name, value]) => (
+                    <div key={name}>
+                      <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">{name.replace(/([A-Z])/g, ' $1')}</label>
+                      <p className="text-slate-900 font-bold">{String(value) || '—'}</p>
+                    </div>
+                  ))}
                 </div>
-                <div>
-                  <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">Date of Birth</label>
-                  <p className="text-slate-900 font-bold">{viewingLog.dob}</p>
+
+                {/* Academic Info */}
+                <div className="p-6 bg-slate-50 rounded-[1.5rem] border border-slate-100 space-y-5">
+                  <h4 className="text-xs font-bold text-slate-500 uppercase tracking-[0.1em] flex items-center gap-2">
+                    <GraduationCap size={16} className="text-brand-500" />
+                    Academic Profile
+                  </h4>
+                  <div className="grid grid-cols-2 gap-6">
+                    {viewingRules.form.filter(definition => definition.section === 'academic').map(definition => (
+                      <div key={definition.name}>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                          {definition.name === 'score' && viewingLog.isCgpa ? 'CGPA Score' : definition.label}
+                        </label>
+                        <p className="text-sm font-bold text-slate-700">{fieldValue(viewingLog, definition.name) || '—'}</p>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-              </div>
 
-              {/* Academic Info */}
-              <div className="p-6 bg-slate-50 rounded-[1.5rem] border border-slate-100 space-y-5">
-                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-[0.1em] flex items-center gap-2">
-                  <GraduationCap size={16} className="text-brand-500" />
-                  Academic Profile
-                </h4>
-                <div className="grid grid-cols-2 gap-6">
+                {/* Status Info */}
+                <div className="grid grid-cols-2 gap-8">
                   <div>
-                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Qualification</label>
-                    <p className="text-sm font-bold text-slate-700">{viewingLog.qualification}</p>
+                    <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">{viewingRules.form.find(definition => definition.name === 'status')?.label}</label>
+                    <div className={`inline-flex items-center gap-2 px-3 py-1 rounded-lg text-sm font-bold ${
+                      viewingLog.status === 'Cleared' ? 'bg-emerald-50 text-emerald-600' : 
+                      viewingLog.status === 'Waitlisted' ? 'bg-amber-50 text-amber-600' : 
+                      'bg-red-50 text-red-600'
+                    }`}>
+                      <div className={`w-1.5 h-1.5 rounded-full ${
+                        viewingLog.status === 'Cleared' ? 'bg-emerald-500' : 
+                        viewingLog.status === 'Waitlisted' ? 'bg-amber-500' : 
+                        'bg-red-500'
+                      }`} />
+                      {viewingLog.status}
+                    </div>
                   </div>
                   <div>
-                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Graduation Year</label>
-                    <p className="text-sm font-bold text-slate-700">{viewingLog.gradYear}</p>
+                    <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">Offer Letter</label>
+                    <p className={`text-sm font-bold ${viewingLog.offerSent ? 'text-emerald-600' : 'text-slate-500'}`}>
+                      {viewingLog.offerSent ? 'Dispatched' : 'Not Sent'}
+                    </p>
                   </div>
                   <div>
-                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{viewingLog.isCgpa ? 'CGPA Score' : 'Percentage'}</label>
-                    <p className="text-sm font-bold text-slate-700">{viewingLog.score}</p>
+                    <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">Program</label>
+                    <p className="text-sm font-bold text-slate-700">{viewingLog.program ?? 'None (before programs)'}</p>
                   </div>
                   <div>
-                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Screening Score</label>
-                    <p className="text-sm font-bold text-slate-700">{viewingLog.screeningScore}/100</p>
+                    <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">Submitted By</label>
+                    <p className="text-sm font-bold text-slate-700">{viewingLog.submittedBy || 'Imported'}</p>
                   </div>
-                </div>
-              </div>
-
-              {/* Status Info */}
-              <div className="grid grid-cols-2 gap-8">
-                <div>
-                  <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">Interview Status</label>
-                  <div className={`inline-flex items-center gap-2 px-3 py-1 rounded-lg text-sm font-bold ${
-                    viewingLog.status === 'Cleared' ? 'bg-emerald-50 text-emerald-600' : 
-                    viewingLog.status === 'Waitlisted' ? 'bg-amber-50 text-amber-600' : 
-                    'bg-red-50 text-red-600'
-                  }`}>
-                    <div className={`w-1.5 h-1.5 rounded-full ${
-                      viewingLog.status === 'Cleared' ? 'bg-emerald-500' : 
-                      viewingLog.status === 'Waitlisted' ? 'bg-amber-500' : 
-                      'bg-red-500'
-                    }`} />
-                    {viewingLog.status}
+                  <div>
+                    <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">Validated Against</label>
+                    <p className="text-sm font-bold text-slate-700">
+                      {viewingLog.rulesVersion ? `Rules v${viewingLog.rulesVersion}` : 'Unversioned (imported)'}
+                    </p>
                   </div>
                 </div>
-                <div>
-                  <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-1">Offer Letter</label>
-                  <p className={`text-sm font-bold ${viewingLog.offerSent ? 'text-emerald-600' : 'text-slate-500'}`}>
-                    {viewingLog.offerSent ? 'Dispatched' : 'Not Sent'}
-                  </p>
+
+                {/* Recommendation */}
+                <div className="space-y-3 pt-4 border-t border-slate-100">
+                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-[0.1em]">Recommendation</h4>
+                  <RecommendationCard
+                    tier={recommend({
+                      candidate: candidateRecord(viewingLog),
+                      isCgpa: viewingLog.isCgpa,
+                      offerSent: viewingLog.offerSent,
+                      exceptionCount: viewingLog.exceptionCount,
+                      flagged: viewingLog.flagged,
+                      errorCount: 0,
+                      referenceDate: viewingReferenceDate
+                    }, viewingRules)}
+                  />
                 </div>
-              </div>
 
-              {/* Exceptions Section */}
-              {viewingLog.exceptionCount > 0 && (
-                <div className="space-y-4 pt-4 border-t border-slate-100">
-                  <h4 className="text-xs font-bold text-amber-600 uppercase tracking-[0.1em] flex items-center gap-2">
-                    <AlertTriangle size={16} />
-                    Active Exceptions ({viewingLog.exceptionCount})
-                  </h4>
-                  <div className="space-y-3">
-                    {Object.entries(viewingLog.exceptions).map(([field, rationale]) => (
-                      <div key={field} className="p-5 bg-amber-50/50 rounded-2xl border border-amber-100 space-y-3">
-                        <div className="flex items-center justify-between">
-                          <span className="text-xs font-bold text-amber-800 capitalize flex items-center gap-2">
-                            <div className="w-1.5 h-1.5 rounded-full bg-amber-500" />
-                            {field.replace(/([A-Z])/g, ' $1')}
-                          </span>
-                          <span className="text-[10px] font-bold text-amber-600 bg-white px-3 py-1 rounded-full border border-amber-200 uppercase tracking-wider">Waiver Granted</span>
-                        </div>
-                        <div className="relative">
-                          <div className="absolute -left-1 top-0 bottom-0 w-0.5 bg-amber-200 rounded-full" />
-                          <p className="text-xs text-amber-900 leading-relaxed italic pl-4">"{rationale as string}"</p>
+                {/* Exceptions Section */}
+                {viewingLog.exceptionCount > 0 && (
+                  <div className="space-y-4 pt-4 border-t border-slate-100">
+                    <h4 className="text-xs font-bold text-amber-600 uppercase tracking-[0.1em] flex items-center gap-2">
+                      <AlertTriangle size={16} />
+                      Active Exceptions ({viewingLog.exceptionCount})
+                    </h4>
+                    <div className="space-y-3">
+                      {Object.entries(viewingLog.exceptions).map(([field, rationale]) => (
+                        <div key={field} className="p-5 bg-amber-50/50 rounded-2xl border border-amber-100 space-y-3">
+                          <div className="flex items-center justify-between">
+                            <span className="text-xs font-bold text-amber-800 capitalize flex items-center gap-2">
+                              <div className="w-1.5 h-1.5 rounded-full bg-amber-500" />
+                              {field.replace(/([A-Z])/g, ' $1')}
+                            </span>
+                            <span className="text-[10px] font-bold text-amber-600 bg-white px-3 py-1 rounded-full border border-amber-200 uppercase tracking-wider">
+                              {viewingLog.exceptionReviews[field]?.decision || 'Waiver Granted'}
+                            </span>
+                          </div>
+                          <div className="relative">
+                            <div className="absolute -left-1 top-0 bottom-0 w-0.5 bg-amber-200 rounded-full" />
+                            <p className="text-xs text-amber-900 leading-relaxed italic pl-4">"{rationale as string}"</p>
+                          </div>
+                          {viewingLog.rationaleChecks[field] && <RationaleScore check={viewingLog.rationaleChecks[field]} />}
+                          {viewingLog.exceptionReviews[field] && (
+                            <p className="text-[10px] text-slate-500 font-medium">
+                              {viewingLog.exceptionReviews[field].reviewer}, {new Date(viewingLog.exceptionReviews[field].decidedAt).toLocaleString()}
+                              {viewingLog.exceptionReviews[field].comment && <span className="italic"> — "{viewingLog.exceptionReviews[field].comment}"</span>}
+                            </p>
+                          )}
+                          <AttachmentList
+                            attachments={(viewingLog.attachments as Attachment[]).filter(attachment => attachment.field === field)}
+                            onAttach={can(currentUser.role, 'editEntries') ? (file) => attachToEntry(viewingLog.id, file, field) : undefined}
+                            onError={(message) => addToast(message, 'error')}
+                          />
                         </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
+                )}
+
+                {/* Supporting Documents: the candidate's own, and any left from waivers since withdrawn */}
+                <div className="space-y-3 pt-4 border-t border-slate-100">
+                  <h4 className="text-xs font-bold text-slate-500 uppercase tracking-[0.1em] flex items-center gap-2">
+                    <Paperclip size={16} />
+                    Supporting Documents
+                  </h4>
+                  <AttachmentList
+                    attachments={(viewingLog.attachments as Attachment[]).filter(attachment => attachment.field === null || !(attachment.field in viewingLog.exceptions))}
+                    onAttach={can(currentUser.role, 'editEntries') ? (file) => attachToEntry(viewingLog.id, file, null) : undefined}
+                    onError={(message) => addToast(message, 'error')}
+                    emptyText="No documents attached."
+                  />
                 </div>
-              )}
 
-              {/* Flagging Status */}
-              {viewingLog.flagged && (
-                <div className="p-4 bg-red-50 rounded-xl border border-red-100 flex items-start gap-3">
-                  <Info size={18} className="text-red-500 shrink-0 mt-0.5" />
-                  <div>
-                    <p className="text-sm font-bold text-red-800">Flagged for Manager Review</p>
-                    <p className="text-xs text-red-600">This candidate exceeded the maximum exception threshold (2+) and requires manual verification.</p>
+                <React.Fragment key={viewingLog.id}>
+                  <OfferLetterPanel
+                    entry={viewingLog}
+                    rules={viewingRules}
+                    canIssue={can(currentUser.role, 'issueOfferLetters')}
+                    onIssued={issuedOffer}
+                    onError={(message) => addToast(message, 'error')}
+                  />
+                </React.Fragment>
+
+                {/* Review History */}
+                {viewingLog.reviewHistory.length > 0 && (
+                  <div className="space-y-3 pt-4 border-t border-slate-100">
+                    <h4 className="text-xs font-bold text-slate-500 uppercase tracking-[0.1em] flex items-center gap-2">
+                      <UserCheck size={16} />
+                      Review History
+                    </h4>
+                    <ul className="space-y-2">
+                      {viewingLog.reviewHistory.map((event: ReviewEvent, i: number) => (
+                        <li key={i} className="text-xs text-slate-600">
+                          <span className="font-bold">{event.reviewer}</span> moved {event.fromStatus || 'Not Reviewed'} → <span className="font-bold">{event.toStatus}</span>
+                          <span className="text-slate-400"> · {new Date(event.createdAt).toLocaleString()}</span>
+                          {event.comment && <p className="italic text-slate-500">"{event.comment}"</p>}
+                        </li>
+                      ))}
+                    </ul>
                   </div>
-                </div>
+                )}
+
+                <ChangeHistory changes={viewingLog.changeHistory} form={viewingRules.form} />
+
+                {/* Flagging Status */}
+                {viewingLog.flagged && viewingLog.reviewStatus && viewingLog.reviewStatus !== 'Pending Review' ? (
+                  <div className={`p-4 rounded-xl border border-slate-100 flex items-center gap-3 ${reviewStatusClass(viewingLog.reviewStatus)}`}>
+                    <Info size={18} className="shrink-0" />
+                    <p className="text-sm font-bold">Manager review: {viewingLog.reviewStatus}</p>
+                  </div>
+                ) : viewingLog.flagged && (
+                  <div className="p-4 bg-red-50 rounded-xl border border-red-100 flex items-start gap-3">
+                    <Info size={18} className="text-red-500 shrink-0 mt-0.5" />
+                    <div>
+                      <p className="text-sm font-bold text-red-800">Flagged for Manager Review</p>
+                      <p className="text-xs text-red-600">This candidate reached the exception threshold for manager review and requires manual verification.</p>
+                    </div>
+                  </div>
+                )}
+                </>
               )}
             </div>
 
-            <div className="p-6 bg-slate-50 border-t border-slate-100 text-right">
+            <div className="p-6 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+              {!editingLog && can(currentUser.role, 'editEntries') && (
+                <button
+                  onClick={() => setEditingLog(true)}
+                  className="px-6 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl font-semibold hover:bg-slate-100 transition-all active:scale-95"
+                >
+                  Edit Entry
+                </button>
+              )}
               <button
                 onClick={() => setViewingLog(null)}
                 className="px-8 py-2.5 bg-slate-900 text-white rounded-xl font-semibold hover:bg-slate-800 transition-all active:scale-95"
@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { ChartColumn, Filter } from 'lucide-react';
+import {
+  counsellors, exceptionRates, filterEntries, histogram, qualificationMix, statusFunnel, submissionTrend,
+  type CountItem, type HistogramBin, type TrendGranularity
+} from '../lib/analytics';
+import type { AuditLogEntry, Program, RulesConfig } from '../lib/types';
+
+interface AnalyticsProps {
+  logs: AuditLogEntry[];
+  programs: Program[];
+  rules: RulesConfig;
+}
+
+interface Bar {
+  label: string;
+  value: number;
+  /** The value as written beside a horizontal bar. */
+  display?: string;
+  /** Shown on hover. */
+  title: string;
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+function ChartCard({ title, subtitle, children }: { title: string; subtitle: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm">
+      <h4 className="text-sm font-bold text-slate-900">{title}</h4>
+      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-4">{subtitle}</p>
+      {children}
+    </div>
+  );
+}
+
+/** Vertical bars, labelled underneath; with many bars only some labels are shown. */
+function Columns({ bars, max, color }: { bars: Bar[]; max?: number; color: string }) {
+  if (bars.length === 0) return <p className="text-sm text-slate-400 italic py-10 text-center">No entries in this range.</p>;
+  const top = max ?? Math.max(1, ...bars.map(bar => bar.value));
+  const labelEvery = Math.ceil(bars.length / 8);
+  return (
+    <div>
+      <div className="h-40 flex items-end gap-1 border-b border-slate-100">
+        {bars.map((bar, i) => (
+          <div key={i} className="flex-1 h-full flex items-end" title={bar.title}>
+            <div className={`w-full rounded-t-md ${color}`} style={{ height: `${(bar.value / top) * 100}%`, minHeight: bar.value > 0 ? 2 : 0 }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1">
+        {bars.map((bar, i) => (
+          <span key={i} className="flex-1 text-[9px] text-slate-400 font-medium text-center truncate">
+            {i % labelEvery === 0 ? bar.label : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Horizontal bars with the label on the left and the value on the right. */
+function Rows({ bars, max, color }: { bars: Bar[]; max?: number; color: string }) {
+  if (bars.length === 0) return <p className="text-sm text-slate-400 italic py-10 text-center">Nothing to show.</p>;
+  const top = max ?? Math.max(1, ...bars.map(bar => bar.value));
+  return (
+    <div className="space-y-2">
+      {bars.map(bar => (
+        <div key={bar.label} className="grid grid-cols-[8rem_1fr_4rem] items-center gap-3" title={bar.title}>
+          <span className="text-xs font-semibold text-slate-600 truncate">{bar.label}</span>
+          <div className="h-3 bg-slate-50 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${color}`} style={{ width: `${(bar.value / top) * 100}%` }} />
+          </div>
+          <span className="text-xs font-bold text-slate-700 text-right">{bar.display ?? bar.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const histogramBars = (bins: HistogramBin[]): Bar[] =>
+  bins.map(bin => ({ label: String(bin.from), value: bin.count, title: `${bin.count} between ${bin.from} and ${bin.to}` }));
+
+const countBars = (items: CountItem[]): Bar[] =>
+  items.map(item => ({ label: item.label, value: item.count, title: `${item.count} ${item.label}` }));
+
+/** Charts over the entries the user can see, for a date range and optionally one counsellor or program. */
+export default function Analytics({ logs, programs, rules }: AnalyticsProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  /** A counsellor's name (or null, for imported entries) as JSON, or empty for everyone. */
+  const [person, setPerson] = useState('');
+  /** A program id (or null, for entries from before programs) as JSON, or empty for every program. */
+  const [intake, setIntake] = useState('');
+  const [granularity, setGranularity] = useState<TrendGranularity>('week');
+
+  const people = counsellors(logs);
+  const entries = filterEntries(logs, {
+    from,
+    to,
+    counsellor: person === '' ? undefined : JSON.parse(person),
+    program: intake === '' ? undefined : JSON.parse(intake)
+  });
+  const trend = submissionTrend(entries, granularity);
+  const funnel = statusFunnel(entries);
+  const flaggedCount = entries.filter(log => log.flagged).length;
+  const waivedCount = entries.filter(log => log.exceptionCount > 0).length;
+  const share = (count: number) => entries.length === 0 ? 0 : count / entries.length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+            <ChartColumn className="text-brand-600" />
+            Analytics
+          </h2>
+          <p className="text-sm text-slate-500 font-medium">Trends across submitted entries. Days and weeks are in your time zone; weeks start on Monday.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 shrink-0">
+          <Filter size={16} className="text-slate-400" />
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            title="From"
+            className="text-sm bg-white border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-brand-500/10"
+          />
+          <span className="text-xs text-slate-400 font-bold">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            title="To"
+            className="text-sm bg-white border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-brand-500/10"
+          />
+          <select
+            value={person}
+            onChange={(e) => setPerson(e.target.value)}
+            className="text-sm bg-white border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-brand-500/10"
+          >
+            <option value="">All Counsellors</option>
+            {people.map(name => <option key={name ?? ''} value={JSON.stringify(name)}>{name ?? 'Imported'}</option>)}
+          </select>
+          {programs.length > 0 && (
+            <select
+              value={intake}
+              onChange={(e) => setIntake(e.target.value)}
+              className="text-sm bg-white border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-brand-500/10"
+            >
+              <option value="">All Programs</option>
+              {programs.map(program => <option key={program.id} value={JSON.stringify(program.id)}>{program.name}</option>)}
+              <option value="null">Before Programs</option>
+            </select>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Entries', value: String(entries.length) },
+          { label: 'Cleared', value: percent(share(entries.filter(log => log.status === 'Cleared').length)) },
+          { label: 'With Waivers', value: percent(share(waivedCount)) },
+          { label: 'Flagged', value: percent(share(flaggedCount)) }
+        ].map(stat => (
+          <div key={stat.label} className="p-4 rounded-2xl border border-slate-200 bg-white shadow-sm">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{stat.label}</span>
+            <p className="text-2xl font-bold text-slate-900">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="lg:col-span-2">
+          <ChartCard title="Submissions Over Time" subtitle={`Entries per ${granularity}`}>
+            <div className="flex bg-slate-50 border border-slate-200 rounded-xl p-1 w-fit mb-4">
+              {(['day', 'week'] as TrendGranularity[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setGranularity(option)}
+                  className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-lg transition-all ${granularity === option ? 'bg-brand-600 text-white' : 'text-slate-500 hover:bg-white'}`}
+                >
+                  By {option}
+                </button>
+              ))}
+            </div>
+            <Columns
+              color="bg-brand-500"
+              bars={trend.map(bucket => ({
+                label: bucket.start.slice(5),
+                value: bucket.total,
+                title: `${bucket.total} submitted ${granularity === 'week' ? 'in the week of' : 'on'} ${bucket.start}`
+              }))}
+            />
+          </ChartCard>
+        </div>
+
+        <ChartCard title="Flagged Rate" subtitle={`Share of entries flagged per ${granularity}`}>
+          <Columns
+            color="bg-rose-400"
+            max={1}
+            bars={trend.map(bucket => ({
+              label: bucket.start.slice(5),
+              value: bucket.total === 0 ? 0 : bucket.flagged / bucket.total,
+              title: bucket.total === 0 ? `No entries ${bucket.start}` : `${percent(bucket.flagged / bucket.total)} flagged (${bucket.flagged} of ${bucket.total}) from ${bucket.start}`
+            }))}
+          />
+        </ChartCard>
+
+        <ChartCard title="Status Funnel" subtitle="How far entries get">
+          <Rows
+            color="bg-emerald-500"
+            max={Math.max(1, funnel[0].count)}
+            bars={funnel.map(step => ({
+              label: step.label,
+              value: step.count,
+              display: String(step.count),
+              title: `${step.count} (${percent(share(step.count))}) ${step.label.toLowerCase()}`
+            }))}
+          />
+        </ChartCard>
+
+        <ChartCard title="Exception Rate" subtitle="Entries waiving each soft rule">
+          <Rows
+            color="bg-amber-400"
+            max={1}
+            bars={exceptionRates(entries, rules).map(rate => ({
+              label: rate.label,
+              value: rate.rate,
+              display: percent(rate.rate),
+              title: `${percent(rate.rate)} (${rate.waived} of ${entries.length}) waive ${rate.label}`
+            }))}
+          />
+        </ChartCard>
+
+        <ChartCard title="Qualification Mix" subtitle="Entries per qualification">
+          <Rows color="bg-indigo-400" bars={countBars(qualificationMix(entries))} />
+        </ChartCard>
+
+        <ChartCard title="Screening Score" subtitle="Distribution, 0 to 100">
+          <Columns color="bg-brand-400" bars={histogramBars(histogram(entries.map(log => log.screeningScore), 0, 100, 10))} />
+        </ChartCard>
+
+        <ChartCard title="Percentage" subtitle="Distribution of percentage scores">
+          <Columns color="bg-sky-400" bars={histogramBars(histogram(entries.filter(log => !log.isCgpa).map(log => log.score), 0, 100, 10))} />
+        </ChartCard>
+
+        <ChartCard title="CGPA" subtitle="Distribution on the 10-point scale">
+          <Columns color="bg-violet-400" bars={histogramBars(histogram(entries.filter(log => log.isCgpa).map(log => log.score), 0, 10, 1))} />
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { Download, Paperclip, X } from 'lucide-react';
+import * as api from '../lib/api';
+import { ATTACHMENT_TYPES, attachmentProblem, formatBytes } from '../lib/attachments';
+import { saveBlob } from '../lib/download';
+import type { Attachment } from '../lib/types';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  /** Shows an attach button; the upload is the caller's, since where it goes depends on the entry's state. */
+  onAttach?: (file: File) => Promise<void>;
+  /** Shows a remove button per file, for uploads a form has not submitted yet. */
+  onRemove?: (attachment: Attachment) => void;
+  onError: (message: string) => void;
+  emptyText?: string;
+}
+
+/** Supporting documents, each downloadable, with an optional way to add more. */
+export default function AttachmentList({ attachments, onAttach, onRemove, onError, emptyText }: AttachmentListProps) {
+  const input = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const download = async (attachment: Attachment) => {
+    try {
+      saveBlob(await api.downloadAttachment(attachment.id), attachment.fileName);
+    } catch (err) {
+      onError(`Could not download ${attachment.fileName}: ${(err as Error).message}`);
+    }
+  };
+
+  const attach = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onAttach) return;
+    const problem = attachmentProblem(file);
+    if (problem) {
+      onError(`${file.name} was not attached: ${problem}`);
+      return;
+    }
+    setUploading(true);
+    try {
+      await onAttach(file);
+    } catch (err) {
+      onError(`${file.name} was not attached: ${(err as Error).message}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {attachments.length === 0 && emptyText && <p className="text-[11px] text-slate-400 italic">{emptyText}</p>}
+      {attachments.map(attachment => (
+        <div key={attachment.id} className="flex items-center gap-2 px-3 py-2 bg-white rounded-xl border border-slate-100 text-xs">
+          <Paperclip size={12} className="text-slate-400 shrink-0" />
+          <button
+            type="button"
+            onClick={() => download(attachment)}
+            className="flex-1 min-w-0 text-left font-semibold text-slate-700 hover:text-brand-600 truncate"
+            title={`SHA-256 ${attachment.sha256}`}
+          >
+            {attachment.fileName}
+          </button>
+          <span className="text-[10px] text-slate-400 font-medium shrink-0">
+            {formatBytes(attachment.size)} · {attachment.uploadedBy}
+          </span>
+          {onRemove ? (
+            <button type="button" onClick={() => onRemove(attachment)} className="text-slate-400 hover:text-red-600" title="Remove">
+              <X size={12} />
+            </button>
+          ) : (
+            <button type="button" onClick={() => download(attachment)} className="text-slate-400 hover:text-brand-600" title="Download">
+              <Download size={12} />
+            </button>
+          )}
+        </div>
+      ))}
+      {onAttach && (
+        <>
+          <input ref={input} type="file" accept={Object.keys(ATTACHMENT_TYPES).join(',')} onChange={attach} className="hidden" />
+          <button
+            type="button"
+            onClick={() => input.current?.click()}
+            disabled={uploading}
+            className="flex items-center gap-1.5 text-[10px] font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider disabled:opacity-50"
+          >
+            <Paperclip size={12} />
+            {uploading ? 'Uploading…' : 'Attach File'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link2, ShieldCheck, ShieldAlert, RefreshCw } from 'lucide-react';
+import * as api from '../lib/api';
+import type { AuditEvent, AuditEventType, ChainAnchor, ChainVerification } from '../lib/types';
+
+interface AuditTrailProps {
+  onError: (message: string) => void;
+  onOpenEntry: (id: number) => void;
+}
+
+const EVENT_LABELS: Record<AuditEventType, string> = {
+  'log.started': 'Audit trail started',
+  'log.keyed': 'Audit trail keyed',
+  'entry.submitted': 'Entry submitted',
+  'entry.edited': 'Entry edited',
+  'entry.reviewed': 'Entry reviewed',
+  'rules.changed': 'Rules changed',
+  'program.created': 'Program created',
+  'program.changed': 'Program changed',
+  'entries.purged': 'All entries purged',
+  'attachment.added': 'Document attached',
+  'offer.issued': 'Offer letter issued'
+};
+
+function documents(payload: Record<string, any>): string {
+  const count = (payload.attachments as unknown[] | undefined)?.length ?? 0;
+  return count > 0 ? `, ${count} ${count === 1 ? 'document' : 'documents'}` : '';
+}
+
+function describe(event: AuditEvent): string {
+  const payload = event.payload as Record<string, any>;
+  switch (event.type) {
+    case 'log.keyed': return `${payload.signedEvents} earlier ${payload.signedEvents === 1 ? 'event' : 'events'} signed with the audit key`;
+    case 'log.started': return `${payload.existingEntries} existing ${payload.existingEntries === 1 ? 'entry' : 'entries'}, not covered before this point`;
+    case 'entry.submitted': return `${payload.entry?.fullName ?? ''}${payload.batch ? ' (bulk import)' : payload.legacyId ? ' (legacy import)' : ''}${documents(payload)}`;
+    case 'entry.edited': return `${(payload.changes as unknown[]).length} change(s)${documents(payload)}: "${payload.reason}"`;
+    case 'entry.reviewed': return `${payload.fromStatus || 'Not Reviewed'} → ${payload.toStatus}`;
+    case 'rules.changed': return `v${payload.version}${payload.program ? ` of program ${payload.program}` : ''}: ${payload.note}`;
+    case 'program.created':
+    case 'program.changed': return `${payload.program.name}, ${payload.program.opensOn} to ${payload.program.closesOn}, ${payload.program.seats} seats`;
+    case 'entries.purged': return `${payload.purged} ${payload.purged === 1 ? 'entry' : 'entries'} removed`;
+    case 'offer.issued': return `${payload.letter.program}, starting ${payload.letter.startDate}`;
+    case 'attachment.added': return `${payload.attachment.fileName}${payload.attachment.field ? ` for ${payload.attachment.field}` : ''}`;
+  }
+}
+
+/** Where this browser keeps the head of the last intact verification, outside AdmitGuard's database. */
+const ANCHOR_KEY = 'admitguard_audit_anchor';
+
+function savedAnchor(): { count: string; hash: string } {
+  try {
+    const anchor = JSON.parse(localStorage.getItem(ANCHOR_KEY) ?? 'null') as ChainAnchor | null;
+    return anchor ? { count: String(anchor.eventCount), hash: anchor.headHash } : { count: '', hash: '' };
+  } catch {
+    return { count: '', hash: '' };
+  }
+}
+
+/** The hash-chained record of every change, with a check that no link was altered or removed. */
+export default function AuditTrail({ onError, onOpenEntry }: AuditTrailProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  // A head noted down earlier, which the chain has to still reach.
+  const [anchor, setAnchor] = useState(savedAnchor);
+
+  useEffect(() => {
+    api.fetchAuditEvents().then(setEvents).catch(err => onError(`Could not load the audit trail: ${(err as Error).message}`));
+  }, []);
+
+  const verify = async () => {
+    setVerifying(true);
+    try {
+      const count = anchor.count.trim();
+      const hash = anchor.hash.trim().toLowerCase();
+      const [result, latest] = await Promise.all([
+        api.verifyAuditChain(count || hash ? { eventCount: Number(count), headHash: hash } : undefined),
+        api.fetchAuditEvents()
+      ]);
+      setVerification(result);
+      setEvents(latest);
+      if (result.intact && result.headHash) {
+        const head: ChainAnchor = { eventCount: result.eventCount, headHash: result.headHash };
+        localStorage.setItem(ANCHOR_KEY, JSON.stringify(head));
+        setAnchor({ count: String(head.eventCount), hash: head.headHash });
+      }
+    } catch (err) {
+      onError(`Could not verify the audit trail: ${(err as Error).message}`);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+            <Link2 className="text-brand-600" />
+            Audit Trail
+          </h2>
+          <p className="text-sm text-slate-500 font-medium">Every event carries a hash, keyed with a server secret, of its content and of the event before it, so no event can be changed or removed unnoticed.</p>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2 shrink-0">
+          <label className="block">
+            <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Anchored Event</span>
+            <input
+              type="number"
+              min={1}
+              value={anchor.count}
+              onChange={(e) => setAnchor(prev => ({ ...prev, count: e.target.value }))}
+              placeholder="#"
+              className="w-24 text-sm bg-white border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-brand-500/10"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Its Hash</span>
+            <input
+              type="text"
+              value={anchor.hash}
+              onChange={(e) => setAnchor(prev => ({ ...prev, hash: e.target.value }))}
+              placeholder="Hash noted down earlier"
+              className="w-full sm:w-64 text-sm font-mono bg-white border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-brand-500/10"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={verify}
+            disabled={verifying}
+            className="flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 shadow-lg shadow-brand-200 transition-all active:scale-95 disabled:opacity-50 shrink-0"
+          >
+            <RefreshCw size={16} className={verifying ? 'animate-spin' : ''} />
+            Verify Chain
+          </button>
+        </div>
+      </div>
+
+      {verification && (
+        <div className={`p-5 rounded-2xl border ${verification.intact ? 'bg-emerald-50 border-emerald-100' : 'bg-red-50 border-red-100'}`}>
+          <div className="flex items-start gap-3">
+            {verification.intact
+              ? <ShieldCheck size={22} className="text-emerald-600 shrink-0" />
+              : <ShieldAlert size={22} className="text-red-600 shrink-0" />}
+            <div className="min-w-0 space-y-1">
+              <p className={`text-sm font-bold ${verification.intact ? 'text-emerald-800' : 'text-red-800'}`}>
+                {verification.intact
+                  ? `All ${verification.eventCount} events verified; the chain is intact.`
+                  : `${verification.problems.length} ${verification.problems.length === 1 ? 'problem' : 'problems'} found in ${verification.eventCount} events.`}
+              </p>
+              {verification.headHash && (
+                <p className="text-[11px] text-slate-600 font-medium break-all">
+                  Latest hash <span className="font-mono">{verification.headHash}</span> of event {verification.eventCount} at {new Date(verification.verifiedAt).toLocaleString()}.
+                  Keep both outside AdmitGuard: a later check against them proves nothing up to that event was changed or cut off.
+                </p>
+              )}
+              {verification.anchor && (
+                <p className="text-[11px] text-slate-600 font-medium">Checked against the head anchored at event {verification.anchor.eventCount}.</p>
+              )}
+              {verification.problems.length > 0 && (
+                <ul className="pt-2 space-y-1">
+                  {verification.problems.map((problem, i) => (
+                    <li key={i} className="text-xs text-red-700 font-medium">
+                      <span className="font-bold uppercase text-[10px] tracking-wider mr-2">{problem.kind}</span>
+                      {problem.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl border border-slate-200 overflow-hidden shadow-sm">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-50/50 border-b border-slate-100">
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">#</th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Event</th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">By</th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">Hash</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {events.map(event => (
+              <tr key={event.id}>
+                <td className="px-6 py-4 text-xs font-bold text-slate-400">{event.id}</td>
+                <td className="px-6 py-4">
+                  <p className="font-bold text-slate-900 text-sm">
+                    {EVENT_LABELS[event.type] ?? event.type}
+                    {event.candidateId !== null && (
+                      <button
+                        type="button"
+                        onClick={() => onOpenEntry(event.candidateId!)}
+                        className="ml-2 text-[10px] font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider"
+                      >
+                        Entry {event.candidateId}
+                      </button>
+                    )}
+                  </p>
+                  <p className="text-[11px] text-slate-500 font-medium">{describe(event)}</p>
+                </td>
+                <td className="px-6 py-4">
+                  <p className="text-xs font-semibold text-slate-700">{event.actor}</p>
+                  <p className="text-[10px] text-slate-400 font-medium">{new Date(event.createdAt).toLocaleString()}</p>
+                </td>
+                <td className="px-6 py-4 text-right font-mono text-[10px] text-slate-500" title={`Links to ${event.prevHash}`}>
+                  {event.hash.slice(0, 16)}…
+                </td>
+              </tr>
+            ))}
+            {events.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-6 py-10 text-center text-sm text-slate-400 italic">No events recorded yet.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,391 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { FileSpreadsheet, Upload, CheckCircle, AlertCircle, AlertTriangle, Copy, Send, RefreshCw } from 'lucide-react';
+import * as api from '../lib/api';
+import { TOGGLE_COLUMNS, buildBatchRows, guessColumns } from '../lib/batchImport';
+import { duplicateOwner } from '../lib/duplicates';
+import { readSpreadsheet } from '../lib/spreadsheet';
+import { programClosedReason, today } from '../lib/programs';
+import { isWaivable, rationaleMinLength, requiresAttachment, validateRationale } from '../lib/validation';
+import type { BatchRowResult, Program, RulesConfig } from '../lib/types';
+
+interface BulkImportProps {
+  /** The program chosen in the admission form, which the rows are imported into. */
+  program: Program | undefined;
+  rules: RulesConfig;
+  onError: (message: string) => void;
+  onImported: (count: number) => void;
+}
+
+type RowState = 'ready' | 'waiver' | 'blocked';
+
+function rowState(result: BatchRowResult): RowState {
+  if (result.importable) return 'ready';
+  return Object.keys(result.errors).length > 0 ? 'blocked' : 'waiver';
+}
+
+const STATE_STYLES: Record<RowState, { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'bg-emerald-50 text-emerald-600' },
+  waiver: { label: 'Needs Waiver', className: 'bg-amber-50 text-amber-600' },
+  blocked: { label: 'Blocked', className: 'bg-red-50 text-red-600' }
+};
+
+export default function BulkImport({ program, rules, onError, onImported }: BulkImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  /** Spreadsheet row number of each row, counting the header as row 1. */
+  const [lines, setLines] = useState<number[]>([]);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [isCgpa, setIsCgpa] = useState(false);
+  const [waivers, setWaivers] = useState<Record<string, string>>({});
+  const [skipped, setSkipped] = useState<Record<number, boolean>>({});
+  const [results, setResults] = useState<BatchRowResult[] | null>(null);
+  const [stale, setStale] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const closed = program ? programClosedReason(program, today()) : 'Choose the program to import into on the admission form first.';
+
+  const label = (field: string) =>
+    rules.form.find(definition => definition.name === field)?.label
+    || TOGGLE_COLUMNS.find(toggle => toggle.name === field)?.label
+    || field;
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const [header = [], ...data] = await readSpreadsheet(file);
+      if (data.length === 0) throw new Error('The file has a header row but no candidates.');
+      setFileName(file.name);
+      setHeaders(header);
+      setRows(data);
+      setLines(data.map((_, i) => i + 2));
+      setColumns(guessColumns(header, rules.form));
+      setWaivers({});
+      setSkipped({});
+      setResults(null);
+    } catch (err) {
+      onError(`Could not read ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const changed = () => {
+    if (results) setStale(true);
+  };
+
+  const setColumn = (index: number, target: string) => {
+    setColumns(prev => prev.map((current, i) => i === index ? target : current === target && target ? '' : current));
+    changed();
+  };
+
+  const setWaiver = (field: string, rationale: string | undefined) => {
+    setWaivers(prev => {
+      const next = { ...prev };
+      if (rationale === undefined) delete next[field];
+      else next[field] = rationale;
+      return next;
+    });
+    changed();
+  };
+
+  const included = rows.map((_, i) => i).filter(i => !skipped[i]);
+
+  /** Points `repeats` at spreadsheet rows; the server counts positions in the batch it was sent. */
+  const withLines = (result: BatchRowResult, sent: number[]): BatchRowResult => {
+    const repeats: Record<string, number> = {};
+    Object.entries(result.repeats).forEach(([field, earlier]) => {
+      repeats[field] = lines[sent[earlier - 1]];
+    });
+    return { ...result, repeats };
+  };
+
+  const check = async () => {
+    if (!program) return;
+    setBusy(true);
+    try {
+      const { results: checked } = await api.checkBatch(buildBatchRows(rows, columns, rules.form, { isCgpa }, waivers), program.id);
+      const sent = rows.map((_, i) => i);
+      setResults(checked.map(result => withLines(result, sent)));
+      setStale(false);
+    } catch (err) {
+      onError(`Could not check the batch: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importRows = async () => {
+    if (!results || !program) return;
+    const batch = buildBatchRows(rows, columns, rules.form, { isCgpa }, waivers);
+    setBusy(true);
+    try {
+      const { imported, results: outcome } = await api.importBatch(included.map(i => batch[i]), program.id);
+      const next = [...results];
+      included.forEach((rowIndex, i) => {
+        next[rowIndex] = withLines(outcome[i], included);
+      });
+      // Imported rows leave the batch; the rest stay for fixing and another pass.
+      const keep = next.map((result, i) => result.id === undefined ? i : -1).filter(i => i >= 0);
+      setRows(keep.map(i => rows[i]));
+      setLines(keep.map(i => lines[i]));
+      setResults(keep.map(i => next[i]));
+      setSkipped(keep.reduce((obj, oldIndex, newIndex) => {
+        if (skipped[oldIndex]) obj[newIndex] = true;
+        return obj;
+      }, {} as Record<number, boolean>));
+      setStale(false);
+      onImported(imported);
+    } catch (err) {
+      onError(`Could not import the batch: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reset = () => {
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setResults(null);
+  };
+
+  const counts = { ready: 0, waiver: 0, blocked: 0 };
+  (results || []).forEach((result, i) => {
+    if (!skipped[i]) counts[rowState(result)]++;
+  });
+
+  // Warnings across the batch, so each can be waived for every row at once.
+  const warningCounts: Record<string, number> = {};
+  (results || []).forEach(result => {
+    Object.keys(result.warnings).forEach(field => {
+      warningCounts[field] = (warningCounts[field] || 0) + 1;
+    });
+  });
+
+  const unmappedRequired = Object.entries(rules.fields)
+    .filter(([field, config]) => config.type === 'strict' && config.required && field !== 'offerSent' && !columns.includes(field))
+    .map(([field]) => label(field));
+
+  const inputClass = "w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+            <FileSpreadsheet className="text-brand-600" />
+            Bulk Import
+          </h2>
+          <p className="text-sm text-slate-500 font-medium">Load a CSV or XLSX sheet with one candidate per row and a header row naming the columns.</p>
+          <p className={`text-xs font-bold ${closed ? 'text-amber-700' : 'text-brand-600'}`}>
+            {closed || `Rows are checked against the rules of ${program?.name} and imported into it.`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {fileName && (
+            <button
+              type="button"
+              onClick={reset}
+              className="px-4 py-2.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 transition-all active:scale-95"
+            >
+              Clear
+            </button>
+          )}
+          <label className="flex items-center gap-2 px-4 py-2.5 text-xs font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 transition-all active:scale-95 cursor-pointer shadow-lg shadow-brand-200">
+            <Upload size={14} /> {fileName ? 'Load Another File' : 'Choose File'}
+            <input type="file" accept=".csv,.xlsx,text/csv" onChange={loadFile} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {!fileName ? (
+        <div className="bg-white rounded-3xl border border-dashed border-slate-200 p-12 text-center text-sm text-slate-400 font-medium">
+          No file loaded. Columns are matched to form fields by name or label, e.g. "Full Name", "Email Address", "DOB".
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h4 className="text-sm font-bold text-slate-900">{fileName}</h4>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{rows.length} rows &middot; Map Columns to Fields</p>
+              </div>
+              <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+                Scores without a CGPA column are
+                <select
+                  value={isCgpa ? 'cgpa' : 'percentage'}
+                  onChange={(e) => { setIsCgpa(e.target.value === 'cgpa'); changed(); }}
+                  className="px-3 py-1.5 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none"
+                >
+                  <option value="percentage">Percentages</option>
+                  <option value="cgpa">CGPA</option>
+                </select>
+              </label>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {headers.map((header, i) => (
+                <div key={i} className="p-3 bg-slate-50/60 rounded-2xl border border-slate-100">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block truncate" title={header}>
+                    {header || `Column ${i + 1}`}
+                  </label>
+                  <select value={columns[i] || ''} onChange={(e) => setColumn(i, e.target.value)} className={inputClass}>
+                    <option value="">Ignore this column</option>
+                    {rules.form.map(definition => <option key={definition.name} value={definition.name}>{definition.label}</option>)}
+                    {TOGGLE_COLUMNS.map(toggle => <option key={toggle.name} value={toggle.name}>{toggle.label}</option>)}
+                  </select>
+                  <p className="mt-1 text-[10px] text-slate-400 truncate">e.g. {rows[0]?.[i] || '—'}</p>
+                </div>
+              ))}
+            </div>
+            {unmappedRequired.length > 0 && (
+              <p className="text-[11px] text-amber-700 font-bold flex items-center gap-1.5">
+                <AlertTriangle size={12} /> No column for {unmappedRequired.join(', ')}; every row will fail those checks.
+              </p>
+            )}
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={check}
+                disabled={busy || !!closed}
+                className="flex items-center gap-2 px-4 py-2.5 text-xs font-bold text-brand-600 bg-brand-50 border border-brand-100 rounded-xl hover:bg-brand-100 transition-all active:scale-95 disabled:opacity-50"
+              >
+                <RefreshCw size={14} /> {results ? 'Check Again' : `Check ${rows.length} Rows`}
+              </button>
+            </div>
+          </div>
+
+          {results && (
+            <>
+              {Object.keys(warningCounts).length > 0 && (
+                <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm space-y-4">
+                  <div>
+                    <h4 className="text-sm font-bold text-slate-900">Waive Warnings in Bulk</h4>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">One rationale covers every row with the warning</p>
+                  </div>
+                  {Object.entries(warningCounts).map(([field, count]) => {
+                    const waiving = waivers[field] !== undefined;
+                    const problem = waiving ? validateRationale(waivers[field], rules.exceptionPolicy, rationaleMinLength(field, rules)) : '';
+                    return (
+                      <div key={field} className="p-4 bg-amber-50/40 rounded-2xl border border-amber-100 space-y-2">
+                        {isWaivable(field, rules) && requiresAttachment(field, rules) ? (
+                          <p className="text-xs font-bold text-amber-900">
+                            "{label(field)}" fails on {count} row{count === 1 ? '' : 's'}; its waiver needs a supporting document, so enter {count === 1 ? 'that row' : 'those rows'} through the admission form.
+                          </p>
+                        ) : isWaivable(field, rules) ? (
+                          <label className="flex items-center gap-2 text-xs font-bold text-amber-900">
+                            <input
+                              type="checkbox"
+                              checked={waiving}
+                              onChange={(e) => setWaiver(field, e.target.checked ? '' : undefined)}
+                              className="w-4 h-4 rounded border-amber-300 text-amber-600 focus:ring-amber-500"
+                            />
+                            Waive "{label(field)}" for {count} row{count === 1 ? '' : 's'}
+                          </label>
+                        ) : (
+                          <p className="text-xs font-bold text-amber-900">
+                            "{label(field)}" fails on {count} row{count === 1 ? '' : 's'} and cannot be waived.
+                          </p>
+                        )}
+                        {waiving && (
+                          <>
+                            <textarea
+                              value={waivers[field]}
+                              onChange={(e) => setWaiver(field, e.target.value)}
+                              placeholder={`Rationale for every row (min ${rationaleMinLength(field, rules)} chars)...`}
+                              className="w-full px-3 py-2 text-xs bg-white border border-amber-200 rounded-xl outline-none focus:ring-2 focus:ring-amber-500/20 min-h-[60px] resize-none"
+                            />
+                            {problem && <p className="text-[10px] text-red-500 font-medium px-1">{problem}</p>}
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+                <div className="p-6 flex flex-wrap items-center justify-between gap-3 border-b border-slate-100">
+                  <div className="flex flex-wrap gap-2 text-[10px] font-bold uppercase tracking-wider">
+                    <span className="px-2 py-1 rounded-md bg-emerald-50 text-emerald-600">{counts.ready} ready</span>
+                    <span className="px-2 py-1 rounded-md bg-amber-50 text-amber-600">{counts.waiver} need a waiver</span>
+                    <span className="px-2 py-1 rounded-md bg-red-50 text-red-600">{counts.blocked} blocked</span>
+                    {stale && <span className="px-2 py-1 rounded-md bg-slate-100 text-slate-500">Settings changed; check again</span>}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={importRows}
+                    disabled={busy || !!closed || included.length === 0}
+                    className="flex items-center gap-2 px-4 py-2.5 text-xs font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 transition-all active:scale-95 disabled:opacity-50 shadow-lg shadow-brand-200"
+                  >
+                    <Send size={14} /> Import Rows That Pass
+                  </button>
+                </div>
+                <div className="divide-y divide-slate-100 max-h-[36rem] overflow-y-auto">
+                  {results.map((result, i) => {
+                    const state = rowState(result);
+                    const name = rows[i][columns.indexOf('fullName')] || `Row ${lines[i]}`;
+                    return (
+                      <div key={i} className={`p-4 flex gap-4 ${skipped[i] ? 'opacity-40' : ''}`}>
+                        <input
+                          type="checkbox"
+                          checked={!skipped[i]}
+                          onChange={(e) => setSkipped(prev => ({ ...prev, [i]: !e.target.checked }))}
+                          title="Include this row"
+                          className="mt-1 w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                        />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="text-[10px] font-mono text-slate-400">#{lines[i]}</span>
+                            <span className="text-sm font-bold text-slate-900 truncate">{name}</span>
+                            <span className={`ml-auto text-[10px] font-bold px-2 py-0.5 rounded-md uppercase tracking-wider ${STATE_STYLES[state].className}`}>
+                              {STATE_STYLES[state].label}
+                            </span>
+                          </div>
+                          {state === 'ready' && Object.keys(result.warnings).length === 0 && (
+                            <p className="text-[11px] text-emerald-600 font-medium flex items-center gap-1"><CheckCircle size={12} /> Passes every rule.</p>
+                          )}
+                          {Object.entries(result.errors).map(([field, message]) => (
+                            <p key={field} className="text-[11px] text-red-600 font-medium flex items-center gap-1">
+                              <AlertCircle size={12} /> <span className="font-bold">{label(field)}:</span> {message}
+                            </p>
+                          ))}
+                          {Object.entries(result.warnings).map(([field, message]) => (
+                            <p key={field} className="text-[11px] text-amber-700 font-medium flex items-center gap-1">
+                              <AlertTriangle size={12} /> <span className="font-bold">{label(field)}:</span> {message}
+                              {result.rationaleErrors[field]
+                                ? <span className="text-red-500"> ({result.rationaleErrors[field]})</span>
+                                : waivers[field] !== undefined && <span className="text-slate-400"> (waived)</span>}
+                            </p>
+                          ))}
+                          {Object.entries(result.duplicates).filter(([field]) => !result.errors[field]).map(([field, matches]) => (
+                            <p key={field} className="text-[11px] text-slate-500 font-medium flex items-center gap-1">
+                              <Copy size={12} /> {label(field)} also on file for {duplicateOwner(matches[0])}.
+                            </p>
+                          ))}
+                          {Object.entries(result.repeats).map(([field, line]) => (
+                            <p key={field} className="text-[11px] text-slate-500 font-medium flex items-center gap-1">
+                              <Copy size={12} /> Same {label(field).toLowerCase()} as row #{line}.
+                            </p>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {results.length === 0 && (
+                    <div className="p-8 text-center text-sm text-slate-400 font-medium">Every row has been imported.</div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { PencilLine } from 'lucide-react';
+import { changeLabel } from '../lib/entryChanges';
+import type { FieldChange, FieldDefinition } from '../lib/types';
+
+interface ChangeHistoryProps {
+  changes: FieldChange[];
+  form: FieldDefinition[];
+}
+
+/** Changes saved together, which share their author, time and reason. */
+function groupEdits(changes: FieldChange[]): FieldChange[][] {
+  const edits: FieldChange[][] = [];
+  changes.forEach(change => {
+    const last = edits[edits.length - 1]?.[0];
+    if (last && last.changedAt === change.changedAt && last.changedBy === change.changedBy && last.reason === change.reason) {
+      edits[edits.length - 1].push(change);
+    } else {
+      edits.push([change]);
+    }
+  });
+  return edits;
+}
+
+/** An entry's edits after submission, newest first, each value with what it replaced. */
+export default function ChangeHistory({ changes, form }: ChangeHistoryProps) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-slate-100">
+      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-[0.1em] flex items-center gap-2">
+        <PencilLine size={16} />
+        Change History
+      </h4>
+      <ul className="space-y-4">
+        {groupEdits(changes).reverse().map((edit, i) => (
+          <li key={i} className="text-xs text-slate-600 space-y-1.5">
+            <p>
+              <span className="font-bold">{edit[0].changedBy}</span>
+              <span className="text-slate-400"> · {new Date(edit[0].changedAt).toLocaleString()}</span>
+            </p>
+            <p className="italic text-slate-500">"{edit[0].reason}"</p>
+            <ul className="space-y-1 pl-3 border-l-2 border-slate-100">
+              {edit.map(change => (
+                <li key={change.field}>
+                  <span className="font-semibold text-slate-700">{changeLabel(change.field, form)}:</span>{' '}
+                  <span className="line-through text-slate-400">{change.oldValue || '(empty)'}</span>
+                  {' → '}
+                  <span className="font-bold text-slate-900">{change.newValue || '(empty)'}</span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { FilePen, FilePlus, Send, Trash2 } from 'lucide-react';
+import { draftSubmission, draftTitle } from '../lib/drafts';
+import { programReferenceDate } from '../lib/programs';
+import type { Draft, Program, RulesConfig } from '../lib/types';
+
+export type DraftSaveState = 'idle' | 'unsaved' | 'saving' | 'saved' | 'failed';
+
+interface DraftsPanelProps {
+  drafts: Draft[];
+  /** The draft open in the form, if it has been saved yet. */
+  activeDraftId: number | null;
+  saveState: DraftSaveState;
+  /** The rules of the program chosen in the form, which drafts for other programs are not checked against. */
+  rules: RulesConfig;
+  programId: number | null;
+  programs: Program[];
+  onNew: () => void;
+  onResume: (draft: Draft) => void;
+  onDiscard: (draft: Draft) => void;
+  onSubmit: (draft: Draft) => void;
+}
+
+const SAVE_STATE_LABELS: Record<DraftSaveState, string> = {
+  idle: '',
+  unsaved: 'Unsaved changes',
+  saving: 'Saving…',
+  saved: 'All changes saved',
+  failed: 'Not saved; retrying on the next change'
+};
+
+/** Unfinished admission forms, autosaved as they are typed, to pick up again later. */
+export default function DraftsPanel({
+  drafts, activeDraftId, saveState, rules, programId, programs, onNew, onResume, onDiscard, onSubmit
+}: DraftsPanelProps) {
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-xl shadow-slate-200/60">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+          <FilePen size={20} className="text-brand-600" />
+          Drafts
+        </h3>
+        <button
+          type="button"
+          onClick={onNew}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-100 transition-all active:scale-95"
+        >
+          <FilePlus size={14} />
+          New
+        </button>
+      </div>
+      {saveState !== 'idle' && (
+        <p className={`text-[11px] font-bold mb-3 ${saveState === 'failed' ? 'text-red-500' : 'text-slate-400'}`}>
+          {SAVE_STATE_LABELS[saveState]}
+        </p>
+      )}
+
+      {drafts.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">Forms you start are saved here automatically until they are submitted.</p>
+      ) : (
+        <ul className="space-y-2">
+          {drafts.map(draft => {
+            const program = programs.find(p => p.id === (draft.form.programId ?? programId));
+            // Drafts saved before programs existed are taken to be for the program in the form.
+            const checked = (draft.form.programId ?? programId) === programId;
+            const { result } = draftSubmission(draft.form, rules, programReferenceDate(program));
+            const open = Object.keys(result.errors).length + Object.keys(result.rationaleErrors).length
+              + Object.keys(result.warnings).filter(field => !draft.form.exceptions[field]).length;
+            const isActive = draft.id === activeDraftId;
+            return (
+              <li
+                key={draft.id}
+                className={`p-3 rounded-2xl border ${isActive ? 'border-brand-200 bg-brand-50/50' : 'border-slate-100 bg-slate-50/50'}`}
+              >
+                <button type="button" onClick={() => onResume(draft)} disabled={isActive} className="w-full text-left disabled:cursor-default">
+                  <p className="text-sm font-bold text-slate-900 truncate">{draftTitle(draft.form)}</p>
+                  <p className="text-[10px] text-slate-400 font-medium">
+                    {isActive ? 'Open in the form' : `Saved ${new Date(draft.updatedAt).toLocaleString()}`}
+                    {' · '}
+                    {checked ? (
+                      <span className={result.isValid ? 'text-emerald-600' : 'text-amber-600'}>
+                        {result.isValid ? 'ready to submit' : `${open} ${open === 1 ? 'issue' : 'issues'} left`}
+                      </span>
+                    ) : (
+                      <span>for {program?.name ?? 'another program'}</span>
+                    )}
+                  </p>
+                </button>
+                <div className="flex justify-end gap-2 mt-2">
+                  <button
+                    type="button"
+                    onClick={() => onDiscard(draft)}
+                    className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold text-slate-500 hover:text-red-600 uppercase tracking-wider"
+                  >
+                    <Trash2 size={12} /> Discard
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onSubmit(draft)}
+                    disabled={checked && !result.isValid}
+                    className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider disabled:text-slate-300"
+                  >
+                    <Send size={12} /> Submit
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
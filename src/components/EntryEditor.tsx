@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, Save } from 'lucide-react';
+import * as api from '../lib/api';
+import { attachmentCounts } from '../lib/attachments';
+import { changeLabel, diffSubmissions } from '../lib/entryChanges';
+import { FORM_SECTIONS, candidateRecord, splitCandidate } from '../lib/formSchema';
+import { isWaivable, rationaleMinLength, validateCandidate } from '../lib/validation';
+import AttachmentList from './AttachmentList';
+import FormField, { type FieldStatus } from './FormField';
+import RationaleQuality, { RationaleScore } from './RationaleQuality';
+import type { Attachment, AuditLogEntry, CandidateRecord, CandidateSubmission, RulesConfig } from '../lib/types';
+
+interface EntryEditorProps {
+  entry: AuditLogEntry;
+  /** The rules in force for the entry's program. */
+  rules: RulesConfig;
+  /** The date ages are worked out on in the entry's program. */
+  referenceDate?: Date;
+  onSaved: (updated: AuditLogEntry) => void;
+  onCancel: () => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Edit mode of the entry details: the admission form prefilled with the
+ * entry, checked against the rules in force for its program as it changes,
+ * plus the reason the history records for the edit.
+ */
+export default function EntryEditor({ entry, rules, referenceDate, onSaved, onCancel, onError }: EntryEditorProps) {
+  const [values, setValues] = useState<CandidateRecord>(() => candidateRecord(entry));
+  const [isCgpa, setIsCgpa] = useState(entry.isCgpa);
+  const [offerSent, setOfferSent] = useState(entry.offerSent);
+  /** Rationale per waived warning; a key with an empty rationale is a waiver being written. */
+  const [rationales, setRationales] = useState<Record<string, string>>(entry.exceptions);
+  /** Documents uploaded in this edit, added to the entry's own when it is saved. */
+  const [uploads, setUploads] = useState<Attachment[]>([]);
+  const [reason, setReason] = useState('');
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const result = validateCandidate({
+    candidate: values,
+    isCgpa,
+    offerSent,
+    exceptions: Object.keys(rationales).reduce((obj, field) => {
+      obj[field] = true;
+      return obj;
+    }, {} as Record<string, boolean>),
+    rationales,
+    attachments: attachmentCounts([...entry.attachments, ...uploads]),
+    referenceDate
+  }, rules);
+  // Without the full number only the server can check an Aadhaar left as it was.
+  if (values.aadhaar === entry.aadhaar && entry.aadhaar.includes('X')) {
+    delete result.errors.aadhaar;
+    delete result.warnings.aadhaar;
+  }
+  const errors = { ...serverErrors, ...result.errors };
+  const { warnings, rationaleErrors } = result;
+
+  const { fields, extraFields } = splitCandidate(values, rules.form);
+  const exceptions: Record<string, string> = {};
+  Object.keys(warnings).forEach(field => {
+    if (rationales[field] !== undefined) exceptions[field] = rationales[field];
+  });
+  const attachmentIds = uploads.filter(({ field }) => field === null || exceptions[field] !== undefined).map(upload => upload.id);
+  const edited: CandidateSubmission = {
+    ...fields,
+    extraFields: { ...entry.extraFields, ...extraFields },
+    isCgpa,
+    offerSent,
+    exceptions,
+    exceptionCount: result.activeExceptionCount,
+    flagged: result.isFlagged,
+    attachmentIds
+  };
+  const changes = diffSubmissions(entry, edited);
+  const added = attachmentIds.length;
+  const unresolved = Object.keys(errors).length > 0
+    || Object.keys(warnings).some(field => rationales[field] === undefined || !!rationaleErrors[field]);
+
+  const setValue = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { id, value } = e.target;
+    setValues(prev => ({ ...prev, [id]: value }));
+    setServerErrors(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const toggleWaiver = (field: string) => {
+    setRationales(prev => {
+      const next = { ...prev };
+      if (next[field] === undefined) next[field] = '';
+      else delete next[field];
+      return next;
+    });
+  };
+
+  const fieldStatus = (field: string): FieldStatus => {
+    if (errors[field]) return 'error';
+    if (warnings[field]) return rationales[field] !== undefined && !rationaleErrors[field] ? 'valid' : 'warning';
+    return values[field] ? 'valid' : 'idle';
+  };
+
+  const attach = async (file: File, field: string | null) => {
+    const uploaded = await api.uploadAttachment(file, field, entry.programId);
+    setUploads(prev => [...prev, uploaded]);
+  };
+
+  /** The entry's documents for `field`, which stay, then this edit's uploads, which can still be taken back. */
+  const renderAttachments = (field: string | null) => (
+    <>
+      <AttachmentList attachments={entry.attachments.filter(attachment => attachment.field === field)} onError={onError} />
+      <AttachmentList
+        attachments={uploads.filter(upload => upload.field === field)}
+        onAttach={(file) => attach(file, field)}
+        onRemove={(removed) => setUploads(prev => prev.filter(upload => upload.id !== removed.id))}
+        onError={onError}
+      />
+    </>
+  );
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      onSaved(await api.updateCandidate(entry.id, edited, reason));
+    } catch (err) {
+      const fieldErrors = err instanceof api.ApiError ? err.fieldMessages('errors') : {};
+      if (Object.keys(fieldErrors).length > 0) setServerErrors(fieldErrors);
+      onError(`Edit not saved: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderWaiver = (field: string) => {
+    if (!warnings[field]) return null;
+    if (!isWaivable(field, rules)) {
+      return <p className="mt-1 text-[10px] text-amber-700 font-bold px-1">This warning cannot be waived; correct the values instead.</p>;
+    }
+    return (
+      <div className="mt-2 p-3 bg-amber-50/50 rounded-xl border border-amber-100 space-y-2">
+        <label className="flex items-center gap-2 text-xs font-bold text-amber-800 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={rationales[field] !== undefined}
+            onChange={() => toggleWaiver(field)}
+            className="w-4 h-4 rounded border-amber-300 text-amber-600 focus:ring-amber-500"
+          />
+          Request Exception Waiver
+        </label>
+        {rationales[field] !== undefined && (
+          <>
+            <textarea
+              value={rationales[field]}
+              onChange={(e) => setRationales(prev => ({ ...prev, [field]: e.target.value }))}
+              placeholder={`Provide detailed rationale (min ${rationaleMinLength(field, rules)} chars)...`}
+              className="w-full p-3 text-xs bg-white border border-amber-200 rounded-xl outline-none focus:ring-4 focus:ring-amber-500/10 min-h-[70px] resize-none"
+            />
+            {rationaleErrors[field] ? (
+              <p className="text-[10px] text-red-500 font-bold flex items-center gap-1 px-1"><AlertCircle size={10} /> {rationaleErrors[field]}</p>
+            ) : rationales[field] === entry.exceptions[field] && entry.rationaleChecks[field] ? (
+              <RationaleScore check={entry.rationaleChecks[field]} />
+            ) : (
+              <RationaleQuality field={field} warning={warnings[field]} rationale={rationales[field]} program={entry.programId} />
+            )}
+            {renderAttachments(field)}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const crossFieldResults = rules.crossFieldRules.filter(rule => errors[rule.id] || warnings[rule.id]);
+
+  return (
+    <div className="space-y-8">
+      {FORM_SECTIONS.map(section => {
+        const definitions = rules.form.filter(definition => definition.section === section.id);
+        if (definitions.length === 0) return null;
+        return (
+          <div key={section.id} className="space-y-4">
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-[0.1em]">{section.title}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {definitions.map(definition => (
+                <React.Fragment key={definition.name}>
+                  <FormField
+                    definition={definition}
+                    value={values[definition.name] ?? ''}
+                    onChange={setValue}
+                    status={fieldStatus(definition.name)}
+                    error={errors[definition.name]}
+                    warning={warnings[definition.name]}
+                    label={definition.name === 'score' && isCgpa ? 'CGPA' : undefined}
+                    action={definition.name === 'score' ? (
+                      <button
+                        type="button"
+                        onClick={() => setIsCgpa(!isCgpa)}
+                        className="text-[10px] uppercase tracking-wider font-bold text-brand-600 hover:text-brand-700 transition-colors"
+                      >
+                        Switch to {isCgpa ? definition.label : 'CGPA'}
+                      </button>
+                    ) : undefined}
+                  >
+                    {renderWaiver(definition.name)}
+                  </FormField>
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <label className="flex items-center gap-3 p-4 bg-slate-50 rounded-2xl border border-slate-100 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={offerSent}
+          onChange={(e) => setOfferSent(e.target.checked)}
+          disabled={entry.offerLetters.length > 0}
+          className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+        />
+        <span className="text-sm font-bold text-slate-700">Offer Letter Sent</span>
+        {entry.offerLetters.length > 0 && <span className="text-[11px] text-slate-400 font-medium">A letter was issued, so this stays on.</span>}
+      </label>
+      {errors.offerSent && <p className="text-[11px] text-red-500 px-1 font-medium">{errors.offerSent}</p>}
+
+      {crossFieldResults.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-[0.1em]">Cross-Field Checks</h4>
+          {crossFieldResults.map(rule => (
+            <div key={rule.id}>
+              {errors[rule.id] ? (
+                <p className="text-xs text-red-600 font-bold flex items-center gap-1.5 px-1"><AlertCircle size={14} /> {errors[rule.id]}</p>
+              ) : (
+                <p className="text-xs text-amber-700 font-bold flex items-center gap-1.5 px-1"><AlertTriangle size={14} /> {warnings[rule.id]}</p>
+              )}
+              {renderWaiver(rule.id)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-[0.1em]">Supporting Documents</h4>
+        {renderAttachments(null)}
+      </div>
+
+      <div className="p-5 bg-brand-50/40 rounded-2xl border border-brand-100 space-y-3">
+        <div>
+          <h4 className="text-sm font-bold text-slate-900">Reason for the Edit</h4>
+          <p className="text-[11px] text-slate-500 font-medium">
+            {changes.length === 0 && added === 0
+              ? 'Nothing has been changed yet.'
+              : `Recorded with ${[
+                  ...changes.map(change => changeLabel(change.field, rules.form)),
+                  ...(added > 0 ? [`${added} new ${added === 1 ? 'document' : 'documents'}`] : [])
+                ].join(', ')}.`}
+          </p>
+        </div>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. Candidate cleared the second interview round"
+          className="w-full p-3 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-4 focus:ring-brand-500/10 min-h-[70px] resize-none"
+        />
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2.5 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 transition-all active:scale-95"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={save}
+            disabled={saving || (changes.length === 0 && added === 0) || !reason.trim() || unresolved}
+            className="flex items-center gap-2 px-4 py-2.5 text-sm font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 transition-all active:scale-95 disabled:opacity-50 shadow-lg shadow-brand-200"
+          >
+            <Save size={16} /> Save Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
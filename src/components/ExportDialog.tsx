@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Download, XCircle } from 'lucide-react';
+import { exportColumns, exportRecords, exportTable, type ExportFormat } from '../lib/auditExport';
+import { toCsv } from '../lib/csv';
+import { saveBlob } from '../lib/download';
+import { writeWorkbook } from '../lib/spreadsheet';
+import type { AuditLogEntry, FieldDefinition } from '../lib/types';
+
+interface ExportDialogProps {
+  /** The entries the audit log currently shows, after search and filters. */
+  entries: AuditLogEntry[];
+  form: FieldDefinition[];
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string; hint: string }[] = [
+  { id: 'csv', label: 'CSV', hint: 'RFC 4180, UTF-8' },
+  { id: 'xlsx', label: 'Excel', hint: 'XLSX workbook' },
+  { id: 'json', label: 'JSON', hint: 'Exceptions nested per field' }
+];
+
+export default function ExportDialog({ entries, form, onClose, onError }: ExportDialogProps) {
+  const columns = exportColumns(form);
+  const [selected, setSelected] = useState<string[]>(() => columns.map(column => column.id));
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [maskPii, setMaskPii] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(current => current !== id) : [...prev, id]);
+  };
+
+  const exportEntries = async () => {
+    // Keep the catalogue's order whatever order the boxes were ticked in.
+    const options = { columns: columns.map(column => column.id).filter(id => selected.includes(id)), maskPii };
+    const fileName = `admitguard_audit_log_${new Date().toISOString().split('T')[0]}.${format}`;
+    setBusy(true);
+    try {
+      if (format === 'json') {
+        saveBlob(new Blob([JSON.stringify(exportRecords(entries, form, options), null, 2)], { type: 'application/json' }), fileName);
+      } else {
+        const { headers, rows } = exportTable(entries, form, options);
+        saveBlob(format === 'csv'
+          // The byte order mark makes Excel read the file as UTF-8.
+          ? new Blob(['\uFEFF', toCsv([headers, ...rows])], { type: 'text/csv;charset=utf-8;' })
+          : await writeWorkbook('Audit Log', headers, rows), fileName);
+      }
+      onClose();
+    } catch (err) {
+      onError(`Export failed: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-md z-50 flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col animate-in zoom-in-95 duration-300">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl bg-brand-100 flex items-center justify-center text-brand-600">
+              <Download size={24} />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-slate-900">Export Audit Log</h3>
+              <p className="text-xs text-slate-500 font-medium">
+                {entries.length} {entries.length === 1 ? 'entry matches' : 'entries match'} the current search and filters
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-xl transition-all active:scale-90">
+            <XCircle size={28} className="text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-8 overflow-y-auto space-y-6 custom-scrollbar">
+          <div>
+            <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em] block mb-2">Format</label>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => setFormat(option.id)}
+                  className={`p-3 rounded-xl border text-left transition-all ${
+                    format === option.id ? 'border-brand-500 bg-brand-50' : 'border-slate-200 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="block text-sm font-bold text-slate-900">{option.label}</span>
+                  <span className="block text-[10px] text-slate-500 font-medium">{option.hint}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-[10px] uppercase font-bold text-slate-400 tracking-[0.1em]">Columns</label>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setSelected(columns.map(column => column.id))}
+                  className="text-[10px] font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider"
+                >
+                  All
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSelected([])}
+                  className="text-[10px] font-bold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+                >
+                  None
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {columns.map(column => (
+                <label key={column.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-slate-50 text-xs font-medium text-slate-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(column.id)}
+                    onChange={() => toggle(column.id)}
+                    className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-start gap-3 p-4 bg-slate-50 rounded-2xl border border-slate-100 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={maskPii}
+              onChange={(e) => setMaskPii(e.target.checked)}
+              className="mt-0.5 w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+            />
+            <span>
+              <span className="block text-sm font-bold text-slate-900">Mask personal data</span>
+              <span className="block text-[11px] text-slate-500 font-medium">Aadhaar, email and phone keep only a few characters; dates of birth keep only the year.</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-3 bg-slate-50/50">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2.5 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 transition-all active:scale-95"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={exportEntries}
+            disabled={busy || selected.length === 0 || entries.length === 0}
+            className="flex items-center gap-2 px-4 py-2.5 text-sm font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 transition-all active:scale-95 disabled:opacity-50 shadow-lg shadow-brand-200"
+          >
+            <Download size={16} /> Export {entries.length} {entries.length === 1 ? 'Entry' : 'Entries'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
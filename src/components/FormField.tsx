@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import {
+  User, Mail, Phone, Calendar, CalendarDays, GraduationCap, Percent, ClipboardCheck, Clock, ShieldCheck,
+  Briefcase, MapPin, Hash, FileText, Globe, Award, CheckCircle, AlertTriangle, type LucideIcon
+} from 'lucide-react';
+import type { FieldDefinition } from '../lib/types';
+
+/** Icons a field definition may name; anything else falls back to `FileText`. */
+export const FIELD_ICONS: Record<string, LucideIcon> = {
+  User, Mail, Phone, Calendar, CalendarDays, GraduationCap, Percent, ClipboardCheck, Clock, ShieldCheck,
+  Briefcase, MapPin, Hash, FileText, Globe, Award
+};
+
+export function fieldIcon(name?: string): LucideIcon {
+  return (name && FIELD_ICONS[name]) || FileText;
+}
+
+export type FieldStatus = 'error' | 'warning' | 'valid' | 'idle';
+
+function borderClass(status: FieldStatus) {
+  switch (status) {
+    case 'error': return 'border-red-300 focus:ring-red-500/20 focus:border-red-500';
+    case 'warning': return 'border-amber-300 focus:ring-amber-500/20 focus:border-amber-500';
+    case 'valid': return 'border-emerald-300 focus:ring-emerald-500/20 focus:border-emerald-500';
+    default: return 'border-slate-200 focus:ring-brand-500/20 focus:border-brand-500';
+  }
+}
+
+interface FormFieldProps {
+  definition: FieldDefinition;
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => void;
+  status: FieldStatus;
+  error?: string;
+  warning?: string;
+  /** Overrides the definition, e.g. when a toggle changes what the field holds. */
+  label?: string;
+  placeholder?: string;
+  /** Shown in place of the valid tick next to the label. */
+  action?: React.ReactNode;
+  /** Notices rendered under the field, such as the exception waiver. */
+  children?: React.ReactNode;
+}
+
+/** One admission form input, rendered from its field definition. */
+export default function FormField({
+  definition, value, onChange, status, error, warning, label, placeholder, action, children
+}: FormFieldProps) {
+  const Icon = fieldIcon(definition.icon);
+  const inputClass = `w-full pl-11 pr-4 py-3 bg-slate-50 border rounded-xl transition-all outline-none text-slate-900 placeholder:text-slate-400 input-focus ${borderClass(status)}`;
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex justify-between items-center">
+        <label htmlFor={definition.name} className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          {label ?? definition.label}
+        </label>
+        {action ?? (status === 'valid' && <CheckCircle size={14} className="text-emerald-500" />)}
+      </div>
+      <div className="relative group">
+        <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors">
+          <Icon size={18} />
+        </div>
+        {definition.input === 'select' ? (
+          <>
+            <select
+              id={definition.name}
+              value={value}
+              onChange={onChange}
+              className={`${inputClass} appearance-none`}
+            >
+              <option value="">{placeholder ?? definition.placeholder ?? `Select ${definition.label}`}</option>
+              {(definition.options || []).filter(option => option.trim()).map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+            </div>
+          </>
+        ) : (
+          <input
+            type={definition.input}
+            id={definition.name}
+            value={value}
+            onChange={onChange}
+            step={definition.input === 'number' ? 'any' : undefined}
+            maxLength={definition.maxLength}
+            placeholder={placeholder ?? definition.placeholder}
+            className={inputClass}
+          />
+        )}
+      </div>
+      <div className="min-h-[1rem]">
+        {error ? (
+          <p className="text-[11px] text-red-500 px-1 font-medium">{error}</p>
+        ) : warning ? (
+          <p className="text-[11px] text-amber-600 font-medium flex items-center gap-1 px-1"><AlertTriangle size={12} /> {warning}</p>
+        ) : definition.helpText ? (
+          <p className="text-[11px] text-slate-400 px-1 font-medium">{definition.helpText}</p>
+        ) : null}
+      </div>
+      {children}
+    </div>
+  );
+}
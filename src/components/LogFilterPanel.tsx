@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { EMPTY_LOG_FILTERS, type LogFilters, type NumberRange } from '../lib/logQuery';
+
+interface LogFilterPanelProps {
+  filters: LogFilters;
+  onChange: (filters: LogFilters) => void;
+  /** Qualifications to offer, as entries spell them. */
+  qualifications: string[];
+  /** Fields and cross-field rules that can be waived, by key. */
+  waivable: { key: string; label: string }[];
+}
+
+const INPUT = 'w-full text-sm bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-brand-500/10 transition-all';
+
+type RangeKey = 'gradYear' | 'score' | 'screeningScore' | 'exceptions';
+
+const RANGES: { key: RangeKey; label: string; step?: string }[] = [
+  { key: 'gradYear', label: 'Graduation Year' },
+  { key: 'score', label: 'Score (%, CGPA × 10)', step: 'any' },
+  { key: 'screeningScore', label: 'Screening Score', step: 'any' },
+  { key: 'exceptions', label: 'Waivers' }
+];
+
+function Label({ children }: { children: React.ReactNode }) {
+  return <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{children}</span>;
+}
+
+/** The audit log's filters beyond the search box: submission dates, qualification, ranges and waived field. */
+export default function LogFilterPanel({ filters, onChange, qualifications, waivable }: LogFilterPanelProps) {
+  const set = <K extends keyof LogFilters>(key: K, value: LogFilters[K]) => onChange({ ...filters, [key]: value });
+  const setBound = (key: RangeKey, bound: keyof NumberRange, raw: string) => {
+    const value = raw.trim() === '' ? null : Number(raw);
+    set(key, { ...filters[key], [bound]: value !== null && isNaN(value) ? null : value });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div>
+        <Label>Submitted</Label>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => set('from', e.target.value)}
+            title="From"
+            className={INPUT}
+          />
+          <span className="text-xs text-slate-400 font-bold">to</span>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => set('to', e.target.value)}
+            title="To"
+            className={INPUT}
+          />
+        </div>
+      </div>
+      <div>
+        <Label>Qualification</Label>
+        <select value={filters.qualification} onChange={(e) => set('qualification', e.target.value)} className={INPUT}>
+          <option value="">Any Qualification</option>
+          {qualifications.map(qualification => <option key={qualification} value={qualification}>{qualification}</option>)}
+        </select>
+      </div>
+      <div>
+        <Label>Waived</Label>
+        <select value={filters.waived} onChange={(e) => set('waived', e.target.value)} className={INPUT}>
+          <option value="">Any or None</option>
+          {waivable.map(field => <option key={field.key} value={field.key}>{field.label}</option>)}
+        </select>
+      </div>
+      <div className="flex items-end">
+        <button
+          type="button"
+          onClick={() => onChange(EMPTY_LOG_FILTERS)}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-slate-500 hover:text-brand-600 hover:bg-brand-50 rounded-xl transition-all"
+        >
+          <RotateCcw size={14} />
+          Reset Filters
+        </button>
+      </div>
+      {RANGES.map(range => (
+        <div key={range.key}>
+          <Label>{range.label}</Label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              step={range.step}
+              placeholder="Min"
+              value={filters[range.key].min ?? ''}
+              onChange={(e) => setBound(range.key, 'min', e.target.value)}
+              className={INPUT}
+            />
+            <span className="text-xs text-slate-400 font-bold">to</span>
+            <input
+              type="number"
+              step={range.step}
+              placeholder="Max"
+              value={filters[range.key].max ?? ''}
+              onChange={(e) => setBound(range.key, 'max', e.target.value)}
+              className={INPUT}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
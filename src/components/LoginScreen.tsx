@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { ShieldCheck, LogIn, AlertCircle } from 'lucide-react';
+import * as api from '../lib/api';
+import type { User } from '../lib/types';
+
+interface LoginScreenProps {
+  onLogin: (user: User) => void;
+}
+
+export default function LoginScreen({ onLogin }: LoginScreenProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    try {
+      onLogin(await api.login(username, password));
+    } catch (err) {
+      setError((err as Error).message);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4 font-sans">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-3xl border border-slate-200 p-8 shadow-xl shadow-slate-200/60 space-y-6">
+        <div className="flex flex-col items-center text-center">
+          <div className="w-14 h-14 bg-brand-600 rounded-2xl flex items-center justify-center shadow-xl shadow-brand-200 mb-4 rotate-3">
+            <ShieldCheck size={28} className="text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900 tracking-tight">
+            Admit<span className="text-brand-600">Guard</span>
+          </h1>
+          <p className="text-sm text-slate-500 font-medium">Sign in with your AdmitGuard account.</p>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="username" className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Username</label>
+            <input
+              id="username"
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full px-4 py-2.5 text-sm bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-4 focus:ring-brand-500/10"
+            />
+          </div>
+          <div>
+            <label htmlFor="password" className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Password</label>
+            <input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-2.5 text-sm bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-4 focus:ring-brand-500/10"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-600 font-medium flex items-center gap-1.5">
+            <AlertCircle size={14} /> {error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !username || !password}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 text-sm font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 shadow-lg shadow-brand-200 transition-all active:scale-95 disabled:opacity-50"
+        >
+          <LogIn size={16} />
+          Sign In
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Mail, RefreshCw, RotateCcw } from 'lucide-react';
+import * as api from '../lib/api';
+import { NOTIFICATION_LABELS, NOTIFICATION_STATUSES } from '../lib/notifications';
+import type { NotificationStatus, OutboxMessage } from '../lib/types';
+
+interface NotificationOutboxProps {
+  onError: (message: string) => void;
+  onOpenEntry: (id: number) => void;
+}
+
+const STATUS_CLASSES: Record<NotificationStatus, string> = {
+  queued: 'bg-amber-50 text-amber-700 border-amber-100',
+  sent: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  failed: 'bg-red-50 text-red-700 border-red-100'
+};
+
+/** Emails AdmitGuard has queued, whether they went out, and a way to send failed ones again. */
+export default function NotificationOutbox({ onError, onOpenEntry }: NotificationOutboxProps) {
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [status, setStatus] = useState<NotificationStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = async (filter: NotificationStatus | null) => {
+    setLoading(true);
+    try {
+      setMessages(await api.fetchNotifications(filter ?? undefined));
+    } catch (err) {
+      onError(`Could not load the outbox: ${(err as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load(status);
+  }, [status]);
+
+  const retry = async (message: OutboxMessage) => {
+    try {
+      const updated = await api.retryNotification(message.id);
+      setMessages(prev => prev.map(m => m.id === updated.id ? updated : m));
+    } catch (err) {
+      onError(`Could not retry the email to ${message.recipient}: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+            <Mail className="text-brand-600" />
+            Notifications
+          </h2>
+          <p className="text-sm text-slate-500 font-medium">Review requests go to managers and admins with an email address; offer emails carry the letter to the candidate. Failed deliveries are retried for about 15 hours.</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <div className="flex bg-white border border-slate-200 rounded-xl p-1">
+            {[null, ...NOTIFICATION_STATUSES].map(option => (
+              <button
+                key={option ?? 'all'}
+                type="button"
+                onClick={() => setStatus(option)}
+                className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-lg transition-all ${status === option ? 'bg-brand-600 text-white' : 'text-slate-500 hover:bg-slate-50'}`}
+              >
+                {option ?? 'All'}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => load(status)}
+            disabled={loading}
+            className="p-2.5 text-slate-500 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl border border-slate-200 overflow-hidden shadow-sm">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-50/50 border-b border-slate-100">
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Email</th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">To</th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Delivery</th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">Queued</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {messages.map(message => (
+              <tr key={message.id}>
+                <td className="px-6 py-4">
+                  <p className="font-bold text-slate-900 text-sm">
+                    {NOTIFICATION_LABELS[message.kind] ?? message.kind}
+                    {message.candidateId !== null && (
+                      <button
+                        type="button"
+                        onClick={() => onOpenEntry(message.candidateId!)}
+                        className="ml-2 text-[10px] font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider"
+                      >
+                        Entry {message.candidateId}
+                      </button>
+                    )}
+                  </p>
+                  <p className="text-[11px] text-slate-500 font-medium">{message.subject}</p>
+                </td>
+                <td className="px-6 py-4 text-xs font-semibold text-slate-700">{message.recipient}</td>
+                <td className="px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider rounded-md border ${STATUS_CLASSES[message.status]}`}>
+                      {message.status}
+                    </span>
+                    {message.status === 'failed' && (
+                      <button
+                        type="button"
+                        onClick={() => retry(message)}
+                        className="inline-flex items-center gap-1 text-[10px] font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider"
+                      >
+                        <RotateCcw size={12} /> Retry
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-[10px] text-slate-400 font-medium mt-1">
+                    {message.status === 'sent' && message.sentAt
+                      ? `Sent ${new Date(message.sentAt).toLocaleString()}`
+                      : `${message.attempts} ${message.attempts === 1 ? 'attempt' : 'attempts'}`}
+                    {message.status === 'queued' && message.nextAttemptAt && message.attempts > 0 && `, next ${new Date(message.nextAttemptAt).toLocaleString()}`}
+                  </p>
+                  {message.lastError && message.status !== 'sent' && (
+                    <p className="text-[10px] text-red-600 font-medium break-all">{message.lastError}</p>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-right text-[10px] text-slate-400 font-medium">{new Date(message.createdAt).toLocaleString()}</td>
+              </tr>
+            ))}
+            {messages.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-6 py-10 text-center text-sm text-slate-400 italic">
+                  {status ? `No ${status} emails.` : 'No emails queued yet.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Download, FileText, Send } from 'lucide-react';
+import * as api from '../lib/api';
+import { saveBlob } from '../lib/download';
+import { acceptByDate, fillTemplate, letterBlocks, letterDate, offerProblem, offerValues, type LetterBlock } from '../lib/offerLetter';
+import type { AuditLogEntry, RulesConfig } from '../lib/types';
+
+interface OfferLetterPanelProps {
+  entry: AuditLogEntry;
+  rules: RulesConfig;
+  canIssue: boolean;
+  onIssued: (updated: AuditLogEntry) => void;
+  onError: (message: string) => void;
+}
+
+const BLOCK_CLASSES: Record<LetterBlock['kind'], string> = {
+  h1: 'text-base font-bold text-slate-900',
+  h2: 'text-sm font-bold text-slate-900',
+  h3: 'text-xs font-bold text-slate-900',
+  p: 'text-xs text-slate-700',
+  li: 'text-xs text-slate-700 pl-4'
+};
+
+/** The letter as the PDF will lay it out: the same blocks, without the page. */
+function LetterPreview({ blocks }: { blocks: LetterBlock[] }) {
+  return (
+    <div className="p-5 bg-white rounded-xl border border-slate-200 space-y-2 max-h-72 overflow-y-auto">
+      {blocks.map((block, i) => (
+        <p key={i} className={BLOCK_CLASSES[block.kind]}>
+          {block.marker && <span className="mr-2">{block.marker}</span>}
+          {block.runs.map((run, j) => run.text === '\n'
+            ? <br key={j} />
+            : <span key={j} className={`${run.bold ? 'font-bold' : ''} ${run.italic ? 'italic' : ''}`}>{run.text}</span>)}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+/** Offer letters issued for an entry, and generating a new one from the template in force for its program. */
+export default function OfferLetterPanel({ entry, rules, canIssue, onIssued, onError }: OfferLetterPanelProps) {
+  const [composing, setComposing] = useState(false);
+  const [program, setProgram] = useState(entry.offerLetters[0]?.program ?? entry.program ?? '');
+  const [startDate, setStartDate] = useState('');
+  const [issuing, setIssuing] = useState(false);
+
+  const today = new Date().toISOString();
+  const problem = offerProblem(entry, rules);
+  const ready = program.trim() !== '' && startDate >= today.slice(0, 10);
+  const preview = ready ? letterBlocks(fillTemplate(rules.offerLetter.template, offerValues(entry, rules.form, {
+    program: program.trim(),
+    startDate,
+    acceptBy: acceptByDate(today, rules.offerLetter.acceptanceDays),
+    issuedAt: today
+  }))) : [];
+
+  const download = async (letterId: number) => {
+    try {
+      saveBlob(await api.downloadOfferLetter(entry.id, letterId), `Offer letter - ${entry.fullName}.pdf`);
+    } catch (err) {
+      onError(`Could not download the offer letter: ${(err as Error).message}`);
+    }
+  };
+
+  const issue = async () => {
+    setIssuing(true);
+    try {
+      onIssued(await api.issueOfferLetter(entry.id, { program: program.trim(), startDate }));
+      setComposing(false);
+    } catch (err) {
+      onError(`Offer letter not issued: ${(err as Error).message}`);
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-slate-100">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-[0.1em] flex items-center gap-2">
+          <FileText size={16} />
+          Offer Letter
+        </h4>
+        {canIssue && !problem && !composing && (
+          <button
+            type="button"
+            onClick={() => setComposing(true)}
+            className="text-[10px] font-bold text-brand-600 hover:text-brand-700 uppercase tracking-wider"
+          >
+            {entry.offerLetters.length > 0 ? 'Issue New Letter' : 'Generate Letter'}
+          </button>
+        )}
+      </div>
+
+      {entry.offerLetters.length === 0 ? (
+        <p className="text-[11px] text-slate-400 italic">
+          {problem ? problem : entry.offerSent ? 'Marked as sent, but no letter was generated here.' : 'No offer letter issued yet.'}
+        </p>
+      ) : (
+        <ul className="space-y-1.5">
+          {entry.offerLetters.map((letter, i) => (
+            <li key={letter.id} className={`flex items-center gap-3 px-3 py-2 rounded-xl border text-xs ${i === 0 ? 'bg-emerald-50/50 border-emerald-100' : 'bg-white border-slate-100'}`}>
+              <div className="flex-1 min-w-0">
+                <p className={`font-semibold truncate ${i === 0 ? 'text-slate-800' : 'text-slate-400 line-through'}`}>
+                  {letter.program}, starting {letterDate(letter.startDate)}
+                </p>
+                <p className="text-[10px] text-slate-400 font-medium">
+                  {letter.issuedBy} · {new Date(letter.issuedAt).toLocaleString()} · accept by {letterDate(letter.acceptBy)}
+                </p>
+              </div>
+              <button type="button" onClick={() => download(letter.id)} className="text-slate-400 hover:text-brand-600" title="Download PDF">
+                <Download size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {composing && (
+        <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Program</label>
+              <input
+                value={program}
+                onChange={(e) => setProgram(e.target.value)}
+                placeholder="e.g. PG Diploma in Data Science"
+                className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+              />
+            </div>
+            <div>
+              <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Start Date</label>
+              <input
+                type="date"
+                value={startDate}
+                min={today.slice(0, 10)}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10"
+              />
+            </div>
+          </div>
+          {ready
+            ? <LetterPreview blocks={preview} />
+            : <p className="text-[11px] text-slate-400 italic">Enter the program and a start date from today on to preview the letter.</p>}
+          <p className="text-[10px] text-slate-400 font-medium">
+            Issuing stores the PDF with the entry and marks the offer as sent.
+            {entry.email ? ` The letter is emailed to ${entry.email}.` : ' The entry has no email address, so the letter is not emailed.'}
+            {entry.offerLetters.length > 0 && ' The new letter supersedes the earlier ones, which are kept.'}
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setComposing(false)}
+              className="px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-100 transition-all active:scale-95"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={issue}
+              disabled={!ready || issuing}
+              className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 transition-all active:scale-95 disabled:opacity-50"
+            >
+              <Send size={14} /> Issue Letter
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import * as api from '../lib/api';
+import type { RationaleCheck } from '../lib/types';
+
+/** How long typing has to pause before a rationale is sent to be checked. */
+const CHECK_DELAY = 800;
+
+function scoreClass(score: number): string {
+  if (score >= 70) return 'bg-emerald-50 text-emerald-700 border-emerald-100';
+  if (score >= 40) return 'bg-amber-50 text-amber-700 border-amber-100';
+  return 'bg-red-50 text-red-600 border-red-100';
+}
+
+/** A rationale's quality score and the critique that goes with it. */
+export function RationaleScore({ check, stale = false }: { check: RationaleCheck; stale?: boolean }) {
+  return (
+    <div className={`flex items-start gap-2 px-1 transition-opacity ${stale ? 'opacity-50' : ''}`} title={`Checked by ${check.checker}`}>
+      <span className={`shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded-md border text-[10px] font-bold ${scoreClass(check.score)}`}>
+        <Sparkles size={10} /> {check.score}/100
+      </span>
+      <p className="text-[10px] text-slate-600 font-medium leading-relaxed">{check.critique}</p>
+    </div>
+  );
+}
+
+interface RationaleQualityProps {
+  field: string;
+  /** The warning the rationale waives, as shown above it. */
+  warning: string;
+  rationale: string;
+  /** The program whose rules name the field; null for the default rules. */
+  program: number | null;
+}
+
+/**
+ * Checks a rationale as it is written, a moment after typing pauses, and shows
+ * the score and critique. Checks are advisory: failures and a server with
+ * checks turned off show nothing.
+ */
+export default function RationaleQuality({ field, warning, rationale, program }: RationaleQualityProps) {
+  const [result, setResult] = useState<{ rationale: string; check: RationaleCheck } | null>(null);
+  const text = rationale.trim();
+
+  useEffect(() => {
+    if (!text) return;
+    let current = true;
+    const timer = setTimeout(() => {
+      api.checkRationale({ field, warning, rationale: text, program })
+        .then(check => {
+          if (current) setResult(check ? { rationale: text, check } : null);
+        })
+        .catch(() => {
+          // The server checks submitted rationales again; the preview is best-effort.
+        });
+    }, CHECK_DELAY);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [field, warning, text, program]);
+
+  if (!result || !text) return null;
+  return <RationaleScore check={result.check} stale={result.rationale !== text} />;
+}
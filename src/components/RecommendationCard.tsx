@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { CheckCircle, HelpCircle, UserCheck, UserMinus, UserX } from 'lucide-react';
+import type { RecommendationTier, RecommendationTone } from '../lib/types';
+
+const TONE_STYLES: Record<RecommendationTone, { text: string; background: string; icon: React.ReactNode }> = {
+  approve: { text: 'text-emerald-600', background: 'bg-emerald-50', icon: <UserCheck size={16} /> },
+  neutral: { text: 'text-brand-600', background: 'bg-brand-50', icon: <CheckCircle size={16} /> },
+  caution: { text: 'text-amber-600', background: 'bg-amber-50', icon: <UserMinus size={16} /> },
+  reject: { text: 'text-red-600', background: 'bg-red-50', icon: <UserX size={16} /> }
+};
+
+/** The recommendation a candidate got, with the reason and the condition that matched. */
+export default function RecommendationCard({ tier }: { tier: RecommendationTier | undefined }) {
+  if (!tier) {
+    return (
+      <div className="flex items-start gap-3">
+        <div className="w-8 h-8 rounded-lg bg-slate-50 flex items-center justify-center text-slate-400 shrink-0">
+          <HelpCircle size={16} />
+        </div>
+        <p className="text-[11px] text-slate-500 leading-relaxed">No recommendation tier applies to this candidate.</p>
+      </div>
+    );
+  }
+  const style = TONE_STYLES[tier.tone] ?? TONE_STYLES.neutral;
+  return (
+    <div className="flex items-start gap-3">
+      <div className={`w-8 h-8 rounded-lg flex items-center justify-center shrink-0 ${style.background} ${style.text}`}>
+        {style.icon}
+      </div>
+      <div className="min-w-0">
+        <p className={`text-xs font-bold mb-1 ${style.text}`}>{tier.label}</p>
+        <p className="text-[11px] text-slate-600 leading-relaxed">{tier.reason}</p>
+        <p className="mt-1 text-[10px] text-slate-400 font-medium break-words">
+          {tier.condition.trim()
+            ? <>Matched <code className="font-mono text-slate-500">{tier.condition}</code></>
+            : 'No earlier tier matched.'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { UserCheck, UserX, HelpCircle, ShieldAlert, Inbox, Clock, Send } from 'lucide-react';
+import type { ReviewSubmission } from '../lib/api';
+import type { AuditLogEntry, ExceptionDecision, ReviewStatus } from '../lib/types';
+import { RationaleScore } from './RationaleQuality';
+
+interface ReviewQueueProps {
+  logs: AuditLogEntry[];
+  onSubmitReview: (id: number, review: ReviewSubmission) => Promise<boolean>;
+  onOpenEntry: (log: AuditLogEntry) => void;
+}
+
+/** A manager's decision on one exception while it is being made; the decision is unset until one is picked. */
+interface DecisionDraft {
+  decision?: ExceptionDecision;
+  comment: string;
+}
+
+const OPEN_STATUSES: (ReviewStatus | null)[] = ['Pending Review', 'Needs Info'];
+
+const DECISION_STYLES: Record<ExceptionDecision, { icon: React.ReactNode; active: string }> = {
+  'Approved': { icon: <UserCheck size={14} />, active: 'bg-emerald-600 text-white border-emerald-600' },
+  'Rejected': { icon: <UserX size={14} />, active: 'bg-red-600 text-white border-red-600' },
+  'Needs Info': { icon: <HelpCircle size={14} />, active: 'bg-amber-500 text-white border-amber-500' }
+};
+
+export function reviewStatusClass(status: ReviewStatus | null): string {
+  switch (status) {
+    case 'Approved': return 'bg-emerald-50 text-emerald-600';
+    case 'Rejected': return 'bg-red-50 text-red-600';
+    case 'Needs Info': return 'bg-amber-50 text-amber-600';
+    case 'Pending Review': return 'bg-indigo-50 text-indigo-600';
+    default: return 'bg-slate-100 text-slate-500';
+  }
+}
+
+export default function ReviewQueue({ logs, onSubmitReview, onOpenEntry }: ReviewQueueProps) {
+  const [includeAllExceptions, setIncludeAllExceptions] = useState(false);
+  const [drafts, setDrafts] = useState<Record<number, Record<string, DecisionDraft>>>({});
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [submitting, setSubmitting] = useState<number | null>(null);
+
+  const queue = logs.filter(log => {
+    if (log.exceptionCount === 0 && Object.keys(log.exceptions).length === 0) return false;
+    if (OPEN_STATUSES.includes(log.reviewStatus)) return true;
+    return includeAllExceptions && log.reviewStatus === null;
+  });
+
+  const setDecision = (id: number, field: string, patch: Partial<DecisionDraft>) => {
+    setDrafts(prev => {
+      const current = prev[id]?.[field] || { comment: '' };
+      return { ...prev, [id]: { ...prev[id], [field]: { ...current, ...patch } } };
+    });
+  };
+
+  /** The entry's decisions, or null until every exception has one. */
+  const decisionsFor = (log: AuditLogEntry): ReviewSubmission['decisions'] | null => {
+    const decisions: ReviewSubmission['decisions'] = {};
+    for (const field of Object.keys(log.exceptions)) {
+      const draft = drafts[log.id]?.[field];
+      if (!draft?.decision) return null;
+      decisions[field] = { decision: draft.decision, comment: draft.comment };
+    }
+    return decisions;
+  };
+
+  const submit = async (log: AuditLogEntry) => {
+    const decisions = decisionsFor(log);
+    if (!decisions) return;
+    setSubmitting(log.id);
+    const ok = await onSubmitReview(log.id, { comment: comments[log.id] || '', decisions });
+    setSubmitting(null);
+    if (ok) {
+      setDrafts(prev => ({ ...prev, [log.id]: {} }));
+      setComments(prev => ({ ...prev, [log.id]: '' }));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+            <ShieldAlert className="text-brand-600" />
+            Manager Review Queue
+          </h2>
+          <p className="text-sm text-slate-500 font-medium">Decide on each exception waiver; the entry's status follows from your decisions.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeAllExceptions}
+              onChange={(e) => setIncludeAllExceptions(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+            />
+            Include unflagged entries with exceptions
+          </label>
+        </div>
+      </div>
+
+      {queue.length === 0 ? (
+        <div className="bg-white rounded-3xl border border-slate-200 p-16 text-center space-y-4 shadow-xl shadow-slate-200/60">
+          <div className="w-20 h-20 bg-slate-50 rounded-3xl flex items-center justify-center mx-auto text-slate-300 rotate-12">
+            <Inbox size={40} />
+          </div>
+          <div>
+            <p className="text-slate-900 font-bold text-lg">Nothing to review</p>
+            <p className="text-slate-500 text-sm">Flagged submissions will appear here for a manager decision.</p>
+          </div>
+        </div>
+      ) : (
+        queue.map(log => (
+          <div key={log.id} className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <button type="button" onClick={() => onOpenEntry(log)} className="text-left">
+                <p className="font-bold text-slate-900 hover:text-brand-600 transition-colors">{log.fullName}</p>
+                <p className="text-[10px] text-slate-400 font-medium">
+                  {log.email} · submitted {new Date(log.timestamp).toLocaleDateString()} · {log.exceptionCount} exception{log.exceptionCount === 1 ? '' : 's'}
+                </p>
+              </button>
+              <span className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider shrink-0 ${reviewStatusClass(log.reviewStatus)}`}>
+                {log.reviewStatus || 'Not Reviewed'}
+              </span>
+            </div>
+
+            <div className="space-y-3">
+              {Object.entries(log.exceptions).map(([field, rationale]) => {
+                const draft = drafts[log.id]?.[field];
+                const previous = log.exceptionReviews[field];
+                return (
+                  <div key={field} className="p-4 bg-amber-50/50 rounded-2xl border border-amber-100 space-y-3">
+                    <div className="flex items-center justify-between gap-3 flex-wrap">
+                      <span className="text-xs font-bold text-amber-800 capitalize">{field.replace(/([A-Z])/g, ' $1')}</span>
+                      <div className="flex items-center gap-1.5">
+                        {(Object.keys(DECISION_STYLES) as ExceptionDecision[]).map(decision => (
+                          <button
+                            key={decision}
+                            type="button"
+                            onClick={() => setDecision(log.id, field, { decision })}
+                            className={`flex items-center gap-1 px-2.5 py-1 text-[10px] font-bold uppercase tracking-wider rounded-lg border transition-all active:scale-95 ${
+                              draft?.decision === decision ? DECISION_STYLES[decision].active : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+                            }`}
+                          >
+                            {DECISION_STYLES[decision].icon}
+                            {decision}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <p className="text-xs text-amber-900 leading-relaxed italic">"{rationale}"</p>
+                    {log.rationaleChecks[field] && <RationaleScore check={log.rationaleChecks[field]} />}
+                    {previous && (
+                      <p className="text-[10px] text-slate-500 font-medium flex items-center gap-1">
+                        <Clock size={10} /> Previously: {previous.decision} by {previous.reviewer}{previous.comment ? ` — "${previous.comment}"` : ''}
+                      </p>
+                    )}
+                    <input
+                      type="text"
+                      value={draft?.comment || ''}
+                      onChange={(e) => setDecision(log.id, field, { comment: e.target.value })}
+                      placeholder={draft?.decision && draft.decision !== 'Approved' ? 'Comment (required)' : 'Comment (optional)'}
+                      className="w-full px-3 py-2 text-xs bg-white border border-amber-200 rounded-xl outline-none focus:ring-2 focus:ring-amber-500/10"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            {log.reviewHistory.length > 0 && (
+              <ul className="space-y-1">
+                {log.reviewHistory.map((event, i) => (
+                  <li key={i} className="text-[10px] text-slate-500 font-medium">
+                    {new Date(event.createdAt).toLocaleString()} — {event.reviewer}: {event.fromStatus || 'Not Reviewed'} → <span className="font-bold">{event.toStatus}</span>
+                    {event.comment && <span className="italic"> "{event.comment}"</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                value={comments[log.id] || ''}
+                onChange={(e) => setComments(prev => ({ ...prev, [log.id]: e.target.value }))}
+                placeholder="Overall review comment"
+                className="flex-1 px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-4 focus:ring-brand-500/10"
+              />
+              <button
+                type="button"
+                disabled={submitting === log.id || !decisionsFor(log)}
+                title={decisionsFor(log) ? undefined : 'Decide on every exception first'}
+                onClick={() => submit(log)}
+                className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 shadow-lg shadow-brand-200 transition-all active:scale-95 disabled:opacity-50"
+              >
+                <Send size={16} />
+                Submit Review
+              </button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { History, RotateCcw, ChevronDown, ChevronRight, Plus, Minus, ArrowRight } from 'lucide-react';
+import { diffRules } from '../lib/rulesDiff';
+import type { RulesVersion } from '../lib/types';
+
+interface RulesHistoryProps {
+  /** Newest first, as returned by the API. */
+  versions: RulesVersion[];
+  activeVersion: number | null;
+  /** Omitted for users who may not change the rules. */
+  onRollback?: (version: number) => void;
+}
+
+export default function RulesHistory({ versions, activeVersion, onRollback }: RulesHistoryProps) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  if (versions.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm">
+      <h3 className="text-lg font-bold text-slate-900 mb-4 flex items-center gap-2">
+        <History size={20} className="text-brand-600" />
+        Version History
+      </h3>
+      <div className="space-y-3">
+        {versions.map((version, i) => {
+          const previous = versions[i + 1];
+          const changes = previous ? diffRules(previous.rules, version.rules) : [];
+          const isOpen = expanded === version.version;
+
+          return (
+            <div key={version.version} className="rounded-2xl border border-slate-100 bg-slate-50/50">
+              <div className="p-4 flex items-center justify-between gap-4">
+                <button
+                  type="button"
+                  onClick={() => setExpanded(isOpen ? null : version.version)}
+                  className="flex items-center gap-3 text-left min-w-0"
+                >
+                  {isOpen ? <ChevronDown size={16} className="text-slate-400 shrink-0" /> : <ChevronRight size={16} className="text-slate-400 shrink-0" />}
+                  <span className="text-xs font-black text-brand-600 bg-brand-50 px-2 py-1 rounded-lg shrink-0">v{version.version}</span>
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-slate-900 truncate">{version.note}</p>
+                    <p className="text-[10px] text-slate-400 font-medium">
+                      {version.author} · {new Date(version.createdAt).toLocaleString()} · {previous ? `${changes.length} change${changes.length === 1 ? '' : 's'}` : 'initial version'}
+                    </p>
+                  </div>
+                </button>
+                {version.version === activeVersion ? (
+                  <span className="text-[10px] font-bold px-2 py-0.5 rounded-md bg-emerald-50 text-emerald-600 uppercase tracking-wider shrink-0">Active</span>
+                ) : onRollback && (
+                  <button
+                    type="button"
+                    onClick={() => onRollback(version.version)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-100 transition-all active:scale-95 shrink-0"
+                  >
+                    <RotateCcw size={14} />
+                    Roll back
+                  </button>
+                )}
+              </div>
+
+              {isOpen && (
+                <div className="px-4 pb-4">
+                  {!previous ? (
+                    <p className="text-xs text-slate-500 italic">This is the first recorded version.</p>
+                  ) : changes.length === 0 ? (
+                    <p className="text-xs text-slate-500 italic">No differences from v{previous.version}.</p>
+                  ) : (
+                    <table className="w-full text-left text-xs">
+                      <thead>
+                        <tr className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                          <th className="py-1 pr-3">Field</th>
+                          <th className="py-1 pr-3">Setting</th>
+                          <th className="py-1">Change (from v{previous.version})</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {changes.map(change => (
+                          <tr key={`${change.field}.${change.setting}`}>
+                            <td className="py-1.5 pr-3 font-bold text-slate-700 capitalize">{change.field.replace(/([A-Z])/g, ' $1')}</td>
+                            <td className="py-1.5 pr-3 font-mono text-slate-500">{change.setting || '—'}</td>
+                            <td className="py-1.5">
+                              {change.kind === 'added' && (
+                                <span className="flex items-center gap-1 text-emerald-600 font-mono"><Plus size={12} /> {change.after ?? (change.setting === 'form' ? 'field added' : 'rule added')}</span>
+                              )}
+                              {change.kind === 'removed' && (
+                                <span className="flex items-center gap-1 text-red-600 font-mono line-through"><Minus size={12} /> {change.before ?? (change.setting === 'form' ? 'field removed' : 'rule removed')}</span>
+                              )}
+                              {change.kind === 'changed' && (
+                                <span className="flex items-center gap-1.5 font-mono flex-wrap">
+                                  <span className="text-red-600 line-through">{change.before}</span>
+                                  <ArrowRight size={12} className="text-slate-400" />
+                                  <span className="text-emerald-600">{change.after}</span>
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Users, UserPlus, KeyRound, Mail } from 'lucide-react';
+import * as api from '../lib/api';
+import { ROLES } from '../lib/permissions';
+import type { Role, User } from '../lib/types';
+
+interface UserAdminProps {
+  currentUser: User;
+  onError: (message: string) => void;
+  onSaved: (message: string) => void;
+}
+
+const EMPTY_FORM = { username: '', displayName: '', role: 'counsellor' as Role, email: '', password: '' };
+
+export default function UserAdmin({ currentUser, onError, onSaved }: UserAdminProps) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    api.fetchUsers().then(setUsers).catch(err => onError(`Could not load users: ${(err as Error).message}`));
+  }, []);
+
+  const replaceUser = (updated: User) => {
+    setUsers(prev => prev.map(u => u.id === updated.id ? updated : u));
+  };
+
+  const addUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const created = await api.createUser(form);
+      setUsers(prev => [...prev, created].sort((a, b) => a.username.localeCompare(b.username)));
+      setForm(EMPTY_FORM);
+      onSaved(`Created ${created.username}.`);
+    } catch (err) {
+      onError(`Could not create user: ${(err as Error).message}`);
+    }
+  };
+
+  const changeUser = async (user: User, changes: Parameters<typeof api.updateUser>[1]) => {
+    try {
+      replaceUser(await api.updateUser(user.id, changes));
+      onSaved(`Updated ${user.username}.`);
+    } catch (err) {
+      onError(`Could not update ${user.username}: ${(err as Error).message}`);
+    }
+  };
+
+  const changeEmail = (user: User) => {
+    const email = window.prompt(`Email address for ${user.username} (leave empty to stop emailing them):`, user.email ?? '');
+    if (email !== null) changeUser(user, { email: email.trim() || null });
+  };
+
+  const resetPassword = (user: User) => {
+    const password = window.prompt(`New password for ${user.username} (at least 8 characters):`);
+    if (password) changeUser(user, { password });
+  };
+
+  const inputClass = "w-full px-3 py-2 text-xs bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/10";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <Users className="text-brand-600" />
+          Users &amp; Roles
+        </h2>
+        <p className="text-sm text-slate-500 font-medium">Counsellors submit and see their own entries, managers review and export, admins manage rules and accounts. Managers and admins with an email address are asked by email to review flagged entries.</p>
+      </div>
+
+      <form onSubmit={addUser} className="grid grid-cols-1 md:grid-cols-6 gap-3 bg-white p-4 rounded-2xl border border-slate-200 shadow-sm items-end">
+        <div>
+          <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Username</label>
+          <input type="text" value={form.username} onChange={(e) => setForm({ ...form, username: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Display Name</label>
+          <input type="text" value={form.displayName} onChange={(e) => setForm({ ...form, displayName: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Role</label>
+          <select value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value as Role })} className={`${inputClass} capitalize`}>
+            {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Email</label>
+          <input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} placeholder="For notifications" className={inputClass} />
+        </div>
+        <div>
+          <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Initial Password</label>
+          <input type="password" value={form.password} onChange={(e) => setForm({ ...form, password: e.target.value })} className={inputClass} />
+        </div>
+        <button
+          type="submit"
+          className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-xl hover:bg-brand-700 shadow-lg shadow-brand-200 transition-all active:scale-95"
+        >
+          <UserPlus size={16} />
+          Add User
+        </button>
+      </form>
+
+      <div className="bg-white rounded-3xl border border-slate-200 overflow-hidden shadow-sm">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-50/50 border-b border-slate-100">
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">User</th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Role</th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Email</th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-center">Active</th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">Password</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {users.map(user => {
+              const isSelf = user.id === currentUser.id;
+              return (
+                <tr key={user.id} className={user.active ? '' : 'opacity-50'}>
+                  <td className="px-6 py-4">
+                    <p className="font-bold text-slate-900 text-sm">{user.displayName}{isSelf && <span className="ml-2 text-[10px] text-brand-600 uppercase">You</span>}</p>
+                    <p className="text-[10px] text-slate-400 font-medium">{user.username}</p>
+                  </td>
+                  <td className="px-6 py-4">
+                    <select
+                      value={user.role}
+                      disabled={isSelf}
+                      onChange={(e) => changeUser(user, { role: e.target.value as Role })}
+                      className="text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 capitalize disabled:opacity-60"
+                    >
+                      {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-6 py-4">
+                    <button
+                      type="button"
+                      onClick={() => changeEmail(user)}
+                      className="inline-flex items-center gap-1.5 text-xs text-slate-600 hover:text-brand-600"
+                      title="Change email address"
+                    >
+                      <Mail size={12} className="shrink-0" />
+                      {user.email ?? <span className="italic text-slate-400">Not set</span>}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 text-center">
+                    <input
+                      type="checkbox"
+                      checked={user.active}
+                      disabled={isSelf}
+                      onChange={(e) => changeUser(user, { active: e.target.checked })}
+                      className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                    />
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      type="button"
+                      onClick={() => resetPassword(user)}
+                      className="inline-flex items-center gap-1.5 px-3 py-1 text-[10px] font-bold text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 uppercase tracking-wider"
+                    >
+                      <KeyRound size={12} />
+                      Reset
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
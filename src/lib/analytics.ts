@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AuditLogEntry, RulesConfig } from './types';
+
+/** Which entries the analytics cover. */
+export interface AnalyticsFilter {
+  /** Local YYYY-MM-DD, inclusive; empty for no bound. */
+  from: string;
+  to: string;
+  /** Display name of the submitting user, null for imported entries, undefined for everyone. */
+  counsellor?: string | null;
+  /** Program id, null for entries from before programs, undefined for every program. */
+  program?: number | null;
+}
+
+export type TrendGranularity = 'day' | 'week';
+
+/** Submissions in one day or week, which starts on Monday. */
+export interface TrendBucket {
+  /** Local YYYY-MM-DD of the first day. */
+  start: string;
+  total: number;
+  flagged: number;
+}
+
+export interface CountItem {
+  label: string;
+  count: number;
+}
+
+export interface HistogramBin {
+  /** Inclusive lower bound. */
+  from: number;
+  /** Exclusive upper bound, except for the last bin, which includes it. */
+  to: number;
+  count: number;
+}
+
+export interface ExceptionRate {
+  /** A soft field rule's field or a cross-field rule's id. */
+  key: string;
+  label: string;
+  waived: number;
+  /** Share of the entries, 0 to 1. */
+  rate: number;
+}
+
+/** YYYY-MM-DD of a date in the browser's time zone, so a day means the user's day. */
+export function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(isoDate: string, days: number): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return localDate(new Date(year, month - 1, day + days));
+}
+
+function bucketStart(timestamp: string, granularity: TrendGranularity): string {
+  const date = new Date(timestamp);
+  if (granularity === 'week') date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+  return localDate(date);
+}
+
+/** Everyone who has submitted an entry, by name; imported entries appear as null. */
+export function counsellors(logs: AuditLogEntry[]): (string | null)[] {
+  const names = [...new Set(logs.map(log => log.submittedBy))];
+  return names.sort((a, b) => a === null ? 1 : b === null ? -1 : a.localeCompare(b));
+}
+
+export function filterEntries(logs: AuditLogEntry[], filter: AnalyticsFilter): AuditLogEntry[] {
+  return logs.filter(log => {
+    const day = localDate(new Date(log.timestamp));
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (filter.program !== undefined && log.programId !== filter.program) return false;
+    return filter.counsellor === undefined || log.submittedBy === filter.counsellor;
+  });
+}
+
+/** Submissions and flagged entries per day or week, oldest first, with empty periods in between kept. */
+export function submissionTrend(logs: AuditLogEntry[], granularity: TrendGranularity): TrendBucket[] {
+  if (logs.length === 0) return [];
+  const counts = new Map<string, TrendBucket>();
+  logs.forEach(log => {
+    const start = bucketStart(log.timestamp, granularity);
+    const bucket = counts.get(start) ?? { start, total: 0, flagged: 0 };
+    bucket.total++;
+    if (log.flagged) bucket.flagged++;
+    counts.set(start, bucket);
+  });
+  const starts = [...counts.keys()].sort();
+  const step = granularity === 'week' ? 7 : 1;
+  const buckets: TrendBucket[] = [];
+  for (let start = starts[0]; start <= starts[starts.length - 1]; start = addDays(start, step)) {
+    buckets.push(counts.get(start) ?? { start, total: 0, flagged: 0 });
+  }
+  return buckets;
+}
+
+/** How many entries get how far: each step is a subset of the one before it. */
+export function statusFunnel(logs: AuditLogEntry[]): CountItem[] {
+  const notRejected = logs.filter(log => log.status !== 'Rejected');
+  const cleared = notRejected.filter(log => log.status === 'Cleared');
+  return [
+    { label: 'Submitted', count: logs.length },
+    { label: 'Not Rejected', count: notRejected.length },
+    { label: 'Cleared', count: cleared.length },
+    { label: 'Offer Sent', count: cleared.filter(log => log.offerSent).length }
+  ];
+}
+
+/**
+ * How often each soft rule is waived. Covers the soft rules of the current
+ * config, and any other waived field that still appears on older entries.
+ */
+export function exceptionRates(logs: AuditLogEntry[], rules: RulesConfig): ExceptionRate[] {
+  const keys = [
+    ...Object.entries(rules.fields).filter(([, config]) => config.type === 'soft').map(([field]) => field),
+    ...rules.crossFieldRules.filter(rule => rule.type === 'soft').map(rule => rule.id)
+  ];
+  logs.forEach(log => Object.keys(log.exceptions).forEach(key => {
+    if (!keys.includes(key)) keys.push(key);
+  }));
+  return keys.map(key => {
+    const waived = logs.filter(log => log.exceptions[key]?.trim()).length;
+    return {
+      key,
+      label: rules.form.find(definition => definition.name === key)?.label ?? key,
+      waived,
+      rate: logs.length === 0 ? 0 : waived / logs.length
+    };
+  });
+}
+
+/** Counts of the numeric values in equal bins from `min` to `max`; values outside the range are left out. */
+export function histogram(values: string[], min: number, max: number, binSize: number): HistogramBin[] {
+  const bins: HistogramBin[] = [];
+  for (let from = min; from < max; from += binSize) bins.push({ from, to: Math.min(from + binSize, max), count: 0 });
+  values.forEach(raw => {
+    const value = parseFloat(raw);
+    if (raw.trim() === '' || isNaN(value) || value < min || value > max) return;
+    bins[Math.min(Math.floor((value - min) / binSize), bins.length - 1)].count++;
+  });
+  return bins;
+}
+
+/** Entries per qualification, most common first. */
+export function qualificationMix(logs: AuditLogEntry[]): CountItem[] {
+  const counts = new Map<string, number>();
+  logs.forEach(log => {
+    const label = log.qualification || 'Not given';
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
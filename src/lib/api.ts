@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DuplicateHints } from './duplicates';
+import { reviveRules, serializeRules } from './rules';
+import type {
+  Attachment, AuditEvent, AuditLogEntry, BatchRow, BatchRowResult, CandidateSubmission, ChainAnchor, ChainVerification, Draft, DraftForm,
+  ExceptionDecision, NotificationStatus, OutboxMessage, Program, RationaleCheck, Role, RulesConfig, RulesVersion, User
+} from './types';
+import type { ProgramSettings } from './programs';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** A non-2xx response from the AdmitGuard API. `body` is the parsed JSON payload, if any. */
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public body: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  /** Messages per field under `key`, such as the server's `errors` or `warnings`; empty when the body has none. */
+  fieldMessages(key: string): Record<string, string> {
+    const messages = this.body[key];
+    if (!isRecord(messages)) return {};
+    return Object.fromEntries(Object.entries(messages).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+  }
+}
+
+const SESSION_KEY = 'admitguard_session';
+
+async function send(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = localStorage.getItem(SESSION_KEY);
+  const response = await fetch(`/api${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init.headers
+    }
+  });
+  if (!response.ok) {
+    const parsed: unknown = await response.json().catch(() => ({}));
+    const body = isRecord(parsed) ? parsed : {};
+    const message = typeof body.error === 'string' && body.error ? body.error : `Request failed with status ${response.status}.`;
+    throw new ApiError(response.status, message, body);
+  }
+  return response;
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await send(path, init);
+  if (response.status === 204) return undefined as T;
+  return await response.json().catch(() => ({})) as T;
+}
+
+/** Sends a file as the raw request body; `name` and `field` travel in the query string. */
+function uploadQuery(file: File, field: string | null, program?: number | null): string {
+  return new URLSearchParams({ name: file.name, ...(field ? { field } : {}), ...(program ? { program: String(program) } : {}) }).toString();
+}
+
+/** `?program=…` for the rules routes; none means the default rules. */
+function programQuery(program: number | null): string {
+  return program === null ? '' : `?program=${program}`;
+}
+
+/** Signs in and keeps the session token for later requests. */
+export async function login(username: string, password: string): Promise<User> {
+  const { token, user } = await request<{ token: string; user: User }>('/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password })
+  });
+  localStorage.setItem(SESSION_KEY, token);
+  return user;
+}
+
+export async function logout(): Promise<void> {
+  try {
+    await request('/auth/logout', { method: 'POST' });
+  } finally {
+    localStorage.removeItem(SESSION_KEY);
+  }
+}
+
+/** The signed-in user, or null when there is no live session. */
+export async function fetchCurrentUser(): Promise<User | null> {
+  if (!localStorage.getItem(SESSION_KEY)) return null;
+  try {
+    return await request<User>('/auth/me');
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 401) {
+      localStorage.removeItem(SESSION_KEY);
+      return null;
+    }
+    throw err;
+  }
+}
+
+export function fetchUsers(): Promise<User[]> {
+  return request('/users');
+}
+
+export function createUser(user: { username: string; displayName: string; role: Role; email: string; password: string }): Promise<User> {
+  return request('/users', { method: 'POST', body: JSON.stringify(user) });
+}
+
+export function updateUser(id: number, changes: Partial<Pick<User, 'displayName' | 'role' | 'email' | 'active'>> & { password?: string }): Promise<User> {
+  return request(`/users/${id}`, { method: 'PATCH', body: JSON.stringify(changes) });
+}
+
+function reviveVersion(body: RulesVersion): RulesVersion {
+  return { ...body, rules: reviveRules(body.rules) };
+}
+
+export function fetchLogs(): Promise<AuditLogEntry[]> {
+  return request('/candidates');
+}
+
+export function fetchCandidate(id: number): Promise<AuditLogEntry> {
+  return request(`/candidates/${id}`);
+}
+
+/**
+ * Existing entries that share any of these field values, among the fields the
+ * program's rules check. Sent in the body, so Aadhaar numbers stay out of URLs.
+ */
+export function findDuplicates(values: Record<string, string>, program: number | null): Promise<DuplicateHints> {
+  return request('/candidates/duplicates', { method: 'POST', body: JSON.stringify({ program, values }) });
+}
+
+export function submitCandidate(submission: CandidateSubmission, programId: number): Promise<AuditLogEntry> {
+  return request('/candidates', { method: 'POST', body: JSON.stringify({ ...submission, programId }) });
+}
+
+/** Scores a rationale being written, without storing it; null when the server has rationale checks turned off. */
+export function checkRationale(draft: { field: string; warning: string; rationale: string; program: number | null }): Promise<RationaleCheck | null> {
+  return request('/rationale-checks', { method: 'POST', body: JSON.stringify(draft) });
+}
+
+/** Saves an edited entry; the server re-validates it and records each changed value with `reason`. */
+export function updateCandidate(id: number, submission: CandidateSubmission, reason: string): Promise<AuditLogEntry> {
+  return request(`/candidates/${id}`, { method: 'PATCH', body: JSON.stringify({ submission, reason }) });
+}
+
+/**
+ * Uploads a supporting document for a form not yet submitted; pass its id in
+ * the submission's `attachmentIds` to attach it. `field` is the waived
+ * warning it supports, or null for the candidate as a whole; `program` is the
+ * one the form is filled in for.
+ */
+export function uploadAttachment(file: File, field: string | null, program: number | null): Promise<Attachment> {
+  return request(`/attachments?${uploadQuery(file, field, program)}`, { method: 'POST', body: file, headers: { 'Content-Type': file.type } });
+}
+
+/** Adds a supporting document to a submitted entry. */
+export function addEntryAttachment(id: number, file: File, field: string | null): Promise<AuditLogEntry> {
+  return request(`/candidates/${id}/attachments?${uploadQuery(file, field)}`, {
+    method: 'POST',
+    body: file,
+    headers: { 'Content-Type': file.type }
+  });
+}
+
+export async function downloadAttachment(id: number): Promise<Blob> {
+  return (await send(`/attachments/${id}`)).blob();
+}
+
+/** Generates an offer letter from the template in force and marks the offer sent. */
+export function issueOfferLetter(id: number, offer: { program: string; startDate: string }): Promise<AuditLogEntry> {
+  return request(`/candidates/${id}/offer-letters`, { method: 'POST', body: JSON.stringify(offer) });
+}
+
+export async function downloadOfferLetter(id: number, letterId: number): Promise<Blob> {
+  return (await send(`/candidates/${id}/offer-letters/${letterId}`)).blob();
+}
+
+/** What the program's rules make of each row of a bulk import, without storing any. */
+export function checkBatch(rows: BatchRow[], programId: number): Promise<{ rulesVersion: number; results: BatchRowResult[] }> {
+  return request('/candidates/batch/check', { method: 'POST', body: JSON.stringify({ rows, programId }) });
+}
+
+/** Stores the rows of a bulk import that pass the program's rules; the results say which did. */
+export function importBatch(rows: BatchRow[], programId: number): Promise<{ rulesVersion: number; imported: number; results: BatchRowResult[] }> {
+  return request('/candidates/batch', { method: 'POST', body: JSON.stringify({ rows, programId }) });
+}
+
+export interface ReviewSubmission {
+  /** Overall comment recorded with the status transition. */
+  comment: string;
+  decisions: Record<string, { decision: ExceptionDecision; comment: string }>;
+}
+
+export function submitReview(id: number, review: ReviewSubmission): Promise<AuditLogEntry> {
+  return request(`/candidates/${id}/review`, { method: 'POST', body: JSON.stringify(review) });
+}
+
+export function clearAllLogs(): Promise<void> {
+  return request('/candidates', { method: 'DELETE' });
+}
+
+/** The signed-in user's drafts, most recently saved first. */
+export function fetchDrafts(): Promise<Draft[]> {
+  return request('/drafts');
+}
+
+/** Saves a draft: a new one without `id`, otherwise over the existing one. */
+export function saveDraft(form: DraftForm, id: number | null): Promise<Draft> {
+  return id === null
+    ? request('/drafts', { method: 'POST', body: JSON.stringify({ form }) })
+    : request(`/drafts/${id}`, { method: 'PUT', body: JSON.stringify({ form }) });
+}
+
+export function deleteDraft(id: number): Promise<void> {
+  return request(`/drafts/${id}`, { method: 'DELETE' });
+}
+
+/** The newest events of the hash-chained audit trail, newest first. */
+export function fetchAuditEvents(limit = 100): Promise<AuditEvent[]> {
+  return request(`/audit/events?limit=${limit}`);
+}
+
+/** Recomputes every link of the audit trail on the server, and checks it still reaches `anchor` if given. */
+export function verifyAuditChain(anchor?: ChainAnchor): Promise<ChainVerification> {
+  return request(anchor ? `/audit/verify?${new URLSearchParams({ count: String(anchor.eventCount), head: anchor.headHash })}` : '/audit/verify');
+}
+
+/** Emails in the outbox, newest first, optionally only those with one status. */
+export function fetchNotifications(status?: NotificationStatus): Promise<OutboxMessage[]> {
+  return request(status ? `/notifications?status=${status}` : '/notifications');
+}
+
+/** Queues a failed email again. */
+export function retryNotification(id: number): Promise<OutboxMessage> {
+  return request(`/notifications/${id}/retry`, { method: 'POST' });
+}
+
+/** Intake programs, the ones opening last first. */
+export function fetchPrograms(): Promise<Program[]> {
+  return request('/programs');
+}
+
+/** Starts a program with a copy of the rules of `copyFrom`, or of the default rules when it is null. */
+export function createProgram(settings: ProgramSettings, copyFrom: number | null): Promise<Program> {
+  return request('/programs', { method: 'POST', body: JSON.stringify({ ...settings, copyFrom }) });
+}
+
+export function updateProgram(id: number, settings: ProgramSettings): Promise<Program> {
+  return request(`/programs/${id}`, { method: 'PATCH', body: JSON.stringify(settings) });
+}
+
+/** The rules version in force for a program, or the default rules when `program` is null. */
+export async function fetchRules(program: number | null): Promise<RulesVersion> {
+  return reviveVersion(await request(`/rules${programQuery(program)}`));
+}
+
+/** Every version of a program's rules (or the default rules), newest first. */
+export async function fetchRulesHistory(program: number | null): Promise<RulesVersion[]> {
+  const versions = await request<RulesVersion[]>(`/rules/versions${programQuery(program)}`);
+  return versions.map(reviveVersion);
+}
+
+export async function saveRules(rules: RulesConfig, note: string, program: number | null): Promise<RulesVersion> {
+  return reviveVersion(await request('/rules', {
+    method: 'PUT',
+    body: JSON.stringify({ rules: serializeRules(rules), note, program })
+  }));
+}
+
+/** Publishes the factory defaults as a new version of a program's (or the default) rules. */
+export async function resetRules(note: string, program: number | null): Promise<RulesVersion> {
+  return reviveVersion(await request('/rules/reset', { method: 'POST', body: JSON.stringify({ note, program }) }));
+}
+
+/** Publishes a copy of an earlier version as the newest one of the rules it belongs to. */
+export async function rollbackRules(version: number, note?: string): Promise<RulesVersion> {
+  return reviveVersion(await request(`/rules/versions/${version}/rollback`, {
+    method: 'POST',
+    body: JSON.stringify({ note })
+  }));
+}
+
+const LEGACY_LOGS_KEY = 'admitguard_logs';
+const LEGACY_RULES_KEY = 'admitguard_rules';
+
+/**
+ * Moves audit logs and rules that older versions kept in localStorage onto the
+ * server, then removes them from the browser. Resolves to null when there was
+ * nothing to import.
+ */
+export async function importLegacyData(): Promise<{ imported: number; skipped: number; rulesImported: boolean } | null> {
+  const logs = localStorage.getItem(LEGACY_LOGS_KEY);
+  const rules = localStorage.getItem(LEGACY_RULES_KEY);
+  if (!logs && !rules) return null;
+
+  const result = await request<{ imported: number; skipped: number; rulesImported: boolean }>('/import', {
+    method: 'POST',
+    body: JSON.stringify({
+      logs: logs ? JSON.parse(logs) : [],
+      rules: rules ? JSON.parse(rules) : undefined
+    })
+  });
+  localStorage.removeItem(LEGACY_LOGS_KEY);
+  localStorage.removeItem(LEGACY_RULES_KEY);
+  return result;
+}
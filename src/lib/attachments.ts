@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Attachment } from './types';
+
+/** Content types a supporting document may have, with how they are named to users. */
+export const ATTACHMENT_TYPES: Record<string, string> = {
+  'application/pdf': 'PDF',
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP'
+};
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Why a file cannot be attached, or an empty string when it can. */
+export function attachmentProblem(file: { type: string; size: number }): string {
+  if (!ATTACHMENT_TYPES[file.type]) return `Only ${Object.values(ATTACHMENT_TYPES).join(', ')} files can be attached.`;
+  if (file.size === 0) return 'The file is empty.';
+  if (file.size > MAX_ATTACHMENT_BYTES) return `Attachments can be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}.`;
+  return '';
+}
+
+/** How many documents support each waived field, as the rules engine counts them. */
+export function attachmentCounts(attachments: Pick<Attachment, 'field'>[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  attachments.forEach(({ field }) => {
+    if (field !== null) counts[field] = (counts[field] || 0) + 1;
+  });
+  return counts;
+}
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { fieldValue } from './formSchema';
+import { maskAadhaar, maskDate, maskEmail, maskPhone } from './pii';
+import type { AuditLogEntry, FieldDefinition } from './types';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+}
+
+export interface ExportOptions {
+  /** Column ids, in output order. */
+  columns: string[];
+  /** Replaces Aadhaar, email, phone and date of birth with their masked forms. */
+  maskPii: boolean;
+}
+
+/** Exception details; expands into rationale and decision columns per waived field. */
+export const EXCEPTIONS_COLUMN = 'exceptions';
+
+const ENTRY_COLUMNS: ExportColumn[] = [
+  { id: 'program', label: 'Program' },
+  { id: 'isCgpa', label: 'Score is CGPA' },
+  { id: 'offerSent', label: 'Offer Letter Sent' },
+  { id: 'offerSentAt', label: 'Offer Letter Issued At' },
+  { id: 'flagged', label: 'Flagged' },
+  { id: 'exceptionCount', label: 'Exception Count' },
+  { id: EXCEPTIONS_COLUMN, label: 'Exception Details' },
+  { id: 'reviewStatus', label: 'Review Status' },
+  { id: 'submittedBy', label: 'Submitted By' },
+  { id: 'rulesVersion', label: 'Rules Version' },
+  { id: 'timestamp', label: 'Submitted At' }
+];
+
+const MASKS: Record<string, (value: string) => string> = {
+  aadhaar: maskAadhaar,
+  email: maskEmail,
+  phone: maskPhone,
+  dob: maskDate
+};
+
+/** Every column an export can hold: the audit id, the form's fields, then entry details. */
+export function exportColumns(form: FieldDefinition[]): ExportColumn[] {
+  return [
+    { id: 'id', label: 'Audit ID' },
+    ...form.map(definition => ({ id: definition.name, label: definition.label })),
+    ...ENTRY_COLUMNS
+  ];
+}
+
+function columnValue(entry: AuditLogEntry, id: string, form: FieldDefinition[], maskPii: boolean): ExportValue {
+  const definition = form.find(field => field.name === id);
+  if (definition) {
+    const value = fieldValue(entry, id);
+    if (maskPii && MASKS[id]) return MASKS[id](value);
+    if (definition.input === 'number' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+    return value;
+  }
+  switch (id) {
+    case 'id': return entry.id;
+    case 'program': return entry.program;
+    case 'isCgpa': return entry.isCgpa;
+    case 'offerSent': return entry.offerSent;
+    case 'offerSentAt': return entry.offerSentAt;
+    case 'flagged': return entry.flagged;
+    case 'exceptionCount': return entry.exceptionCount;
+    case 'reviewStatus': return entry.reviewStatus;
+    case 'submittedBy': return entry.submittedBy;
+    case 'rulesVersion': return entry.rulesVersion;
+    case 'timestamp': return entry.timestamp;
+    default: return null;
+  }
+}
+
+/** Fields waived on any of the entries, in form order and then the order first seen. */
+function waivedFields(entries: AuditLogEntry[], form: FieldDefinition[]): string[] {
+  const fields = new Set<string>();
+  entries.forEach(entry => Object.keys(entry.exceptions).forEach(field => fields.add(field)));
+  const order = form.map(definition => definition.name);
+  return [...fields].sort((a, b) => {
+    const ia = order.indexOf(a);
+    const ib = order.indexOf(b);
+    return (ia < 0 ? order.length : ia) - (ib < 0 ? order.length : ib);
+  });
+}
+
+function fieldLabel(field: string, form: FieldDefinition[]): string {
+  return form.find(definition => definition.name === field)?.label || field;
+}
+
+/**
+ * Header and value rows for CSV and XLSX. The exception details column becomes
+ * rationale, decision, reviewer and review comment columns for each field
+ * waived on any of the entries.
+ */
+export function exportTable(entries: AuditLogEntry[], form: FieldDefinition[], options: ExportOptions): {
+  headers: string[];
+  rows: ExportValue[][];
+} {
+  const labels = new Map(exportColumns(form).map(column => [column.id, column.label]));
+  const waived = options.columns.includes(EXCEPTIONS_COLUMN) ? waivedFields(entries, form) : [];
+
+  const headers = options.columns.flatMap(id => id === EXCEPTIONS_COLUMN
+    ? waived.flatMap(field => {
+      const label = fieldLabel(field, form);
+      return [`${label} Exception Rationale`, `${label} Exception Decision`, `${label} Decided By`, `${label} Review Comment`];
+    })
+    : [labels.get(id) || id]
+  );
+
+  const rows = entries.map(entry => options.columns.flatMap((id): ExportValue[] => id === EXCEPTIONS_COLUMN
+    ? waived.flatMap(field => {
+      const review = entry.exceptionReviews[field];
+      return [entry.exceptions[field] ?? null, review?.decision ?? null, review?.reviewer ?? null, review?.comment ?? null];
+    })
+    : [columnValue(entry, id, form, options.maskPii)]
+  ));
+
+  return { headers, rows };
+}
+
+/** One object per entry for JSON, keyed by column id; exception details nest per waived field. */
+export function exportRecords(entries: AuditLogEntry[], form: FieldDefinition[], options: ExportOptions): Record<string, unknown>[] {
+  return entries.map(entry => {
+    const record: Record<string, unknown> = {};
+    options.columns.forEach(id => {
+      if (id !== EXCEPTIONS_COLUMN) {
+        record[id] = columnValue(entry, id, form, options.maskPii);
+        return;
+      }
+      record[id] = Object.entries(entry.exceptions).map(([field, rationale]) => {
+        const review = entry.exceptionReviews[field];
+        return {
+          field,
+          label: fieldLabel(field, form),
+          rationale,
+          decision: review?.decision ?? null,
+          decidedBy: review?.reviewer ?? null,
+          decidedAt: review?.decidedAt ?? null,
+          comment: review?.comment ?? null
+        };
+      });
+    });
+    return record;
+  });
+}
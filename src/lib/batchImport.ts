@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { emptyCandidate } from './formSchema';
+import type { BatchRow, FieldDefinition } from './types';
+
+/** Columns that set the form's toggles rather than a field. */
+export const TOGGLE_COLUMNS = [
+  { name: 'isCgpa', label: 'Score is CGPA' },
+  { name: 'offerSent', label: 'Offer Letter Sent' }
+];
+
+function comparable(text: string): string {
+  return text.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Best guess at which field each spreadsheet column holds, by field name or
+ * label ("Date of Birth", "dob", "DOB" all match). Unmatched columns map to
+ * an empty string, and no field is matched twice.
+ */
+export function guessColumns(headers: string[], form: FieldDefinition[]): string[] {
+  const targets = [...form, ...TOGGLE_COLUMNS];
+  const used = new Set<string>();
+  return headers.map(header => {
+    const key = comparable(header);
+    const match = key && targets.find(target =>
+      !used.has(target.name) && (comparable(target.name) === key || comparable(target.label) === key)
+    );
+    if (!match) return '';
+    used.add(match.name);
+    return match.name;
+  });
+}
+
+/** Reads yes/no style spreadsheet values ("Yes", "Y", "TRUE", "1"). */
+export function parseFlag(value: string): boolean {
+  return /^(y|yes|true|1|cgpa)$/i.test(value.trim());
+}
+
+/**
+ * Spreadsheets from campus drives write dates as DD/MM/YYYY or DD-MM-YYYY;
+ * the form and the rules expect YYYY-MM-DD. Anything else is left as is.
+ */
+export function normalizeDate(value: string): string {
+  const match = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (!match) return value.trim();
+  const [, day, month, year] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * Turns spreadsheet rows into import rows using the chosen column for each
+ * field. `isCgpa` applies to rows without a column saying otherwise, and
+ * `waivers` (rationale per field) to every row.
+ */
+export function buildBatchRows(
+  rows: string[][],
+  columns: string[],
+  form: FieldDefinition[],
+  defaults: { isCgpa: boolean },
+  waivers: Record<string, string> = {}
+): BatchRow[] {
+  const inputs = new Map(form.map(definition => [definition.name, definition.input]));
+  return rows.map(cells => {
+    const candidate = emptyCandidate(form);
+    let isCgpa = defaults.isCgpa;
+    let offerSent = false;
+    columns.forEach((target, i) => {
+      const value = (cells[i] ?? '').trim();
+      if (target === 'isCgpa') isCgpa = value ? parseFlag(value) : defaults.isCgpa;
+      else if (target === 'offerSent') offerSent = parseFlag(value);
+      else if (target) candidate[target] = inputs.get(target) === 'date' ? normalizeDate(value) : value;
+    });
+    return { candidate, isCgpa, offerSent, exceptions: { ...waivers } };
+  });
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells containing commas,
+ * quotes (`""`) and line breaks, CRLF line endings and a leading byte order
+ * mark. Rows with no content are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim())) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) endRow();
+  return rows;
+}
+
+/** What spreadsheet apps take as the start of a formula. */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number | boolean | null): string {
+  const raw = value === null ? '' : typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV: cells holding commas, quotes, line breaks or surrounding
+ * spaces are quoted, and lines end in CRLF. Booleans are written as Yes/No.
+ * Text that a spreadsheet would run as a formula, starting with `=`, `+`,
+ * `-`, `@`, a tab or a carriage return, is kept as text with a leading `'`.
+ */
+export function toCsv(rows: (string | number | boolean | null)[][]): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { attachmentCounts } from './attachments';
+import { emptyCandidate, splitCandidate } from './formSchema';
+import { validateCandidate, type ValidationResult } from './validation';
+import type { CandidateSubmission, DraftForm, FieldDefinition, RulesConfig } from './types';
+
+export function emptyDraft(schema: FieldDefinition[]): DraftForm {
+  return { candidate: emptyCandidate(schema), isCgpa: false, offerSent: false, exceptions: {}, rationales: {}, attachments: [] };
+}
+
+/** Nothing has been typed yet; toggles alone are not worth keeping. */
+export function isBlankDraft(form: DraftForm): boolean {
+  return Object.values(form.candidate).every(value => !String(value ?? '').trim())
+    && Object.values(form.rationales).every(text => !text.trim())
+    && !form.attachments?.length;
+}
+
+/** A draft that was saved under an older form: fields added since start empty. */
+export function resumedDraft(form: DraftForm, schema: FieldDefinition[]): DraftForm {
+  return { ...form, candidate: { ...emptyCandidate(schema), ...form.candidate }, attachments: form.attachments ?? [] };
+}
+
+export function draftTitle(form: DraftForm): string {
+  return form.candidate.fullName?.trim() || 'Untitled candidate';
+}
+
+/**
+ * The form checked against the rules, and the submission it makes: every
+ * ticked waiver with its rationale and documents, the documents about the
+ * candidate as a whole, and the counts the rules derive. `referenceDate` is
+ * the date of the form's program, for the age checks.
+ */
+export function draftSubmission(
+  form: DraftForm,
+  rules: RulesConfig,
+  referenceDate?: Date
+): { submission: CandidateSubmission; result: ValidationResult } {
+  // Documents of a waiver that was unticked again go with it.
+  const attachments = (form.attachments ?? []).filter(({ field }) => field === null || form.exceptions[field]);
+  const result = validateCandidate({ ...form, attachments: attachmentCounts(attachments), referenceDate }, rules);
+  const { fields, extraFields } = splitCandidate(form.candidate, rules.form);
+  const submission: CandidateSubmission = {
+    ...fields,
+    extraFields,
+    offerSent: form.offerSent,
+    exceptions: Object.keys(form.exceptions).filter(k => form.exceptions[k]).reduce((obj, key) => {
+      obj[key] = form.rationales[key];
+      return obj;
+    }, {} as Record<string, string>),
+    flagged: result.isFlagged,
+    exceptionCount: result.activeExceptionCount,
+    isCgpa: form.isCgpa,
+    attachmentIds: attachments.map(attachment => attachment.id)
+  };
+  return { submission, result };
+}
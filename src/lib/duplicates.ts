@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CandidateRecord, DuplicateHint, DuplicateMatch, HiddenDuplicate, RulesConfig } from './types';
+
+/** Existing entries per field, for fields that have at least one match. */
+export type DuplicateMatches = Record<string, DuplicateMatch[]>;
+
+/** Matches per field as a user is shown them, with the entries they may not open hidden. */
+export type DuplicateHints = Record<string, DuplicateHint[]>;
+
+export function isHiddenDuplicate(hint: DuplicateHint): hint is HiddenDuplicate {
+  return !('id' in hint);
+}
+
+/** Whether a value from an error response is shaped like duplicate hints: lists of matches per field. */
+export function isDuplicateHints(value: unknown): value is DuplicateHints {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.values(value).every(hints => Array.isArray(hints) && hints.every(hint => !!hint && typeof hint === 'object'));
+}
+
+/** Who a value is on file for, as far as the user may know. */
+export function duplicateOwner(hint: DuplicateHint): string {
+  return isHiddenDuplicate(hint) ? 'another entry' : hint.fullName;
+}
+
+/** Fields whose rule asks for a duplicate check. */
+export function duplicateCheckedFields(rules: RulesConfig): string[] {
+  return Object.entries(rules.fields)
+    .filter(([, config]) => config.duplicateCheck === 'warn' || config.duplicateCheck === 'block')
+    .map(([field]) => field);
+}
+
+/**
+ * The values worth looking up: filled in, and not already failing a rule
+ * (a half-typed phone number is not a duplicate of anything yet).
+ */
+export function duplicateLookup(candidate: CandidateRecord, rules: RulesConfig, errors: Record<string, string>): Record<string, string> {
+  const lookup: Record<string, string> = {};
+  duplicateCheckedFields(rules).forEach(field => {
+    const value = (candidate[field] || '').trim();
+    if (value && !errors[field]) lookup[field] = value;
+  });
+  return lookup;
+}
+
+/** Errors for matches on fields configured to block. */
+export function duplicateErrors(matches: DuplicateHints, rules: RulesConfig): Record<string, string> {
+  const errors: Record<string, string> = {};
+  Object.entries(matches).forEach(([field, found]) => {
+    if (found.length > 0 && rules.fields[field]?.duplicateCheck === 'block') {
+      errors[field] = `Already on file for ${duplicateOwner(found[0])}; duplicate entries are not allowed.`;
+    }
+  });
+  return errors;
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CORE_FIELDS } from './formSchema';
+import { maskAadhaar } from './pii';
+import type { CandidateSubmission, FieldChange, FieldDefinition } from './types';
+
+const EXCEPTION_PREFIX = 'exception:';
+
+function flag(value: boolean): string {
+  return value ? 'Yes' : 'No';
+}
+
+/**
+ * Values that differ between an entry and its edited version: fields, the
+ * CGPA and offer toggles, and waiver rationales. Aadhaar numbers are compared
+ * in full but reported masked.
+ */
+export function diffSubmissions(
+  before: CandidateSubmission,
+  after: CandidateSubmission
+): Pick<FieldChange, 'field' | 'oldValue' | 'newValue'>[] {
+  const changes: Pick<FieldChange, 'field' | 'oldValue' | 'newValue'>[] = [];
+  const add = (field: string, oldValue: string, newValue: string) => {
+    if (oldValue !== newValue) changes.push({ field, oldValue, newValue });
+  };
+
+  CORE_FIELDS.forEach(field => {
+    if (field === 'aadhaar') {
+      if (before.aadhaar !== after.aadhaar) changes.push({ field, oldValue: maskAadhaar(before.aadhaar), newValue: maskAadhaar(after.aadhaar) });
+      return;
+    }
+    add(field, before[field] ?? '', after[field] ?? '');
+  });
+  new Set([...Object.keys(before.extraFields || {}), ...Object.keys(after.extraFields || {})]).forEach(field => {
+    add(field, before.extraFields?.[field] ?? '', after.extraFields?.[field] ?? '');
+  });
+  add('isCgpa', flag(before.isCgpa), flag(after.isCgpa));
+  add('offerSent', flag(before.offerSent), flag(after.offerSent));
+  new Set([...Object.keys(before.exceptions), ...Object.keys(after.exceptions)]).forEach(field => {
+    add(`${EXCEPTION_PREFIX}${field}`, before.exceptions[field] ?? '', after.exceptions[field] ?? '');
+  });
+  return changes;
+}
+
+/** How a changed field reads in the history: its form label, or what the toggle or waiver is. */
+export function changeLabel(field: string, form: FieldDefinition[]): string {
+  const label = (name: string) => form.find(definition => definition.name === name)?.label || name;
+  if (field === 'isCgpa') return 'Score is CGPA';
+  if (field === 'offerSent') return 'Offer Letter Sent';
+  if (field.startsWith(EXCEPTION_PREFIX)) return `Exception rationale: ${label(field.slice(EXCEPTION_PREFIX.length))}`;
+  return label(field);
+}
@@ -0,0 +1,330 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A small expression language for rules that look at more than one field,
+ * e.g. `gradYear - year(dob) >= 20` or `qualification in ['M.Tech', 'MCA']`.
+ * It is parsed into a tree and interpreted, never compiled to JavaScript, so a
+ * rules config cannot run arbitrary code.
+ *
+ * - Values: numbers, 'strings' or "strings", true, false, [lists], and field names.
+ * - Operators, loosest first: `or`, `and`, `not`, comparisons (`== != < <= > >=`,
+ *   `in`, `not in`), `+ -`, `* /`, unary `-`. `&&`, `||`, `!`, `=`, `≤`, `≥`
+ *   and `≠` are accepted too.
+ * - Functions: `year(date)`, `age(date)`, `len(text)`, `lower(text)`.
+ *
+ * Field values are the strings the form produced; arithmetic and ordering
+ * treat them as numbers, and `==` compares numerically when both sides look
+ * like numbers.
+ */
+
+export type ExpressionValue = string | number | boolean | ExpressionValue[];
+
+export type Expression =
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'field'; name: string }
+  | { kind: 'list'; items: Expression[] }
+  | { kind: 'call'; fn: string; args: Expression[] }
+  | { kind: 'unary'; op: 'not' | '-'; operand: Expression }
+  | { kind: 'binary'; op: string; left: Expression; right: Expression }
+  | { kind: 'in'; value: Expression; list: Expression; negated: boolean };
+
+export class ExpressionError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+export interface ExpressionScope {
+  values: Record<string, string | boolean>;
+  /** Completed years since a date, for `age()`; the caller decides what "today" is. */
+  age: (date: string) => number;
+}
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'op' | 'end';
+  text: string;
+  position: number;
+}
+
+const ALIASES: Record<string, string> = {
+  '&&': 'and', '||': 'or', '!': 'not', '=': '==', '≤': '<=', '≥': '>=', '≠': '!='
+};
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '<', '>', '=', '!', '≤', '≥', '≠', '+', '-', '*', '/', '(', ')', '[', ']', ','];
+const KEYWORDS = ['and', 'or', 'not', 'in', 'true', 'false'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)/);
+      if (!match) throw new ExpressionError(`Unexpected "${char}".`, i);
+      tokens.push({ type: 'number', text: match[0], position: i });
+      i += match[0].length;
+    } else if (char === "'" || char === '"') {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new ExpressionError('Unterminated string.', i);
+      tokens.push({ type: 'string', text: source.slice(i + 1, end), position: i });
+      i = end + 1;
+    } else if (/[a-zA-Z_]/.test(char)) {
+      const name = source.slice(i).match(/^[a-zA-Z_][a-zA-Z0-9_]*/)![0];
+      tokens.push({ type: 'name', text: name, position: i });
+      i += name.length;
+    } else {
+      const op = OPERATORS.find(candidate => source.startsWith(candidate, i));
+      if (!op) throw new ExpressionError(`Unexpected "${char}".`, i);
+      tokens.push({ type: 'op', text: ALIASES[op] ?? op, position: i });
+      i += op.length;
+    }
+  }
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+const FUNCTIONS: Record<string, { arity: number; apply: (args: ExpressionValue[], scope: ExpressionScope) => ExpressionValue }> = {
+  year: { arity: 1, apply: ([date]) => new Date(String(date)).getFullYear() },
+  age: { arity: 1, apply: ([date], scope) => scope.age(String(date)) },
+  len: { arity: 1, apply: ([text]) => String(text).length },
+  lower: { arity: 1, apply: ([text]) => String(text).toLowerCase() }
+};
+
+/** Recursive descent over the token list; one method per precedence level. */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Expression {
+    const expression = this.or();
+    const next = this.peek();
+    if (next.type !== 'end') throw new ExpressionError(`Unexpected "${next.text}".`, next.position);
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(text: string): boolean {
+    const token = this.peek();
+    if ((token.type === 'op' || token.type === 'name') && token.text === text) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string) {
+    const token = this.peek();
+    if (!this.accept(text)) {
+      throw new ExpressionError(token.type === 'end' ? `Expected "${text}" at the end.` : `Expected "${text}" but found "${token.text}".`, token.position);
+    }
+  }
+
+  private or(): Expression {
+    let left = this.and();
+    while (this.accept('or')) left = { kind: 'binary', op: 'or', left, right: this.and() };
+    return left;
+  }
+
+  private and(): Expression {
+    let left = this.not();
+    while (this.accept('and')) left = { kind: 'binary', op: 'and', left, right: this.not() };
+    return left;
+  }
+
+  private not(): Expression {
+    if (this.accept('not')) return { kind: 'unary', op: 'not', operand: this.not() };
+    return this.comparison();
+  }
+
+  private comparison(): Expression {
+    const left = this.additive();
+    const token = this.peek();
+    if (token.type === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(token.text)) {
+      this.index++;
+      return { kind: 'binary', op: token.text, left, right: this.additive() };
+    }
+    if (this.accept('in')) return { kind: 'in', value: left, list: this.additive(), negated: false };
+    if (token.type === 'name' && token.text === 'not' && this.tokens[this.index + 1]?.text === 'in') {
+      this.index += 2;
+      return { kind: 'in', value: left, list: this.additive(), negated: true };
+    }
+    return left;
+  }
+
+  private additive(): Expression {
+    let left = this.multiplicative();
+    for (let op = this.peek().text; (op === '+' || op === '-') && this.peek().type === 'op'; op = this.peek().text) {
+      this.index++;
+      left = { kind: 'binary', op, left, right: this.multiplicative() };
+    }
+    return left;
+  }
+
+  private multiplicative(): Expression {
+    let left = this.unary();
+    for (let op = this.peek().text; (op === '*' || op === '/') && this.peek().type === 'op'; op = this.peek().text) {
+      this.index++;
+      left = { kind: 'binary', op, left, right: this.unary() };
+    }
+    return left;
+  }
+
+  private unary(): Expression {
+    if (this.accept('-')) return { kind: 'unary', op: '-', operand: this.unary() };
+    return this.primary();
+  }
+
+  private primary(): Expression {
+    const token = this.peek();
+    this.index++;
+    if (token.type === 'number') return { kind: 'literal', value: Number(token.text) };
+    if (token.type === 'string') return { kind: 'literal', value: token.text };
+    if (token.type === 'op' && token.text === '(') {
+      const inner = this.or();
+      this.expect(')');
+      return inner;
+    }
+    if (token.type === 'op' && token.text === '[') {
+      const items: Expression[] = [];
+      if (!this.accept(']')) {
+        do items.push(this.or()); while (this.accept(','));
+        this.expect(']');
+      }
+      return { kind: 'list', items };
+    }
+    if (token.type === 'name' && (token.text === 'true' || token.text === 'false')) {
+      return { kind: 'literal', value: token.text === 'true' };
+    }
+    if (token.type === 'name' && !KEYWORDS.includes(token.text)) {
+      if (!this.accept('(')) return { kind: 'field', name: token.text };
+      const fn = FUNCTIONS[token.text];
+      if (!fn) throw new ExpressionError(`Unknown function "${token.text}".`, token.position);
+      const args: Expression[] = [];
+      if (!this.accept(')')) {
+        do args.push(this.or()); while (this.accept(','));
+        this.expect(')');
+      }
+      if (args.length !== fn.arity) {
+        throw new ExpressionError(`${token.text}() takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}.`, token.position);
+      }
+      return { kind: 'call', fn: token.text, args };
+    }
+    throw new ExpressionError(token.type === 'end' ? 'The expression ends too early.' : `Unexpected "${token.text}".`, token.position);
+  }
+}
+
+const parsed = new Map<string, Expression>();
+
+/** Parses (and caches) an expression. Throws `ExpressionError` on bad syntax. */
+export function parseExpression(source: string): Expression {
+  let expression = parsed.get(source);
+  if (!expression) {
+    expression = new Parser(tokenize(source)).parse();
+    parsed.set(source, expression);
+  }
+  return expression;
+}
+
+/** Every field name the expression reads. */
+export function expressionFields(expression: Expression, out: Set<string> = new Set()): Set<string> {
+  switch (expression.kind) {
+    case 'field': out.add(expression.name); break;
+    case 'list': expression.items.forEach(item => expressionFields(item, out)); break;
+    case 'call': expression.args.forEach(arg => expressionFields(arg, out)); break;
+    case 'unary': expressionFields(expression.operand, out); break;
+    case 'binary': expressionFields(expression.left, out); expressionFields(expression.right, out); break;
+    case 'in': expressionFields(expression.value, out); expressionFields(expression.list, out); break;
+  }
+  return out;
+}
+
+function toNumber(value: ExpressionValue): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+function truthy(value: ExpressionValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return value !== 0 && !isNaN(value);
+  return !!value;
+}
+
+function equals(a: ExpressionValue, b: ExpressionValue): boolean {
+  const [x, y] = [toNumber(a), toNumber(b)];
+  if (!isNaN(x) && !isNaN(y) && typeof a !== 'boolean' && typeof b !== 'boolean') return x === y;
+  return String(a) === String(b);
+}
+
+export function evaluateExpression(expression: Expression, scope: ExpressionScope): ExpressionValue {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'field':
+      return scope.values[expression.name] ?? '';
+    case 'list':
+      return expression.items.map(item => evaluateExpression(item, scope));
+    case 'call':
+      return FUNCTIONS[expression.fn].apply(expression.args.map(arg => evaluateExpression(arg, scope)), scope);
+    case 'unary': {
+      const operand = evaluateExpression(expression.operand, scope);
+      return expression.op === 'not' ? !truthy(operand) : -toNumber(operand);
+    }
+    case 'in': {
+      const value = evaluateExpression(expression.value, scope);
+      const list = evaluateExpression(expression.list, scope);
+      const found = Array.isArray(list) ? list.some(item => equals(value, item)) : String(list).includes(String(value));
+      return expression.negated ? !found : found;
+    }
+    case 'binary': {
+      const { op } = expression;
+      if (op === 'and') return truthy(evaluateExpression(expression.left, scope)) && truthy(evaluateExpression(expression.right, scope));
+      if (op === 'or') return truthy(evaluateExpression(expression.left, scope)) || truthy(evaluateExpression(expression.right, scope));
+      const left = evaluateExpression(expression.left, scope);
+      const right = evaluateExpression(expression.right, scope);
+      switch (op) {
+        case '==': return equals(left, right);
+        case '!=': return !equals(left, right);
+        case '<': return toNumber(left) < toNumber(right);
+        case '<=': return toNumber(left) <= toNumber(right);
+        case '>': return toNumber(left) > toNumber(right);
+        case '>=': return toNumber(left) >= toNumber(right);
+        case '+': return toNumber(left) + toNumber(right);
+        case '-': return toNumber(left) - toNumber(right);
+        case '*': return toNumber(left) * toNumber(right);
+        case '/': return toNumber(left) / toNumber(right);
+      }
+      throw new ExpressionError(`Unknown operator "${op}".`, 0);
+    }
+  }
+}
+
+/** Whether an expression holds for the given values. */
+export function expressionHolds(expression: Expression, scope: ExpressionScope): boolean {
+  return truthy(evaluateExpression(expression, scope));
+}
+
+/**
+ * Why `source` cannot be used as a rule expression (bad syntax, or a field
+ * not in `knownFields`), or an empty string when it is fine.
+ */
+export function expressionProblem(source: string, knownFields: string[]): string {
+  if (!source.trim()) return 'Enter an expression.';
+  try {
+    const unknown = [...expressionFields(parseExpression(source))].filter(field => !knownFields.includes(field));
+    return unknown.length > 0 ? `Unknown field${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}.` : '';
+  } catch (err) {
+    if (err instanceof ExpressionError) return `At character ${err.position + 1}: ${err.message}`;
+    throw err;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CandidateFields, CandidateRecord, CandidateSubmission, FieldDefinition, FieldInputType, FormSection } from './types';
+
+/** Fields every entry has; they are stored in their own columns and cannot be removed from the form. */
+export const CORE_FIELDS: (keyof CandidateFields)[] = [
+  'fullName', 'email', 'phone', 'dob', 'qualification', 'gradYear', 'score', 'screeningScore', 'status', 'aadhaar'
+];
+
+/** Keys a submission already uses for something else, so no added field may take them. */
+const RESERVED_NAMES = [
+  'id', 'timestamp', 'offerSent', 'isCgpa', 'exceptions', 'exceptionCount', 'flagged', 'extraFields',
+  'rulesVersion', 'programId', 'program', 'reviewStatus', 'exceptionReviews', 'reviewHistory', 'submittedBy'
+];
+
+export const FORM_SECTIONS: { id: FormSection; title: string; icon: string }[] = [
+  { id: 'personal', title: 'Personal Information', icon: 'User' },
+  { id: 'academic', title: 'Academic Details', icon: 'GraduationCap' },
+  { id: 'identity', title: 'Identity & Status', icon: 'ShieldCheck' }
+];
+
+export const INPUT_TYPES: FieldInputType[] = ['text', 'email', 'tel', 'number', 'date', 'select'];
+
+export const DEFAULT_FORM_SCHEMA: FieldDefinition[] = [
+  { name: 'fullName', label: 'Full Name', input: 'text', section: 'personal', icon: 'User', placeholder: 'John Doe' },
+  { name: 'email', label: 'Email Address', input: 'email', section: 'personal', icon: 'Mail', placeholder: 'john@example.com' },
+  { name: 'phone', label: 'Phone Number', input: 'tel', section: 'personal', icon: 'Phone', placeholder: '10-digit number', maxLength: 10 },
+  { name: 'dob', label: 'Date of Birth', input: 'date', section: 'personal', icon: 'Calendar' },
+  {
+    name: 'qualification', label: 'Highest Qualification', input: 'select', section: 'academic', icon: 'GraduationCap',
+    options: ['B.Tech', 'B.E.', 'B.Sc', 'BCA', 'M.Tech', 'M.Sc', 'MCA', 'MBA']
+  },
+  { name: 'gradYear', label: 'Graduation Year', input: 'number', section: 'academic', icon: 'CalendarDays', placeholder: '2015-2025' },
+  { name: 'score', label: 'Percentage', input: 'number', section: 'academic', icon: 'Percent', placeholder: 'e.g. 85' },
+  { name: 'screeningScore', label: 'Screening Test Score (0-100)', input: 'number', section: 'academic', icon: 'ClipboardCheck', placeholder: 'Score' },
+  { name: 'status', label: 'Interview Status', input: 'select', section: 'identity', icon: 'Clock', options: ['Cleared', 'Waitlisted', 'Rejected'] },
+  { name: 'aadhaar', label: 'Aadhaar Number', input: 'text', section: 'identity', icon: 'ShieldCheck', placeholder: '12-digit number', maxLength: 12 }
+];
+
+export function isCoreField(name: string): name is keyof CandidateFields {
+  return (CORE_FIELDS as string[]).includes(name);
+}
+
+/** A field's value on a submission, whether it is built in or was added in Rules Config. */
+export function fieldValue(entry: CandidateSubmission, name: string): string {
+  if (isCoreField(name)) return entry[name];
+  return entry.extraFields?.[name] ?? '';
+}
+
+/** Built-in and added field values in one flat record, as the rules engine reads them. */
+export function candidateRecord(entry: CandidateFields & { extraFields?: Record<string, string> }): CandidateRecord {
+  const record = { ...entry.extraFields } as CandidateRecord;
+  CORE_FIELDS.forEach(field => {
+    record[field] = entry[field];
+  });
+  return record;
+}
+
+/** Splits flat form state into the built-in fields and the values of fields the schema adds. */
+export function splitCandidate(record: CandidateRecord, schema: FieldDefinition[]): {
+  fields: CandidateFields;
+  extraFields: Record<string, string>;
+} {
+  const fields = {} as CandidateFields;
+  CORE_FIELDS.forEach(field => {
+    fields[field] = record[field] ?? '';
+  });
+  const extraFields: Record<string, string> = {};
+  schema.forEach(definition => {
+    if (!isCoreField(definition.name)) extraFields[definition.name] = record[definition.name] ?? '';
+  });
+  return { fields, extraFields };
+}
+
+/** Empty form state for every field in the schema. */
+export function emptyCandidate(schema: FieldDefinition[]): CandidateRecord {
+  const record = {} as CandidateRecord;
+  CORE_FIELDS.forEach(field => {
+    record[field] = '';
+  });
+  schema.forEach(definition => {
+    record[definition.name] = '';
+  });
+  return record;
+}
+
+/** `workExperienceYears` for a label like "Work Experience (years)". */
+export function fieldNameFromLabel(label: string): string {
+  const words = label.replace(/[^a-zA-Z0-9\s]/g, ' ').trim().split(/\s+/).filter(Boolean);
+  const name = words.map((word, i) => i === 0
+    ? word.toLowerCase()
+    : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+  ).join('');
+  return /^[a-z]/.test(name) ? name : name && `field${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+}
+
+/** Why `name` cannot be used for a field when `taken` are already in use, or an empty string if it can. */
+export function fieldNameProblem(name: string, taken: Iterable<string>): string {
+  if (!/^[a-z][a-zA-Z0-9]*$/.test(name)) {
+    return `"${name}" is not a valid field name; use letters and digits, starting with a lowercase letter.`;
+  }
+  if (RESERVED_NAMES.includes(name)) return `"${name}" is reserved and cannot be used as a field name.`;
+  if ([...taken].includes(name)) return `A field named "${name}" already exists.`;
+  return '';
+}
+
+/** Problems with a form schema, or an empty list when it can be saved. */
+export function validateFormSchema(schema: FieldDefinition[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  schema.forEach(definition => {
+    const { name } = definition;
+    const nameProblem = fieldNameProblem(name, seen);
+    if (nameProblem) problems.push(nameProblem);
+    seen.add(name);
+    if (!definition.label?.trim()) problems.push(`The field "${name}" needs a label.`);
+    if (!INPUT_TYPES.includes(definition.input)) problems.push(`The field "${name}" has an unknown input type.`);
+    if (!FORM_SECTIONS.some(section => section.id === definition.section)) problems.push(`The field "${name}" has an unknown section.`);
+    if (definition.input === 'select' && !definition.options?.some(option => option.trim())) {
+      problems.push(`The field "${name}" needs at least one option.`);
+    }
+  });
+  CORE_FIELDS.forEach(field => {
+    if (!seen.has(field)) problems.push(`The built-in field "${field}" cannot be removed from the form.`);
+  });
+  return problems;
+}
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { candidateRecord } from './formSchema';
+import { validateCandidate, type ValidationInput, type ValidationResult } from './validation';
+import type { AuditLogEntry, RulesConfig } from './types';
+
+export interface ImpactedCandidate {
+  id: number;
+  fullName: string;
+  message: string;
+}
+
+export interface RuleImpact {
+  /** Field name, or the id of a cross-field rule. */
+  field: string;
+  /** Candidates that pass this rule today but would fail it as a strict rule. */
+  newlyBlocked: ImpactedCandidate[];
+  /** Candidates that would get a new warning no recorded exception covers. */
+  newlyWarned: ImpactedCandidate[];
+}
+
+export interface ImpactReport {
+  total: number;
+  /** Candidates that would no longer be submittable at all. */
+  blocked: number;
+  /** Candidates that would cross the manager review threshold. */
+  flagged: number;
+  /** Only rules that change the outcome for at least one candidate. */
+  rules: RuleImpact[];
+}
+
+/**
+ * Rebuilds the form state a log entry was submitted with, minus any waivers a
+ * manager rejected. `referenceDate` is the date of the entry's program.
+ */
+export function logToValidationInput(log: AuditLogEntry, referenceDate?: Date): ValidationInput {
+  const { offerSent, isCgpa, exceptions, exceptionReviews } = log;
+  // A waiver a manager rejected no longer covers its warning.
+  const waived: Record<string, string> = {};
+  Object.entries(exceptions || {}).forEach(([field, rationale]) => {
+    if (exceptionReviews?.[field]?.decision !== 'Rejected') waived[field] = rationale;
+  });
+  return {
+    candidate: candidateRecord(log),
+    isCgpa: !!isCgpa,
+    offerSent: !!offerSent,
+    exceptions: Object.keys(waived).reduce((obj, field) => {
+      obj[field] = true;
+      return obj;
+    }, {} as Record<string, boolean>),
+    rationales: { ...waived },
+    referenceDate
+  };
+}
+
+/** Soft warnings that the candidate has no accepted exception for. */
+function unresolvedWarnings(result: ValidationResult, input: ValidationInput): Record<string, string> {
+  const unresolved: Record<string, string> = {};
+  Object.entries(result.warnings).forEach(([field, message]) => {
+    if (!input.exceptions?.[field] || result.rationaleErrors[field]) {
+      unresolved[field] = message;
+    }
+  });
+  return unresolved;
+}
+
+/**
+ * Replays every logged submission through the validation engine under both the
+ * active and the proposed rules, and reports what the proposal would change.
+ * Pass the entries of one program with its reference date.
+ */
+export function calculateImpact(
+  logs: AuditLogEntry[],
+  currentRules: RulesConfig,
+  pendingRules: RulesConfig,
+  referenceDate?: Date
+): ImpactReport {
+  const byField: Record<string, RuleImpact> = {};
+  const impactFor = (field: string) => {
+    if (!byField[field]) byField[field] = { field, newlyBlocked: [], newlyWarned: [] };
+    return byField[field];
+  };
+
+  let blocked = 0;
+  let flagged = 0;
+
+  logs.forEach(log => {
+    const input = logToValidationInput(log, referenceDate);
+    const before = validateCandidate(input, currentRules);
+    const after = validateCandidate(input, pendingRules);
+    const warnedBefore = unresolvedWarnings(before, input);
+    const warnedAfter = unresolvedWarnings(after, input);
+
+    Object.entries(after.errors).forEach(([field, message]) => {
+      if (!before.errors[field]) {
+        impactFor(field).newlyBlocked.push({ id: log.id, fullName: log.fullName, message });
+      }
+    });
+    Object.entries(warnedAfter).forEach(([field, message]) => {
+      if (!warnedBefore[field]) {
+        impactFor(field).newlyWarned.push({ id: log.id, fullName: log.fullName, message });
+      }
+    });
+
+    if (before.isValid && !after.isValid) blocked++;
+    if (!before.isFlagged && after.isFlagged) flagged++;
+  });
+
+  return {
+    total: logs.length,
+    blocked,
+    flagged,
+    rules: [...Object.keys(pendingRules.fields), ...pendingRules.crossFieldRules.map(rule => rule.id)]
+      .filter(field => byField[field])
+      .map(field => byField[field])
+  };
+}
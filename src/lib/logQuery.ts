@@ -0,0 +1,274 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { localDate } from './analytics';
+import type { AuditLogEntry, FieldDefinition } from './types';
+
+/** Inclusive bounds; null for none. */
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+/** The filters of the logs' filter panel, on top of the search box. */
+export interface LogFilters {
+  /** Local YYYY-MM-DD of submission, inclusive; empty for no bound. */
+  from: string;
+  to: string;
+  /** Empty for any. */
+  qualification: string;
+  gradYear: NumberRange;
+  /** As a percentage; see `percentScore`. */
+  score: NumberRange;
+  screeningScore: NumberRange;
+  exceptions: NumberRange;
+  /** A waived field or cross-field rule id; empty for any. */
+  waived: string;
+}
+
+export const NO_RANGE: NumberRange = { min: null, max: null };
+
+export const EMPTY_LOG_FILTERS: LogFilters = {
+  from: '',
+  to: '',
+  qualification: '',
+  gradYear: NO_RANGE,
+  score: NO_RANGE,
+  screeningScore: NO_RANGE,
+  exceptions: NO_RANGE,
+  waived: ''
+};
+
+/** How many of the panel's filters are set. */
+export function activeFilterCount(filters: LogFilters): number {
+  const ranges = [filters.gradYear, filters.score, filters.screeningScore, filters.exceptions];
+  return [filters.from || filters.to, filters.qualification, filters.waived].filter(Boolean).length +
+    ranges.filter(range => range.min !== null || range.max !== null).length;
+}
+
+/** The score as a percentage, CGPAs counted as ten times their value, so both kinds compare and sort together. */
+export function percentScore(log: AuditLogEntry): number {
+  const score = parseFloat(log.score);
+  if (isNaN(score)) return NaN;
+  return log.isCgpa ? score * 10 : score;
+}
+
+const inRange = (value: number, range: NumberRange) =>
+  (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+
+function rangeMatches(raw: number, range: NumberRange): boolean {
+  if (range.min === null && range.max === null) return true;
+  return !isNaN(raw) && inRange(raw, range);
+}
+
+export function matchesFilters(log: AuditLogEntry, filters: LogFilters): boolean {
+  const day = localDate(new Date(log.timestamp));
+  if (filters.from && day < filters.from) return false;
+  if (filters.to && day > filters.to) return false;
+  if (filters.qualification && log.qualification !== filters.qualification) return false;
+  if (filters.waived && !log.exceptions[filters.waived]?.trim()) return false;
+  return rangeMatches(parseFloat(log.gradYear), filters.gradYear) &&
+    rangeMatches(percentScore(log), filters.score) &&
+    rangeMatches(parseFloat(log.screeningScore), filters.screeningScore) &&
+    rangeMatches(log.exceptionCount, filters.exceptions);
+}
+
+type Operator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+/** One `key:value` or `key>value` term of a query; a bare word has no key. */
+interface Term {
+  key: string | null;
+  operator: Operator;
+  value: string;
+  negated: boolean;
+  /** As typed, for messages. */
+  text: string;
+}
+
+type Predicate = (log: AuditLogEntry) => boolean;
+
+/** What the logs are searched and filtered by, parsed from the search box. */
+export interface LogQuery {
+  test: Predicate;
+  /** Terms that could not be understood, and were left out. */
+  problems: string[];
+}
+
+const TERM = /(-?)(?:([a-z]+)(>=|<=|:|=|>|<))?("([^"]*)"?|\S+)/gi;
+
+function tokenize(query: string): Term[] {
+  return [...query.matchAll(TERM)].map(([text, minus, key, operator, word, quoted]) => ({
+    key: key ? key.toLowerCase() : null,
+    operator: (operator ?? ':') as Operator,
+    value: quoted ?? word,
+    negated: minus === '-',
+    text
+  }));
+}
+
+const yesNo = (value: string): boolean | null =>
+  /^(yes|y|true|1)$/i.test(value) ? true : /^(no|n|false|0)$/i.test(value) ? false : null;
+
+/** Any of the comma-separated values, ignoring case. */
+function oneOf(value: string, actual: (log: AuditLogEntry) => string): Predicate {
+  const wanted = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+  return log => wanted.includes(actual(log).toLowerCase());
+}
+
+function compare(operator: Operator, actual: number | string, wanted: number | string): boolean {
+  switch (operator) {
+    case '>': return actual > wanted;
+    case '>=': return actual >= wanted;
+    case '<': return actual < wanted;
+    case '<=': return actual <= wanted;
+    default: return actual === wanted;
+  }
+}
+
+/** `n`, `>n` and the like, or `a..b` with either end left open. */
+function numberTerm(term: Term, actual: (log: AuditLogEntry) => number): Predicate | string {
+  const range = term.operator === ':' && term.value.match(/^(-?[\d.]*)\.\.(-?[\d.]*)$/);
+  if (range) {
+    const [min, max] = [range[1], range[2]].map(end => end === '' ? null : Number(end));
+    if ([min, max].some(end => end !== null && isNaN(end))) return `"${term.text}" is not a range of numbers.`;
+    return log => rangeMatches(actual(log), { min, max });
+  }
+  const wanted = Number(term.value);
+  if (term.value === '' || isNaN(wanted)) return `"${term.text}" needs a number.`;
+  return log => {
+    const value = actual(log);
+    return !isNaN(value) && compare(term.operator, value, wanted);
+  };
+}
+
+/**
+ * A submission date as YYYY-MM-DD, or a whole month or year as YYYY-MM or
+ * YYYY, compared with the local day the entry was submitted on. `a..b`
+ * covers both ends.
+ */
+function dateTerm(term: Term): Predicate | string {
+  const DATE = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+  const day = (log: AuditLogEntry) => localDate(new Date(log.timestamp));
+  const range = term.operator === ':' && term.value.match(/^([\d-]*)\.\.([\d-]*)$/);
+  if (range) {
+    const [from, to] = [range[1], range[2]];
+    if ([from, to].some(end => end !== '' && !DATE.test(end))) return `"${term.text}" is not a range of dates.`;
+    return log => (from === '' || day(log).slice(0, from.length) >= from) && (to === '' || day(log).slice(0, to.length) <= to);
+  }
+  if (!DATE.test(term.value)) return `"${term.text}" needs a date like 2026-09-15, 2026-09 or 2026.`;
+  return log => compare(term.operator, day(log).slice(0, term.value.length), term.value);
+}
+
+/** The filters the search box understands, with the other names they go by. */
+const KEYS: Record<string, string[]> = {
+  status: ['status'],
+  flagged: ['flagged', 'flag'],
+  offer: ['offer'],
+  cgpa: ['cgpa'],
+  review: ['review'],
+  qualification: ['qualification', 'qual'],
+  program: ['program'],
+  grad: ['grad', 'gradyear'],
+  score: ['score'],
+  screening: ['screening'],
+  exceptions: ['exceptions', 'waivers'],
+  waived: ['waived'],
+  date: ['date', 'submitted']
+};
+
+/**
+ * Parses a search like `status:Waitlisted exceptions>1 qual:MCA`. Bare words
+ * search the name, email and phone. Every term has to match; comma-separated
+ * values match any of them, `-` in front of a term excludes what it matches,
+ * and quotes keep spaces in a value. `form` names the fields `waived:` can
+ * refer to by label.
+ */
+export function parseLogQuery(query: string, form: FieldDefinition[] = []): LogQuery {
+  const problems: string[] = [];
+  const predicates: Predicate[] = [];
+
+  tokenize(query).forEach(term => {
+    const predicate = termPredicate(term, form);
+    if (typeof predicate === 'string') problems.push(predicate);
+    else predicates.push(term.negated ? log => !predicate(log) : predicate);
+  });
+
+  return { test: log => predicates.every(predicate => predicate(log)), problems };
+}
+
+function termPredicate(term: Term, form: FieldDefinition[]): Predicate | string {
+  if (term.key === null) {
+    const word = term.value.toLowerCase();
+    return log => log.fullName.toLowerCase().includes(word) || log.email.toLowerCase().includes(word) || log.phone.includes(word);
+  }
+  const key = Object.keys(KEYS).find(name => KEYS[name].includes(term.key!));
+  if (!key) return `Unknown filter "${term.key}"; try ${Object.keys(KEYS).join(', ')}.`;
+  const textOnly = ['status', 'flagged', 'offer', 'cgpa', 'review', 'qualification', 'program', 'waived'].includes(key);
+  if (textOnly && term.operator !== ':' && term.operator !== '=') return `"${term.text}" can only be compared with ":".`;
+
+  switch (key) {
+    case 'status': return oneOf(term.value, log => log.status);
+    case 'qualification': return oneOf(term.value, log => log.qualification);
+    case 'program': return oneOf(term.value, log => log.program ?? '');
+    case 'review': return oneOf(term.value, log => log.reviewStatus ?? 'none');
+    case 'flagged':
+    case 'offer':
+    case 'cgpa': {
+      const wanted = yesNo(term.value);
+      if (wanted === null) return `"${term.text}" needs yes or no.`;
+      const actual = (log: AuditLogEntry) => key === 'flagged' ? log.flagged : key === 'offer' ? log.offerSent : log.isCgpa;
+      return log => actual(log) === wanted;
+    }
+    case 'waived': {
+      // A field's name or its label on the form.
+      const fields = term.value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean).map(item =>
+        form.find(definition => definition.label.toLowerCase() === item)?.name.toLowerCase() ?? item);
+      return log => Object.entries(log.exceptions).some(([field, rationale]) => rationale.trim() && fields.includes(field.toLowerCase()));
+    }
+    case 'grad': return numberTerm(term, log => parseFloat(log.gradYear));
+    case 'score': return numberTerm(term, percentScore);
+    case 'screening': return numberTerm(term, log => parseFloat(log.screeningScore));
+    case 'exceptions': return numberTerm(term, log => log.exceptionCount);
+    default: return dateTerm(term);
+  }
+}
+
+export type LogSortKey = 'name' | 'score' | 'status' | 'flagged' | 'exceptions' | 'timestamp';
+
+export interface LogSort {
+  key: LogSortKey;
+  direction: 'asc' | 'desc';
+}
+
+/** Newest first, as the logs arrive. */
+export const DEFAULT_LOG_SORT: LogSort = { key: 'timestamp', direction: 'desc' };
+
+/** Which way a column sorts when it is first picked: text A to Z, numbers and dates highest first. */
+export function initialDirection(key: LogSortKey): LogSort['direction'] {
+  return key === 'name' || key === 'status' ? 'asc' : 'desc';
+}
+
+function sortValue(log: AuditLogEntry, key: LogSortKey): number | string {
+  switch (key) {
+    case 'name': return log.fullName.toLowerCase();
+    case 'score': return percentScore(log);
+    case 'status': return log.status;
+    case 'flagged': return log.flagged ? 1 : 0;
+    case 'exceptions': return log.exceptionCount;
+    case 'timestamp': return log.timestamp;
+  }
+}
+
+/** A sorted copy; entries without a value, like a missing score, go last either way, and ties stay newest first. */
+export function sortLogs(logs: AuditLogEntry[], sort: LogSort): AuditLogEntry[] {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  const missing = (value: number | string) => typeof value === 'number' && isNaN(value);
+  return [...logs].sort((a, b) => {
+    const [x, y] = [sortValue(a, sort.key), sortValue(b, sort.key)];
+    if (missing(x) !== missing(y)) return missing(x) ? 1 : -1;
+    if (!missing(x) && x !== y) return (x < y ? -1 : 1) * sign;
+    return b.timestamp.localeCompare(a.timestamp);
+  });
+}
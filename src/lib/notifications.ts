@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { fillText, letterDate } from './offerLetter';
+import type { CandidateSubmission, FieldDefinition, NotificationKind, NotificationStatus } from './types';
+
+export interface EmailContent {
+  subject: string;
+  body: string;
+}
+
+/** The emails AdmitGuard sends, with `{{placeholders}}` filled in when one is queued. */
+export const EMAIL_TEMPLATES: Record<NotificationKind, EmailContent> = {
+  'review.requested': {
+    subject: 'Review requested: {{fullName}} ({{exceptionCount}} exceptions)',
+    body: [
+      'Hello {{reviewer}},',
+      '',
+      '{{submittedBy}} entered {{fullName}} with {{exceptionCount}} rule exceptions, so the entry is waiting in the review queue.',
+      '',
+      'Waived rules:',
+      '{{exceptions}}',
+      '',
+      '{{link}}',
+      '',
+      'AdmitGuard'
+    ].join('\n')
+  },
+  'offer.sent': {
+    subject: 'Your offer of admission to {{program}}',
+    body: [
+      'Dear {{fullName}},',
+      '',
+      'We are pleased to offer you admission to the {{program}} program, starting on {{startDate}}. Your offer letter is attached.',
+      '',
+      'To accept the offer, please confirm by {{acceptBy}}. The offer lapses if it is not accepted by then.',
+      '',
+      'Admissions Office'
+    ].join('\n')
+  }
+};
+
+export const NOTIFICATION_LABELS: Record<NotificationKind, string> = {
+  'review.requested': 'Review request',
+  'offer.sent': 'Offer email'
+};
+
+export const NOTIFICATION_STATUSES: NotificationStatus[] = ['queued', 'sent', 'failed'];
+
+/** Fills in a template; a placeholder left empty takes its blank line with it. */
+function render(kind: NotificationKind, values: Record<string, string>): EmailContent {
+  const template = EMAIL_TEMPLATES[kind];
+  return {
+    subject: fillText(template.subject, values).replace(/\s+/g, ' ').trim(),
+    body: fillText(template.body, values).replace(/\n{3,}/g, '\n\n').trim()
+  };
+}
+
+/** Asks a reviewer to look at an entry the rules flagged. `link` is where the review queue is, if known. */
+export function reviewRequestEmail(
+  entry: CandidateSubmission,
+  form: FieldDefinition[],
+  details: { reviewer: string; submittedBy: string; link: string }
+): EmailContent {
+  const exceptions = Object.entries(entry.exceptions).map(([field, rationale]) => {
+    const label = form.find(definition => definition.name === field)?.label ?? field;
+    return `- ${label}: ${rationale.replace(/\s+/g, ' ').trim()}`;
+  });
+  return render('review.requested', {
+    fullName: entry.fullName,
+    exceptionCount: String(entry.exceptionCount),
+    exceptions: exceptions.join('\n'),
+    reviewer: details.reviewer,
+    submittedBy: details.submittedBy,
+    link: details.link ? `Open the review queue: ${details.link}` : ''
+  });
+}
+
+/** Tells a candidate about their offer; the letter itself goes along as a PDF. */
+export function offerEmail(entry: CandidateSubmission, letter: { program: string; startDate: string; acceptBy: string }): EmailContent {
+  return render('offer.sent', {
+    fullName: entry.fullName,
+    program: letter.program,
+    startDate: letterDate(letter.startDate),
+    acceptBy: letterDate(letter.acceptBy)
+  });
+}
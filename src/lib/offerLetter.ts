@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { fieldValue } from './formSchema';
+import type { CandidateSubmission, FieldDefinition, OfferLetterSettings, RulesConfig } from './types';
+
+export const DEFAULT_OFFER_LETTER: OfferLetterSettings = {
+  template: [
+    '<h1>Offer of Admission</h1>',
+    '<p>{{issueDate}}</p>',
+    '<p>Dear {{fullName}},</p>',
+    '<p>We are pleased to offer you admission to the <strong>{{program}}</strong> program, starting on <strong>{{startDate}}</strong>. ',
+    'Your application, including your {{qualification}} qualification, has been reviewed and accepted by the admissions committee.</p>',
+    '<p>To accept this offer, please confirm by <strong>{{acceptBy}}</strong>. The offer lapses if it is not accepted by then.</p>',
+    '<p>We look forward to welcoming you.</p>',
+    '<p>Yours sincerely,<br>Admissions Office</p>'
+  ].join('\n'),
+  acceptanceDays: 14
+};
+
+/** Values every letter has on top of the candidate's form fields; they win over a form field of the same name. */
+const LETTER_PLACEHOLDERS: Record<string, string> = {
+  program: 'Program',
+  startDate: 'Start date',
+  issueDate: 'Issue date',
+  acceptBy: 'Accept by'
+};
+
+/** Form fields a letter must never print. */
+const PRIVATE_FIELDS = ['aadhaar'];
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}/g;
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/** What a template can use, by placeholder name, with how it is labelled. */
+export function offerPlaceholders(form: FieldDefinition[]): Record<string, string> {
+  const placeholders: Record<string, string> = {};
+  form.filter(definition => !PRIVATE_FIELDS.includes(definition.name)).forEach(definition => {
+    placeholders[definition.name] = definition.label;
+  });
+  return { ...placeholders, ...LETTER_PLACEHOLDERS };
+}
+
+/** Problems with the offer letter settings, one sentence each; empty when they can be saved. */
+export function offerLetterProblems(rules: RulesConfig): string[] {
+  const { template, acceptanceDays } = rules.offerLetter;
+  const problems: string[] = [];
+  if (!template.trim()) problems.push('The offer letter template is empty.');
+  const known = offerPlaceholders(rules.form);
+  const unknown = [...new Set([...template.matchAll(PLACEHOLDER)].map(match => match[1]))].filter(name => !known[name]);
+  if (unknown.length > 0) {
+    problems.push(`The offer letter template uses unknown placeholders: ${unknown.map(name => `{{${name}}}`).join(', ')}.`);
+  }
+  if (!Number.isInteger(acceptanceDays) || acceptanceDays < 1 || acceptanceDays > 365) {
+    problems.push('Offer letters must give between 1 and 365 days to accept.');
+  }
+  return problems;
+}
+
+/**
+ * Why no offer letter can be issued for the entry, or an empty string when
+ * one can: the same statuses the offer-sent rule allows.
+ */
+export function offerProblem(entry: CandidateSubmission, rules: RulesConfig): string {
+  const config = rules.fields.offerSent;
+  const dependency = config?.type === 'strict' ? config.dependency : undefined;
+  const allowed = dependency?.validValues ?? ['Cleared', 'Waitlisted'];
+  const value = fieldValue(entry, dependency?.field ?? 'status');
+  if (allowed.includes(value)) return '';
+  return config?.errorMessage || `Offer letters can only be issued to ${allowed.join(' or ')} candidates.`;
+}
+
+/** A YYYY-MM-DD date as a letter prints it, e.g. "5 March 2026". */
+export function letterDate(isoDate: string): string {
+  const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+  return `${day} ${MONTHS[month - 1]} ${year}`;
+}
+
+/** The YYYY-MM-DD date `days` after an ISO-8601 issue time. */
+export function acceptByDate(issuedAt: string, days: number): string {
+  const date = new Date(`${issuedAt.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Every placeholder's value for one letter, as plain text. */
+export function offerValues(
+  entry: CandidateSubmission,
+  form: FieldDefinition[],
+  letter: { program: string; startDate: string; acceptBy: string; issuedAt: string }
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  form.filter(definition => !PRIVATE_FIELDS.includes(definition.name)).forEach(({ name, input }) => {
+    const value = fieldValue(entry, name);
+    values[name] = input === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? letterDate(value) : value;
+  });
+  return {
+    ...values,
+    program: letter.program,
+    startDate: letterDate(letter.startDate),
+    issueDate: letterDate(letter.issuedAt),
+    acceptBy: letterDate(letter.acceptBy)
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** A plain-text template with its placeholders filled in, e.g. an email. */
+export function fillText(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (_, name: string) => values[name] ?? '');
+}
+
+/** The template with its placeholders filled in; values are escaped, so they can never add markup. */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (_, name: string) => escapeHtml(values[name] ?? ''));
+}
+
+export interface LetterRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+/** A heading, paragraph or list item of a letter; a run of "\n" is a line break. */
+export interface LetterBlock {
+  kind: 'h1' | 'h2' | 'h3' | 'p' | 'li';
+  /** "•" or "1." for list items. */
+  marker?: string;
+  runs: LetterRun[];
+}
+
+const BLOCK_TAGS = ['h1', 'h2', 'h3', 'p', 'li', 'div'];
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : '';
+    }
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Reads a filled-in letter into the blocks a PDF is laid out from. Only
+ * headings, paragraphs, lists, line breaks and bold or italic text carry
+ * over; any other markup keeps its text and loses its formatting.
+ */
+export function letterBlocks(html: string): LetterBlock[] {
+  const blocks: LetterBlock[] = [];
+  const lists: { ordered: boolean; count: number }[] = [];
+  let current: LetterBlock | null = null;
+  let bold = 0;
+  let italic = 0;
+
+  const close = () => {
+    if (current) {
+      // Whitespace at the edges of a block or around a line break is not printed.
+      current.runs = current.runs.filter((run, i, runs) => {
+        if (run.text === '\n') return true;
+        if (i === 0 || runs[i - 1].text === '\n') run.text = run.text.trimStart();
+        if (i === runs.length - 1 || runs[i + 1].text === '\n') run.text = run.text.trimEnd();
+        return run.text.length > 0;
+      });
+      if (current.runs.some(run => run.text !== '\n')) blocks.push(current);
+    }
+    current = null;
+  };
+  const open = (kind: LetterBlock['kind'], marker?: string): LetterBlock => {
+    close();
+    current = { kind, marker, runs: [] };
+    return current;
+  };
+
+  const source = html.replace(/<!--[\s\S]*?-->/g, '').replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, '');
+  for (const [, closing, rawTag, text] of source.matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)[^>]*>|([^<]+)/g)) {
+    if (text !== undefined) {
+      const content = decodeEntities(text.replace(/\s+/g, ' '));
+      if (!content.trim() && !current) continue;
+      (current ?? open('p')).runs.push({ text: content, bold: bold > 0, italic: italic > 0 });
+      continue;
+    }
+    const tag = rawTag.toLowerCase();
+    if (tag === 'br') {
+      (current ?? open('p')).runs.push({ text: '\n', bold: false, italic: false });
+    } else if (tag === 'strong' || tag === 'b') {
+      bold = Math.max(0, bold + (closing ? -1 : 1));
+    } else if (tag === 'em' || tag === 'i') {
+      italic = Math.max(0, italic + (closing ? -1 : 1));
+    } else if (tag === 'ul' || tag === 'ol') {
+      close();
+      if (closing) lists.pop();
+      else lists.push({ ordered: tag === 'ol', count: 0 });
+    } else if (BLOCK_TAGS.includes(tag)) {
+      if (closing) {
+        close();
+      } else if (tag === 'li') {
+        const list = lists[lists.length - 1];
+        if (list) list.count++;
+        open('li', list?.ordered ? `${list.count}.` : '•');
+      } else {
+        open(tag === 'div' ? 'p' : tag as LetterBlock['kind']);
+      }
+    }
+  }
+  close();
+  return blocks;
+}
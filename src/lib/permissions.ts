@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Role } from './types';
+
+/** Which roles may do what. The server enforces it; the UI hides what a role cannot use. */
+export const PERMISSIONS = {
+  submitEntries: ['counsellor', 'manager', 'admin'],
+  /** Counsellors can only reach, and so only edit, the entries they submitted. */
+  editEntries: ['counsellor', 'manager', 'admin'],
+  /** Counsellors only for the entries they submitted, like editing. */
+  issueOfferLetters: ['counsellor', 'manager', 'admin'],
+  /** Without it a user only sees the entries they submitted. */
+  viewAllEntries: ['manager', 'admin'],
+  reviewEntries: ['manager', 'admin'],
+  exportEntries: ['manager', 'admin'],
+  /** Charts over every entry, filterable by counsellor. */
+  viewAnalytics: ['manager', 'admin'],
+  /** Everyone else only ever receives the masked Aadhaar number. */
+  viewFullAadhaar: ['admin'],
+  viewRules: ['manager', 'admin'],
+  editRules: ['admin'],
+  purgeEntries: ['admin'],
+  verifyAuditLog: ['manager', 'admin'],
+  /** The email outbox, including retrying failed emails. */
+  viewNotifications: ['manager', 'admin'],
+  importLegacyData: ['admin'],
+  manageUsers: ['admin']
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ROLES: Role[] = ['counsellor', 'manager', 'admin'];
+
+export function can(role: Role | undefined, permission: Permission): boolean {
+  return !!role && (PERMISSIONS[permission] as Role[]).includes(role);
+}
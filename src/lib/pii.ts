@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * `XXXX-XXXX-1234`: only the last four digits survive. Safe to apply to a
+ * value that is already masked; empty stays empty.
+ */
+export function maskAadhaar(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  if (!digits) return '';
+  return `XXXX-XXXX-${digits.slice(-4)}`;
+}
+
+/** `a***@example.com`: the first character and the domain survive. */
+export function maskEmail(value: string): string {
+  const at = value.lastIndexOf('@');
+  if (at < 1) return value ? '***' : '';
+  return `${value.charAt(0)}***${value.slice(at)}`;
+}
+
+/** `******3210`: only the last four digits survive. */
+export function maskPhone(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  if (!digits) return '';
+  return `${'*'.repeat(Math.max(digits.length - 4, 0))}${digits.slice(-4)}`;
+}
+
+/** `1999-XX-XX`: only the year survives. */
+export function maskDate(value: string): string {
+  const year = value.match(/^\d{4}/)?.[0];
+  return year ? `${year}-XX-XX` : value && 'XXXX-XX-XX';
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Program } from './types';
+
+/** What an admin sets for a program; the rest is derived. */
+export type ProgramSettings = Pick<Program, 'name' | 'opensOn' | 'closesOn' | 'referenceDate' | 'seats'>;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isDate(value: string): boolean {
+  return ISO_DATE.test(value) && !isNaN(new Date(value).getTime());
+}
+
+/** Problems with a program's settings, or an empty list when they can be saved. */
+export function programProblems(settings: ProgramSettings): string[] {
+  const problems: string[] = [];
+  if (!settings.name.trim()) problems.push('A program needs a name.');
+  if (!isDate(settings.opensOn)) problems.push('Enter the date the program opens.');
+  if (!isDate(settings.closesOn)) problems.push('Enter the date the program closes.');
+  if (isDate(settings.opensOn) && isDate(settings.closesOn) && settings.closesOn < settings.opensOn) {
+    problems.push('A program cannot close before it opens.');
+  }
+  if (!isDate(settings.referenceDate)) problems.push('Enter the date ages are worked out on.');
+  if (!Number.isInteger(settings.seats) || settings.seats < 1) problems.push('A program needs at least one seat.');
+  return problems;
+}
+
+/** Today as YYYY-MM-DD in UTC, the way program dates are compared. */
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Why the program takes no submissions on `today` (YYYY-MM-DD), or an empty string while it is open. */
+export function programClosedReason(program: Program, today: string): string {
+  if (today < program.opensOn) return `${program.name} opens for applications on ${program.opensOn}.`;
+  if (today > program.closesOn) return `${program.name} closed for applications on ${program.closesOn}.`;
+  return '';
+}
+
+/**
+ * Why `offers` more entries cannot be marked as offered in the program, or an
+ * empty string while it has the seats; every offer takes a seat.
+ */
+export function seatsProblem(program: Program, offers = 1): string {
+  const left = Math.max(0, program.seats - program.seatsTaken);
+  if (offers <= left) return '';
+  return left === 0
+    ? `${program.name} has no seats left to offer; all ${program.seats} have been offered.`
+    : `Only ${left} of the ${program.seats} seats in ${program.name} are left to offer.`;
+}
+
+/** "Today" for the age checks of entries in the program. */
+export function programReferenceDate(program: Program | undefined): Date | undefined {
+  return program ? new Date(program.referenceDate) : undefined;
+}
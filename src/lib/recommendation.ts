@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ExpressionError, expressionFields, expressionHolds, expressionProblem, parseExpression } from './expression';
+import { expressionFieldNames, expressionScope, type ValidationInput } from './validation';
+import type { RecommendationTier, RecommendationTone, RulesConfig } from './types';
+
+/** What a tier's condition can use on top of the form fields, with what each means. */
+export const RECOMMENDATION_VARIABLES: Record<string, string> = {
+  exceptionCount: 'Waived exceptions with an accepted rationale',
+  flagged: 'Whether the entry is flagged for review',
+  errorCount: 'Strict rules the entry fails (only while it is being filled in)'
+};
+
+export const RECOMMENDATION_TONES: Record<RecommendationTone, string> = {
+  approve: 'Approve',
+  neutral: 'Neutral',
+  caution: 'Caution',
+  reject: 'Reject'
+};
+
+export interface RecommendationInput extends Pick<ValidationInput, 'candidate' | 'isCgpa' | 'offerSent' | 'referenceDate'> {
+  exceptionCount: number;
+  flagged: boolean;
+  errorCount: number;
+}
+
+/** Names a tier condition may use. */
+export function recommendationFieldNames(rules: RulesConfig): string[] {
+  return [...expressionFieldNames(rules), ...Object.keys(RECOMMENDATION_VARIABLES)];
+}
+
+/** Problems with the recommendation tiers of a config, or an empty list when they can be saved. */
+export function recommendationProblems(rules: RulesConfig): string[] {
+  const problems: string[] = [];
+  const known = recommendationFieldNames(rules);
+  const seen = new Set<string>();
+  rules.recommendations.forEach((tier, index) => {
+    if (!/^[a-z][a-zA-Z0-9]*$/.test(tier.id)) {
+      problems.push(`"${tier.id}" is not a valid recommendation id; use letters and digits, starting with a lowercase letter.`);
+    } else if (seen.has(tier.id)) {
+      problems.push(`The recommendation id "${tier.id}" is used twice.`);
+    }
+    seen.add(tier.id);
+    if (!tier.label?.trim()) problems.push(`Recommendation "${tier.id}" needs a label.`);
+    if (!tier.reason?.trim()) problems.push(`Recommendation "${tier.id}" needs a reason.`);
+    if (!RECOMMENDATION_TONES[tier.tone]) problems.push(`Recommendation "${tier.id}" has an unknown tone.`);
+    const conditionError = tier.condition?.trim() ? expressionProblem(tier.condition, known) : '';
+    if (conditionError) problems.push(`Recommendation "${tier.id}": ${conditionError}`);
+    if (!tier.condition?.trim() && index < rules.recommendations.length - 1) {
+      problems.push(`Recommendation "${tier.id}" applies to everyone, so the ones after it are never reached.`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * The first tier whose condition holds for the candidate, or undefined when
+ * none does. Like a cross-field rule, a tier reading a field that is still
+ * empty does not apply, and neither does one that cannot be evaluated.
+ */
+export function recommend(input: RecommendationInput, rules: RulesConfig): RecommendationTier | undefined {
+  const scope = expressionScope(input);
+  scope.values = {
+    ...scope.values,
+    exceptionCount: String(input.exceptionCount),
+    flagged: input.flagged,
+    errorCount: String(input.errorCount)
+  };
+  return rules.recommendations.find(tier => {
+    if (!tier.condition.trim()) return true;
+    try {
+      const condition = parseExpression(tier.condition);
+      if ([...expressionFields(condition)].some(field => scope.values[field] === undefined || scope.values[field] === '')) return false;
+      return expressionHolds(condition, scope);
+    } catch (err) {
+      if (err instanceof ExpressionError) return false;
+      throw err;
+    }
+  });
+}
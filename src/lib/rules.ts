@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_FORM_SCHEMA } from './formSchema';
+import { DEFAULT_OFFER_LETTER } from './offerLetter';
+import type { ExceptionPolicy, FieldRules, RecommendationTier, RulesConfig } from './types';
+
+const INITIAL_FIELD_RULES: FieldRules = {
+  fullName: {
+    type: "strict",
+    required: true,
+    minLength: 2,
+    pattern: /^[a-zA-Z\s]+$/,
+    errorMessage: "Name must be at least 2 characters and contain no numbers.",
+    requiredMessage: "Full Name is required."
+  },
+  email: {
+    type: "strict",
+    required: true,
+    pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    errorMessage: "Please enter a valid email address.",
+    requiredMessage: "Email is required.",
+    duplicateCheck: "warn"
+  },
+  phone: {
+    type: "strict",
+    required: true,
+    pattern: /^[6-9]\d{9}$/,
+    errorMessage: "Phone must be 10 digits starting with 6, 7, 8, or 9.",
+    requiredMessage: "Phone number is required.",
+    duplicateCheck: "warn"
+  },
+  dob: {
+    type: "soft",
+    ageRange: [18, 35],
+    errorMessage: "Age must be between 18 and 35",
+    exceptionAllowed: true
+  },
+  qualification: {
+    type: "strict",
+    required: true,
+    errorMessage: "Please select a qualification."
+  },
+  gradYear: {
+    type: "soft",
+    range: [2015, 2025],
+    errorMessage: "Graduation year is outside the standard range (2015-2025).",
+    exceptionAllowed: true
+  },
+  score: {
+    type: "soft",
+    thresholds: {
+      percentage: 60,
+      cgpa: 6.0
+    },
+    errorMessage: "Score is below the recommended threshold.",
+    exceptionAllowed: true
+  },
+  screeningScore: {
+    type: "soft",
+    min: 40,
+    errorMessage: "Screening score is below the passing mark of 40.",
+    exceptionAllowed: true
+  },
+  status: {
+    type: "strict",
+    required: true,
+    forbidden: "Rejected",
+    errorMessage: "Interview status is required.",
+    forbiddenMessage: "Rejected candidates cannot be enrolled."
+  },
+  aadhaar: {
+    type: "strict",
+    required: true,
+    pattern: /^[2-9]\d{11}$/,
+    checksum: "verhoeff",
+    errorMessage: "Aadhaar must be exactly 12 digits and cannot start with 0 or 1.",
+    checksumMessage: "This is not a valid Aadhaar number; check it for typos.",
+    requiredMessage: "Aadhaar number is required.",
+    duplicateCheck: "block"
+  },
+  offerSent: {
+    type: "strict",
+    dependency: {
+      field: "status",
+      validValues: ["Cleared", "Waitlisted"]
+    },
+    errorMessage: "Offer letter can only be sent to Cleared or Waitlisted candidates."
+  }
+};
+
+export const DEFAULT_EXCEPTION_POLICY: ExceptionPolicy = {
+  minRationaleLength: 30,
+  keywords: ["approved by", "special case", "documentation pending", "waiver granted"],
+  approverPattern: "",
+  reviewThreshold: 3
+};
+
+/** The recommendations AdmitGuard started with; fast-tracking compares CGPA scores on their own 10-point scale. */
+export const DEFAULT_RECOMMENDATIONS: RecommendationTier[] = [
+  { id: "failsRules", label: "Reject", condition: "errorCount > 0", reason: "Fails a strict admission rule.", tone: "reject" },
+  { id: "flagged", label: "Reject", condition: "flagged", reason: "Waived so many exceptions that the entry is flagged for review.", tone: "reject" },
+  { id: "rejected", label: "Reject", condition: "status == 'Rejected'", reason: "The candidate's status is Rejected.", tone: "reject" },
+  { id: "waivers", label: "Review / Waitlist", condition: "exceptionCount > 0", reason: "Meets the core criteria, with waived exceptions.", tone: "caution" },
+  {
+    id: "fastTrack",
+    label: "Fast-track Approve",
+    condition: "screeningScore >= 70 and ((isCgpa and score >= 7) or (not isCgpa and score >= 70))",
+    reason: "Screening score of 70 or more and a score of 70% (or CGPA 7) or more.",
+    tone: "approve"
+  },
+  { id: "standard", label: "Standard Approve", condition: "", reason: "Meets every standard admission criterion.", tone: "neutral" }
+];
+
+export const INITIAL_RULES_CONFIG: RulesConfig = {
+  fields: INITIAL_FIELD_RULES,
+  exceptionPolicy: DEFAULT_EXCEPTION_POLICY,
+  form: DEFAULT_FORM_SCHEMA,
+  crossFieldRules: [],
+  recommendations: DEFAULT_RECOMMENDATIONS,
+  offerLetter: DEFAULT_OFFER_LETTER
+};
+
+/**
+ * Turns a pattern as typed in the Rules Config tab (or stored as a string)
+ * back into a RegExp. Accepts both `/body/flags` and a bare body.
+ */
+export function parsePattern(source: string): RegExp {
+  const match = source.match(/^\/(.*)\/([a-z]*)$/);
+  return match ? new RegExp(match[1], match[2]) : new RegExp(source);
+}
+
+/** Converts a rules config into plain JSON, storing patterns as `/body/flags`. */
+export function serializeRules(rules: RulesConfig): RulesConfig {
+  return JSON.parse(JSON.stringify(rules, (key, value) =>
+    value instanceof RegExp ? value.toString() : value
+  ));
+}
+
+/**
+ * Inverse of `serializeRules`: revives string patterns into RegExp objects.
+ * Also accepts the flat field → rule map stored before the config grew an
+ * exception policy, filling in the default policy, and configs saved before
+ * the form schema, cross-field rules, recommendations or offer letters
+ * existed, filling in the built-in form, no cross-field rules, the default
+ * recommendations and the default letter.
+ */
+export function reviveRules(raw: RulesConfig | FieldRules): RulesConfig {
+  const isLegacy = !('fields' in raw) || typeof raw.fields.type === 'string';
+  const source = (isLegacy ? raw : (raw as RulesConfig).fields) as FieldRules;
+  const policy = isLegacy ? undefined : (raw as RulesConfig).exceptionPolicy;
+  const form = isLegacy ? undefined : (raw as RulesConfig).form;
+  const crossFieldRules = isLegacy ? undefined : (raw as RulesConfig).crossFieldRules;
+  const recommendations = isLegacy ? undefined : (raw as RulesConfig).recommendations;
+  const offerLetter = isLegacy ? undefined : (raw as RulesConfig).offerLetter;
+
+  const fields: FieldRules = {};
+  Object.entries(source).forEach(([field, config]) => {
+    if (config.type === 'strict' && typeof config.pattern === 'string') {
+      fields[field] = { ...config, pattern: parsePattern(config.pattern) };
+    } else {
+      fields[field] = config;
+    }
+  });
+  return {
+    fields,
+    exceptionPolicy: { ...DEFAULT_EXCEPTION_POLICY, ...policy },
+    form: Array.isArray(form) && form.length > 0 ? form : DEFAULT_FORM_SCHEMA,
+    crossFieldRules: Array.isArray(crossFieldRules) ? crossFieldRules : [],
+    recommendations: Array.isArray(recommendations) ? recommendations : DEFAULT_RECOMMENDATIONS,
+    offerLetter: { ...DEFAULT_OFFER_LETTER, ...offerLetter }
+  };
+}
+
+/** Why a pattern as typed in the Rules Config tab does not compile; empty if it does. */
+export function patternProblem(source: string): string {
+  try {
+    parsePattern(source);
+    return '';
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = value => typeof value === 'string';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Check = value => typeof value === 'boolean';
+const isStringList: Check = value => Array.isArray(value) && value.every(isString);
+const isNumberPair: Check = value => Array.isArray(value) && value.length === 2 && value.every(isNumber);
+const oneOf = (...allowed: string[]): Check => value => typeof value === 'string' && allowed.includes(value);
+
+/** What is missing or of the wrong type on `value`, described as `what`; optional keys may be left out. */
+function shapeProblems(what: string, value: unknown, required: Record<string, Check>, optional: Record<string, Check> = {}): string[] {
+  if (!isRecord(value)) return [`${what} is not an object.`];
+  return [
+    ...Object.entries(required).filter(([key, check]) => !check(value[key])).map(([key]) => `${what} needs a valid "${key}".`),
+    ...Object.entries(optional).filter(([key, check]) => value[key] !== undefined && !check(value[key]))
+      .map(([key]) => `${what} has an invalid "${key}".`)
+  ];
+}
+
+function fieldRuleProblems(field: string, rule: unknown): string[] {
+  const what = `The rule for "${field}"`;
+  const problems = shapeProblems(what, rule, { type: oneOf('strict', 'soft'), errorMessage: isString }, {
+    duplicateCheck: oneOf('off', 'warn', 'block'),
+    required: isBoolean,
+    requiredMessage: isString,
+    minLength: isNumber,
+    pattern: isString,
+    forbidden: isString,
+    forbiddenMessage: isString,
+    checksum: oneOf('verhoeff'),
+    checksumMessage: isString,
+    dependency: value => isRecord(value) && isString(value.field) && isStringList(value.validValues),
+    exceptionAllowed: isBoolean,
+    ageRange: isNumberPair,
+    range: isNumberPair,
+    thresholds: value => isRecord(value) && isNumber(value.percentage) && isNumber(value.cgpa),
+    min: isNumber,
+    max: isNumber,
+    rationaleMinLength: isNumber,
+    requiresAttachment: isBoolean
+  });
+  const pattern = isRecord(rule) && typeof rule.pattern === 'string' ? patternProblem(rule.pattern) : '';
+  if (pattern) problems.push(`${what} has an invalid pattern: ${pattern}.`);
+  return problems;
+}
+
+function policyProblems(policy: unknown): string[] {
+  const what = 'The exception policy';
+  const problems = shapeProblems(what, policy, {}, {
+    minRationaleLength: isNumber,
+    keywords: isStringList,
+    approverPattern: isString,
+    reviewThreshold: isNumber
+  });
+  const approver = isRecord(policy) && typeof policy.approverPattern === 'string' && policy.approverPattern
+    ? patternProblem(policy.approverPattern)
+    : '';
+  if (approver) problems.push(`${what} has an invalid approver pattern: ${approver}.`);
+  return problems;
+}
+
+/** Problems with each item of a list in the config, or with the list itself; a list left out gets its default. */
+function listProblems(raw: Record<string, unknown>, key: string, itemProblems: (item: unknown, index: number) => string[]): string[] {
+  const list = raw[key];
+  if (list === undefined) return [];
+  return Array.isArray(list) ? list.flatMap(itemProblems) : [`The rules' "${key}" is not a list.`];
+}
+
+/**
+ * What stops a rules config sent as JSON from being revived: missing parts,
+ * values of the wrong type and patterns that do not compile. Whether the
+ * rules make sense is up to the form schema, cross-field rule,
+ * recommendation and offer letter checks, which expect the types to be right.
+ */
+export function rulesConfigProblems(raw: unknown): string[] {
+  if (!isRecord(raw)) return ['The rules are not an object.'];
+  if (!isRecord(raw.fields)) return ['The rules need a "fields" object with the rule of each field.'];
+  return [
+    ...Object.entries(raw.fields).flatMap(([field, rule]) => fieldRuleProblems(field, rule)),
+    ...(raw.exceptionPolicy === undefined ? [] : policyProblems(raw.exceptionPolicy)),
+    ...listProblems(raw, 'form', (definition, index) => shapeProblems(`Form field ${index + 1}`, definition,
+      { name: isString, label: isString, input: isString, section: isString },
+      { options: isStringList, placeholder: isString, helpText: isString, icon: isString, maxLength: isNumber })),
+    ...listProblems(raw, 'crossFieldRules', (rule, index) => shapeProblems(`Cross-field rule ${index + 1}`, rule,
+      { id: isString, type: oneOf('strict', 'soft'), expression: isString, errorMessage: isString },
+      { when: isString, exceptionAllowed: isBoolean, rationaleMinLength: isNumber, requiresAttachment: isBoolean })),
+    ...listProblems(raw, 'recommendations', (tier, index) => shapeProblems(`Recommendation ${index + 1}`, tier,
+      { id: isString, label: isString, condition: isString, reason: isString, tone: isString })),
+    ...(raw.offerLetter === undefined ? [] : shapeProblems('The offer letter', raw.offerLetter, {}, { template: isString, acceptanceDays: isNumber }))
+  ];
+}
+
+/** Whether a rules config sent as JSON can be revived; see `rulesConfigProblems` for why not. */
+export const isRulesConfig = (raw: unknown): raw is RulesConfig => rulesConfigProblems(raw).length === 0;
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { RulesConfig } from './types';
+
+export interface RuleChange {
+  field: string;
+  /** Dotted path inside the rule, e.g. `thresholds.cgpa`; empty when the whole rule was added or removed. */
+  setting: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+function formatValue(value: unknown): string {
+  if (value instanceof RegExp) return value.toString();
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+/** Flattens nested objects into dotted paths; arrays and patterns stay whole. */
+function flatten(value: unknown, prefix = '', out: Record<string, string> = {}): Record<string, string> {
+  if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof RegExp)) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, nested]) => {
+      flatten(nested, prefix ? `${prefix}.${key}` : key, out);
+    });
+  } else if (value !== undefined) {
+    out[prefix] = formatValue(value);
+  }
+  return out;
+}
+
+function diffSettings(field: string, before: unknown, after: unknown, changes: RuleChange[]) {
+  const oldSettings = flatten(before);
+  const newSettings = flatten(after);
+  [...new Set([...Object.keys(oldSettings), ...Object.keys(newSettings)])].forEach(setting => {
+    const oldValue = oldSettings[setting];
+    const newValue = newSettings[setting];
+    if (oldValue === newValue) return;
+    changes.push({
+      field,
+      setting,
+      kind: oldValue === undefined ? 'added' : newValue === undefined ? 'removed' : 'changed',
+      before: oldValue,
+      after: newValue
+    });
+  });
+}
+
+/**
+ * Field-by-field differences between two rules configurations. Changes to the
+ * exception policy are reported under the pseudo-field `exceptionPolicy`,
+ * recommendation tiers under `recommendations` (settings `tiers.<id>…` and `order`),
+ * cross-field rules under their id, and changes to how a field appears on the
+ * form under settings starting `form`.
+ */
+export function diffRules(before: RulesConfig, after: RulesConfig): RuleChange[] {
+  const changes: RuleChange[] = [];
+  const fields = [...new Set([...Object.keys(before.fields), ...Object.keys(after.fields)])];
+
+  fields.forEach(field => {
+    if (!before.fields[field]) {
+      changes.push({ field, setting: '', kind: 'added' });
+    } else if (!after.fields[field]) {
+      changes.push({ field, setting: '', kind: 'removed' });
+    } else {
+      diffSettings(field, before.fields[field], after.fields[field], changes);
+    }
+  });
+  diffSettings('exceptionPolicy', before.exceptionPolicy, after.exceptionPolicy, changes);
+
+  const tiers = (config: RulesConfig) => ({
+    order: config.recommendations.map(tier => tier.id).join(' → '),
+    tiers: Object.fromEntries(config.recommendations.map(({ id, ...tier }) => [id, tier]))
+  });
+  diffSettings('recommendations', tiers(before), tiers(after), changes);
+
+  const oldCross = new Map(before.crossFieldRules.map(rule => [rule.id, rule]));
+  const newCross = new Map(after.crossFieldRules.map(rule => [rule.id, rule]));
+  [...new Set([...oldCross.keys(), ...newCross.keys()])].forEach(id => {
+    if (!oldCross.has(id)) {
+      changes.push({ field: id, setting: '', kind: 'added' });
+    } else if (!newCross.has(id)) {
+      changes.push({ field: id, setting: '', kind: 'removed' });
+    } else {
+      diffSettings(id, oldCross.get(id), newCross.get(id), changes);
+    }
+  });
+
+  const oldForm = new Map(before.form.map(definition => [definition.name, definition]));
+  const newForm = new Map(after.form.map(definition => [definition.name, definition]));
+  [...new Set([...oldForm.keys(), ...newForm.keys()])].forEach(field => {
+    if (!oldForm.has(field)) {
+      changes.push({ field, setting: 'form', kind: 'added' });
+    } else if (!newForm.has(field)) {
+      changes.push({ field, setting: 'form', kind: 'removed' });
+    } else {
+      diffSettings(field, { form: oldForm.get(field) }, { form: newForm.get(field) }, changes);
+    }
+  });
+
+  return changes;
+}
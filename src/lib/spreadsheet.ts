@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CellValue } from 'exceljs';
+import { parseCsv } from './csv';
+
+function cellText(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('formula' in value || 'sharedFormula' in value) return cellText((value.result ?? null) as CellValue);
+    if ('hyperlink' in value) return String(value.text);
+    return '';
+  }
+  return String(value);
+}
+
+/**
+ * Loaded on demand: the workbook library outweighs the rest of the app. It is
+ * CommonJS, which bundlers may only expose as the default export.
+ */
+async function loadExcel(): Promise<typeof import('exceljs')> {
+  const excel = await import('exceljs');
+  return (excel as unknown as { default?: typeof excel }).default ?? excel;
+}
+
+async function readWorkbook(data: ArrayBuffer): Promise<string[][]> {
+  const { Workbook } = await loadExcel();
+  const workbook = new Workbook();
+  await workbook.xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow(row => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(cellText(row.getCell(column).value));
+    }
+    if (cells.some(cell => cell.trim())) rows.push(cells);
+  });
+  return rows;
+}
+
+/** Rows of cell text from the first sheet of an XLSX file, or from a CSV file. */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) return readWorkbook(await file.arrayBuffer());
+  if (/\.(csv|txt)$/i.test(file.name) || file.type === 'text/csv') return parseCsv(await file.text());
+  throw new Error(`${file.name} is neither a CSV nor an XLSX file.`);
+}
+
+/** An XLSX file with a single sheet: a bold, frozen header row above `rows`. Null cells stay empty. */
+export async function writeWorkbook(sheetName: string, headers: string[], rows: (string | number | boolean | null)[][]): Promise<Blob> {
+  const { Workbook } = await loadExcel();
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet(sheetName, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.addRow(headers).font = { bold: true };
+  sheet.addRows(rows);
+  headers.forEach((header, i) => {
+    sheet.getColumn(i + 1).width = Math.min(Math.max(header.length + 2, 12), 40);
+  });
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
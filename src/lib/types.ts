@@ -0,0 +1,471 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Raw candidate values as captured by the admission form. Every value is kept
+ * as the string the input produced; rules parse numbers and dates themselves.
+ */
+export interface CandidateFields {
+  fullName: string;
+  email: string;
+  phone: string;
+  dob: string;
+  qualification: string;
+  gradYear: string;
+  score: string;
+  screeningScore: string;
+  status: string;
+  aadhaar: string;
+}
+
+/** Candidate values addressable by field name, as the rules engine reads them. */
+export interface CandidateRecord extends CandidateFields {
+  [field: string]: string;
+}
+
+/** Check-digit algorithms a strict rule can require. */
+export type ChecksumType = 'verhoeff';
+
+/** What to do when a value already exists on another entry. */
+export type DuplicateCheck = 'off' | 'warn' | 'block';
+
+interface BaseRule {
+  errorMessage: string;
+  /** Defaults to 'off'. */
+  duplicateCheck?: DuplicateCheck;
+}
+
+/** A rule whose failure blocks submission outright. */
+export interface StrictRule extends BaseRule {
+  type: 'strict';
+  required?: boolean;
+  requiredMessage?: string;
+  minLength?: number;
+  pattern?: RegExp | string;
+  forbidden?: string;
+  forbiddenMessage?: string;
+  checksum?: ChecksumType;
+  checksumMessage?: string;
+  dependency?: {
+    field: string;
+    validValues: string[];
+  };
+}
+
+/** A rule whose failure raises a warning that can be waived with a rationale. */
+export interface SoftRule extends BaseRule {
+  type: 'soft';
+  exceptionAllowed?: boolean;
+  ageRange?: [number, number];
+  range?: [number, number];
+  thresholds?: {
+    percentage: number;
+    cgpa: number;
+  };
+  min?: number;
+  max?: number;
+  /** Overrides the policy's minimum rationale length for waivers of this field. */
+  rationaleMinLength?: number;
+  /** A waiver only counts once a supporting document is attached to it. */
+  requiresAttachment?: boolean;
+}
+
+export type RuleConfig = StrictRule | SoftRule;
+export type FieldRules = Record<string, RuleConfig>;
+
+/**
+ * A rule over the whole candidate, written in the expression language of
+ * `expression.ts`. Its result is keyed by `id` wherever field results are
+ * keyed by field name: errors, warnings and exception waivers.
+ */
+export interface CrossFieldRule {
+  id: string;
+  type: 'strict' | 'soft';
+  /** Must hold for the candidate to pass, e.g. `gradYear - year(dob) >= 20`. */
+  expression: string;
+  /** Only check the rule when this also holds; empty to always check. */
+  when?: string;
+  errorMessage: string;
+  /** Soft rules only: whether a counsellor may waive the warning with a rationale. Defaults to true. */
+  exceptionAllowed?: boolean;
+  rationaleMinLength?: number;
+  requiresAttachment?: boolean;
+}
+
+/** What an exception rationale must contain, and when exceptions need a manager. */
+export interface ExceptionPolicy {
+  minRationaleLength: number;
+  /** The rationale must mention at least one of these (case-insensitive); empty to skip. */
+  keywords: string[];
+  /** Regex source the rationale must match to name its approver; empty to skip. */
+  approverPattern: string;
+  /** Number of active exceptions at which a submission is flagged for manager review. */
+  reviewThreshold: number;
+}
+
+export type FieldInputType = 'text' | 'email' | 'tel' | 'number' | 'date' | 'select';
+export type FormSection = 'personal' | 'academic' | 'identity';
+
+/** How one field appears on the admission form, in the detail view and in exports. */
+export interface FieldDefinition {
+  /** Key of the value on the candidate, and of its rule in `RulesConfig.fields`. */
+  name: string;
+  label: string;
+  input: FieldInputType;
+  section: FormSection;
+  /** Choices for `select` inputs. */
+  options?: string[];
+  placeholder?: string;
+  helpText?: string;
+  /** Name of an icon from the form's icon set, e.g. `Mail`. */
+  icon?: string;
+  maxLength?: number;
+}
+
+export interface RulesConfig {
+  fields: FieldRules;
+  exceptionPolicy: ExceptionPolicy;
+  /** Form fields in display order: the built-in ones plus any added in Rules Config. */
+  form: FieldDefinition[];
+  crossFieldRules: CrossFieldRule[];
+  /** Tried in order; the first tier whose condition holds is the candidate's recommendation. */
+  recommendations: RecommendationTier[];
+  offerLetter: OfferLetterSettings;
+}
+
+/** How a recommendation is shown: green, neutral, amber or red. */
+export type RecommendationTone = 'approve' | 'neutral' | 'caution' | 'reject';
+
+/** One outcome of the recommendation engine, e.g. "Fast-track Approve", and when it applies. */
+export interface RecommendationTier {
+  id: string;
+  label: string;
+  /**
+   * Expression over the form fields, `isCgpa`, `offerSent`, `exceptionCount`,
+   * `flagged` and `errorCount`, in the cross-field rule language. Empty always
+   * holds, for a catch-all last tier.
+   */
+  condition: string;
+  /** Why a candidate gets this recommendation, shown with the label. */
+  reason: string;
+  tone: RecommendationTone;
+}
+
+/** How offer letters are written: see `OFFER_PLACEHOLDERS` for what the template can use. */
+export interface OfferLetterSettings {
+  /** HTML with `{{placeholder}}`s; headings, paragraphs, lists, line breaks and bold or italic text are kept in the PDF. */
+  template: string;
+  /** Days from issue the candidate has to accept, for `{{acceptBy}}`. */
+  acceptanceDays: number;
+}
+
+/** What the admission form sends when a candidate is submitted. */
+export interface CandidateSubmission extends CandidateFields {
+  /** Values of fields added to the form in Rules Config, keyed by field name. */
+  extraFields: Record<string, string>;
+  offerSent: boolean;
+  isCgpa: boolean;
+  /** Rationale per waived field. */
+  exceptions: Record<string, string>;
+  exceptionCount: number;
+  flagged: boolean;
+  /** Uploaded documents to link to the entry, each already tagged with its waived field or none. */
+  attachmentIds?: number[];
+}
+
+/** A supporting document stored with an entry, or uploaded for one not yet submitted. */
+export interface Attachment {
+  id: number;
+  /** The waived field it supports; null for documents about the candidate as a whole. */
+  field: string | null;
+  fileName: string;
+  contentType: string;
+  size: number;
+  /** Hex SHA-256 of the content. */
+  sha256: string;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+export type ReviewStatus = 'Pending Review' | 'Approved' | 'Rejected' | 'Needs Info';
+export type ExceptionDecision = 'Approved' | 'Rejected' | 'Needs Info';
+
+/** A manager's verdict on one waived field. */
+export interface ExceptionReview {
+  decision: ExceptionDecision;
+  comment: string;
+  reviewer: string;
+  decidedAt: string;
+}
+
+/** How specific a waiver's rationale is and how well it answers the warning it waives. */
+export interface RationaleCheck {
+  /** 0 for boilerplate up to 100. */
+  score: number;
+  /** A sentence or two on what the rationale is missing, shown to whoever wrote it. */
+  critique: string;
+  /** The checker that scored it, e.g. "local" or "gemini-2.5-flash". */
+  checker: string;
+  checkedAt: string;
+}
+
+/** One transition of an entry's review status. */
+export interface ReviewEvent {
+  fromStatus: ReviewStatus | null;
+  toStatus: ReviewStatus;
+  reviewer: string;
+  comment: string;
+  createdAt: string;
+}
+
+/** One value changed by editing an entry after it was submitted. */
+export interface FieldChange {
+  /** A form field, `isCgpa`, `offerSent`, or `exception:<field>` for a waiver rationale. */
+  field: string;
+  /** Empty when the value was not set; Aadhaar numbers are recorded masked. */
+  oldValue: string;
+  newValue: string;
+  reason: string;
+  changedBy: string;
+  changedAt: string;
+}
+
+/** A submitted application as kept in the audit log. */
+export interface AuditLogEntry extends CandidateSubmission {
+  id: number;
+  /** ISO-8601 submission time. */
+  timestamp: string;
+  /** Rules version the submission was validated against; null for entries imported from before versioning. */
+  rulesVersion: number | null;
+  /** Intake program the entry was submitted to; null for entries from before programs existed. */
+  programId: number | null;
+  /** The program's name. */
+  program: string | null;
+  /** Null while the entry has never been queued for or given a manager review. */
+  reviewStatus: ReviewStatus | null;
+  /** Latest decision per waived field, once a manager has reviewed it. */
+  exceptionReviews: Record<string, ExceptionReview>;
+  /** Quality check per waived field, where the rationale has been checked. */
+  rationaleChecks: Record<string, RationaleCheck>;
+  /** Oldest first. */
+  reviewHistory: ReviewEvent[];
+  /** Display name of the user who submitted the entry; null for imported entries. */
+  submittedBy: string | null;
+  /** Edits made after submission, oldest first. */
+  changeHistory: FieldChange[];
+  /** Oldest first. */
+  attachments: Attachment[];
+  /** When the latest offer letter was issued; null if none was, even when the offer was marked sent by hand. */
+  offerSentAt: string | null;
+  /** Newest first. */
+  offerLetters: OfferLetter[];
+}
+
+/** A generated offer letter, as stored with the entry it was issued for. */
+export interface OfferLetter {
+  id: number;
+  program: string;
+  /** YYYY-MM-DD. */
+  startDate: string;
+  /** YYYY-MM-DD. */
+  acceptBy: string;
+  /** Rules version whose template wrote the letter. */
+  rulesVersion: number;
+  /** SHA-256 of the PDF. */
+  sha256: string;
+  issuedBy: string;
+  issuedAt: string;
+}
+
+export type NotificationKind = 'review.requested' | 'offer.sent';
+
+/** Queued until delivered; failed once every retry is used up or the mail server refuses it outright. */
+export type NotificationStatus = 'queued' | 'sent' | 'failed';
+
+/** An email in the outbox, as the status view lists it. */
+export interface OutboxMessage {
+  id: number;
+  kind: NotificationKind;
+  candidateId: number | null;
+  recipient: string;
+  subject: string;
+  status: NotificationStatus;
+  /** Delivery attempts so far. */
+  attempts: number;
+  lastError: string | null;
+  /** ISO-8601 time of the next attempt while queued. */
+  nextAttemptAt: string | null;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+/** One immutable, numbered snapshot of the rules configuration. */
+export interface RulesVersion {
+  version: number;
+  /** The program whose rules these are; null for the default rules new programs start from. */
+  program: number | null;
+  rules: RulesConfig;
+  author: string;
+  note: string;
+  /** ISO-8601 time the version was created. */
+  createdAt: string;
+}
+
+/**
+ * An intake cycle candidates apply to, e.g. "Data Science Jan 2027", with its
+ * own rules (see `RulesVersion.program`). Dates are YYYY-MM-DD.
+ */
+export interface Program {
+  id: number;
+  name: string;
+  /** First and last day submissions are taken, inclusive. */
+  opensOn: string;
+  closesOn: string;
+  /** The day candidates' ages are worked out on. */
+  referenceDate: string;
+  seats: number;
+  /** Entries in the program whose offer has been sent. */
+  seatsTaken: number;
+  createdAt: string;
+}
+
+/** Everything typed into the admission form, as a draft keeps it. */
+export interface DraftForm {
+  /** The program the form is filled in for; absent on drafts saved before programs existed. */
+  programId?: number | null;
+  candidate: CandidateRecord;
+  isCgpa: boolean;
+  offerSent: boolean;
+  /** Waiver toggles, kept apart from the rationales so unticking one keeps its text. */
+  exceptions: Record<string, boolean>;
+  rationales: Record<string, string>;
+  /** Documents uploaded for the form so far; absent on drafts saved before attachments existed. */
+  attachments?: Attachment[];
+}
+
+/** An unfinished admission form, saved for the user who was filling it in. */
+export interface Draft {
+  id: number;
+  form: DraftForm;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What an audit event records. */
+export type AuditEventType =
+  | 'log.started'
+  | 'log.keyed'
+  | 'entry.submitted'
+  | 'entry.edited'
+  | 'entry.reviewed'
+  | 'attachment.added'
+  | 'offer.issued'
+  | 'rules.changed'
+  | 'program.created'
+  | 'program.changed'
+  | 'entries.purged';
+
+/**
+ * One link of the tamper-evident audit chain. `hash` is the HMAC-SHA-256, keyed
+ * with a server secret, of the event's content together with `prevHash`, the
+ * hash of the event before it.
+ */
+export interface AuditEvent {
+  /** Consecutive from 1; a gap means an event was removed. */
+  id: number;
+  type: AuditEventType;
+  candidateId: number | null;
+  actor: string;
+  payload: Record<string, unknown>;
+  /** ISO-8601 time the event was recorded. */
+  createdAt: string;
+  prevHash: string;
+  hash: string;
+}
+
+/** A point where the chain does not hold. */
+export interface ChainProblem {
+  eventId: number;
+  kind: 'altered' | 'broken-link' | 'missing' | 'truncated';
+  message: string;
+}
+
+/** A chain's head as noted down outside AdmitGuard, to check later that nothing was cut from the end. */
+export interface ChainAnchor {
+  eventCount: number;
+  headHash: string;
+}
+
+/** The outcome of walking the whole audit chain. */
+export interface ChainVerification {
+  intact: boolean;
+  eventCount: number;
+  /** Hash of the newest event; noting it down lets a later check prove nothing was cut from the end. */
+  headHash: string | null;
+  /** The head the chain was checked against, if one was given. */
+  anchor: ChainAnchor | null;
+  problems: ChainProblem[];
+  verifiedAt: string;
+}
+
+/** An existing entry that shares a value with the one being entered. */
+export interface DuplicateMatch {
+  id: number;
+  fullName: string;
+  status: string;
+  reviewStatus: ReviewStatus | null;
+  /** ISO-8601 submission time. */
+  timestamp: string;
+  submittedBy: string | null;
+  /** Whether the current user may open the entry; counsellors only see their own. */
+  canOpen: boolean;
+}
+
+/** Matches on entries the viewer may not open, which only say that the value is on file. */
+export interface HiddenDuplicate {
+  field: string;
+  exists: true;
+}
+
+/** What a user is told about a duplicate: the entry, if they may open it. */
+export type DuplicateHint = DuplicateMatch | HiddenDuplicate;
+
+/** One spreadsheet row of a bulk import, after its columns are mapped to form fields. */
+export interface BatchRow {
+  candidate: CandidateRecord;
+  isCgpa: boolean;
+  offerSent: boolean;
+  /** Rationale per waived warning. */
+  exceptions: Record<string, string>;
+}
+
+/** What the rules make of one bulk import row. */
+export interface BatchRowResult {
+  errors: Record<string, string>;
+  /** Soft rule failures, whether or not the row waives them. */
+  warnings: Record<string, string>;
+  rationaleErrors: Record<string, string>;
+  /** Existing entries sharing a checked value, per field. */
+  duplicates: Record<string, DuplicateHint[]>;
+  /** Earlier row in the same batch (1-based) sharing a checked value, per field. */
+  repeats: Record<string, number>;
+  /** Whether the row would be stored as it stands. */
+  importable: boolean;
+  /** Id of the entry created from the row, once imported. */
+  id?: number;
+}
+
+export type Role = 'counsellor' | 'manager' | 'admin';
+
+export interface User {
+  id: number;
+  username: string;
+  displayName: string;
+  role: Role;
+  /** Where notifications for the user go; users without one are not emailed. */
+  email: string | null;
+  /** Deactivated users cannot sign in; their past entries keep their name. */
+  active: boolean;
+}
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CHECKSUMS } from './checksums';
+import { ExpressionError, expressionFields, expressionHolds, expressionProblem, parseExpression, type ExpressionScope } from './expression';
+import { parsePattern } from './rules';
+import type { CandidateRecord, CrossFieldRule, ExceptionPolicy, RulesConfig, SoftRule, StrictRule } from './types';
+
+/**
+ * "Today" for age checks without a program, i.e. for entries from before
+ * programs existed, which were all checked against it. A program's entries use
+ * its own reference date.
+ */
+export const DEFAULT_REFERENCE_DATE = new Date("2026-02-26");
+
+export interface ValidationInput {
+  candidate: CandidateRecord;
+  isCgpa: boolean;
+  offerSent: boolean;
+  /** Fields the counsellor has requested an exception waiver for. */
+  exceptions?: Record<string, boolean>;
+  /** Rationale text per waived field. */
+  rationales?: Record<string, string>;
+  /** Number of documents attached per waived field, for waivers that require one. */
+  attachments?: Record<string, number>;
+  referenceDate?: Date;
+}
+
+export interface ValidationResult {
+  /** Strict rule failures, keyed by field. */
+  errors: Record<string, string>;
+  /** Soft rule failures, keyed by field, whether or not they are waived. */
+  warnings: Record<string, string>;
+  /** Waived warnings whose rationale is not acceptable. */
+  rationaleErrors: Record<string, string>;
+  /** Warnings covered by an exception with a valid rationale. */
+  activeExceptionCount: number;
+  isFlagged: boolean;
+  isValid: boolean;
+}
+
+/**
+ * Checks a waiver rationale against the exception policy. Returns the first
+ * problem found, or an empty string when the rationale is acceptable.
+ * `minLength` overrides the policy minimum for a particular field.
+ */
+export function validateRationale(text: string, policy: ExceptionPolicy, minLength = policy.minRationaleLength): string {
+  const keywords = policy.keywords.map(k => k.trim()).filter(Boolean);
+  const hasKeyword = keywords.length === 0 || keywords.some(keyword => text.toLowerCase().includes(keyword.toLowerCase()));
+  const isLongEnough = text.length >= minLength;
+
+  if (!isLongEnough) return `Rationale must be at least ${minLength} characters.`;
+  if (!hasKeyword) return `Rationale must include a valid keyword (e.g., ${keywords.slice(0, 2).map(k => `'${k}'`).join(', ')}).`;
+  if (policy.approverPattern) {
+    let approver: RegExp;
+    try {
+      approver = parsePattern(policy.approverPattern);
+    } catch (e) {
+      return "The approver name pattern in the rules config is not a valid regular expression.";
+    }
+    if (!approver.test(text)) return "Rationale must name the approver in the required format.";
+  }
+  return "";
+}
+
+/** Age in completed years at `referenceDate`. */
+export function calculateAge(dob: string, referenceDate: Date = DEFAULT_REFERENCE_DATE): number {
+  const birthDate = new Date(dob);
+  let age = referenceDate.getFullYear() - birthDate.getFullYear();
+  const m = referenceDate.getMonth() - birthDate.getMonth();
+  if (m < 0 || (m === 0 && referenceDate.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+function checkStrictRule(field: string, config: StrictRule, input: ValidationInput): string | undefined {
+  const { candidate, offerSent } = input;
+  const value = candidate[field];
+
+  // 1. Required check
+  if (config.required && !value && field !== 'offerSent') {
+    return config.requiredMessage || config.errorMessage;
+  }
+
+  // 2. Min length check
+  if (config.minLength && value && String(value).length < config.minLength) {
+    return config.errorMessage;
+  }
+
+  // 3. Pattern check
+  if (config.pattern && value) {
+    const pattern = config.pattern instanceof RegExp ? config.pattern : parsePattern(config.pattern);
+    if (!pattern.test(String(value))) {
+      return config.errorMessage;
+    }
+  }
+
+  // 4. Checksum check
+  if (config.checksum && value && !CHECKSUMS[config.checksum](String(value))) {
+    return config.checksumMessage || config.errorMessage;
+  }
+
+  // 5. Forbidden check
+  if (config.forbidden && value === config.forbidden) {
+    return config.forbiddenMessage;
+  }
+
+  // 6. Dependency check
+  if (config.dependency) {
+    const depValue = candidate[config.dependency.field];
+    const isActive = field === 'offerSent' ? offerSent : !!value;
+    if (isActive && !config.dependency.validValues.includes(depValue)) {
+      return config.errorMessage;
+    }
+  }
+
+  return undefined;
+}
+
+function checkSoftRule(field: string, config: SoftRule, input: ValidationInput): string | undefined {
+  const value = input.candidate[field];
+  if (!value) return undefined;
+
+  if (config.ageRange) {
+    const age = calculateAge(value, input.referenceDate);
+    if (age < config.ageRange[0] || age > config.ageRange[1]) {
+      return `Candidate age is ${age}. ${config.errorMessage}`;
+    }
+  } else if (config.thresholds) {
+    const score = parseFloat(value);
+    if (input.isCgpa) {
+      if (score < config.thresholds.cgpa) return `CGPA is below the recommended ${config.thresholds.cgpa} threshold.`;
+    } else {
+      if (score < config.thresholds.percentage) return `Percentage is below the recommended ${config.thresholds.percentage}% threshold.`;
+    }
+  } else if (config.range) {
+    const number = parseFloat(value);
+    if (number < config.range[0] || number > config.range[1]) {
+      return config.errorMessage;
+    }
+  } else {
+    const number = parseFloat(value);
+    if (config.min !== undefined && number < config.min) return config.errorMessage;
+    if (config.max !== undefined && number > config.max) return config.errorMessage;
+  }
+
+  return undefined;
+}
+
+/** What an expression sees of a candidate: every form field and the form's two toggles. */
+export function expressionScope(input: Pick<ValidationInput, 'candidate' | 'isCgpa' | 'offerSent' | 'referenceDate'>): ExpressionScope {
+  return {
+    values: { ...input.candidate, isCgpa: input.isCgpa, offerSent: input.offerSent },
+    age: date => calculateAge(date, input.referenceDate)
+  };
+}
+
+/**
+ * Returns the rule's message when its expression fails. A rule whose `when`
+ * condition does not hold, or that mentions a field still left empty, does not
+ * apply yet. Throws `ExpressionError` when the rule itself is malformed.
+ */
+function checkCrossFieldRule(rule: CrossFieldRule, input: ValidationInput): string | undefined {
+  const scope = expressionScope(input);
+  const expression = parseExpression(rule.expression);
+  const condition = rule.when?.trim() ? parseExpression(rule.when) : undefined;
+
+  const fields = expressionFields(expression);
+  if (condition) expressionFields(condition, fields);
+  if ([...fields].some(field => scope.values[field] === undefined || scope.values[field] === '')) return undefined;
+
+  if (condition && !expressionHolds(condition, scope)) return undefined;
+  return expressionHolds(expression, scope) ? undefined : rule.errorMessage;
+}
+
+/** Names a cross-field expression may use: every form field plus the form's two toggles. */
+export function expressionFieldNames(rules: RulesConfig): string[] {
+  return [...rules.form.map(definition => definition.name), 'isCgpa', 'offerSent'];
+}
+
+/** Problems with the cross-field rules of a config, or an empty list when they can be saved. */
+export function crossFieldRuleProblems(rules: RulesConfig): string[] {
+  const problems: string[] = [];
+  const known = expressionFieldNames(rules);
+  const seen = new Set<string>();
+  rules.crossFieldRules.forEach(rule => {
+    if (!/^[a-z][a-zA-Z0-9]*$/.test(rule.id)) {
+      problems.push(`"${rule.id}" is not a valid rule id; use letters and digits, starting with a lowercase letter.`);
+    } else if (seen.has(rule.id) || known.includes(rule.id) || rules.fields[rule.id]) {
+      problems.push(`The rule id "${rule.id}" is already used by another rule or field.`);
+    }
+    seen.add(rule.id);
+    const expressionError = expressionProblem(rule.expression, known);
+    if (expressionError) problems.push(`Rule "${rule.id}": ${expressionError}`);
+    const conditionError = rule.when?.trim() ? expressionProblem(rule.when, known) : '';
+    if (conditionError) problems.push(`Rule "${rule.id}" condition: ${conditionError}`);
+    if (!rule.errorMessage?.trim()) problems.push(`Rule "${rule.id}" needs a message.`);
+  });
+  return problems;
+}
+
+/** Waiver settings for a warning: its soft field rule or soft cross-field rule. */
+function waiverSettings(key: string, rules: RulesConfig): {
+  exceptionAllowed?: boolean;
+  rationaleMinLength?: number;
+  requiresAttachment?: boolean;
+} | undefined {
+  const config = rules.fields[key];
+  if (config) return config.type === 'soft' ? config : undefined;
+  return rules.crossFieldRules.find(rule => rule.id === key);
+}
+
+/** Whether a warning may be waived with a rationale at all. */
+export function isWaivable(key: string, rules: RulesConfig): boolean {
+  return waiverSettings(key, rules)?.exceptionAllowed !== false;
+}
+
+/** Shortest rationale a waiver of this warning accepts. */
+export function rationaleMinLength(key: string, rules: RulesConfig): number {
+  return waiverSettings(key, rules)?.rationaleMinLength ?? rules.exceptionPolicy.minRationaleLength;
+}
+
+/** Whether a waiver of this warning only counts with a supporting document attached. */
+export function requiresAttachment(key: string, rules: RulesConfig): boolean {
+  return waiverSettings(key, rules)?.requiresAttachment === true;
+}
+
+/**
+ * Runs every rule in `rules` against a candidate and works out whether the
+ * submission may go through. Pure: the same input always yields the same result.
+ */
+export function validateCandidate(input: ValidationInput, rules: RulesConfig): ValidationResult {
+  const exceptions = input.exceptions || {};
+  const rationales = input.rationales || {};
+  const errors: Record<string, string> = {};
+  const warnings: Record<string, string> = {};
+  const rationaleErrors: Record<string, string> = {};
+
+  Object.entries(rules.fields).forEach(([field, config]) => {
+    if (config.type === 'strict') {
+      const error = checkStrictRule(field, config, input);
+      if (error) errors[field] = error;
+    } else {
+      const warning = checkSoftRule(field, config, input);
+      if (warning) warnings[field] = warning;
+    }
+  });
+
+  rules.crossFieldRules.forEach(rule => {
+    let message: string | undefined;
+    try {
+      message = checkCrossFieldRule(rule, input);
+    } catch (err) {
+      if (!(err instanceof ExpressionError)) throw err;
+      // A broken rule blocks rather than silently passing everyone.
+      errors[rule.id] = `The rule "${rule.id}" cannot be evaluated: ${err.message}`;
+      return;
+    }
+    if (message && rule.type === 'strict') errors[rule.id] = message;
+    if (message && rule.type === 'soft') warnings[rule.id] = message;
+  });
+
+  let activeExceptionCount = 0;
+  Object.keys(warnings).forEach(field => {
+    if (exceptions[field]) {
+      const waiver = waiverSettings(field, rules);
+      if (waiver?.exceptionAllowed === false) {
+        rationaleErrors[field] = "This warning cannot be waived.";
+        return;
+      }
+      const rationaleError = validateRationale(rationales[field] || "", rules.exceptionPolicy, waiver?.rationaleMinLength);
+      if (rationaleError) {
+        rationaleErrors[field] = rationaleError;
+      } else if (waiver?.requiresAttachment && !input.attachments?.[field]) {
+        rationaleErrors[field] = "Attach a supporting document for this exception.";
+      } else if (rationales[field]) {
+        activeExceptionCount++;
+      }
+    }
+  });
+
+  const hasStrictErrors = Object.keys(errors).length > 0;
+
+  const allRequiredFilled = Object.entries(rules.fields).every(([field, config]) => {
+    if (config.type === 'strict' && config.required && field !== 'offerSent') {
+      return !!input.candidate[field];
+    }
+    return true;
+  });
+
+  const unresolvedWarnings = Object.keys(warnings).some(field => {
+    return !exceptions[field] || !!rationaleErrors[field];
+  });
+
+  return {
+    errors,
+    warnings,
+    rationaleErrors,
+    activeExceptionCount,
+    isFlagged: activeExceptionCount >= rules.exceptionPolicy.reviewThreshold,
+    isValid: !hasStrictErrors && allRequiredFilled && !unresolvedWarnings
+  };
+}
@@ -19,6 +19,10 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // The Express API (`npm run server`) owns everything under /api.
+      proxy: {
+        '/api': env.API_URL || 'http://localhost:3001',
+      },
     },
   };
 });